@@ -0,0 +1,22 @@
+-- Migration: Persist Stripe webhook deliveries for idempotent subscription updates
+-- Date: 2026-10-18
+-- Description: Record every processed Stripe event so redelivered webhooks are applied only once,
+-- and index subscriptions by their Stripe identifiers for webhook lookups
+
+-- Processed Stripe events (event id is Stripe's evt_... identifier)
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+    id TEXT PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    stripe_created_at INTEGER NOT NULL,
+    processed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON stripe_webhook_events(event_type);
+
+-- One local row per Stripe subscription
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_stripe_subscription_id ON subscriptions(stripe_subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_stripe_customer_id ON subscriptions(stripe_customer_id);
+
+-- Creation time of the last Stripe event applied to a subscription, used to ignore
+-- events that Stripe delivers out of order
+ALTER TABLE subscriptions ADD COLUMN last_stripe_event_at INTEGER;
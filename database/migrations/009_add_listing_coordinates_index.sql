@@ -0,0 +1,7 @@
+-- Migration: Index listing coordinates for radius searches
+-- Date: 2026-10-18
+-- Description: Support the bounding-box prefilter in location searches. The original
+-- idx_listings_location name was reused for (country, region, city) in 002, so on most
+-- databases no index covers latitude/longitude.
+
+CREATE INDEX IF NOT EXISTS idx_listings_status_coordinates ON listings(status, latitude, longitude);
@@ -0,0 +1,72 @@
+-- Migration: Full-text search index for listings
+-- Date: 2026-10-18
+-- Description: FTS5 index over listing title, description, tags, city and category name,
+-- kept in sync by triggers. remove_diacritics lets "kase" match "Käse" and "cafe" match "café".
+
+CREATE VIRTUAL TABLE IF NOT EXISTS listings_fts USING fts5(
+    listing_id UNINDEXED,
+    title,
+    description,
+    tags,
+    city,
+    category,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+-- Backfill existing listings
+INSERT INTO listings_fts(listing_id, title, description, tags, city, category)
+SELECT
+    l.id,
+    l.title,
+    l.description,
+    (SELECT group_concat(lt.tag, ' ') FROM listing_tags lt WHERE lt.listing_id = l.id),
+    l.city,
+    (SELECT c.name FROM categories c WHERE c.id = l.category)
+FROM listings l;
+
+-- Triggers to keep the FTS index in sync with listings
+CREATE TRIGGER IF NOT EXISTS listings_fts_insert AFTER INSERT ON listings BEGIN
+    INSERT INTO listings_fts(listing_id, title, description, tags, city, category)
+    VALUES (
+        new.id,
+        new.title,
+        new.description,
+        (SELECT group_concat(tag, ' ') FROM listing_tags WHERE listing_id = new.id),
+        new.city,
+        (SELECT name FROM categories WHERE id = new.category)
+    );
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_delete AFTER DELETE ON listings BEGIN
+    DELETE FROM listings_fts WHERE listing_id = old.id;
+END;
+
+-- Only text columns; view counters and status changes don't touch the index
+CREATE TRIGGER IF NOT EXISTS listings_fts_update AFTER UPDATE OF title, description, city, category ON listings BEGIN
+    UPDATE listings_fts SET
+        title = new.title,
+        description = new.description,
+        city = new.city,
+        category = (SELECT name FROM categories WHERE id = new.category)
+    WHERE listing_id = new.id;
+END;
+
+-- Tags live in their own table
+CREATE TRIGGER IF NOT EXISTS listings_fts_tags_insert AFTER INSERT ON listing_tags BEGIN
+    UPDATE listings_fts
+    SET tags = (SELECT group_concat(tag, ' ') FROM listing_tags WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_tags_delete AFTER DELETE ON listing_tags BEGIN
+    UPDATE listings_fts
+    SET tags = (SELECT group_concat(tag, ' ') FROM listing_tags WHERE listing_id = old.listing_id)
+    WHERE listing_id = old.listing_id;
+END;
+
+-- Renaming a category re-labels its listings
+CREATE TRIGGER IF NOT EXISTS listings_fts_category_rename AFTER UPDATE OF name ON categories BEGIN
+    UPDATE listings_fts SET category = new.name
+    WHERE listing_id IN (SELECT id FROM listings WHERE category = new.id);
+END;
@@ -0,0 +1,71 @@
+-- Migration: Embedding sync outbox
+-- Date: 2026-10-18
+-- Description: Queue listing changes for background (cron) embedding updates, and record
+-- which listing version, provider and dimension each stored vector was built from
+
+-- One pending job per listing; repeated edits before the next drain collapse into one
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+    listing_id TEXT PRIMARY KEY,
+    operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')),
+    version INTEGER NOT NULL DEFAULT 1, -- Bumped on every re-enqueue so a running drain can't drop newer work
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    enqueued_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    available_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP -- Retry backoff
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_available ON embedding_jobs(attempts, available_at);
+
+-- Vectors currently stored in Vectorize
+CREATE TABLE IF NOT EXISTS listing_embeddings (
+    listing_id TEXT PRIMARY KEY,
+    vector_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    dimensions INTEGER NOT NULL,
+    listing_updated_at DATETIME NOT NULL, -- listings.updated_at when the vector was generated
+    embedded_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Enqueue on create/update/delete. The drain re-reads the listing, so the operation
+-- is informational: a listing that is gone or inactive always has its vector removed.
+CREATE TRIGGER IF NOT EXISTS listings_embedding_insert AFTER INSERT ON listings BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (new.id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        operation = 'upsert', version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_embedding_update
+AFTER UPDATE OF title, description, category, address, city, region, country, status ON listings BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (new.id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        operation = 'upsert', version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_embedding_delete AFTER DELETE ON listings BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (old.id, 'delete')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        operation = 'delete', version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+-- Tags are part of the embedded text
+CREATE TRIGGER IF NOT EXISTS listing_tags_embedding_insert AFTER INSERT ON listing_tags BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (new.listing_id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listing_tags_embedding_delete AFTER DELETE ON listing_tags BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (old.listing_id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+-- Backfill: embed every active listing once so existing vectors gain provider metadata
+INSERT OR IGNORE INTO embedding_jobs (listing_id, operation)
+SELECT id, 'upsert' FROM listings WHERE status = 'active';
@@ -0,0 +1,29 @@
+-- Migration: Listing moderation workflow
+-- Date: 2026-10-18
+-- Description: Record moderation decisions on listings and keep a history of every
+-- approve / reject / request-changes action with the moderator's reason
+
+-- Latest decision, shown to the listing owner
+ALTER TABLE listings ADD COLUMN moderation_reason TEXT;
+ALTER TABLE listings ADD COLUMN moderated_at DATETIME;
+ALTER TABLE listings ADD COLUMN moderated_by TEXT;
+
+-- Full moderation history
+CREATE TABLE IF NOT EXISTS listing_moderation_actions (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    moderator_id TEXT, -- NULL for owner resubmissions
+    action TEXT NOT NULL CHECK (action IN ('approve', 'reject', 'request_changes', 'resubmit')),
+    reason TEXT,
+    previous_status TEXT NOT NULL,
+    new_status TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (moderator_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_moderation_actions_listing ON listing_moderation_actions(listing_id, created_at);
+
+-- Review queue is read oldest-first by status
+CREATE INDEX IF NOT EXISTS idx_listings_status_created_at ON listings(status, created_at);
@@ -0,0 +1,13 @@
+-- Migration: User account status management
+-- Date: 2026-10-18
+-- Description: Temporary suspensions with a reason, and a revocation timestamp that
+-- invalidates every token issued before it
+
+-- Account is blocked while suspended_until is in the future (is_active stays true)
+ALTER TABLE users ADD COLUMN suspended_until DATETIME;
+ALTER TABLE users ADD COLUMN suspension_reason TEXT;
+
+-- Tokens issued before this moment are rejected
+ALTER TABLE users ADD COLUMN sessions_revoked_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_users_suspended_until ON users(suspended_until);
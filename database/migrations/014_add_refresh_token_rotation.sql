@@ -0,0 +1,17 @@
+-- Migration: Rotating refresh tokens
+-- Date: 2026-10-18
+-- Description: Store one row per refresh token in user_sessions. Tokens issued from the
+-- same login share a family_id; presenting an already-rotated token revokes the family.
+
+ALTER TABLE user_sessions ADD COLUMN family_id TEXT;
+ALTER TABLE user_sessions ADD COLUMN replaced_by TEXT; -- id of the token issued when this one was rotated
+ALTER TABLE user_sessions ADD COLUMN revoked_at DATETIME;
+ALTER TABLE user_sessions ADD COLUMN last_used_at DATETIME;
+ALTER TABLE user_sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE user_sessions ADD COLUMN ip_address TEXT;
+
+-- Rows written before this migration were never used; drop them
+DELETE FROM user_sessions WHERE family_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_token_hash ON user_sessions(token_hash);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_family_id ON user_sessions(family_id);
@@ -0,0 +1,7 @@
+-- Migration: User interface language
+-- Date: 2026-10-18
+-- Description: Language chosen in the app's language switcher. Used for emails and
+-- API messages; NULL means fall back to the request's Accept-Language.
+
+-- Validated in the worker so adding a language doesn't require rebuilding the table
+ALTER TABLE users ADD COLUMN locale TEXT;
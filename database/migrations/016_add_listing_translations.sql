@@ -0,0 +1,87 @@
+-- Migration: Multilingual listing content
+-- Date: 2026-10-18
+-- Description: A listing's title and description stay in the listings row, written in its
+-- primary language; other languages live in listing_translations. Search indexes and
+-- embeddings cover every translation.
+
+-- NULL for listings created before translations existed (language unknown)
+ALTER TABLE listings ADD COLUMN primary_locale TEXT;
+
+CREATE TABLE IF NOT EXISTS listing_translations (
+    listing_id TEXT NOT NULL,
+    locale TEXT NOT NULL, -- Validated in the worker, like users.locale
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (listing_id, locale),
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE
+);
+
+-- FTS5 columns can't be added in place, so the index is rebuilt with a translations
+-- column. The listings triggers from 010 keep working: they name their columns and
+-- leave translations to the triggers below.
+DROP TABLE IF EXISTS listings_fts;
+
+CREATE VIRTUAL TABLE listings_fts USING fts5(
+    listing_id UNINDEXED,
+    title,
+    description,
+    tags,
+    city,
+    category,
+    translations,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+INSERT INTO listings_fts(listing_id, title, description, tags, city, category, translations)
+SELECT
+    l.id,
+    l.title,
+    l.description,
+    (SELECT group_concat(lt.tag, ' ') FROM listing_tags lt WHERE lt.listing_id = l.id),
+    l.city,
+    (SELECT c.name FROM categories c WHERE c.id = l.category),
+    NULL
+FROM listings l;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_insert AFTER INSERT ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || description, ' ') FROM listing_translations WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_update AFTER UPDATE OF title, description ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || description, ' ') FROM listing_translations WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_delete AFTER DELETE ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || description, ' ') FROM listing_translations WHERE listing_id = old.listing_id)
+    WHERE listing_id = old.listing_id;
+END;
+
+-- Translations are part of the embedded text
+CREATE TRIGGER IF NOT EXISTS listing_translations_embedding_insert AFTER INSERT ON listing_translations BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (new.listing_id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listing_translations_embedding_update AFTER UPDATE OF title, description ON listing_translations BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (new.listing_id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listing_translations_embedding_delete AFTER DELETE ON listing_translations BEGIN
+    INSERT INTO embedding_jobs (listing_id, operation) VALUES (old.listing_id, 'upsert')
+    ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP;
+END;
@@ -0,0 +1,47 @@
+-- Migration: Saved searches and new-match alerts
+-- Date: 2026-10-18
+-- Description: Searches saved per user with an alert frequency, and the first time each
+-- listing went live so the alert job can find listings that are new since its last run
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL, -- JSON: { query?, filters? } as sent to /api/listings/search
+    alert_frequency TEXT NOT NULL DEFAULT 'off' CHECK (alert_frequency IN ('off', 'instant', 'daily', 'weekly')),
+    last_checked_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON saved_searches(alert_frequency, last_checked_at);
+
+-- Listings already sent for a search, so a retried run never mails one twice
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+    saved_search_id TEXT NOT NULL,
+    listing_id TEXT NOT NULL,
+    notified_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (saved_search_id, listing_id),
+    FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE
+);
+
+-- Set the first time a listing becomes active (directly or through moderation) and never
+-- moved afterwards, so edits and re-activations don't alert again
+ALTER TABLE listings ADD COLUMN published_at DATETIME;
+
+UPDATE listings SET published_at = created_at WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_listings_published_at ON listings(published_at);
+
+CREATE TRIGGER IF NOT EXISTS listings_published_insert AFTER INSERT ON listings
+WHEN new.status = 'active' AND new.published_at IS NULL BEGIN
+    UPDATE listings SET published_at = CURRENT_TIMESTAMP WHERE id = new.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_published_update AFTER UPDATE OF status ON listings
+WHEN new.status = 'active' AND new.published_at IS NULL BEGIN
+    UPDATE listings SET published_at = CURRENT_TIMESTAMP WHERE id = new.id;
+END;
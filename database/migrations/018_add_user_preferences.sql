@@ -0,0 +1,23 @@
+-- Migration: Notification preferences
+-- Date: 2026-10-18
+-- Description: Per-user email and push notification settings. Users without a row get
+-- the column defaults. Security mail has no column because it can't be turned off.
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+    user_id TEXT PRIMARY KEY,
+
+    -- Email, each also switched off by its one-click unsubscribe link
+    email_new_listings BOOLEAN NOT NULL DEFAULT true, -- Saved search alerts
+    email_favorites BOOLEAN NOT NULL DEFAULT true,
+    email_messages BOOLEAN NOT NULL DEFAULT true,
+    email_listing_updates BOOLEAN NOT NULL DEFAULT true, -- Moderation decisions on own listings
+    email_newsletter BOOLEAN NOT NULL DEFAULT false,
+
+    push_new_listings BOOLEAN NOT NULL DEFAULT false,
+    push_favorites BOOLEAN NOT NULL DEFAULT true,
+    push_messages BOOLEAN NOT NULL DEFAULT true,
+
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
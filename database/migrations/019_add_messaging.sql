@@ -0,0 +1,67 @@
+-- Migration: In-app messaging
+-- Date: 2026-10-18
+-- Description: Conversations between a visitor and the owner of a listing, with blocking
+-- and reports for moderators. Owners can also hide their email and phone from the
+-- listing page and be reached through messages only.
+
+ALTER TABLE listings ADD COLUMN hide_contact_info BOOLEAN NOT NULL DEFAULT false;
+
+-- One thread per listing and visitor; the owner is copied from the listing when it starts
+CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    visitor_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    -- Messages each side hasn't opened yet, reset when they open the thread
+    visitor_unread INTEGER NOT NULL DEFAULT 0,
+    owner_unread INTEGER NOT NULL DEFAULT 0,
+    last_message_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (listing_id, visitor_id),
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (visitor_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_visitor ON conversations(visitor_id, last_message_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_owner ON conversations(owner_id, last_message_at);
+
+CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL,
+    sender_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+    FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at);
+-- Rate limiting counts a sender's recent messages
+CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_id, created_at);
+
+-- Either side of a block stops messages in both directions
+CREATE TABLE IF NOT EXISTS user_blocks (
+    blocker_id TEXT NOT NULL,
+    blocked_id TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (blocker_id, blocked_id),
+    FOREIGN KEY (blocker_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (blocked_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS message_reports (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL,
+    reporter_id TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_by TEXT,
+    resolved_at DATETIME,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+    FOREIGN KEY (reporter_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reports_status ON message_reports(status, created_at);
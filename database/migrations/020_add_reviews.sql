@@ -0,0 +1,91 @@
+-- Migration: Listing reviews and ratings
+-- Date: 2026-10-18
+-- Description: 1-5 star reviews with text and photos, one per user and listing, with
+-- owner replies, helpfulness votes and flags for moderators. The listing keeps the
+-- average and count of its published reviews for sorting and filtering searches.
+
+ALTER TABLE listings ADD COLUMN rating_average REAL; -- NULL until the first review
+ALTER TABLE listings ADD COLUMN rating_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_listings_rating ON listings(rating_average, rating_count);
+
+CREATE TABLE IF NOT EXISTS reviews (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    body TEXT NOT NULL,
+    photos TEXT NOT NULL DEFAULT '[]', -- JSON array of uploaded photo URLs
+    status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'removed')),
+    owner_reply TEXT,
+    owner_reply_at DATETIME,
+    helpful_count INTEGER NOT NULL DEFAULT 0,
+    flag_count INTEGER NOT NULL DEFAULT 0,
+    removed_by TEXT,
+    removed_at DATETIME,
+    removal_reason TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    -- Removed reviews keep their row, so the author can't post again
+    UNIQUE (listing_id, user_id),
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (removed_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_listing ON reviews(listing_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reviews_flagged ON reviews(status, flag_count);
+
+CREATE TABLE IF NOT EXISTS review_votes (
+    review_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (review_id, user_id),
+    FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS review_flags (
+    review_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (review_id, user_id),
+    FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Counters on the review follow its votes and flags
+CREATE TRIGGER IF NOT EXISTS review_votes_ai AFTER INSERT ON review_votes BEGIN
+    UPDATE reviews SET helpful_count = helpful_count + 1 WHERE id = new.review_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS review_votes_ad AFTER DELETE ON review_votes BEGIN
+    UPDATE reviews SET helpful_count = max(helpful_count - 1, 0) WHERE id = old.review_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS review_flags_ai AFTER INSERT ON review_flags BEGIN
+    UPDATE reviews SET flag_count = flag_count + 1 WHERE id = new.review_id;
+END;
+
+-- The listing's rating only counts published reviews, recomputed whenever one changes
+CREATE TRIGGER IF NOT EXISTS reviews_rating_ai AFTER INSERT ON reviews BEGIN
+    UPDATE listings SET
+        rating_average = (SELECT AVG(rating) FROM reviews WHERE listing_id = new.listing_id AND status = 'published'),
+        rating_count = (SELECT COUNT(*) FROM reviews WHERE listing_id = new.listing_id AND status = 'published')
+    WHERE id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS reviews_rating_au AFTER UPDATE OF rating, status ON reviews BEGIN
+    UPDATE listings SET
+        rating_average = (SELECT AVG(rating) FROM reviews WHERE listing_id = new.listing_id AND status = 'published'),
+        rating_count = (SELECT COUNT(*) FROM reviews WHERE listing_id = new.listing_id AND status = 'published')
+    WHERE id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS reviews_rating_ad AFTER DELETE ON reviews BEGIN
+    UPDATE listings SET
+        rating_average = (SELECT AVG(rating) FROM reviews WHERE listing_id = old.listing_id AND status = 'published'),
+        rating_count = (SELECT COUNT(*) FROM reviews WHERE listing_id = old.listing_id AND status = 'published')
+    WHERE id = old.listing_id;
+END;
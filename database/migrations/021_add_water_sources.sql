@@ -0,0 +1,32 @@
+-- Migration: Water source details and status reports
+-- Date: 2026-10-18
+-- Description: Water-specific attributes for listings (potable, season, last test and
+-- lab certificate) and time-stamped status reports from visitors. The listing keeps
+-- the current consensus status so searches can leave out sources that aren't working.
+
+ALTER TABLE listings ADD COLUMN water_potable BOOLEAN; -- NULL when unknown
+ALTER TABLE listings ADD COLUMN water_season_from TEXT; -- "MM-DD"; both NULL when available all year
+ALTER TABLE listings ADD COLUMN water_season_to TEXT;
+ALTER TABLE listings ADD COLUMN water_last_tested_at TEXT; -- "YYYY-MM-DD"
+ALTER TABLE listings ADD COLUMN water_certificate_url TEXT;
+
+-- Consensus of recent reports, recomputed whenever one is submitted
+ALTER TABLE listings ADD COLUMN water_status TEXT CHECK (water_status IN ('working', 'broken', 'dry', 'not_potable'));
+ALTER TABLE listings ADD COLUMN water_status_at DATETIME; -- Latest report counted
+ALTER TABLE listings ADD COLUMN water_status_reports INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS water_status_reports (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('working', 'broken', 'dry', 'not_potable')),
+    note TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_water_status_reports_listing ON water_status_reports(listing_id, created_at);
+-- The cooldown looks up a user's latest report for a listing
+CREATE INDEX IF NOT EXISTS idx_water_status_reports_user ON water_status_reports(user_id, listing_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_listings_water_status ON listings(water_status, water_status_at);
@@ -0,0 +1,89 @@
+-- Migration: Vending machine products and stock reports
+-- Date: 2026-10-18
+-- Description: A product catalogue per listing (name, optional price and unit) with the
+-- latest known stock, set by the owner or by visitors reporting "sold out" or "restocked".
+-- Product names and descriptions are part of the listings search index.
+
+CREATE TABLE IF NOT EXISTS listing_products (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    name TEXT NOT NULL COLLATE NOCASE, -- Unique per listing; bulk updates match on it
+    description TEXT,
+    price REAL, -- NULL when not given
+    currency TEXT NOT NULL DEFAULT 'EUR',
+    unit TEXT, -- e.g. "10 pcs", "1 l", "kg"
+    in_stock BOOLEAN NOT NULL DEFAULT true,
+    stock_updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    stock_updated_by TEXT CHECK (stock_updated_by IN ('owner', 'visitor')),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (listing_id, name),
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_products_listing ON listing_products(listing_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_listing_products_name ON listing_products(name, in_stock);
+
+CREATE TABLE IF NOT EXISTS product_stock_reports (
+    id TEXT PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    listing_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sold_out', 'restocked')),
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (product_id) REFERENCES listing_products(id) ON DELETE CASCADE,
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- The cooldown looks up a user's latest report for a product
+CREATE INDEX IF NOT EXISTS idx_product_stock_reports_user ON product_stock_reports(user_id, product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_product_stock_reports_listing ON product_stock_reports(listing_id, created_at);
+
+-- FTS5 columns can't be added in place, so the index is rebuilt once more with a products
+-- column. The triggers from 010 and 016 name their columns and keep working.
+DROP TABLE IF EXISTS listings_fts;
+
+CREATE VIRTUAL TABLE listings_fts USING fts5(
+    listing_id UNINDEXED,
+    title,
+    description,
+    tags,
+    city,
+    category,
+    translations,
+    products,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+INSERT INTO listings_fts(listing_id, title, description, tags, city, category, translations, products)
+SELECT
+    l.id,
+    l.title,
+    l.description,
+    (SELECT group_concat(lt.tag, ' ') FROM listing_tags lt WHERE lt.listing_id = l.id),
+    l.city,
+    (SELECT c.name FROM categories c WHERE c.id = l.category),
+    (SELECT group_concat(t.title || ' ' || t.description, ' ') FROM listing_translations t WHERE t.listing_id = l.id),
+    NULL
+FROM listings l;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_products_insert AFTER INSERT ON listing_products BEGIN
+    UPDATE listings_fts
+    SET products = (SELECT group_concat(name || ' ' || coalesce(description, ''), ' ') FROM listing_products WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_products_update AFTER UPDATE OF name, description ON listing_products BEGIN
+    UPDATE listings_fts
+    SET products = (SELECT group_concat(name || ' ' || coalesce(description, ''), ' ') FROM listing_products WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_products_delete AFTER DELETE ON listing_products BEGIN
+    UPDATE listings_fts
+    SET products = (SELECT group_concat(name || ' ' || coalesce(description, ''), ' ') FROM listing_products WHERE listing_id = old.listing_id)
+    WHERE listing_id = old.listing_id;
+END;
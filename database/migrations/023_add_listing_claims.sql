@@ -0,0 +1,43 @@
+-- Migration: Listing ownership claims and verified owners
+-- Date: 2026-10-18
+-- Description: Lets the people who run a place take over a listing someone else submitted.
+-- A claim is proven with a code emailed to the listing's contact address, a code published
+-- on the listing's website, or a document an admin reviews. Approving a claim transfers the
+-- listing to the claimant and marks it verified.
+
+ALTER TABLE listings ADD COLUMN is_verified BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE listings ADD COLUMN verified_at DATETIME;
+
+CREATE TABLE IF NOT EXISTS listing_claims (
+    id TEXT PRIMARY KEY,
+    listing_id TEXT NOT NULL,
+    user_id TEXT NOT NULL, -- Claimant
+    method TEXT NOT NULL CHECK (method IN ('email', 'website', 'document')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    message TEXT, -- Claimant's note to the reviewing admin
+
+    -- email: SHA-256 of the code sent to the contact address, never the code itself
+    code_hash TEXT,
+    code_expires_at DATETIME,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    -- website: code the claimant publishes on the listing's website
+    website_code TEXT,
+    -- document: upload reviewed by an admin
+    document_url TEXT,
+
+    previous_owner_id TEXT, -- Set when approved
+    reviewed_by TEXT, -- Admin who decided; NULL when verified automatically
+    review_note TEXT,
+    reviewed_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (listing_id) REFERENCES listings(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (reviewed_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- One open claim per user and listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_claims_pending
+    ON listing_claims(listing_id, user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_listing_claims_user ON listing_claims(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_listing_claims_status ON listing_claims(status, created_at);
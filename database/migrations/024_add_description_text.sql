@@ -0,0 +1,61 @@
+-- Migration: Sanitized listing descriptions
+-- Date: 2026-10-18
+-- Description: Descriptions are stored as sanitized HTML, with a plain-text copy that the
+-- search index uses instead of the markup. Rows written before this migration have no
+-- plain text yet. The HTML sanitizer lives in the worker and can't run in SQL, so the
+-- scheduled handler cleans them in batches (POST /api/admin/listings/sanitize-descriptions
+-- does the same on demand) and reads sanitize them until then.
+
+-- NULL until the row has been through the sanitizer
+ALTER TABLE listings ADD COLUMN description_text TEXT;
+ALTER TABLE listing_translations ADD COLUMN description_text TEXT;
+
+-- Index the plain text, falling back to the stored description for rows not cleaned yet
+DROP TRIGGER IF EXISTS listings_fts_insert;
+DROP TRIGGER IF EXISTS listings_fts_update;
+DROP TRIGGER IF EXISTS listings_fts_translations_insert;
+DROP TRIGGER IF EXISTS listings_fts_translations_update;
+DROP TRIGGER IF EXISTS listings_fts_translations_delete;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_insert AFTER INSERT ON listings BEGIN
+    INSERT INTO listings_fts(listing_id, title, description, tags, city, category)
+    VALUES (
+        new.id,
+        new.title,
+        coalesce(new.description_text, new.description),
+        (SELECT group_concat(tag, ' ') FROM listing_tags WHERE listing_id = new.id),
+        new.city,
+        (SELECT name FROM categories WHERE id = new.category)
+    );
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_update AFTER UPDATE OF title, description, description_text, city, category ON listings BEGIN
+    UPDATE listings_fts SET
+        title = new.title,
+        description = coalesce(new.description_text, new.description),
+        city = new.city,
+        category = (SELECT name FROM categories WHERE id = new.category)
+    WHERE listing_id = new.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_insert AFTER INSERT ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || coalesce(description_text, description), ' ') FROM listing_translations WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_update AFTER UPDATE OF title, description, description_text ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || coalesce(description_text, description), ' ') FROM listing_translations WHERE listing_id = new.listing_id)
+    WHERE listing_id = new.listing_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS listings_fts_translations_delete AFTER DELETE ON listing_translations BEGIN
+    UPDATE listings_fts
+    SET translations = (SELECT group_concat(title || ' ' || coalesce(description_text, description), ' ') FROM listing_translations WHERE listing_id = old.listing_id)
+    WHERE listing_id = old.listing_id;
+END;
+
+-- Finds the rows still waiting for the one-off cleanup
+CREATE INDEX IF NOT EXISTS idx_listings_description_text_pending ON listings(id) WHERE description_text IS NULL;
+CREATE INDEX IF NOT EXISTS idx_listing_translations_description_text_pending ON listing_translations(listing_id, locale) WHERE description_text IS NULL;
@@ -0,0 +1,13 @@
+-- Migration: Shareable favorite collections
+-- Date: 2026-10-18
+-- Description: Public collections get a slug for their share URL (/collections/<slug>),
+-- and listings in a collection keep the order their owner gives them.
+
+-- Set the first time a collection is made public and kept afterwards, so shared links
+-- survive renames and going private for a while
+ALTER TABLE favorite_collections ADD COLUMN slug TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorite_collections_slug ON favorite_collections(slug) WHERE slug IS NOT NULL;
+
+-- Ascending; listings added before reordering existed share 0 and fall back to added_at
+ALTER TABLE collection_listings ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_collection_listings_position ON collection_listings(collection_id, position);
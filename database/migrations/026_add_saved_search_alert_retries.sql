@@ -0,0 +1,9 @@
+-- Migration: Saved search alert retries
+-- Date: 2026-10-19
+-- Description: A search whose digest fails to send is retried with a growing delay instead
+-- of staying at the head of the alert queue, where it would keep working searches from
+-- ever being checked
+
+ALTER TABLE saved_searches ADD COLUMN alert_failures INTEGER NOT NULL DEFAULT 0;
+-- NULL unless the last digest failed
+ALTER TABLE saved_searches ADD COLUMN next_alert_at DATETIME;
@@ -0,0 +1,18 @@
+-- Migration: Listing creation ledger
+-- Date: 2026-10-19
+-- Description: Every listing a user creates is recorded here and kept when the listing
+-- is deleted, so the rolling listing quota counts creations rather than the listings
+-- that still exist. Deleting and re-creating a listing no longer frees up a slot.
+
+CREATE TABLE IF NOT EXISTS listing_creations (
+    listing_id TEXT PRIMARY KEY, -- No foreign key: the row outlives the listing
+    user_id TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_creations_user ON listing_creations(user_id, created_at);
+
+-- Listings created before the ledger existed
+INSERT OR IGNORE INTO listing_creations (listing_id, user_id, created_at)
+SELECT id, user_id, created_at FROM listings WHERE user_id IS NOT NULL;
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+/**
+ * Check translation catalogs against the English source
+ * Every locale must have the same keys, the same {placeholders} and no empty
+ * messages; keys that only exist in a translation are reported as warnings
+ *
+ * Usage:
+ *   node scripts/check-i18n.js
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SOURCE_LOCALE = 'en';
+const CATALOG_DIRS = [
+  path.join(__dirname, '..', 'src', 'react-app', 'i18n', 'locales'),
+  path.join(__dirname, '..', 'src', 'worker', 'i18n', 'locales')
+];
+
+const results = { errors: 0, warnings: 0 };
+
+function report(level, file, message) {
+  if (level === 'error') {
+    results.errors++;
+    console.log(`❌ ${file}: ${message}`);
+  } else {
+    results.warnings++;
+    console.log(`⚠️  ${file}: ${message}`);
+  }
+}
+
+/**
+ * Flatten a catalog into dotted keys; list entries become "key.0", "key.1", ...
+ */
+function flatten(node, prefix = '', entries = {}) {
+  if (typeof node === 'string') {
+    entries[prefix] = node;
+    return entries;
+  }
+  for (const [key, value] of Object.entries(node)) {
+    flatten(value, prefix ? `${prefix}.${key}` : key, entries);
+  }
+  return entries;
+}
+
+function placeholders(message) {
+  return [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort().join(',');
+}
+
+function checkDirectory(dir) {
+  const relativeDir = path.relative(process.cwd(), dir);
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+  const source = flatten(JSON.parse(fs.readFileSync(path.join(dir, `${SOURCE_LOCALE}.json`), 'utf-8')));
+
+  console.log(`\n📁 ${relativeDir} (${Object.keys(source).length} keys, ${files.length} locales)`);
+
+  for (const file of files) {
+    const label = path.join(relativeDir, file);
+    let catalog;
+    try {
+      catalog = flatten(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+    } catch (error) {
+      report('error', label, `invalid JSON (${error.message})`);
+      continue;
+    }
+
+    for (const [key, message] of Object.entries(source)) {
+      if (!(key in catalog)) {
+        report('error', label, `missing key "${key}"`);
+        continue;
+      }
+      if (!catalog[key].trim()) {
+        report('error', label, `empty message for "${key}"`);
+      }
+      if (placeholders(catalog[key]) !== placeholders(message)) {
+        report('error', label, `placeholders for "${key}" differ from ${SOURCE_LOCALE} ({${placeholders(message)}})`);
+      }
+    }
+
+    for (const key of Object.keys(catalog)) {
+      if (!(key in source)) {
+        report('warning', label, `unused key "${key}" (not in ${SOURCE_LOCALE}.json)`);
+      }
+    }
+  }
+}
+
+for (const dir of CATALOG_DIRS) {
+  checkDirectory(dir);
+}
+
+console.log('\n📊 Summary:');
+console.log(`❌ Errors: ${results.errors}`);
+console.log(`⚠️  Warnings: ${results.warnings}`);
+
+if (results.errors > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Replay signed Stripe webhook fixtures against a running worker
+ * Exercises /api/webhooks/stripe without a Stripe account: signature checks,
+ * the subscription lifecycle and idempotent redelivery
+ *
+ * Usage:
+ *   STRIPE_WEBHOOK_SECRET=whsec_test TEST_USER_ID=user-001 node scripts/replay-stripe-webhooks.js
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Configuration
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:8787';
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || 'whsec_test';
+const USER_ID = process.env.TEST_USER_ID || 'user-001';
+const FIXTURES_FILE = path.join(__dirname, 'fixtures', 'stripe-webhook-events.json');
+
+const results = { passed: 0, failed: 0 };
+
+function logResult(name, passed, message = '') {
+  console.log(`${passed ? '✅ PASS' : '❌ FAIL'}: ${name}${message ? ' - ' + message : ''}`);
+  if (passed) {
+    results.passed++;
+  } else {
+    results.failed++;
+  }
+}
+
+/**
+ * Build the Stripe-Signature header for a payload
+ */
+function sign(payload, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Load fixtures, giving each run unique Stripe ids and fresh timestamps
+ */
+function loadEvents() {
+  const runId = Date.now().toString(36);
+  const now = Math.floor(Date.now() / 1000);
+  const periodEnd = now + 30 * 24 * 60 * 60;
+
+  const raw = fs.readFileSync(FIXTURES_FILE, 'utf-8')
+    .replaceAll('{{USER_ID}}', USER_ID)
+    .replaceAll('sub_fixture_001', `sub_fixture_${runId}`)
+    .replaceAll('cus_fixture_001', `cus_fixture_${runId}`);
+
+  return JSON.parse(raw).map((event, index) => {
+    const object = event.data.object;
+    if ('current_period_start' in object) {
+      object.current_period_start = now;
+      object.current_period_end = periodEnd;
+    }
+    for (const line of object.lines?.data || []) {
+      line.period = { start: now, end: periodEnd };
+    }
+    return { ...event, id: `${event.id}_${runId}`, created: now + index };
+  });
+}
+
+async function postEvent(event, signatureHeader) {
+  const payload = JSON.stringify(event);
+  const response = await fetch(`${API_BASE_URL}/api/webhooks/stripe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'stripe-signature': signatureHeader ?? sign(payload)
+    },
+    body: payload
+  });
+  const body = await response.json().catch(() => ({}));
+  return { status: response.status, body };
+}
+
+async function run() {
+  console.log(`🔁 Replaying Stripe fixtures against ${API_BASE_URL} for user ${USER_ID}\n`);
+
+  const events = loadEvents();
+
+  for (const event of events) {
+    const { status, body } = await postEvent(event);
+    logResult(event.type, status === 200 && !body.duplicate, `HTTP ${status}`);
+  }
+
+  // Stripe retries deliveries; the second copy must be ignored
+  const redelivery = await postEvent(events[0]);
+  logResult('Redelivered event is ignored', redelivery.status === 200 && redelivery.body.duplicate === true);
+
+  const forged = await postEvent({ ...events[0], id: `${events[0].id}_forged` }, 't=1,v1=deadbeef');
+  logResult('Invalid signature is rejected', forged.status === 400, `HTTP ${forged.status}`);
+
+  console.log('\n📊 Summary:');
+  console.log(`✅ Passed: ${results.passed}`);
+  console.log(`❌ Failed: ${results.failed}`);
+
+  if (results.failed > 0) {
+    process.exit(1);
+  }
+}
+
+run().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
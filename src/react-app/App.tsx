@@ -2,6 +2,7 @@ import { useState, useEffect, Suspense, lazy } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { FavoritesProvider } from './contexts/FavoritesContext';
 import { PerformanceProvider } from './contexts/PerformanceContext';
+import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import GlobalLoadingIndicator from './components/common/GlobalLoadingIndicator';
 import PageLoader from './components/common/PageLoader';
 
@@ -11,6 +12,7 @@ import AuthPage from './components/auth/AuthPage';
 import EmailVerification from './components/auth/EmailVerification';
 import PasswordReset from './components/auth/PasswordReset';
 import UserDropdown from './components/header/UserDropdown';
+import LanguageSwitcher from './components/common/LanguageSwitcher';
 import Footer from './components/Footer';
 import Sidebar from './components/Sidebar';
 
@@ -29,12 +31,17 @@ const FavoritesPage = lazy(() => import('./components/favorites/FavoritesPage'))
 const AdminPanel = lazy(() => import('./components/admin/AdminPanel'));
 const UserManagement = lazy(() => import('./components/admin/UserManagement'));
 const ListingManagement = lazy(() => import('./components/admin/ListingManagement'));
+const MessagesPage = lazy(() => import('./components/messages/MessagesPage'));
+const PublicCollectionPage = lazy(() => import('./components/favorites/PublicCollectionPage'));
 
 function AppContent() {
   const { isAuthenticated, isLoading, user } = useAuth();
-  type PageType = 'landing' | 'auth' | 'verify-email' | 'reset-password' | 'app' | 'search' | 'subscription' | 'dashboard' | 'listings' | 'favorites' | 'profile' | 'settings' | 'messages' | 'admin' | 'users' | 'admin-listings' | 'analytics' | 'privacy-policy' | 'terms-of-service' | 'cookie-policy' | 'data-protection' | 'imprint';
+  const { t } = useLanguage();
+  type PageType = 'landing' | 'auth' | 'verify-email' | 'reset-password' | 'app' | 'search' | 'subscription' | 'dashboard' | 'listings' | 'favorites' | 'profile' | 'settings' | 'messages' | 'admin' | 'users' | 'admin-listings' | 'analytics' | 'privacy-policy' | 'terms-of-service' | 'cookie-policy' | 'data-protection' | 'imprint' | 'collection';
 
   const [currentPage, setCurrentPage] = useState<PageType>('landing');
+  // Slug of the shared collection shown on the 'collection' page
+  const [collectionSlug, setCollectionSlug] = useState('');
 
   // Navigation helper function for Footer
   const handlePageNavigation = (page: string) => {
@@ -44,7 +51,7 @@ function AppContent() {
   };
 
   const isValidPageType = (page: string): page is PageType => {
-    const validPages: PageType[] = ['landing', 'auth', 'verify-email', 'reset-password', 'app', 'search', 'subscription', 'dashboard', 'listings', 'favorites', 'profile', 'settings', 'messages', 'admin', 'users', 'admin-listings', 'analytics', 'privacy-policy', 'terms-of-service', 'cookie-policy', 'data-protection', 'imprint'];
+    const validPages: PageType[] = ['landing', 'auth', 'verify-email', 'reset-password', 'app', 'search', 'subscription', 'dashboard', 'listings', 'favorites', 'profile', 'settings', 'messages', 'admin', 'users', 'admin-listings', 'analytics', 'privacy-policy', 'terms-of-service', 'cookie-policy', 'data-protection', 'imprint', 'collection'];
     return validPages.includes(page as PageType);
   };
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -103,6 +110,9 @@ function AppContent() {
     else if (pathname === '/subscription') {
       setCurrentPage('subscription');
     }
+    else if (pathname === '/messages') {
+      setCurrentPage('messages');
+    }
     else if (pathname === '/privacy-policy') {
       setCurrentPage('privacy-policy');
     }
@@ -118,6 +128,10 @@ function AppContent() {
     else if (pathname === '/imprint') {
       setCurrentPage('imprint');
     }
+    else if (pathname.startsWith('/collections/')) {
+      setCollectionSlug(decodeURIComponent(pathname.substring('/collections/'.length)));
+      setCurrentPage('collection');
+    }
   }, []);
 
   // Update URL when page changes (simple history management)
@@ -131,12 +145,14 @@ function AppContent() {
           case 'dashboard': return '/dashboard';
           case 'search': return '/search';
           case 'subscription': return '/subscription';
+          case 'messages': return '/messages';
           case 'admin': return '/admin';
           case 'privacy-policy': return '/privacy-policy';
           case 'terms-of-service': return '/terms-of-service';
           case 'cookie-policy': return '/cookie-policy';
           case 'data-protection': return '/data-protection';
           case 'imprint': return '/imprint';
+          case 'collection': return `/collections/${encodeURIComponent(collectionSlug)}`;
           default: return '/';
         }
       })();
@@ -147,7 +163,7 @@ function AppContent() {
     };
 
     updateURL();
-  }, [currentPage]);
+  }, [currentPage, collectionSlug]);
 
   const handleNavigation = (page: string) => {
     setCurrentPage(page as 'dashboard' | 'search' | 'listings' | 'favorites' | 'subscription' | 'profile');
@@ -169,7 +185,7 @@ function AppContent() {
             <span className="text-white font-bold text-xl">K</span>
           </div>
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Loading...</p>
+          <p className="mt-4 text-gray-600">{t('common.loading')}</p>
         </div>
       </div>
     );
@@ -245,6 +261,17 @@ function AppContent() {
         </div>
       );
     }
+    // Shared collections (read-only, accessible without authentication)
+    if (currentPage === 'collection') {
+      return (
+        <div className="min-h-screen flex flex-col">
+          <Suspense fallback={<PageLoader loadingKey="collection" showProgress={true} />}>
+            <PublicCollectionPage slug={collectionSlug} onNavigateToAuth={() => setCurrentPage('auth')} />
+          </Suspense>
+          <Footer onNavigateToPage={handlePageNavigation} />
+        </div>
+      );
+    }
     return (
       <div className="min-h-screen flex flex-col">
         <LandingPage
@@ -297,27 +324,31 @@ function AppContent() {
 
                 <div>
                   <h1 className="text-xl font-semibold text-gray-900">
-                    {currentPage === 'dashboard' ? 'Dashboard' :
-                     currentPage === 'search' ? 'Search Resources' :
-                     currentPage === 'listings' ? 'My Listings' :
-                     currentPage === 'favorites' ? 'My Favorites' :
-                     currentPage === 'profile' ? 'My Profile' :
-                     currentPage === 'settings' ? 'Settings' :
-                     currentPage === 'messages' ? 'Messages' :
-                     currentPage === 'admin' ? 'Admin Panel' :
-                     currentPage === 'users' ? 'User Management' :
-                     currentPage === 'admin-listings' ? 'Listing Management' :
-                     currentPage === 'analytics' ? 'Analytics' :
+                    {currentPage === 'dashboard' ? t('app.pageTitles.dashboard') :
+                     currentPage === 'search' ? t('app.pageTitles.search') :
+                     currentPage === 'listings' ? t('app.pageTitles.listings') :
+                     currentPage === 'favorites' ? t('app.pageTitles.favorites') :
+                     currentPage === 'profile' ? t('app.pageTitles.profile') :
+                     currentPage === 'settings' ? t('app.pageTitles.settings') :
+                     currentPage === 'messages' ? t('app.pageTitles.messages') :
+                     currentPage === 'admin' ? t('app.pageTitles.admin') :
+                     currentPage === 'users' ? t('app.pageTitles.users') :
+                     currentPage === 'admin-listings' ? t('app.pageTitles.adminListings') :
+                     currentPage === 'analytics' ? t('app.pageTitles.analytics') :
+                     currentPage === 'subscription' ? t('app.pageTitles.subscription') :
+                     currentPage === 'collection' ? t('app.pageTitles.collection') :
                      currentPage.charAt(0).toUpperCase() + currentPage.slice(1)}
                   </h1>
-                  <p className="text-sm text-gray-500">Welcome back, {user?.firstName}!</p>
+                  <p className="text-sm text-gray-500">{t('app.welcomeBack', { name: user?.firstName ?? '' })}</p>
                 </div>
               </div>
 
               <div className="flex items-center space-x-4">
+                <LanguageSwitcher className="hidden sm:block" />
                 <UserDropdown
                   onNavigateToProfile={() => setCurrentPage('profile')}
                   onNavigateToSearch={() => setCurrentPage('search')}
+                  onNavigateToMessages={() => setCurrentPage('messages')}
                 />
               </div>
             </div>
@@ -371,8 +402,8 @@ function AppContent() {
 
           {currentPage === 'profile' && (
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">My Profile</h2>
-              <p className="text-gray-600">Profile management coming soon...</p>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('app.pageTitles.profile')}</h2>
+              <p className="text-gray-600">{t('app.profileComingSoon')}</p>
             </div>
           )}
 
@@ -385,10 +416,9 @@ function AppContent() {
           )}
 
           {currentPage === 'messages' && (
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">Messages</h2>
-              <p className="text-gray-600">Messaging system coming soon...</p>
-            </div>
+            <Suspense fallback={<PageLoader loadingKey="messages" showProgress={true} />}>
+              <MessagesPage />
+            </Suspense>
           )}
 
           {currentPage === 'admin' && user?.role === 'admin' && (
@@ -405,8 +435,8 @@ function AppContent() {
 
           {currentPage === 'analytics' && user?.role === 'admin' && (
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">Analytics</h2>
-              <p className="text-gray-600">Analytics dashboard coming soon...</p>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('app.pageTitles.analytics')}</h2>
+              <p className="text-gray-600">{t('app.analyticsComingSoon')}</p>
             </div>
           )}
 
@@ -415,6 +445,12 @@ function AppContent() {
               <SubscriptionPage />
             </Suspense>
           )}
+
+          {currentPage === 'collection' && (
+            <Suspense fallback={<PageLoader loadingKey="collection" showProgress={true} />}>
+              <PublicCollectionPage slug={collectionSlug} />
+            </Suspense>
+          )}
         </main>
 
         {/* Footer */}
@@ -428,10 +464,12 @@ function App() {
   return (
     <PerformanceProvider>
       <AuthProvider>
-        <FavoritesProvider>
-          <GlobalLoadingIndicator />
-          <AppContent />
-        </FavoritesProvider>
+        <LanguageProvider>
+          <FavoritesProvider>
+            <GlobalLoadingIndicator />
+            <AppContent />
+          </FavoritesProvider>
+        </LanguageProvider>
       </AuthProvider>
     </PerformanceProvider>
   );
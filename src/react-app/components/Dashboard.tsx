@@ -73,14 +73,14 @@ const transformListingsToLocations = (listings: any[]): Location[] => {
     },
     images: listing.images || [],
     thumbnail: listing.images?.[0] || '/api/placeholder/300/200',
-    rating: listing.rating || 0,
+    rating: listing.averageRating || 0,
     reviews: listing.reviewCount || 0,
     price: listing.price,
     priceType: listing.price ? 'paid' : 'free',
     tags: listing.tags || [],
     createdBy: listing.user_id || listing.userId,
     createdAt: listing.created_at || listing.createdAt,
-    isVerified: listing.is_certified || false,
+    isVerified: listing.isVerified || listing.is_verified || false,
     isFeatured: false,
     views: listing.views || 0,
     favorites: 0,
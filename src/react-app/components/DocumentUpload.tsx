@@ -124,10 +124,16 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
         throw new Error('Failed to get upload URL');
       }
 
-      const { uploadUrl, documentId, r2Key } = await signedUrlResponse.json();
+      const { uploadUrl } = await signedUrlResponse.json();
 
       // Step 2: Upload file with progress tracking
       const xhr = new XMLHttpRequest();
+      // Errors thrown in the XHR callbacks would never reach the catch below
+      const fail = () => {
+        onError?.('Upload failed');
+        setIsUploading(false);
+        setUploadProgress(0);
+      };
       
       xhr.upload.addEventListener('progress', (e) => {
         if (e.lengthComputable) {
@@ -138,13 +144,15 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
 
       xhr.addEventListener('load', () => {
         if (xhr.status === 200) {
+          // The upload response has the file's final id and public URL
+          const { fileId, url } = JSON.parse(xhr.responseText);
           const document: DocumentItem = {
-            id: documentId,
+            id: fileId,
             fileName: file.name,
             fileType: file.type,
             fileSize: file.size,
             uploadDate: new Date().toISOString(),
-            url: `/files/${r2Key}`,
+            url,
             documentType
           };
           
@@ -157,15 +165,14 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
             setUploadProgress(0);
           }, 1000);
         } else {
-          throw new Error('Upload failed');
+          fail();
         }
       });
 
-      xhr.addEventListener('error', () => {
-        throw new Error('Upload failed');
-      });
+      xhr.addEventListener('error', fail);
 
       xhr.open('POST', uploadUrl);
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
       xhr.setRequestHeader('Content-Type', file.type);
       xhr.send(file);
 
@@ -1,10 +1,12 @@
 import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface FooterProps {
   onNavigateToPage?: (page: string) => void;
 }
 
 const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
+  const { t } = useLanguage();
   const currentYear = new Date().getFullYear();
 
   const handleLinkClick = (page: string) => {
@@ -26,8 +28,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
               <span className="text-xl font-bold text-gray-900">Kisigua</span>
             </div>
             <p className="text-gray-600 text-sm mb-4 max-w-md">
-              Connecting communities with sustainable local producers and eco-friendly resources. 
-              Supporting local economies while promoting environmental responsibility.
+              {t('footer.description')}
             </p>
             <div className="flex space-x-4">
               {/* Social Media Links */}
@@ -36,7 +37,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-gray-400 hover:text-green-600 transition-colors"
-                aria-label="Follow us on Twitter"
+                aria-label={t('footer.followTwitter')}
               >
                 <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                   <path d="M23.953 4.57a10 10 0 01-2.825.775 4.958 4.958 0 002.163-2.723c-.951.555-2.005.959-3.127 1.184a4.92 4.92 0 00-8.384 4.482C7.69 8.095 4.067 6.13 1.64 3.162a4.822 4.822 0 00-.666 2.475c0 1.71.87 3.213 2.188 4.096a4.904 4.904 0 01-2.228-.616v.06a4.923 4.923 0 003.946 4.827 4.996 4.996 0 01-2.212.085 4.936 4.936 0 004.604 3.417 9.867 9.867 0 01-6.102 2.105c-.39 0-.779-.023-1.17-.067a13.995 13.995 0 007.557 2.209c9.053 0 13.998-7.496 13.998-13.985 0-.21 0-.42-.015-.63A9.935 9.935 0 0024 4.59z"/>
@@ -47,7 +48,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-gray-400 hover:text-green-600 transition-colors"
-                aria-label="Follow us on LinkedIn"
+                aria-label={t('footer.followLinkedIn')}
               >
                 <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                   <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
@@ -58,7 +59,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-gray-400 hover:text-green-600 transition-colors"
-                aria-label="Follow us on Instagram"
+                aria-label={t('footer.followInstagram')}
               >
                 <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                   <path d="M12.017 0C5.396 0 .029 5.367.029 11.987c0 6.62 5.367 11.987 11.988 11.987s11.987-5.367 11.987-11.987C24.004 5.367 18.637.001 12.017.001zM8.449 16.988c-1.297 0-2.448-.49-3.323-1.297C4.198 14.895 3.708 13.744 3.708 12.447s.49-2.448 1.418-3.323c.875-.807 2.026-1.297 3.323-1.297s2.448.49 3.323 1.297c.928.875 1.418 2.026 1.418 3.323s-.49 2.448-1.418 3.244c-.875.807-2.026 1.297-3.323 1.297zm7.83-9.781c-.49 0-.928-.438-.928-.928s.438-.928.928-.928.928.438.928.928-.438.928-.928.928zm-3.832 9.781c-2.448 0-4.474-2.026-4.474-4.474s2.026-4.474 4.474-4.474 4.474 2.026 4.474 4.474-2.026 4.474-4.474 4.474z"/>
@@ -70,7 +71,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
           {/* Quick Links */}
           <div>
             <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">
-              Platform
+              {t('footer.platform')}
             </h3>
             <ul className="space-y-3">
               <li>
@@ -78,7 +79,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('search')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Search Locations
+                  {t('footer.searchLocations')}
                 </button>
               </li>
               <li>
@@ -86,7 +87,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('dashboard')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Dashboard
+                  {t('footer.dashboard')}
                 </button>
               </li>
               <li>
@@ -94,7 +95,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('subscription')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Premium Plans
+                  {t('footer.premiumPlans')}
                 </button>
               </li>
               <li>
@@ -102,7 +103,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   href="mailto:support@kisigua.com"
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Support
+                  {t('footer.support')}
                 </a>
               </li>
             </ul>
@@ -111,7 +112,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
           {/* Legal Links */}
           <div>
             <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">
-              Legal
+              {t('footer.legal')}
             </h3>
             <ul className="space-y-3">
               <li>
@@ -119,7 +120,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('privacy-policy')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Privacy Policy
+                  {t('footer.privacyPolicy')}
                 </button>
               </li>
               <li>
@@ -127,7 +128,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('terms-of-service')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Terms of Service
+                  {t('footer.termsOfService')}
                 </button>
               </li>
               <li>
@@ -135,7 +136,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('cookie-policy')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Cookie Policy
+                  {t('footer.cookiePolicy')}
                 </button>
               </li>
               <li>
@@ -143,7 +144,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('data-protection')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Data Protection
+                  {t('footer.dataProtection')}
                 </button>
               </li>
               <li>
@@ -151,7 +152,7 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
                   onClick={() => handleLinkClick('imprint')}
                   className="text-gray-600 hover:text-green-600 text-sm transition-colors"
                 >
-                  Imprint
+                  {t('footer.imprint')}
                 </button>
               </li>
             </ul>
@@ -162,23 +163,23 @@ const Footer: React.FC<FooterProps> = ({ onNavigateToPage }) => {
         <div className="mt-8 pt-8 border-t border-gray-200">
           <div className="flex flex-col md:flex-row justify-between items-center">
             <div className="text-gray-500 text-sm">
-              © {currentYear} Kisigua. All rights reserved.
+              {t('footer.copyright', { year: currentYear })}
             </div>
             <div className="flex items-center space-x-6 mt-4 md:mt-0">
               <div className="flex items-center space-x-2 text-gray-500 text-sm">
                 <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span>GDPR Compliant</span>
+                <span>{t('footer.gdprCompliant')}</span>
               </div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm">
                 <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                 </svg>
-                <span>SSL Secured</span>
+                <span>{t('footer.sslSecured')}</span>
               </div>
               <div className="text-gray-500 text-sm">
-                Made with 💚 for sustainability
+                {t('footer.madeWith')}
               </div>
             </div>
           </div>
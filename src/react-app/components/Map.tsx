@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { MapService, MapLocation } from '../services/mapService';
+import { MapService, MapLocation, ListingMapCluster, ListingMapPoint } from '../services/mapService';
 
 
 // Fix for default markers in Leaflet with Webpack
@@ -39,8 +39,29 @@ interface MapProps {
 
   countries?: string[];
   onLocationFound?: (location: MapLocation) => void;
+  // Zoom to show every marker instead of using center and zoom
+  fitToMarkers?: boolean;
+  // Line drawn through these points in order, e.g. a planned trip
+  route?: [number, number][];
+  // Load listings for the visible area from the server and refresh them on pan and zoom
+  showListings?: boolean;
+  listingCategory?: string;
+  onListingClick?: (listingId: string) => void;
+  formatCategory?: (category: string) => string;
 }
 
+// Wait for the map to settle before loading listings for the new view
+const LISTINGS_DEBOUNCE_MS = 300;
+
+// Marker titles and descriptions come from listings, so keep them out of the popup markup
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 const Map: React.FC<MapProps> = ({
   center,
   zoom = 13,
@@ -56,17 +77,36 @@ const Map: React.FC<MapProps> = ({
   enableReverseGeocode = false,
 
   countries = ['DE', 'IT', 'ES', 'FR'],
-  onLocationFound
+  onLocationFound,
+  fitToMarkers = false,
+  route,
+  showListings = false,
+  listingCategory,
+  onListingClick,
+  formatCategory = (category: string) => category
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
   const nearbyMarkersRef = useRef<L.Marker[]>([]);
+  // Set alongside mapInstanceRef so effects can wait for the map to exist
+  const [mapInstance, setMapInstance] = useState<L.Map | null>(null);
+  const [listingsTruncated, setListingsTruncated] = useState(false);
 
   // State for nearby locations
   const [nearbyLocations, setNearbyLocations] = useState<MapLocation[]>([]);
   const [isLoadingNearby, setIsLoadingNearby] = useState(false);
 
+  const resetView = (map: L.Map) => {
+    if (fitToMarkers && markers.length > 1) {
+      map.fitBounds(L.latLngBounds(markers.map(marker => marker.position)), { padding: [32, 32] });
+    } else if (fitToMarkers && markers.length === 1) {
+      map.setView(markers[0].position, zoom);
+    } else {
+      map.setView(center, zoom);
+    }
+  };
+
   // Helper function to create nearby location icons
   const createNearbyLocationIcon = (location: MapLocation) => {
     const countryColors: Record<string, string> = {
@@ -99,6 +139,7 @@ const Map: React.FC<MapProps> = ({
     // Initialize map
     const map = L.map(mapRef.current).setView(center, zoom);
     mapInstanceRef.current = map;
+    setMapInstance(map);
 
     // Add tile layer (OpenStreetMap)
     L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
@@ -138,8 +179,8 @@ const Map: React.FC<MapProps> = ({
       // Add popup
       const popupContent = `
         <div class="p-2">
-          <h3 class="font-semibold text-gray-900 mb-1">${markerData.title}</h3>
-          ${markerData.description ? `<p class="text-sm text-gray-600">${markerData.description}</p>` : ''}
+          <h3 class="font-semibold text-gray-900 mb-1">${escapeHtml(markerData.title)}</h3>
+          ${markerData.description ? `<p class="text-sm text-gray-600">${escapeHtml(markerData.description)}</p>` : ''}
         </div>
       `;
       marker.bindPopup(popupContent);
@@ -152,6 +193,14 @@ const Map: React.FC<MapProps> = ({
       markersRef.current.push(marker);
     });
 
+    if (fitToMarkers) {
+      resetView(map);
+    }
+
+    if (route && route.length > 1) {
+      L.polyline(route, { color: '#059669', weight: 4, opacity: 0.8 }).addTo(map);
+    }
+
     // If there's a main marker, open its popup
     const mainMarkerIndex = markers.findIndex(m => m.isMain);
     if (mainMarkerIndex !== -1) {
@@ -243,9 +292,109 @@ const Map: React.FC<MapProps> = ({
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
+      setMapInstance(null);
       markersRef.current = [];
     };
-  }, [center[0], center[1], zoom, markers.length, searchLocation?.lat, searchLocation?.lng, searchRadius]); // Optimize dependencies
+  }, [center[0], center[1], zoom, markers.length, route?.length, searchLocation?.lat, searchLocation?.lng, searchRadius]); // Optimize dependencies
+
+  // Load listings for the visible area, again after every pan or zoom
+  useEffect(() => {
+    if (!mapInstance || !showListings) return;
+
+    const map = mapInstance;
+    const layer = L.layerGroup().addTo(map);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Responses for a view the user has already moved away from are dropped
+    let requestId = 0;
+
+    // Leaflet keeps counting longitudes past ±180, the server doesn't
+    const toViewLongitude = (longitude: number, view: L.LatLngBounds) => {
+      if (longitude < view.getWest()) return longitude + 360;
+      if (longitude > view.getEast()) return longitude - 360;
+      return longitude;
+    };
+
+    const createClusterIcon = (count: number) => {
+      const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+      return L.divIcon({
+        className: 'listing-cluster-marker',
+        html: `
+          <div class="bg-green-600 bg-opacity-90 text-white font-semibold text-sm rounded-full border-2 border-white shadow-lg flex items-center justify-center" style="width: ${size}px; height: ${size}px;">
+            ${count}
+          </div>
+        `,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2]
+      });
+    };
+
+    const addCluster = (cluster: ListingMapCluster, view: L.LatLngBounds) => {
+      const marker = L.marker([cluster.latitude, toViewLongitude(cluster.longitude, view)], {
+        icon: createClusterIcon(cluster.count)
+      });
+
+      const categories = Object.entries(cluster.categoryCounts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, count]) => `<div>${escapeHtml(formatCategory(category))}: ${count}</div>`)
+        .join('');
+      marker.bindTooltip(`<div class="text-xs">${categories}</div>`, { direction: 'top' });
+
+      marker.on('click', () => {
+        const { south, west, north, east } = cluster.bounds;
+        const longitudeShift = toViewLongitude(cluster.longitude, view) - cluster.longitude;
+        map.fitBounds([[south, west + longitudeShift], [north, east + longitudeShift]], { padding: [32, 32] });
+      });
+      marker.addTo(layer);
+    };
+
+    const addPoint = (point: ListingMapPoint, view: L.LatLngBounds) => {
+      const marker = L.marker([point.latitude, toViewLongitude(point.longitude, view)]);
+      marker.bindPopup(`
+        <div class="p-2">
+          <h3 class="font-semibold text-gray-900 mb-1">${escapeHtml(point.title)}</h3>
+          <p class="text-sm text-gray-600">${escapeHtml(formatCategory(point.category))}${point.isVerified ? ' ✓' : ''}</p>
+        </div>
+      `);
+      if (onListingClick) {
+        marker.on('click', () => onListingClick(point.id));
+      }
+      marker.addTo(layer);
+    };
+
+    const loadListings = async () => {
+      const currentRequest = ++requestId;
+      const view = map.getBounds();
+      const result = await MapService.getListingsInView({
+        north: view.getNorth(),
+        south: view.getSouth(),
+        east: view.getEast(),
+        west: view.getWest()
+      }, map.getZoom(), listingCategory);
+      if (currentRequest !== requestId || !result) return;
+
+      layer.clearLayers();
+      result.clusters.forEach(cluster => addCluster(cluster, view));
+      result.points.forEach(point => addPoint(point, view));
+      setListingsTruncated(result.truncated);
+    };
+
+    // moveend also fires after zooming
+    const scheduleLoad = () => {
+      clearTimeout(timer);
+      timer = setTimeout(loadListings, LISTINGS_DEBOUNCE_MS);
+    };
+
+    map.on('moveend', scheduleLoad);
+    loadListings();
+
+    return () => {
+      clearTimeout(timer);
+      requestId++;
+      map.off('moveend', scheduleLoad);
+      layer.remove();
+      setListingsTruncated(false);
+    };
+  }, [mapInstance, showListings, listingCategory]);
 
   // Load nearby locations when enabled
   useEffect(() => {
@@ -318,7 +467,7 @@ const Map: React.FC<MapProps> = ({
 
   // Update map view when center changes
   useEffect(() => {
-    if (mapInstanceRef.current) {
+    if (mapInstanceRef.current && !fitToMarkers) {
       mapInstanceRef.current.setView(center, zoom);
     }
   }, [center, zoom]);
@@ -336,7 +485,7 @@ const Map: React.FC<MapProps> = ({
         <button
           onClick={() => {
             if (mapInstanceRef.current) {
-              mapInstanceRef.current.setView(center, zoom);
+              resetView(mapInstanceRef.current);
             }
           }}
           className="bg-white hover:bg-gray-50 border border-gray-300 rounded-lg p-2 shadow-sm transition-colors"
@@ -417,6 +566,10 @@ const Map: React.FC<MapProps> = ({
             </div>
           )}
 
+          {listingsTruncated && (
+            <div className="text-xs text-gray-500">Zoom in to see all listings</div>
+          )}
+
           {/* Loading indicator */}
           {isLoadingNearby && (
             <div className="flex items-center space-x-2 text-xs text-gray-500">
@@ -8,6 +8,7 @@ interface RichTextEditorProps {
   minHeight?: string;
 }
 
+// The toolbar only offers formatting the worker keeps when it sanitizes descriptions
 const RichTextEditor: React.FC<RichTextEditorProps> = ({
   value,
   onChange,
@@ -92,15 +93,6 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
               </svg>
             }
           />
-          <ToolbarButton
-            command="underline"
-            title="Underline (Ctrl+U)"
-            icon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 4v8a5 5 0 0010 0V4M5 20h14" />
-              </svg>
-            }
-          />
         </div>
 
         {/* Lists */}
@@ -131,57 +123,6 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
           />
         </div>
 
-        {/* Alignment */}
-        <div className="flex border-r border-gray-300 pr-2 mr-2">
-          <ToolbarButton
-            command="justifyLeft"
-            title="Align Left"
-            icon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h8M4 18h16" />
-              </svg>
-            }
-          />
-          <ToolbarButton
-            command="justifyCenter"
-            title="Align Center"
-            icon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M8 12h8M4 18h16" />
-              </svg>
-            }
-          />
-          <ToolbarButton
-            command="justifyRight"
-            title="Align Right"
-            icon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M12 12h8M4 18h16" />
-              </svg>
-            }
-          />
-        </div>
-
-        {/* Headings */}
-        <div className="flex border-r border-gray-300 pr-2 mr-2">
-          <select
-            onChange={(e) => {
-              if (e.target.value) {
-                execCommand('formatBlock', e.target.value);
-                e.target.value = '';
-              }
-            }}
-            className="px-2 py-1 text-sm border border-gray-300 rounded"
-            defaultValue=""
-          >
-            <option value="">Format</option>
-            <option value="h1">Heading 1</option>
-            <option value="h2">Heading 2</option>
-            <option value="h3">Heading 3</option>
-            <option value="p">Paragraph</option>
-          </select>
-        </div>
-
         {/* Additional Actions */}
         <div className="flex">
           <ToolbarButton
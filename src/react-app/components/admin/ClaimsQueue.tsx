@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import ListingDetail from '../listings/ListingDetail';
+
+type ClaimMethod = 'email' | 'website' | 'document';
+
+interface ClaimItem {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  method: ClaimMethod;
+  message?: string;
+  contactEmail?: string;
+  websiteUrl?: string;
+  websiteCode?: string;
+  documentUrl?: string;
+  createdAt: string;
+  claimant: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    emailVerified: boolean;
+  };
+  owner: {
+    id: string;
+    email: string;
+  } | null;
+}
+
+interface ClaimsQueueProps {
+  onCountChange?: (count: number) => void;
+  onDecision?: () => void;
+}
+
+const METHOD_LABELS: Record<ClaimMethod, string> = {
+  email: 'Email code',
+  website: 'Website code',
+  document: 'Document',
+};
+
+/**
+ * Pending ownership claims. Document claims wait here for a decision; email and website
+ * claims complete on their own but are listed too, so an admin can step in when the
+ * automatic check can't succeed.
+ */
+const ClaimsQueue: React.FC<ClaimsQueueProps> = ({ onCountChange, onDecision }) => {
+  const { token } = useAuth();
+  const [claims, setClaims] = useState<ClaimItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [viewListingId, setViewListingId] = useState<string | null>(null);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/claims?status=pending&limit=50', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setClaims(data.claims || []);
+        setError(null);
+        onCountChange?.(data.total || 0);
+      } else {
+        setError('Failed to fetch ownership claims');
+      }
+    } catch (err) {
+      setError('Error fetching ownership claims');
+      console.error('Error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, onCountChange]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const submitDecision = async (claim: ClaimItem, action: 'approve' | 'reject', reviewNote?: string) => {
+    if (action === 'approve' && !window.confirm(`Transfer "${claim.listingTitle}" to ${claim.claimant.email} and mark it verified?`)) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/claims/${claim.id}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, note: reviewNote })
+      });
+
+      if (response.ok) {
+        setRejectingId(null);
+        setNote('');
+        onDecision?.();
+        fetchClaims();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to decide claim');
+      }
+    } catch (err) {
+      console.error('Error deciding claim:', err);
+      alert('Error deciding claim');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">{error}</p>
+        <button
+          onClick={fetchClaims}
+          className="mt-2 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {claims.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 text-center py-12">
+          <div className="text-4xl mb-2">✅</div>
+          <h3 className="text-sm font-medium text-gray-900">No ownership claims to review</h3>
+          <p className="mt-1 text-sm text-gray-500">New ownership claims will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {claims.map(claim => (
+            <div key={claim.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900">{claim.listingTitle}</div>
+                  <div className="text-sm text-gray-500">
+                    {METHOD_LABELS[claim.method]} · submitted {new Date(claim.createdAt).toLocaleDateString()}
+                  </div>
+                  <div className="mt-2 text-xs text-gray-500">
+                    Claimant: {claim.claimant.firstName} {claim.claimant.lastName} ({claim.claimant.email}) ·{' '}
+                    {claim.claimant.emailVerified ? 'email verified' : <span className="text-red-600">email not verified</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Current owner: {claim.owner ? claim.owner.email : 'deleted account'}
+                  </div>
+                  {claim.method === 'email' && claim.contactEmail && (
+                    <div className="text-xs text-gray-500">Code sent to {claim.contactEmail}</div>
+                  )}
+                  {claim.method === 'website' && (
+                    <div className="text-xs text-gray-500 break-all">
+                      Expects <code>{claim.websiteCode}</code> on {claim.websiteUrl}
+                    </div>
+                  )}
+                  {claim.documentUrl && (
+                    <a
+                      href={claim.documentUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block mt-1 text-xs text-blue-600 hover:underline"
+                    >
+                      View document
+                    </a>
+                  )}
+                  {claim.message && (
+                    <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded px-2 py-1">{claim.message}</p>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0 space-x-2 text-sm font-medium">
+                  <button
+                    onClick={() => setViewListingId(claim.listingId)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    View
+                  </button>
+                  <button
+                    disabled={submitting}
+                    onClick={() => submitDecision(claim, 'approve')}
+                    className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    disabled={submitting}
+                    onClick={() => { setRejectingId(claim.id); setNote(''); }}
+                    className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+
+              {rejectingId === claim.id && (
+                <div className="mt-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason for rejection (sent to the claimant)
+                  </label>
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={2}
+                    autoFocus
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  />
+                  <div className="mt-2 flex space-x-2">
+                    <button
+                      disabled={!note.trim() || submitting}
+                      onClick={() => submitDecision(claim, 'reject', note.trim())}
+                      className="px-3 py-1 text-white rounded text-sm disabled:opacity-50 bg-red-600 hover:bg-red-700"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => { setRejectingId(null); setNote(''); }}
+                      className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {viewListingId && (
+        <ListingDetail
+          listingId={viewListingId}
+          onClose={() => setViewListingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClaimsQueue;
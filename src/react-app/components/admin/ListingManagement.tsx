@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import ListingDetail from '../listings/ListingDetail';
+import ModerationQueue from './ModerationQueue';
+import ClaimsQueue from './ClaimsQueue';
 
 interface Listing {
   id: string;
@@ -23,6 +25,7 @@ interface Listing {
   updatedAt?: string;
   tags?: string[];
   priceRange?: string;
+  moderationReason?: string;
 }
 
 interface User {
@@ -45,11 +48,15 @@ const ListingManagement: React.FC = () => {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [showBulkActions, setShowBulkActions] = useState(false);
   const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'all' | 'queue' | 'claims'>('all');
+  const [queueCount, setQueueCount] = useState(0);
+  const [claimCount, setClaimCount] = useState(0);
 
   // Fetch all listings and users
   useEffect(() => {
     fetchListings();
     fetchUsers();
+    fetchQueueCount();
   }, []);
 
   const fetchListings = async () => {
@@ -97,6 +104,62 @@ const ListingManagement: React.FC = () => {
     }
   };
 
+  const fetchQueueCount = async () => {
+    try {
+      const response = await fetch('/api/admin/moderation?limit=1', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setQueueCount(data.counts?.pending || 0);
+      }
+    } catch (err) {
+      console.error('Error fetching moderation queue count:', err);
+    }
+  };
+
+  // Approve or reject through the moderation endpoint so the owner is notified
+  const moderateListing = async (listingId: string, action: 'approve' | 'reject') => {
+    let reason: string | undefined;
+    if (action === 'reject') {
+      const input = prompt('Reason for rejection (sent to the owner):');
+      if (!input?.trim()) {
+        return;
+      }
+      reason = input.trim();
+    }
+
+    try {
+      const response = await fetch(`/api/admin/moderation/${listingId}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, reason })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setListings(prev => prev.map(listing =>
+          listing.id === listingId
+            ? { ...listing, status: data.status, moderationReason: reason }
+            : listing
+        ));
+        fetchQueueCount();
+      } else {
+        alert('Failed to moderate listing');
+      }
+    } catch (err) {
+      console.error('Error moderating listing:', err);
+      alert('Error moderating listing');
+    }
+  };
+
   // Update listing status
   const updateListingStatus = async (listingId: string, newStatus: string) => {
     try {
@@ -308,6 +371,64 @@ const ListingManagement: React.FC = () => {
         </div>
       </div>
 
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          <button
+            onClick={() => setActiveTab('all')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'all'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            All Listings
+          </button>
+          <button
+            onClick={() => setActiveTab('queue')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'queue'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Review Queue
+            {queueCount > 0 && (
+              <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                {queueCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setActiveTab('claims')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'claims'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Ownership Claims
+            {claimCount > 0 && (
+              <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                {claimCount}
+              </span>
+            )}
+          </button>
+        </nav>
+      </div>
+
+      {activeTab === 'queue' ? (
+        <ModerationQueue
+          onCountsChange={(counts) => setQueueCount(counts.pending)}
+          onDecision={fetchListings}
+        />
+      ) : activeTab === 'claims' ? (
+        <ClaimsQueue
+          onCountChange={setClaimCount}
+          onDecision={fetchListings}
+        />
+      ) : (
+      <>
       {/* Filters and Search */}
       <div className="bg-white rounded-lg border border-gray-200 p-4">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -521,6 +642,11 @@ const ListingManagement: React.FC = () => {
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(listing.status)}`}>
                       {listing.status.charAt(0).toUpperCase() + listing.status.slice(1)}
                     </span>
+                    {listing.moderationReason && (
+                      <div className="mt-1 text-xs text-gray-500 max-w-xs truncate" title={listing.moderationReason}>
+                        {listing.moderationReason}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-900">
                     {listing.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
@@ -545,13 +671,13 @@ const ListingManagement: React.FC = () => {
                       {listing.status === 'pending' && (
                         <>
                           <button
-                            onClick={() => updateListingStatus(listing.id, 'active')}
+                            onClick={() => moderateListing(listing.id, 'approve')}
                             className="text-green-600 hover:text-green-900 mr-2"
                           >
                             Approve
                           </button>
                           <button
-                            onClick={() => updateListingStatus(listing.id, 'rejected')}
+                            onClick={() => moderateListing(listing.id, 'reject')}
                             className="text-red-600 hover:text-red-900 mr-2"
                           >
                             Reject
@@ -616,6 +742,8 @@ const ListingManagement: React.FC = () => {
           </div>
         )}
       </div>
+      </>
+      )}
 
       {/* Listing Detail Modal */}
       {selectedListingId && (
@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import ListingDetail from '../listings/ListingDetail';
+
+type ModerationAction = 'approve' | 'reject' | 'request_changes';
+
+interface QueueItem {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  status: string;
+  city: string;
+  country: string;
+  createdAt: string;
+  moderationReason?: string;
+  owner: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    emailVerified: boolean;
+    approvedListings: number;
+  };
+}
+
+interface QueueCounts {
+  pending: number;
+  rejected: number;
+  changesRequested: number;
+}
+
+interface ModerationQueueProps {
+  onCountsChange?: (counts: QueueCounts) => void;
+  onDecision?: () => void;
+}
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  request_changes: 'Request Changes',
+};
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ onCountsChange, onDecision }) => {
+  const { token } = useAuth();
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [viewListingId, setViewListingId] = useState<string | null>(null);
+  const reasonInputRef = useRef<HTMLTextAreaElement>(null);
+  const rowRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/moderation?status=pending&limit=50', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.listings || []);
+        setError(null);
+        onCountsChange?.(data.counts);
+      } else {
+        setError('Failed to fetch moderation queue');
+      }
+    } catch (err) {
+      setError('Error fetching moderation queue');
+      console.error('Error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, onCountsChange]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    if (pendingAction) {
+      reasonInputRef.current?.focus();
+    }
+  }, [pendingAction]);
+
+  useEffect(() => {
+    rowRefs.current[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const submitDecision = useCallback(async (action: ModerationAction, note?: string) => {
+    const item = items[activeIndex];
+    if (!item || submitting) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/moderation/${item.id}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, reason: note })
+      });
+
+      if (response.ok) {
+        setItems(prev => prev.filter(listing => listing.id !== item.id));
+        setActiveIndex(prev => Math.max(0, Math.min(prev, items.length - 2)));
+        setPendingAction(null);
+        setReason('');
+        onDecision?.();
+        fetchQueue();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to moderate listing');
+      }
+    } catch (err) {
+      console.error('Error moderating listing:', err);
+      alert('Error moderating listing');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [items, activeIndex, submitting, token, onDecision, fetchQueue]);
+
+  const startAction = useCallback((action: ModerationAction) => {
+    if (action === 'approve') {
+      submitDecision('approve');
+    } else {
+      setPendingAction(action);
+      setReason('');
+    }
+  }, [submitDecision]);
+
+  // Keyboard triage: j/k or arrows to move, a/r/c to decide, v to view
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (viewListingId || pendingAction || e.metaKey || e.ctrlKey || e.altKey) {
+        return;
+      }
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+        return;
+      }
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          e.preventDefault();
+          setActiveIndex(prev => Math.min(prev + 1, items.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          e.preventDefault();
+          setActiveIndex(prev => Math.max(prev - 1, 0));
+          break;
+        case 'a':
+          startAction('approve');
+          break;
+        case 'r':
+          e.preventDefault();
+          startAction('reject');
+          break;
+        case 'c':
+          e.preventDefault();
+          startAction('request_changes');
+          break;
+        case 'v':
+          if (items[activeIndex]) {
+            setViewListingId(items[activeIndex].id);
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items, activeIndex, pendingAction, viewListingId, startAction]);
+
+  const handleReasonKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      setPendingAction(null);
+      setReason('');
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (pendingAction && reason.trim()) {
+        submitDecision(pendingAction, reason.trim());
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">{error}</p>
+        <button
+          onClick={fetchQueue}
+          className="mt-2 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Keyboard shortcuts */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-2 text-xs text-gray-600 flex flex-wrap gap-x-4 gap-y-1">
+        <span><kbd className="font-mono bg-white border rounded px-1">j</kbd>/<kbd className="font-mono bg-white border rounded px-1">k</kbd> move</span>
+        <span><kbd className="font-mono bg-white border rounded px-1">a</kbd> approve</span>
+        <span><kbd className="font-mono bg-white border rounded px-1">r</kbd> reject</span>
+        <span><kbd className="font-mono bg-white border rounded px-1">c</kbd> request changes</span>
+        <span><kbd className="font-mono bg-white border rounded px-1">v</kbd> view details</span>
+        <span><kbd className="font-mono bg-white border rounded px-1">Enter</kbd> submit reason, <kbd className="font-mono bg-white border rounded px-1">Esc</kbd> cancel</span>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 text-center py-12">
+          <div className="text-4xl mb-2">✅</div>
+          <h3 className="text-sm font-medium text-gray-900">The review queue is empty</h3>
+          <p className="mt-1 text-sm text-gray-500">New listings that need review will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {items.map((item, index) => {
+            const isActive = index === activeIndex;
+            return (
+              <div
+                key={item.id}
+                ref={el => { rowRefs.current[index] = el; }}
+                onClick={() => setActiveIndex(index)}
+                className={`p-4 cursor-pointer ${isActive ? 'bg-blue-50 border-l-4 border-blue-500' : 'hover:bg-gray-50 border-l-4 border-transparent'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{item.title}</div>
+                    <div className="text-sm text-gray-500">
+                      {item.category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())} · {item.city}, {item.country} · submitted {new Date(item.createdAt).toLocaleDateString()}
+                    </div>
+                    <p className={`mt-1 text-sm text-gray-700 ${isActive ? '' : 'line-clamp-2'}`}>{item.description}</p>
+                    <div className="mt-2 text-xs text-gray-500">
+                      {item.owner.firstName} {item.owner.lastName} ({item.owner.email}) ·{' '}
+                      {item.owner.emailVerified ? 'email verified' : <span className="text-red-600">email not verified</span>} ·{' '}
+                      {item.owner.approvedListings} approved listing{item.owner.approvedListings === 1 ? '' : 's'}
+                    </div>
+                    {item.moderationReason && (
+                      <div className="mt-2 text-xs text-yellow-800 bg-yellow-50 rounded px-2 py-1">
+                        Previous note: {item.moderationReason}
+                      </div>
+                    )}
+                  </div>
+                  {isActive && (
+                    <div className="flex flex-shrink-0 space-x-2 text-sm font-medium">
+                      <button
+                        onClick={() => setViewListingId(item.id)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        View
+                      </button>
+                      {(Object.keys(ACTION_LABELS) as ModerationAction[]).map(action => (
+                        <button
+                          key={action}
+                          disabled={submitting}
+                          onClick={() => startAction(action)}
+                          className={`${action === 'approve' ? 'text-green-600 hover:text-green-900' : action === 'reject' ? 'text-red-600 hover:text-red-900' : 'text-yellow-600 hover:text-yellow-900'} disabled:opacity-50`}
+                        >
+                          {ACTION_LABELS[action]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {isActive && pendingAction && (
+                  <div className="mt-3">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {pendingAction === 'reject' ? 'Reason for rejection' : 'What should the owner change?'} (sent to the owner)
+                    </label>
+                    <textarea
+                      ref={reasonInputRef}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      onKeyDown={handleReasonKeyDown}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                    <div className="mt-2 flex space-x-2">
+                      <button
+                        disabled={!reason.trim() || submitting}
+                        onClick={() => submitDecision(pendingAction, reason.trim())}
+                        className={`px-3 py-1 text-white rounded text-sm disabled:opacity-50 ${pendingAction === 'reject' ? 'bg-red-600 hover:bg-red-700' : 'bg-yellow-600 hover:bg-yellow-700'}`}
+                      >
+                        {ACTION_LABELS[pendingAction]}
+                      </button>
+                      <button
+                        onClick={() => { setPendingAction(null); setReason(''); }}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {viewListingId && (
+        <ListingDetail
+          listingId={viewListingId}
+          onClose={() => setViewListingId(null)}
+          onEdit={() => setViewListingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ModerationQueue;
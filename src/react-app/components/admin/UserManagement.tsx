@@ -53,6 +53,9 @@ const UserManagement = () => {
     }
   };
 
+  const isSuspended = (user: User) =>
+    !!user.suspendedUntil && new Date(user.suspendedUntil).getTime() > Date.now();
+
   const applyFilters = () => {
     let filtered = [...users];
 
@@ -62,9 +65,11 @@ const UserManagement = () => {
     }
 
     // Apply status filter
-    if (filters.status !== 'all') {
+    if (filters.status === 'suspended') {
+      filtered = filtered.filter(user => isSuspended(user));
+    } else if (filters.status !== 'all') {
       const isActive = filters.status === 'active';
-      filtered = filtered.filter(user => user.isActive === isActive);
+      filtered = filtered.filter(user => user.isActive === isActive && !isSuspended(user));
     }
 
     // Apply search filter
@@ -125,12 +130,57 @@ const UserManagement = () => {
     }
   };
 
-  const handleBulkAction = async (action: 'activate' | 'deactivate' | 'delete') => {
+  // Ask for the suspension length and reason; null when the admin cancels
+  const promptSuspension = (): { suspendedUntil: string; reason?: string } | null => {
+    const days = prompt('Suspend for how many days?', '7');
+    if (days === null) return null;
+    const dayCount = parseInt(days);
+    if (!dayCount || dayCount < 1) {
+      setError('Please enter a number of days');
+      return null;
+    }
+    const reason = prompt('Reason for the suspension (optional):') || undefined;
+    return {
+      suspendedUntil: new Date(Date.now() + dayCount * 24 * 60 * 60 * 1000).toISOString(),
+      reason
+    };
+  };
+
+  const updateSuspension = async (userId: string, suspend: boolean) => {
+    const suspension = suspend ? promptSuspension() : { suspendedUntil: null };
+    if (!suspension) return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/status`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(suspension),
+      });
+
+      if (response.ok) {
+        fetchUsers();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to update user suspension');
+      }
+    } catch (error) {
+      console.error('Error updating user suspension:', error);
+      setError('Network error');
+    }
+  };
+
+  const handleBulkAction = async (action: 'activate' | 'deactivate' | 'suspend' | 'delete') => {
     if (selectedUsers.length === 0) return;
 
     const confirmMessage = `Are you sure you want to ${action} ${selectedUsers.length} user(s)?`;
     if (!confirm(confirmMessage)) return;
 
+    const suspension = action === 'suspend' ? promptSuspension() : undefined;
+    if (suspension === null) return;
+
     try {
       const response = await fetch('/api/admin/users/bulk', {
         method: 'POST',
@@ -140,15 +190,27 @@ const UserManagement = () => {
         },
         body: JSON.stringify({
           userIds: selectedUsers,
-          action: action
+          action: action,
+          ...suspension
         }),
       });
 
       if (response.ok) {
-        setSelectedUsers([]);
+        const data = await response.json();
+        const failed = (data.results || []).filter((result: { success: boolean }) => !result.success);
+        if (failed.length > 0) {
+          const emails = failed.map((result: { userId: string; error?: string }) =>
+            `${users.find(user => user.id === result.userId)?.email || result.userId} (${result.error})`
+          );
+          setError(`Could not ${action} ${failed.length} user(s): ${emails.join(', ')}`);
+          setSelectedUsers(failed.map((result: { userId: string }) => result.userId));
+        } else {
+          setSelectedUsers([]);
+        }
         fetchUsers();
       } else {
-        setError(`Failed to ${action} users`);
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `Failed to ${action} users`);
       }
     } catch (error) {
       console.error(`Error ${action} users:`, error);
@@ -254,6 +316,7 @@ const UserManagement = () => {
               <option value="all">All Status</option>
               <option value="active">Active</option>
               <option value="inactive">Inactive</option>
+              <option value="suspended">Suspended</option>
             </select>
           </div>
           <div className="flex items-end">
@@ -287,6 +350,12 @@ const UserManagement = () => {
               >
                 Deactivate
               </button>
+              <button
+                onClick={() => handleBulkAction('suspend')}
+                className="px-3 py-1 text-sm bg-orange-600 text-white rounded hover:bg-orange-700"
+              >
+                Suspend
+              </button>
               <button
                 onClick={() => handleBulkAction('delete')}
                 className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
@@ -376,14 +445,23 @@ const UserManagement = () => {
                       </select>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <button
-                        onClick={() => toggleUserStatus(user.id, user.isActive)}
-                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}
-                      >
-                        {user.isActive ? 'Active' : 'Inactive'}
-                      </button>
+                      {isSuspended(user) ? (
+                        <span
+                          title={user.suspensionReason}
+                          className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800"
+                        >
+                          Suspended until {new Date(user.suspendedUntil!).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => toggleUserStatus(user.id, user.isActive)}
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </button>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {new Date(user.createdAt).toLocaleDateString()}
@@ -397,10 +475,16 @@ const UserManagement = () => {
                       </button>
                       <button
                         onClick={() => toggleUserStatus(user.id, user.isActive)}
-                        className="text-blue-600 hover:text-blue-900"
+                        className="text-blue-600 hover:text-blue-900 mr-3"
                       >
                         {user.isActive ? 'Deactivate' : 'Activate'}
                       </button>
+                      <button
+                        onClick={() => updateSuspension(user.id, !isSuspended(user))}
+                        className="text-orange-600 hover:text-orange-900"
+                      >
+                        {isSuspended(user) ? 'Lift Suspension' : 'Suspend'}
+                      </button>
                     </td>
                   </tr>
                 ))
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DocumentUpload } from '../DocumentUpload';
+
+type ClaimMethod = 'email' | 'website' | 'document';
+
+interface ListingClaim {
+  id: string;
+  listingId: string;
+  method: ClaimMethod;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  contactEmail?: string;
+  websiteUrl?: string;
+  websiteCode?: string;
+  reviewNote?: string;
+}
+
+interface ClaimListingProps {
+  listingId: string;
+  onClaimed?: () => void;
+}
+
+// Mirror the limit in the worker's claim service
+const MAX_MESSAGE_LENGTH = 1000;
+
+const METHODS: ClaimMethod[] = ['email', 'website', 'document'];
+
+/**
+ * Lets the people who run a place take over a listing someone else submitted. They prove
+ * it with a code sent to the listing's email address, a code published on its website,
+ * or a document our team reviews.
+ */
+const ClaimListing: React.FC<ClaimListingProps> = ({ listingId, onClaimed }) => {
+  const { token, isAuthenticated } = useAuth();
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const [claim, setClaim] = useState<ListingClaim | null>(null);
+  const [method, setMethod] = useState<ClaimMethod>('email');
+  const [message, setMessage] = useState('');
+  const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up a claim started earlier
+  useEffect(() => {
+    if (isAuthenticated && open) {
+      loadClaim();
+    }
+  }, [listingId, isAuthenticated, open]);
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error);
+    }
+    return data;
+  };
+
+  const loadClaim = async () => {
+    try {
+      const data = await request('/api/claims');
+      const claims: ListingClaim[] = data.claims;
+      setClaim(claims.find(c => c.listingId === listingId && c.status === 'pending') || null);
+    } catch (err) {
+      console.error('Error loading claims:', err);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error claiming listing:', err);
+      setError(err instanceof Error && err.message ? err.message : t('claims.error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    const data = await request(`/api/listings/${encodeURIComponent(listingId)}/claims`, {
+      method: 'POST',
+      body: JSON.stringify({
+        method,
+        message: message.trim() || undefined,
+        documentUrl: method === 'document' ? documentUrl : undefined,
+      }),
+    });
+    setClaim(data.claim);
+  });
+
+  const handleVerify = () => run(async () => {
+    if (!claim) return;
+    const data = await request(`/api/claims/${encodeURIComponent(claim.id)}/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ code: code.trim() || undefined }),
+    });
+    setClaim(data.claim);
+    setCode('');
+    onClaimed?.();
+  });
+
+  const handleCancel = () => run(async () => {
+    if (!claim || !window.confirm(t('claims.confirmCancel'))) return;
+    await request(`/api/claims/${encodeURIComponent(claim.id)}`, { method: 'DELETE' });
+    setClaim(null);
+  });
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full mt-3 text-sm text-blue-600 hover:underline"
+      >
+        {t('claims.isThisYours')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3 text-sm">
+      <h4 className="font-medium text-gray-900">{t('claims.title')}</h4>
+
+      {!isAuthenticated ? (
+        <p className="text-gray-600">{t('claims.signIn')}</p>
+      ) : claim?.status === 'approved' ? (
+        <p className="text-green-700">{t('claims.approved')}</p>
+      ) : claim ? (
+        /* Pending claim */
+        <>
+          {claim.method === 'email' && (
+            <>
+              <p className="text-gray-700">{t('claims.emailSent', { email: claim.contactEmail || '' })}</p>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                maxLength={6}
+                placeholder={t('claims.codePlaceholder')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </>
+          )}
+          {claim.method === 'website' && (
+            <>
+              <p className="text-gray-700">{t('claims.websiteInstructions', { url: claim.websiteUrl || '' })}</p>
+              <code className="block bg-gray-100 rounded px-3 py-2 break-all text-gray-800">{claim.websiteCode}</code>
+            </>
+          )}
+          {claim.method === 'document' && (
+            <p className="text-gray-700">{t('claims.documentPending')}</p>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            {claim.method !== 'document' && (
+              <button
+                onClick={handleVerify}
+                disabled={submitting || (claim.method === 'email' && !code.trim())}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                {claim.method === 'email' ? t('claims.verifyCode') : t('claims.checkWebsite')}
+              </button>
+            )}
+            <button
+              onClick={handleCancel}
+              disabled={submitting}
+              className="px-3 py-2 text-gray-600 hover:underline disabled:opacity-50"
+            >
+              {t('claims.cancelClaim')}
+            </button>
+          </div>
+        </>
+      ) : (
+        /* New claim */
+        <>
+          <p className="text-gray-600">{t('claims.intro')}</p>
+          <div className="space-y-2">
+            {METHODS.map(option => (
+              <label key={option} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name={`claim-method-${listingId}`}
+                  checked={method === option}
+                  onChange={() => setMethod(option)}
+                  className="mt-1 text-green-600 focus:ring-green-500"
+                />
+                <span>
+                  <span className="font-medium text-gray-800">{t(`claims.method.${option}`)}</span>
+                  <span className="block text-gray-500">{t(`claims.methodHint.${option}`)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {method === 'document' && (
+            documentUrl ? (
+              <p className="text-green-700">{t('claims.documentUploaded')}</p>
+            ) : (
+              <DocumentUpload
+                documentType="license"
+                acceptedTypes={['application/pdf', 'image/jpeg', 'image/png', 'image/webp']}
+                onUpload={(document) => setDocumentUrl(document.url)}
+                onError={(message) => setError(message)}
+              />
+            )
+          )}
+
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={2}
+            placeholder={t('claims.messagePlaceholder')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleStart}
+              disabled={submitting || (method === 'document' && !documentUrl)}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {t('claims.submit')}
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              className="px-3 py-2 text-gray-600 hover:underline"
+            >
+              {t('claims.close')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClaimListing;
@@ -0,0 +1,42 @@
+/**
+ * Language Switcher - Select for the UI language, shared by the landing page,
+ * the app header and the footer
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { SUPPORTED_LOCALES, LOCALE_NAMES, isSupportedLocale } from '../../i18n';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useLanguage();
+
+  return (
+    <div className={`relative ${className}`}>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isSupportedLocale(e.target.value)) {
+            setLocale(e.target.value);
+          }
+        }}
+        aria-label={t('common.language')}
+        className="appearance-none bg-white border border-gray-200 rounded-lg px-4 py-2 pr-8 text-sm font-medium text-gray-700 hover:border-green-300 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+      >
+        {SUPPORTED_LOCALES.map(code => (
+          <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+        ))}
+      </select>
+      <div className="absolute inset-y-0 right-0 flex items-center px-2 pointer-events-none">
+        <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
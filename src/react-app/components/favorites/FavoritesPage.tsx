@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import TripPlanner from './TripPlanner';
 
 interface Location {
   id: string;
@@ -30,22 +32,33 @@ interface Location {
 interface FavoriteCollection {
   id: string;
   name: string;
-  description: string;
-  locations: string[];
+  description?: string;
+  listingIds: string[];
   createdAt: string;
   isPublic: boolean;
+  // Share URL is /collections/<slug>, set once the collection has been made public
+  slug?: string;
   color: string;
 }
 
+const COLLECTION_COLORS = [
+  '#10B981', '#3B82F6', '#EF4444', '#8B5CF6',
+  '#F59E0B', '#EC4899', '#6366F1', '#F97316'
+];
+
 const FavoritesPage: React.FC = () => {
   const [favorites, setFavorites] = useState<Location[]>([]);
   const [collections, setCollections] = useState<FavoriteCollection[]>([]);
   const [selectedCollection, setSelectedCollection] = useState<string>('all');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showCreateCollection, setShowCreateCollection] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<FavoriteCollection | null>(null);
+  const [copiedLink, setCopiedLink] = useState(false);
+  const [showTripPlanner, setShowTripPlanner] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { token } = useAuth();
+  const { t, locale } = useLanguage();
 
   // Load favorites and collections from API
   useEffect(() => {
@@ -98,13 +111,13 @@ const FavoritesPage: React.FC = () => {
         }));
         setFavorites(transformedFavorites);
       } else {
-        setError('Failed to load favorites');
+        setError(t('favorites.errors.loadFailed'));
         // Fallback to mock data for demonstration
         loadMockData();
       }
     } catch (error) {
       console.error('Error loading favorites:', error);
-      setError('Network error');
+      setError(t('favorites.errors.network'));
       // Fallback to mock data for demonstration
       loadMockData();
     } finally {
@@ -132,7 +145,131 @@ const FavoritesPage: React.FC = () => {
     }
   };
 
-  // removeFromFavorites function can be added when needed for UI buttons
+  const collectionRequest = (path: string, method: string, body?: unknown) =>
+    fetch(`/api/favorites/collections${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const updateCollectionIds = (collectionId: string, listingIds: string[]) => {
+    setCollections(prev => prev.map(c => c.id === collectionId ? { ...c, listingIds } : c));
+  };
+
+  const addToCollection = async (collectionId: string, listingId: string) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection || collection.listingIds.includes(listingId)) return;
+
+    try {
+      const response = await collectionRequest(`/${collectionId}/listings`, 'POST', { listingId });
+      if (response.ok) {
+        updateCollectionIds(collectionId, [...collection.listingIds, listingId]);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || t('favorites.errors.addFailed'));
+      }
+    } catch (error) {
+      console.error('Error adding to collection:', error);
+      setError(t('favorites.errors.network'));
+    }
+  };
+
+  const removeFromCollection = async (collectionId: string, listingId: string) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
+
+    try {
+      const response = await collectionRequest(`/${collectionId}/listings/${listingId}`, 'DELETE');
+      if (response.ok) {
+        updateCollectionIds(collectionId, collection.listingIds.filter(id => id !== listingId));
+      } else {
+        setError(t('favorites.errors.removeFailed'));
+      }
+    } catch (error) {
+      console.error('Error removing from collection:', error);
+      setError(t('favorites.errors.network'));
+    }
+  };
+
+  // Swap a listing with its neighbour; the order is what the shared page and exports show
+  const moveInCollection = async (collectionId: string, listingId: string, offset: -1 | 1) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
+
+    const index = collection.listingIds.indexOf(listingId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= collection.listingIds.length) return;
+
+    const listingIds = [...collection.listingIds];
+    [listingIds[index], listingIds[target]] = [listingIds[target], listingIds[index]];
+    updateCollectionIds(collectionId, listingIds);
+
+    try {
+      const response = await collectionRequest(`/${collectionId}/order`, 'PUT', { listingIds });
+      if (!response.ok) {
+        updateCollectionIds(collectionId, collection.listingIds);
+        setError(t('favorites.errors.reorderFailed'));
+      }
+    } catch (error) {
+      console.error('Error reordering collection:', error);
+      updateCollectionIds(collectionId, collection.listingIds);
+      setError(t('favorites.errors.network'));
+    }
+  };
+
+  const deleteCollection = async (collection: FavoriteCollection) => {
+    if (!window.confirm(t('favorites.deleteConfirm', { name: collection.name }))) return;
+
+    try {
+      const response = await collectionRequest(`/${collection.id}`, 'DELETE');
+      if (response.ok) {
+        setCollections(prev => prev.filter(c => c.id !== collection.id));
+        setSelectedCollection('all');
+      } else {
+        setError(t('favorites.errors.deleteFailed'));
+      }
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      setError(t('favorites.errors.network'));
+    }
+  };
+
+  const copyShareLink = async (collection: FavoriteCollection) => {
+    if (!collection.slug) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/collections/${collection.slug}`);
+      setCopiedLink(true);
+      setTimeout(() => setCopiedLink(false), 2000);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  const exportCollection = async (collection: FavoriteCollection, format: 'gpx' | 'geojson') => {
+    try {
+      const response = await collectionRequest(`/${collection.id}/export?format=${format}`, 'GET');
+      if (!response.ok) {
+        setError(t('favorites.errors.exportFailed'));
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `collection.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting collection:', error);
+      setError(t('favorites.errors.network'));
+    }
+  };
 
   // Fallback mock data for demonstration
   const loadMockData = () => {
@@ -194,19 +331,20 @@ const FavoritesPage: React.FC = () => {
         id: 'weekend-plans',
         name: 'Weekend Plans',
         description: 'Places I want to visit this weekend',
-        locations: ['1'],
+        listingIds: ['1'],
         createdAt: '2024-01-20',
         isPublic: false,
-        color: 'bg-blue-500'
+        color: '#3B82F6'
       },
       {
         id: 'food-spots',
         name: 'Food & Dining',
         description: 'Amazing local food experiences',
-        locations: ['3'],
+        listingIds: ['3'],
         createdAt: '2024-01-18',
         isPublic: true,
-        color: 'bg-red-500'
+        slug: 'food-dining',
+        color: '#EF4444'
       }
     ];
 
@@ -222,7 +360,10 @@ const FavoritesPage: React.FC = () => {
     const collection = collections.find(c => c.id === selectedCollection);
     if (!collection) return [];
     
-    return favorites.filter(fav => collection.locations.includes(fav.id));
+    // Keep the collection's own order
+    return collection.listingIds
+      .map(id => favorites.find(fav => fav.id === id))
+      .filter((fav): fav is Location => fav !== undefined);
   };
 
   const renderStars = (rating: number) => {
@@ -238,33 +379,43 @@ const FavoritesPage: React.FC = () => {
     ));
   };
 
-  const CreateCollectionModal: React.FC = () => {
+  const CollectionModal: React.FC<{ collection: FavoriteCollection | null; onClose: () => void }> = ({ collection, onClose }) => {
     const [formData, setFormData] = useState({
-      name: '',
-      description: '',
-      isPublic: false,
-      color: 'bg-green-500'
+      name: collection?.name || '',
+      description: collection?.description || '',
+      isPublic: collection?.isPublic || false,
+      color: collection?.color || COLLECTION_COLORS[0]
     });
+    const [saving, setSaving] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
 
-    const colors = [
-      'bg-green-500', 'bg-blue-500', 'bg-red-500', 'bg-purple-500',
-      'bg-yellow-500', 'bg-pink-500', 'bg-indigo-500', 'bg-orange-500'
-    ];
-
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      const newCollection: FavoriteCollection = {
-        id: Date.now().toString(),
-        name: formData.name,
-        description: formData.description,
-        locations: [],
-        createdAt: new Date().toISOString(),
-        isPublic: formData.isPublic,
-        color: formData.color
-      };
-      setCollections(prev => [...prev, newCollection]);
-      setShowCreateCollection(false);
-      setFormData({ name: '', description: '', isPublic: false, color: 'bg-green-500' });
+      setSaving(true);
+      setFormError(null);
+
+      try {
+        const response = collection
+          ? await collectionRequest(`/${collection.id}`, 'PUT', formData)
+          : await collectionRequest('', 'POST', formData);
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          setFormError(data.error || t('favorites.errors.saveFailed'));
+          return;
+        }
+
+        const saved: FavoriteCollection = data.collection;
+        setCollections(prev => collection
+          ? prev.map(c => c.id === saved.id ? saved : c)
+          : [saved, ...prev]);
+        onClose();
+      } catch (error) {
+        console.error('Error saving collection:', error);
+        setFormError(t('favorites.errors.network'));
+      } finally {
+        setSaving(false);
+      }
     };
 
     return (
@@ -272,9 +423,9 @@ const FavoritesPage: React.FC = () => {
         <div className="bg-white rounded-lg max-w-md w-full">
           <div className="p-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Create Collection</h3>
+              <h3 className="text-lg font-semibold text-gray-900">{collection ? t('favorites.modal.editTitle') : t('favorites.modal.createTitle')}</h3>
               <button
-                onClick={() => setShowCreateCollection(false)}
+                onClick={onClose}
                 className="text-gray-400 hover:text-gray-600"
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -284,38 +435,47 @@ const FavoritesPage: React.FC = () => {
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-4">
+              {formError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">
+                  {formError}
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Collection Name</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('favorites.modal.name')}</label>
                 <input
                   type="text"
                   value={formData.name}
                   onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                  placeholder="e.g., Weekend Adventures"
+                  placeholder={t('favorites.modal.namePlaceholder')}
+                  maxLength={100}
                   required
                 />
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('favorites.modal.description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                  placeholder="Describe your collection..."
+                  placeholder={t('favorites.modal.descriptionPlaceholder')}
+                  maxLength={500}
                 />
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('favorites.modal.color')}</label>
                 <div className="flex space-x-2">
-                  {colors.map((color) => (
+                  {COLLECTION_COLORS.map((color) => (
                     <button
                       key={color}
                       type="button"
                       onClick={() => setFormData({ ...formData, color })}
-                      className={`w-8 h-8 rounded-full ${color} ${
+                      style={{ backgroundColor: color }}
+                      className={`w-8 h-8 rounded-full ${
                         formData.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''
                       }`}
                     />
@@ -323,32 +483,38 @@ const FavoritesPage: React.FC = () => {
                 </div>
               </div>
 
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="isPublic"
-                  checked={formData.isPublic}
-                  onChange={(e) => setFormData({ ...formData, isPublic: e.target.checked })}
-                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
-                />
-                <label htmlFor="isPublic" className="ml-2 block text-sm text-gray-700">
-                  Make this collection public
-                </label>
+              <div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="isPublic"
+                    checked={formData.isPublic}
+                    onChange={(e) => setFormData({ ...formData, isPublic: e.target.checked })}
+                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isPublic" className="ml-2 block text-sm text-gray-700">
+                    {t('favorites.modal.makePublic')}
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  {t('favorites.modal.publicHint')}
+                </p>
               </div>
 
               <div className="flex space-x-3 pt-4">
                 <button
                   type="submit"
-                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  disabled={saving}
+                  className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
                 >
-                  Create Collection
+                  {collection ? t('favorites.modal.save') : t('favorites.modal.create')}
                 </button>
                 <button
                   type="button"
-                  onClick={() => setShowCreateCollection(false)}
+                  onClick={onClose}
                   className="px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
                 >
-                  Cancel
+                  {t('favorites.modal.cancel')}
                 </button>
               </div>
             </form>
@@ -358,7 +524,64 @@ const FavoritesPage: React.FC = () => {
     );
   };
 
+  // Add to a collection from "All Favorites", or reorder and remove inside one
+  const renderCollectionControls = (location: Location) => {
+    if (selectedCollection === 'all') {
+      const available = collections.filter(c => !c.listingIds.includes(location.id));
+      if (available.length === 0) return null;
+
+      return (
+        <select
+          value=""
+          onChange={(e) => addToCollection(e.target.value, location.id)}
+          className="text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-600 focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          <option value="" disabled>{t('favorites.addToCollection')}</option>
+          {available.map(c => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      );
+    }
+
+    const collection = collections.find(c => c.id === selectedCollection);
+    if (!collection) return null;
+    const index = collection.listingIds.indexOf(location.id);
+
+    return (
+      <div className="flex items-center space-x-1">
+        <button
+          onClick={() => moveInCollection(collection.id, location.id, -1)}
+          disabled={index <= 0}
+          className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+          title={t('favorites.moveUp')}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </button>
+        <button
+          onClick={() => moveInCollection(collection.id, location.id, 1)}
+          disabled={index === collection.listingIds.length - 1}
+          className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+          title={t('favorites.moveDown')}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        <button
+          onClick={() => removeFromCollection(collection.id, location.id)}
+          className="text-sm text-gray-500 hover:text-red-600 px-1"
+        >
+          {t('favorites.remove')}
+        </button>
+      </div>
+    );
+  };
+
   const filteredFavorites = getFilteredFavorites();
+  const activeCollection = collections.find(c => c.id === selectedCollection);
 
   // Loading state
   if (loading) {
@@ -366,7 +589,7 @@ const FavoritesPage: React.FC = () => {
       <div className="space-y-6">
         <div className="flex items-center justify-center h-64">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
-          <span className="ml-3 text-gray-600">Loading your favorites...</span>
+          <span className="ml-3 text-gray-600">{t('favorites.loading')}</span>
         </div>
       </div>
     );
@@ -384,8 +607,8 @@ const FavoritesPage: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">My Favorites</h1>
-          <p className="text-gray-600 mt-1">Save and organize your favorite locations</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('favorites.title')}</h1>
+          <p className="text-gray-600 mt-1">{t('favorites.subtitle')}</p>
         </div>
         
         <div className="flex items-center space-x-4 mt-4 sm:mt-0">
@@ -409,6 +632,14 @@ const FavoritesPage: React.FC = () => {
             </button>
           </div>
 
+          <button
+            onClick={() => setShowTripPlanner(true)}
+            disabled={filteredFavorites.length === 0}
+            className="border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            {t('favorites.planTrip')}
+          </button>
+
           <button
             onClick={() => setShowCreateCollection(true)}
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
@@ -416,7 +647,7 @@ const FavoritesPage: React.FC = () => {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
             </svg>
-            <span>New Collection</span>
+            <span>{t('favorites.newCollection')}</span>
           </button>
         </div>
       </div>
@@ -424,9 +655,9 @@ const FavoritesPage: React.FC = () => {
       {/* Collections Filter */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold text-gray-900">Collections</h3>
+          <h3 className="text-lg font-semibold text-gray-900">{t('favorites.collections')}</h3>
           <span className="text-sm text-gray-500">
-            {filteredFavorites.length} location{filteredFavorites.length !== 1 ? 's' : ''}
+            {t('favorites.count', { count: filteredFavorites.length })}
           </span>
         </div>
 
@@ -439,7 +670,7 @@ const FavoritesPage: React.FC = () => {
                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200 border border-transparent'
             }`}
           >
-            All Favorites ({favorites.length})
+            {t('favorites.all', { count: favorites.length })}
           </button>
           
           {collections.map((collection) => (
@@ -452,8 +683,8 @@ const FavoritesPage: React.FC = () => {
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200 border border-transparent'
               }`}
             >
-              <div className={`w-3 h-3 rounded-full ${collection.color}`}></div>
-              <span>{collection.name} ({collection.locations.length})</span>
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: collection.color }}></div>
+              <span>{collection.name} ({collection.listingIds.length})</span>
               {collection.isPublic && (
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9c0 5-4 9-9 9m0 0c-5 0-9-4-9-9m9 9V3m0 0C7.02 3 3 7.02 3 12s4.02 9 9 9m0 0v9" />
@@ -462,6 +693,47 @@ const FavoritesPage: React.FC = () => {
             </button>
           ))}
         </div>
+
+        {/* Selected collection actions */}
+        {activeCollection && (
+          <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap items-center gap-2">
+            {activeCollection.description && (
+              <p className="w-full text-sm text-gray-600 mb-2">{activeCollection.description}</p>
+            )}
+            <button
+              onClick={() => setEditingCollection(activeCollection)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('common.edit')}
+            </button>
+            {activeCollection.isPublic && activeCollection.slug && (
+              <button
+                onClick={() => copyShareLink(activeCollection)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {copiedLink ? t('favorites.linkCopied') : t('favorites.copyLink')}
+              </button>
+            )}
+            <button
+              onClick={() => exportCollection(activeCollection, 'gpx')}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('favorites.exportGpx')}
+            </button>
+            <button
+              onClick={() => exportCollection(activeCollection, 'geojson')}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('favorites.exportGeojson')}
+            </button>
+            <button
+              onClick={() => deleteCollection(activeCollection)}
+              className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              {t('favorites.delete')}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Favorites Grid/List */}
@@ -507,10 +779,10 @@ const FavoritesPage: React.FC = () => {
                       <div className="text-lg font-semibold text-green-600">€{location.price}</div>
                     )}
                     {location.priceType === 'free' && (
-                      <div className="text-lg font-semibold text-green-600">Free</div>
+                      <div className="text-lg font-semibold text-green-600">{t('favorites.free')}</div>
                     )}
                     {location.priceType === 'donation' && (
-                      <div className="text-lg font-semibold text-blue-600">Donation</div>
+                      <div className="text-lg font-semibold text-blue-600">{t('favorites.donation')}</div>
                     )}
                   </div>
 
@@ -522,10 +794,16 @@ const FavoritesPage: React.FC = () => {
                     
                     {location.savedAt && (
                       <span className="text-xs text-gray-500">
-                        Saved {new Date(location.savedAt).toLocaleDateString()}
+                        {t('favorites.savedOn', { date: new Date(location.savedAt).toLocaleDateString(locale) })}
                       </span>
                     )}
                   </div>
+
+                  {collections.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-gray-100">
+                      {renderCollectionControls(location)}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -559,9 +837,10 @@ const FavoritesPage: React.FC = () => {
                           </div>
                           {location.savedAt && (
                             <span className="text-xs text-gray-500">
-                              Saved {new Date(location.savedAt).toLocaleDateString()}
+                              {t('favorites.savedOn', { date: new Date(location.savedAt).toLocaleDateString(locale) })}
                             </span>
                           )}
+                          {renderCollectionControls(location)}
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -569,10 +848,10 @@ const FavoritesPage: React.FC = () => {
                           <div className="text-lg font-semibold text-green-600">€{location.price}</div>
                         )}
                         {location.priceType === 'free' && (
-                          <div className="text-lg font-semibold text-green-600">Free</div>
+                          <div className="text-lg font-semibold text-green-600">{t('favorites.free')}</div>
                         )}
                         {location.priceType === 'donation' && (
-                          <div className="text-lg font-semibold text-blue-600">Donation</div>
+                          <div className="text-lg font-semibold text-blue-600">{t('favorites.donation')}</div>
                         )}
                         <button className="text-red-500 hover:text-red-600 p-1">
                           <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
@@ -592,19 +871,41 @@ const FavoritesPage: React.FC = () => {
           <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
           </svg>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No favorites yet</h3>
-          <p className="text-gray-600 mb-4">Start exploring and save your favorite locations</p>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('favorites.emptyTitle')}</h3>
+          <p className="text-gray-600 mb-4">{t('favorites.emptyText')}</p>
           <button
             onClick={() => window.location.href = '/dashboard'}
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
           >
-            Discover Locations
+            {t('favorites.discover')}
           </button>
         </div>
       )}
 
       {/* Create Collection Modal */}
-      {showCreateCollection && <CreateCollectionModal />}
+      {/* Trip planner over the favorites shown */}
+      {showTripPlanner && (
+        <TripPlanner
+          listings={filteredFavorites.map(location => ({
+            id: location.id,
+            title: location.title,
+            latitude: location.location.coordinates.lat,
+            longitude: location.location.coordinates.lng,
+          }))}
+          collection={activeCollection ? { id: activeCollection.id, name: activeCollection.name } : undefined}
+          onClose={() => setShowTripPlanner(false)}
+        />
+      )}
+
+      {(showCreateCollection || editingCollection) && (
+        <CollectionModal
+          collection={editingCollection}
+          onClose={() => {
+            setShowCreateCollection(false);
+            setEditingCollection(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import Map from '../Map';
+import ListingDetail from '../listings/ListingDetail';
+
+interface CollectionListing {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  address: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  thumbnail?: string;
+  isVerified: boolean;
+  addedAt: string;
+}
+
+interface PublicCollection {
+  slug: string;
+  name: string;
+  description?: string;
+  color: string;
+  ownerName: string;
+  updatedAt: string;
+  listings: CollectionListing[];
+}
+
+interface PublicCollectionPageProps {
+  slug: string;
+  // Shown to visitors who aren't signed in
+  onNavigateToAuth?: () => void;
+}
+
+/**
+ * Read-only view of a collection its owner shared at /collections/<slug>.
+ */
+const PublicCollectionPage: React.FC<PublicCollectionPageProps> = ({ slug, onNavigateToAuth }) => {
+  const { locale, t } = useLanguage();
+  const [collection, setCollection] = useState<PublicCollection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCollection = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/collections/${encodeURIComponent(slug)}`);
+        if (response.ok) {
+          const data = await response.json();
+          setCollection(data.collection);
+          setNotFound(false);
+        } else {
+          setNotFound(true);
+        }
+      } catch (error) {
+        console.error('Error loading collection:', error);
+        setNotFound(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCollection();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+        <span className="ml-3 text-gray-600">{t('collections.loading')}</span>
+      </div>
+    );
+  }
+
+  if (notFound || !collection) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('collections.notFoundTitle')}</h1>
+        <p className="text-gray-600">{t('collections.notFound')}</p>
+      </div>
+    );
+  }
+
+  const mappedListings = collection.listings.filter(listing => listing.latitude || listing.longitude);
+  const markers = mappedListings.map(listing => ({
+    position: [listing.latitude, listing.longitude] as [number, number],
+    title: listing.title,
+    description: listing.address
+  }));
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <div className="flex items-center space-x-3">
+          <div className="w-4 h-4 rounded-full" style={{ backgroundColor: collection.color }}></div>
+          <h1 className="text-2xl font-bold text-gray-900">{collection.name}</h1>
+        </div>
+        {collection.description && (
+          <p className="text-gray-600 mt-2">{collection.description}</p>
+        )}
+        <p className="text-sm text-gray-500 mt-2">
+          {collection.ownerName ? t('collections.by', { name: collection.ownerName }) + ' · ' : ''}
+          {t('collections.count', { count: collection.listings.length })}
+          {' · '}
+          {t('collections.updated', { date: new Date(collection.updatedAt.includes('T') ? collection.updatedAt : `${collection.updatedAt.replace(' ', 'T')}Z`).toLocaleDateString(locale) })}
+        </p>
+      </div>
+
+      {markers.length > 0 && (
+        <Map
+          center={markers[0].position}
+          zoom={12}
+          height="400px"
+          markers={markers}
+          fitToMarkers={true}
+          onMarkerClick={(marker) => {
+            const listing = mappedListings.find(l => l.latitude === marker.position[0] && l.longitude === marker.position[1]);
+            if (listing) {
+              setSelectedListingId(listing.id);
+            }
+          }}
+        />
+      )}
+
+      {collection.listings.length > 0 ? (
+        <ol className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-200">
+          {collection.listings.map((listing, index) => (
+            <li key={listing.id}>
+              <button
+                onClick={() => setSelectedListingId(listing.id)}
+                className="w-full text-left p-4 flex space-x-4 hover:bg-gray-50 transition-colors"
+              >
+                <span className="w-6 text-sm font-semibold text-gray-400 flex-shrink-0">{index + 1}</span>
+                {listing.thumbnail && (
+                  <img
+                    src={listing.thumbnail}
+                    alt={listing.title}
+                    className="w-20 h-20 object-cover rounded-lg flex-shrink-0"
+                  />
+                )}
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 flex items-center space-x-2">
+                    <span>{listing.title}</span>
+                    {listing.isVerified && (
+                      <span className="text-xs font-medium text-blue-600">{t('collections.verified')}</span>
+                    )}
+                  </h3>
+                  <p className="text-sm text-gray-500">{listing.address}</p>
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2">{listing.description}</p>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-gray-600">{t('collections.empty')}</p>
+      )}
+
+      {onNavigateToAuth && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6 text-center">
+          <p className="text-gray-700 mb-3">{t('collections.signUpPrompt')}</p>
+          <button
+            onClick={onNavigateToAuth}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            {t('collections.signUp')}
+          </button>
+        </div>
+      )}
+
+      {selectedListingId && (
+        <ListingDetail
+          listingId={selectedListingId}
+          onClose={() => setSelectedListingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PublicCollectionPage;
@@ -0,0 +1,390 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import Map from '../Map';
+
+interface TripCandidate {
+  id: string;
+  title: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface TripPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface TripStop extends TripPoint {
+  listingId: string;
+  title: string;
+  address: string;
+  distanceKm: number;
+  arrivalAt: string;
+  departureAt: string;
+  warning?: { type: 'closed' | 'closesDuringVisit'; at?: string };
+}
+
+interface TripPlan {
+  start: TripPoint;
+  stops: TripStop[];
+  roundTrip: boolean;
+  returnDistanceKm?: number;
+  totalDistanceKm: number;
+  departAt: string;
+  finishAt: string;
+  directions: { google: string[]; osm: string };
+  skippedListingIds: string[];
+}
+
+interface TripPlannerProps {
+  listings: TripCandidate[];
+  // Planning a whole collection names the GPX file after it
+  collection?: { id: string; name: string };
+  onClose: () => void;
+}
+
+// Mirror the limit in the worker's trip planner
+const MAX_TRIP_STOPS = 25;
+
+// Value for a datetime-local input, in the browser's timezone
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().substring(0, 16);
+
+/**
+ * Orders the chosen favorites into a short route from a start point, shows it on
+ * the map and warns about stops that will be closed when the user gets there.
+ */
+const TripPlanner: React.FC<TripPlannerProps> = ({ listings, collection, onClose }) => {
+  const { token } = useAuth();
+  const { locale, t } = useLanguage();
+  const routable = listings.filter(listing => listing.latitude || listing.longitude);
+  const [selectedIds, setSelectedIds] = useState<string[]>(routable.slice(0, MAX_TRIP_STOPS).map(listing => listing.id));
+  const [start, setStart] = useState<TripPoint | null>(null);
+  const [departAt, setDepartAt] = useState(toLocalInput(new Date()));
+  const [roundTrip, setRoundTrip] = useState(true);
+  const [stopMinutes, setStopMinutes] = useState(15);
+  const [plan, setPlan] = useState<TripPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString(locale, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+  const toggleListing = (id: string) => {
+    setPlan(null);
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(selected => selected !== id)
+      : prev.length < MAX_TRIP_STOPS ? [...prev, id] : prev);
+  };
+
+  const locateMe = () => {
+    if (!navigator.geolocation) {
+      setError(t('trips.locationUnavailable'));
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setStart({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setPlan(null);
+        setLocating(false);
+      },
+      () => {
+        setError(t('trips.locationUnavailable'));
+        setLocating(false);
+      }
+    );
+  };
+
+  const requestBody = () => ({
+    start,
+    ...(collection && selectedIds.length === routable.length
+      ? { collectionId: collection.id }
+      : { listingIds: selectedIds }),
+    departAt: new Date(departAt).toISOString(),
+    roundTrip,
+    stopMinutes,
+  });
+
+  const planTrip = async () => {
+    setPlanning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/trips/plan', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody()),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setPlan(data.plan);
+      } else {
+        setError(data.error || t('trips.planFailed'));
+      }
+    } catch (error) {
+      console.error('Error planning trip:', error);
+      setError(t('trips.planFailed'));
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const exportGpx = async () => {
+    try {
+      const response = await fetch('/api/trips/plan?format=gpx', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody()),
+      });
+      if (!response.ok) {
+        setError(t('trips.exportFailed'));
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'trip.gpx';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting trip:', error);
+      setError(t('trips.exportFailed'));
+    }
+  };
+
+  const markers = [
+    ...(start ? [{ position: [start.latitude, start.longitude] as [number, number], title: t('trips.start'), isMain: true }] : []),
+    ...(plan
+      ? plan.stops.map((stop, index) => ({
+          position: [stop.latitude, stop.longitude] as [number, number],
+          title: `${index + 1}. ${stop.title}`,
+          description: stop.address,
+        }))
+      : routable.filter(listing => selectedIds.includes(listing.id)).map(listing => ({
+          position: [listing.latitude, listing.longitude] as [number, number],
+          title: listing.title,
+        }))),
+  ];
+  const route: [number, number][] | undefined = plan ? [
+    [plan.start.latitude, plan.start.longitude],
+    ...plan.stops.map(stop => [stop.latitude, stop.longitude] as [number, number]),
+    ...(plan.roundTrip ? [[plan.start.latitude, plan.start.longitude] as [number, number]] : []),
+  ] : undefined;
+  // The map only redraws when remounted, so key it on what it shows
+  const mapKey = `${start?.latitude},${start?.longitude}:${plan ? plan.stops.map(stop => stop.listingId).join(',') : selectedIds.join(',')}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {collection ? t('trips.titleFor', { name: collection.name }) : t('trips.title')}
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">{t('trips.start')}</label>
+                  <button
+                    onClick={locateMe}
+                    disabled={locating}
+                    className="text-sm text-green-600 hover:text-green-700 disabled:opacity-50"
+                  >
+                    {t('trips.useMyLocation')}
+                  </button>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {start ? `${start.latitude.toFixed(5)}, ${start.longitude.toFixed(5)}` : t('trips.startHint')}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('trips.departAt')}</label>
+                  <input
+                    type="datetime-local"
+                    value={departAt}
+                    onChange={(e) => { setDepartAt(e.target.value); setPlan(null); }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('trips.stopMinutes')}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={240}
+                    value={stopMinutes}
+                    onChange={(e) => { setStopMinutes(Math.max(0, Math.min(240, Number(e.target.value) || 0))); setPlan(null); }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={roundTrip}
+                  onChange={(e) => { setRoundTrip(e.target.checked); setPlan(null); }}
+                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+                />
+                {t('trips.roundTrip')}
+              </label>
+
+              {!plan && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">
+                    {t('trips.stopsSelected', { count: selectedIds.length, max: MAX_TRIP_STOPS })}
+                  </p>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-60 overflow-y-auto">
+                    {routable.map(listing => (
+                      <label key={listing.id} className="flex items-center px-3 py-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(listing.id)}
+                          onChange={() => toggleListing(listing.id)}
+                          className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+                        />
+                        {listing.title}
+                      </label>
+                    ))}
+                  </div>
+                  {routable.length < listings.length && (
+                    <p className="text-xs text-gray-500 mt-1">{t('trips.noCoordinates', { count: listings.length - routable.length })}</p>
+                  )}
+                </div>
+              )}
+
+              {plan && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-700">
+                    {t('trips.summary', {
+                      distance: plan.totalDistanceKm,
+                      count: plan.stops.length,
+                      finish: formatTime(plan.finishAt),
+                    })}
+                  </p>
+                  <ol className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {plan.stops.map((stop, index) => (
+                      <li key={stop.listingId} className="px-3 py-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-900">{index + 1}. {stop.title}</span>
+                          <span className="text-gray-500">{formatTime(stop.arrivalAt)}</span>
+                        </div>
+                        <p className="text-gray-500">{stop.address} · {t('trips.distance', { distance: stop.distanceKm })}</p>
+                        {stop.warning && (
+                          <p className="text-amber-700 mt-1">
+                            {stop.warning.type === 'closed'
+                              ? (stop.warning.at ? t('trips.closedUntil', { time: formatTime(stop.warning.at) }) : t('trips.closed'))
+                              : t('trips.closesDuringVisit', { time: formatTime(stop.warning.at || stop.departureAt) })}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {plan.skippedListingIds.length > 0 && (
+                    <p className="text-xs text-gray-500">{t('trips.skipped', { count: plan.skippedListingIds.length })}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={exportGpx}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      {t('trips.exportGpx')}
+                    </button>
+                    {plan.directions.google.map((url, index) => (
+                      <a
+                        key={url}
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        {plan.directions.google.length > 1
+                          ? t('trips.googleMapsPart', { part: index + 1, parts: plan.directions.google.length })
+                          : t('trips.googleMaps')}
+                      </a>
+                    ))}
+                    <a
+                      href={plan.directions.osm}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      {t('trips.openStreetMap')}
+                    </a>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-2">
+                {plan ? (
+                  <button
+                    onClick={() => setPlan(null)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                  >
+                    {t('trips.changeStops')}
+                  </button>
+                ) : (
+                  <button
+                    onClick={planTrip}
+                    disabled={!start || selectedIds.length === 0 || planning}
+                    className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  >
+                    {planning ? t('trips.planning') : t('trips.plan')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              {markers.length > 0 ? (
+                <Map
+                  key={mapKey}
+                  center={markers[0].position}
+                  zoom={11}
+                  height="420px"
+                  markers={markers}
+                  route={route}
+                  fitToMarkers={true}
+                  onMapClick={(lat, lng) => {
+                    setStart({ latitude: lat, longitude: lng });
+                    setPlan(null);
+                  }}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">{t('trips.noStops')}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripPlanner;
@@ -1,18 +1,51 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 import UserSettings from '../settings/UserSettings';
 
 interface UserDropdownProps {
   onNavigateToProfile?: () => void;
   onNavigateToSearch?: () => void;
+  onNavigateToMessages?: () => void;
 }
 
-const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavigateToSearch }) => {
-  const { user, logout } = useAuth();
+// How often the unread message badge is refreshed
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
+
+const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavigateToSearch, onNavigateToMessages }) => {
+  const { user, token, logout } = useAuth();
+  const { t } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  // Refreshed while signed in and whenever the menu opens
+  useEffect(() => {
+    if (!token) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const loadUnreadCount = async () => {
+      try {
+        const response = await fetch('/api/messages/unread-count', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setUnreadCount(data.count);
+        }
+      } catch (error) {
+        console.error('Error loading unread message count:', error);
+      }
+    };
+
+    loadUnreadCount();
+    const interval = setInterval(loadUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, isOpen]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -42,6 +75,13 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
     setIsOpen(false);
   };
 
+  const handleMessages = () => {
+    if (onNavigateToMessages) {
+      onNavigateToMessages();
+    }
+    setIsOpen(false);
+  };
+
   const handleSearch = () => {
     if (onNavigateToSearch) {
       onNavigateToSearch();
@@ -60,10 +100,18 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
           className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
         >
           {/* Avatar */}
-          <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+          <div className="relative w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
             <span className="text-green-600 font-medium text-sm">
               {user.firstName.charAt(0)}{user.lastName.charAt(0)}
             </span>
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center"
+                aria-label={t('userMenu.unreadMessages', { count: unreadCount })}
+              >
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
           </div>
           
           {/* User Info */}
@@ -107,14 +155,14 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
                         <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                         </svg>
-                        Verified
+                        {t('userMenu.verified')}
                       </span>
                     ) : (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
                         <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
                         </svg>
-                        Unverified
+                        {t('userMenu.unverified')}
                       </span>
                     )}
                   </div>
@@ -131,7 +179,22 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
                 <svg className="w-4 h-4 mr-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                 </svg>
-                View Profile
+                {t('userMenu.viewProfile')}
+              </button>
+
+              <button
+                onClick={handleMessages}
+                className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+              >
+                <svg className="w-4 h-4 mr-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
+                <span className="flex-1 text-left">{t('userMenu.messages')}</span>
+                {unreadCount > 0 && (
+                  <span className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1.5 rounded-full text-xs font-medium bg-green-600 text-white">
+                    {unreadCount}
+                  </span>
+                )}
               </button>
 
               {/* AI Search - Premium Feature */}
@@ -145,9 +208,9 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
                   </svg>
                   <span className="flex items-center">
-                    AI Search
+                    {t('userMenu.aiSearch')}
                     <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gradient-to-r from-purple-100 to-pink-100 text-purple-800">
-                      Premium
+                      {t('userMenu.premium')}
                     </span>
                   </span>
                 </button>
@@ -161,7 +224,7 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                 </svg>
-                Settings
+                {t('userMenu.settings')}
               </button>
 
               <div className="border-t border-gray-100 my-2"></div>
@@ -173,7 +236,7 @@ const UserDropdown: React.FC<UserDropdownProps> = ({ onNavigateToProfile, onNavi
                 <svg className="w-4 h-4 mr-3 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
                 </svg>
-                Sign Out
+                {t('userMenu.signOut')}
               </button>
             </div>
           </div>
@@ -1,147 +1,132 @@
 import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 const PrivacyPolicy: React.FC = () => {
+  const { locale, t, tList } = useLanguage();
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">Privacy Policy</h1>
-        
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">{t('legal.privacy.title')}</h1>
+
         <div className="prose prose-gray max-w-none">
           <p className="text-gray-600 mb-6">
-            <strong>Last updated:</strong> {new Date().toLocaleDateString()}
+            <strong>{t('legal.lastUpdated')}</strong> {new Date().toLocaleDateString(locale)}
           </p>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">1. Introduction</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.introduction.title')}</h2>
             <p className="text-gray-700 mb-4">
-              Welcome to Kisigua ("we," "our," or "us"). We are committed to protecting your privacy and ensuring 
-              the security of your personal information. This Privacy Policy explains how we collect, use, disclose, 
-              and safeguard your information when you use our platform.
+              {t('legal.privacy.introduction.p1')}
             </p>
             <p className="text-gray-700">
-              By using Kisigua, you consent to the data practices described in this policy.
+              {t('legal.privacy.introduction.p2')}
             </p>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">2. Information We Collect</h2>
-            
-            <h3 className="text-lg font-medium text-gray-900 mb-3">2.1 Personal Information</h3>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.collect.title')}</h2>
+
+            <h3 className="text-lg font-medium text-gray-900 mb-3">{t('legal.privacy.collect.personalTitle')}</h3>
             <ul className="list-disc list-inside text-gray-700 mb-4 space-y-2">
-              <li>Name and contact information (email address, phone number)</li>
-              <li>Account credentials (username, password)</li>
-              <li>Profile information and preferences</li>
-              <li>Location data when you use our location-based services</li>
-              <li>Payment information for premium services</li>
+              {tList('legal.privacy.collect.personal').map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
             </ul>
 
-            <h3 className="text-lg font-medium text-gray-900 mb-3">2.2 Usage Information</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-3">{t('legal.privacy.collect.usageTitle')}</h3>
             <ul className="list-disc list-inside text-gray-700 mb-4 space-y-2">
-              <li>Device information (IP address, browser type, operating system)</li>
-              <li>Usage patterns and interactions with our platform</li>
-              <li>Search queries and preferences</li>
-              <li>Cookies and similar tracking technologies</li>
+              {tList('legal.privacy.collect.usage').map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
             </ul>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">3. How We Use Your Information</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.use.title')}</h2>
             <ul className="list-disc list-inside text-gray-700 space-y-2">
-              <li>Provide and maintain our services</li>
-              <li>Process transactions and manage your account</li>
-              <li>Send you important updates and notifications</li>
-              <li>Improve our platform and develop new features</li>
-              <li>Personalize your experience</li>
-              <li>Comply with legal obligations</li>
-              <li>Prevent fraud and ensure platform security</li>
+              {tList('legal.privacy.use.items').map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
             </ul>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">4. Information Sharing</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.sharing.title')}</h2>
             <p className="text-gray-700 mb-4">
-              We do not sell, trade, or rent your personal information to third parties. We may share your 
-              information only in the following circumstances:
+              {t('legal.privacy.sharing.intro')}
             </p>
             <ul className="list-disc list-inside text-gray-700 space-y-2">
-              <li>With your explicit consent</li>
-              <li>To comply with legal requirements</li>
-              <li>To protect our rights and prevent fraud</li>
-              <li>With trusted service providers who assist in our operations</li>
-              <li>In connection with a business transfer or merger</li>
+              {tList('legal.privacy.sharing.items').map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
             </ul>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">5. Data Security</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.security.title')}</h2>
             <p className="text-gray-700 mb-4">
-              We implement appropriate technical and organizational measures to protect your personal information 
-              against unauthorized access, alteration, disclosure, or destruction. These measures include:
+              {t('legal.privacy.security.intro')}
             </p>
             <ul className="list-disc list-inside text-gray-700 space-y-2">
-              <li>SSL encryption for data transmission</li>
-              <li>Secure data storage with access controls</li>
-              <li>Regular security audits and updates</li>
-              <li>Employee training on data protection</li>
+              {tList('legal.privacy.security.items').map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
             </ul>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">6. Your Rights (GDPR)</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.rights.title')}</h2>
             <p className="text-gray-700 mb-4">
-              Under the General Data Protection Regulation (GDPR), you have the following rights:
+              {t('legal.privacy.rights.intro')}
             </p>
             <ul className="list-disc list-inside text-gray-700 space-y-2">
-              <li><strong>Right to Access:</strong> Request copies of your personal data</li>
-              <li><strong>Right to Rectification:</strong> Request correction of inaccurate data</li>
-              <li><strong>Right to Erasure:</strong> Request deletion of your personal data</li>
-              <li><strong>Right to Restrict Processing:</strong> Request limitation of data processing</li>
-              <li><strong>Right to Data Portability:</strong> Request transfer of your data</li>
-              <li><strong>Right to Object:</strong> Object to processing of your personal data</li>
+              <li><strong>{t('legal.privacy.rights.accessLabel')}</strong> {t('legal.privacy.rights.access')}</li>
+              <li><strong>{t('legal.privacy.rights.rectificationLabel')}</strong> {t('legal.privacy.rights.rectification')}</li>
+              <li><strong>{t('legal.privacy.rights.erasureLabel')}</strong> {t('legal.privacy.rights.erasure')}</li>
+              <li><strong>{t('legal.privacy.rights.restrictLabel')}</strong> {t('legal.privacy.rights.restrict')}</li>
+              <li><strong>{t('legal.privacy.rights.portabilityLabel')}</strong> {t('legal.privacy.rights.portability')}</li>
+              <li><strong>{t('legal.privacy.rights.objectLabel')}</strong> {t('legal.privacy.rights.object')}</li>
             </ul>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">7. Cookies and Tracking</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.cookies.title')}</h2>
             <p className="text-gray-700 mb-4">
-              We use cookies and similar technologies to enhance your experience. You can control cookie 
-              preferences through your browser settings. For more information, see our Cookie Policy.
+              {t('legal.privacy.cookies.text')}
             </p>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">8. Data Retention</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.retention.title')}</h2>
             <p className="text-gray-700">
-              We retain your personal information only as long as necessary to fulfill the purposes outlined 
-              in this policy, comply with legal obligations, resolve disputes, and enforce our agreements.
+              {t('legal.privacy.retention.text')}
             </p>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">9. Children's Privacy</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.children.title')}</h2>
             <p className="text-gray-700">
-              Our services are not intended for children under 16 years of age. We do not knowingly collect 
-              personal information from children under 16.
+              {t('legal.privacy.children.text')}
             </p>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">10. Changes to This Policy</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.changes.title')}</h2>
             <p className="text-gray-700">
-              We may update this Privacy Policy from time to time. We will notify you of any changes by 
-              posting the new policy on this page and updating the "Last updated" date.
+              {t('legal.privacy.changes.text')}
             </p>
           </section>
 
           <section className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">11. Contact Us</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('legal.privacy.contact.title')}</h2>
             <p className="text-gray-700 mb-4">
-              If you have any questions about this Privacy Policy or our data practices, please contact us:
+              {t('legal.privacy.contact.intro')}
             </p>
             <div className="bg-gray-50 p-4 rounded-lg">
-              <p className="text-gray-700"><strong>Email:</strong> privacy@kisigua.com</p>
-              <p className="text-gray-700"><strong>Address:</strong> Kisigua Data Protection Officer</p>
-              <p className="text-gray-700">Germany</p>
+              <p className="text-gray-700"><strong>{t('legal.email')}</strong> privacy@kisigua.com</p>
+              <p className="text-gray-700"><strong>{t('legal.address')}</strong> {t('legal.privacy.contact.address')}</p>
+              <p className="text-gray-700">{t('legal.germany')}</p>
             </div>
           </section>
         </div>
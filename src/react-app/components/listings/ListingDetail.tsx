@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import Map from '../Map';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import ContactOwnerForm from '../messages/ContactOwnerForm';
+import ListingReviews from '../reviews/ListingReviews';
+import WaterSourcePanel, { WaterSourceDetails } from '../water/WaterSourcePanel';
+import ListingProducts from '../products/ListingProducts';
+import ClaimListing from '../claims/ClaimListing';
 
 interface ListingDetailProps {
   listingId: string;
@@ -58,16 +64,30 @@ interface Listing {
   views: number;
   inquiries?: number;
   favorites?: number;
+  operatingHours?: {
+    timezone: string;
+    alwaysOpen?: boolean;
+  };
+  openingStatus?: {
+    isOpen: boolean;
+    nextChange?: string;
+  };
+  waterSource?: WaterSourceDetails;
 }
 
+// Within this many minutes the badge counts down to opening or closing
+const OPENING_COUNTDOWN_MINUTES = 60;
+
 const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdit }) => {
   const { user, token } = useAuth();
+  const { t } = useLanguage();
   const [listing, setListing] = useState<Listing | null>(null);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updatingCover, setUpdatingCover] = useState(false);
   const [showScrollIndicator, setShowScrollIndicator] = useState(true);
+  const [showContactForm, setShowContactForm] = useState(false);
 
   // Check if current user owns this listing
   const isOwner = user && listing && user.id === listing.userId;
@@ -175,6 +195,30 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
     return 'Contact for pricing';
   };
 
+  const getOpeningBadge = (listing: Listing) => {
+    const status = listing.openingStatus;
+    if (!status) return null;
+
+    const minutesUntilChange = status.nextChange
+      ? Math.max(1, Math.ceil((new Date(status.nextChange).getTime() - Date.now()) / 60000))
+      : null;
+    const countdown = minutesUntilChange !== null && minutesUntilChange <= OPENING_COUNTDOWN_MINUTES;
+
+    if (status.isOpen) {
+      if (countdown) {
+        return { label: t('listings.openingStatus.closesIn', { minutes: minutesUntilChange }), className: 'bg-yellow-100 text-yellow-800' };
+      }
+      return {
+        label: t(listing.operatingHours?.alwaysOpen && !status.nextChange ? 'listings.openingStatus.alwaysOpen' : 'listings.openingStatus.openNow'),
+        className: 'bg-green-100 text-green-800'
+      };
+    }
+    if (countdown) {
+      return { label: t('listings.openingStatus.opensIn', { minutes: minutesUntilChange }), className: 'bg-blue-100 text-blue-800' };
+    }
+    return { label: t('listings.openingStatus.closed'), className: 'bg-gray-100 text-gray-800' };
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'published': return 'bg-green-100 text-green-800';
@@ -237,6 +281,8 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
     );
   }
 
+  const openingBadge = getOpeningBadge(listing);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
       <div className="bg-white rounded-lg w-full max-w-7xl h-full max-h-[98vh] sm:max-h-[95vh] overflow-hidden shadow-2xl flex flex-col">
@@ -254,8 +300,13 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
                 <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(listing.status)}`}>
                   {listing.status.charAt(0).toUpperCase() + listing.status.slice(1)}
                 </span>
+                {openingBadge && (
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold ${openingBadge.className}`}>
+                    {openingBadge.label}
+                  </span>
+                )}
                 {listing.isVerified && (
-                  <div className="bg-blue-600 text-white p-1.5 rounded-full shadow-sm">
+                  <div className="bg-blue-600 text-white p-1.5 rounded-full shadow-sm" title={t('claims.verifiedOwner')}>
                     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M6.267 3.455a3.066 3.066 0 001.745-.723 3.066 3.066 0 013.976 0 3.066 3.066 0 001.745.723 3.066 3.066 0 012.812 2.812c.051.643.304 1.254.723 1.745a3.066 3.066 0 010 3.976 3.066 3.066 0 00-.723 1.745 3.066 3.066 0 01-2.812 2.812 3.066 3.066 0 00-1.745.723 3.066 3.066 0 01-3.976 0 3.066 3.066 0 00-1.745-.723 3.066 3.066 0 01-2.812-2.812 3.066 3.066 0 00-.723-1.745 3.066 3.066 0 010-3.976 3.066 3.066 0 00.723-1.745 3.066 3.066 0 012.812-2.812zm7.44 5.252a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                     </svg>
@@ -518,6 +569,19 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
                   />
                 )}
                 </div>
+
+                {/* Water source status */}
+                {listing.category === 'water_source' && (
+                  <WaterSourcePanel listingId={listing.id} details={listing.waterSource} />
+                )}
+
+                {/* Vending machine products */}
+                {listing.category === 'vending_machine' && (
+                  <ListingProducts listingId={listing.id} ownerId={listing.userId} />
+                )}
+
+                {/* Reviews */}
+                <ListingReviews listingId={listing.id} ownerId={listing.userId} />
               </div>
 
               {/* Sidebar */}
@@ -563,6 +627,22 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
                   )}
                 </div>
 
+                {!isOwner && (
+                  <button
+                    onClick={() => setShowContactForm(true)}
+                    className="w-full mt-4 bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                  >
+                    {t('messages.contactOwner')}
+                  </button>
+                )}
+
+                {!isOwner && listing.status === 'active' && (
+                  <ClaimListing
+                    listingId={listing.id}
+                    onClaimed={() => setListing(prev => prev && user ? { ...prev, userId: user.id, isVerified: true } : prev)}
+                  />
+                )}
+
                 {/* Social Media */}
                 {(listing.contact?.socials && Object.values(listing.contact.socials).some(Boolean)) && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
@@ -633,6 +713,14 @@ const ListingDetail: React.FC<ListingDetailProps> = ({ listingId, onClose, onEdi
           </div>
         </div>
       </div>
+
+      {showContactForm && (
+        <ContactOwnerForm
+          listingId={listing.id}
+          listingTitle={listing.title}
+          onClose={() => setShowContactForm(false)}
+        />
+      )}
     </div>
   );
 };
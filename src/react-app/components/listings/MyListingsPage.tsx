@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { SUPPORTED_LOCALES, LOCALE_NAMES, Locale, isSupportedLocale } from '../../i18n';
 import { usePerformance } from '../../contexts/PerformanceContext';
 import ListingImageUpload from './ListingImageUpload';
 import RichTextEditor from '../RichTextEditor';
 import ListingDetail from './ListingDetail';
 import LocationInputWithPostalCode from './LocationInputWithPostalCode';
+import { DocumentUpload } from '../DocumentUpload';
 
 interface Listing {
   id: string;
@@ -55,6 +58,88 @@ interface Listing {
   views: number;
   inquiries?: number;
   favorites?: number;
+  moderationReason?: string;
+  primaryLocale?: Locale;
+  translations?: ListingTranslations;
+  operatingHours?: OpeningHours;
+  waterSource?: WaterSourceDetails;
+  hideContactInfo?: boolean;
+}
+
+interface WaterSourceDetails {
+  potable?: boolean;
+  season?: { from: string; to: string }; // "MM-DD"
+  lastTestedAt?: string; // "YYYY-MM-DD"
+  certificateUrl?: string;
+}
+
+interface ListingTranslation {
+  title: string;
+  description: string;
+}
+
+type ListingTranslations = Partial<Record<Locale, ListingTranslation>>;
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+type Weekday = typeof WEEKDAYS[number];
+
+interface OpeningInterval {
+  open: string;
+  close: string;
+}
+
+interface OpeningHours {
+  timezone: string;
+  alwaysOpen?: boolean;
+  weekly: Partial<Record<Weekday, OpeningInterval[]>>;
+  seasons?: unknown[]; // Seasonal hours and exceptions aren't edited here, only kept
+  exceptions?: unknown[];
+}
+
+const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'Europe/Berlin';
+
+// Opening hours are edited as one line per day: "08:00-12:00, 14:00-18:00"
+const formatIntervals = (intervals: OpeningInterval[] = []) =>
+  intervals.map(interval => `${interval.open}-${interval.close}`).join(', ');
+
+const parseIntervals = (text: string): OpeningInterval[] | null => {
+  const intervals: OpeningInterval[] = [];
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+    if (!match) {
+      return null;
+    }
+    intervals.push({ open: match[1].padStart(5, '0'), close: match[2].padStart(5, '0') });
+  }
+  return intervals;
+};
+
+const getOpeningHoursFields = (hours?: OpeningHours) => ({
+  timezone: hours?.timezone || DEFAULT_TIMEZONE,
+  alwaysOpen: hours?.alwaysOpen || false,
+  weeklyHours: Object.fromEntries(
+    WEEKDAYS.map(day => [day, formatIntervals(hours?.weekly[day])])
+  ) as Record<Weekday, string>
+});
+
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const getWaterSourceFields = (details?: WaterSourceDetails) => ({
+  waterPotable: (details?.potable === undefined ? '' : details.potable ? 'yes' : 'no') as '' | 'yes' | 'no',
+  waterSeasonFrom: details?.season?.from || '',
+  waterSeasonTo: details?.season?.to || '',
+  waterLastTestedAt: details?.lastTestedAt || '',
+  waterCertificateUrl: details?.certificateUrl || ''
+});
+
+interface ListingQuota {
+  used: number;
+  limit: number; // -1 = unlimited
+  remaining: number;
+  periodDays: number;
+  resetsAt: string | null;
+  planId: string;
+  upgradePlanId: string | null;
 }
 
 // Map category labels to database values
@@ -80,15 +165,19 @@ const getCategoryDatabaseValue = (categoryLabel: string): string => {
 
 const MyListingsPage: React.FC = () => {
   const { token } = useAuth();
+  const { locale, t } = useLanguage();
   const [listings, setListings] = useState<Listing[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingListing, setEditingListing] = useState<Listing | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+  // An existing listing the user may want to claim instead of creating a duplicate
+  const [claimListingId, setClaimListingId] = useState<string | null>(null);
   const [showDropdownId, setShowDropdownId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [listingQuota, setListingQuota] = useState<ListingQuota | null>(null);
 
   // Edit form optimization states
   const [editingListingId, setEditingListingId] = useState<string | null>(null);
@@ -242,6 +331,37 @@ const MyListingsPage: React.FC = () => {
     initializeCategories();
   }, []);
 
+  // Fetch how many listings the user may still create this period
+  const fetchListingQuota = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/user/stats', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setListingQuota(data.listingQuota || null);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load listing quota:', error);
+    }
+  };
+
+  // Explain a quota rejection from POST /api/listings
+  const getQuotaErrorMessage = (error: { message?: string; quota?: ListingQuota; upgrade?: { planName: string; maxListings: number } | null }) => {
+    if (error.quota) {
+      setListingQuota(error.quota);
+    }
+    const upgradeHint = error.upgrade
+      ? ` ${t('listings.alerts.upgradeHint', { plan: error.upgrade.planName, max: error.upgrade.maxListings })}`
+      : '';
+    return `${error.message || t('listings.alerts.quotaReached')}${upgradeHint}`;
+  };
+
   // Fetch user's listings from API
   useEffect(() => {
     const fetchUserListings = async () => {
@@ -279,8 +399,16 @@ const MyListingsPage: React.FC = () => {
           createdAt: string;
           updatedAt: string;
           isCertified?: boolean;
+          status?: Listing['status'];
+          moderationReason?: string;
           views?: number;
           contactInfo?: { phone?: string; email?: string; website?: string };
+          hideContactInfo?: boolean;
+          primaryLocale?: Locale;
+          translations?: ListingTranslations;
+          operatingHours?: OpeningHours;
+          waterSource?: WaterSourceDetails;
+          isVerified?: boolean;
         }) => {
           // Parse address safely
           const addressParts = listing.location?.address?.split(' ') || [];
@@ -315,11 +443,17 @@ const MyListingsPage: React.FC = () => {
             price: listing.priceRange === 'low' ? 10 : listing.priceRange === 'medium' ? 25 : listing.priceRange === 'high' ? 50 : undefined,
             priceType: listing.priceRange ? 'paid' : 'free',
             tags: listing.tags || [],
-            status: 'published', // Default status
-            isVerified: listing.isCertified || false,
+            status: listing.status || 'active',
+            moderationReason: listing.moderationReason,
+            isVerified: listing.isVerified || false,
             createdAt: listing.createdAt,
             updatedAt: listing.updatedAt,
             views: listing.views || 0,
+            primaryLocale: listing.primaryLocale,
+            translations: listing.translations,
+            operatingHours: listing.operatingHours,
+            waterSource: listing.waterSource,
+            hideContactInfo: listing.hideContactInfo,
             inquiries: 0 // Default value
           };
         });
@@ -337,6 +471,7 @@ const MyListingsPage: React.FC = () => {
     };
 
     fetchUserListings();
+    fetchListingQuota();
 
     // Preload categories in parallel for faster form loading
     preloadCategories();
@@ -384,8 +519,16 @@ const MyListingsPage: React.FC = () => {
           createdAt: string;
           updatedAt: string;
           isCertified?: boolean;
+          status?: Listing['status'];
+          moderationReason?: string;
           views?: number;
           contactInfo?: { phone?: string; email?: string; website?: string };
+          hideContactInfo?: boolean;
+          primaryLocale?: Locale;
+          translations?: ListingTranslations;
+          operatingHours?: OpeningHours;
+          waterSource?: WaterSourceDetails;
+          isVerified?: boolean;
         }) => {
           // Parse address from the location.address field
           const addressParts = listing.location?.address ? listing.location.address.split(' ') : [];
@@ -420,11 +563,17 @@ const MyListingsPage: React.FC = () => {
             price: listing.priceRange === 'low' ? 10 : listing.priceRange === 'medium' ? 25 : listing.priceRange === 'high' ? 50 : undefined,
             priceType: listing.priceRange ? 'paid' : 'free',
             tags: listing.tags || [],
-            status: 'published',
-            isVerified: listing.isCertified || false,
+            status: listing.status || 'active',
+            moderationReason: listing.moderationReason,
+            isVerified: listing.isVerified || false,
             createdAt: listing.createdAt,
             updatedAt: listing.updatedAt,
             views: listing.views || 0,
+            primaryLocale: listing.primaryLocale,
+            translations: listing.translations,
+            operatingHours: listing.operatingHours,
+            waterSource: listing.waterSource,
+            hideContactInfo: listing.hideContactInfo,
             inquiries: 0
           };
         });
@@ -432,6 +581,7 @@ const MyListingsPage: React.FC = () => {
         setListings(transformedListings);
         console.log(`Refreshed listings: ${transformedListings.length} listings loaded`);
         setError(null);
+        fetchListingQuota();
       } else {
         throw new Error('Failed to fetch listings');
       }
@@ -541,6 +691,12 @@ const MyListingsPage: React.FC = () => {
         body: JSON.stringify(duplicateData)
       });
 
+      if (response.status === 402 || response.status === 403) {
+        const quotaError = await response.json();
+        alert(getQuotaErrorMessage(quotaError));
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to duplicate listing');
       }
@@ -563,6 +719,46 @@ const MyListingsPage: React.FC = () => {
     }
   };
 
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'active':
+      case 'inactive':
+      case 'pending':
+      case 'rejected':
+      case 'draft':
+      case 'published':
+      case 'archived':
+        return t(`listings.status.${status}`);
+      default:
+        return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+  };
+
+  // Moderator feedback for listings that were rejected or need changes
+  const ModerationNote: React.FC<{ listing: Listing }> = ({ listing }) => {
+    if (listing.status === 'pending') {
+      return (
+        <div className="mb-3 rounded-md bg-yellow-50 border border-yellow-200 px-3 py-2 text-xs text-yellow-800">
+          Waiting for review by a moderator. It will become visible once approved.
+        </div>
+      );
+    }
+    if (!listing.moderationReason || listing.status === 'active') {
+      return null;
+    }
+    return (
+      <div className={`mb-3 rounded-md border px-3 py-2 text-xs ${listing.status === 'rejected' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+        <span className="font-medium">
+          {listing.status === 'rejected' ? 'Moderator note: ' : 'Changes requested: '}
+        </span>
+        {listing.moderationReason}
+        {listing.status === 'inactive' && (
+          <div className="mt-1">Edit the listing to send it back for review.</div>
+        )}
+      </div>
+    );
+  };
+
   const handleToggleStatus = (listingId: string) => {
     setListings(prev => prev.map(listing => {
       if (listing.id === listingId) {
@@ -588,7 +784,7 @@ const MyListingsPage: React.FC = () => {
         />
         <div className="absolute top-2 left-2">
           <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(listing.status)}`}>
-            {listing.status.charAt(0).toUpperCase() + listing.status.slice(1)}
+            {getStatusLabel(listing.status)}
           </span>
         </div>
         {listing.isVerified && (
@@ -603,6 +799,7 @@ const MyListingsPage: React.FC = () => {
       <div className="p-4">
         <h3 className="text-lg font-semibold text-gray-900 mb-2">{listing.title}</h3>
         <p className="text-gray-600 text-sm mb-3 line-clamp-2">{listing.description}</p>
+        <ModerationNote listing={listing} />
         
         <div className="flex items-center justify-between mb-3">
           {/* Enhanced Location Display */}
@@ -636,10 +833,10 @@ const MyListingsPage: React.FC = () => {
             <div className="text-lg font-semibold text-green-600">€{listing.price}</div>
           )}
           {listing.priceType === 'free' && (
-            <div className="text-lg font-semibold text-green-600">Free</div>
+            <div className="text-lg font-semibold text-green-600">{t('listings.free')}</div>
           )}
           {listing.priceType === 'donation' && (
-            <div className="text-lg font-semibold text-blue-600">Donation</div>
+            <div className="text-lg font-semibold text-blue-600">{t('listings.donation')}</div>
           )}
         </div>
 
@@ -650,13 +847,13 @@ const MyListingsPage: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
               </svg>
-              {listing.views} views
+              {t('listings.views', { count: listing.views })}
             </div>
             <div className="flex items-center">
               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
               </svg>
-              {listing.inquiries} inquiries
+              {t('listings.inquiries', { count: listing.inquiries ?? 0 })}
             </div>
           </div>
         </div>
@@ -688,17 +885,17 @@ const MyListingsPage: React.FC = () => {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                <span>Opening...</span>
+                <span>{t('common.opening')}</span>
               </>
             ) : (
-              <span>Edit</span>
+              <span>{t('common.edit')}</span>
             )}
           </button>
           <button
             onClick={() => handleViewListing(listing.id)}
             className="px-3 py-2 border border-gray-300 rounded text-sm font-medium hover:bg-gray-50 transition-colors"
           >
-            View
+            {t('common.view')}
           </button>
           <div className="relative">
             <button
@@ -761,11 +958,23 @@ const MyListingsPage: React.FC = () => {
 
   const CreateListingForm: React.FC = () => {
     const { token } = useAuth();
-    const [activeTab, setActiveTab] = useState<'basic' | 'location' | 'contact' | 'media' | 'pricing'>('basic');
+    const [activeTab, setActiveTab] = useState<'basic' | 'location' | 'contact' | 'hours' | 'water' | 'media' | 'pricing'>('basic');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const isEditing = editingListing !== null;
     const isLoadingCompleteData = loadingEditData === editingListingId;
 
+    // The main title and description fields hold the primary language; other languages are translations
+    const splitTranslations = (listing: Listing) => {
+      const primaryLocale = listing.primaryLocale || locale;
+      const { [primaryLocale]: primaryText, ...translations } = listing.translations || {};
+      return {
+        primaryLocale,
+        title: primaryText?.title || listing.title || '',
+        description: primaryText?.description || listing.description || '',
+        translations: translations as ListingTranslations
+      };
+    };
+
     // LAZY FORM INITIALIZATION - minimal data upfront, load details on demand
     const [formData, setFormData] = useState(() => {
       // Always start with minimal default data for instant form opening
@@ -774,15 +983,19 @@ const MyListingsPage: React.FC = () => {
         city: '', region: '', country: '', postalCode: '', latitude: undefined as number | undefined, longitude: undefined as number | undefined,
         phone: '', mobile: '', email: '', website: '', facebook: '', instagram: '', twitter: '', linkedin: '',
         priceType: 'free' as 'free' | 'paid' | 'donation', price: '', tags: '',
-        status: 'active' as 'active' | 'inactive' | 'pending' | 'rejected', hideAddress: false
+        status: 'active' as 'active' | 'inactive' | 'pending' | 'rejected', hideAddress: false, hideContactInfo: false,
+        primaryLocale: locale as Locale, translations: {} as ListingTranslations,
+        ...getOpeningHoursFields(),
+        ...getWaterSourceFields()
       };
 
       // If editing, populate only essential fields immediately for instant form opening
       if (editingListing) {
         return {
           ...defaultData,
-          title: editingListing.title || '',
-          description: editingListing.description || '',
+          ...splitTranslations(editingListing),
+          ...getOpeningHoursFields(editingListing.operatingHours),
+          ...getWaterSourceFields(editingListing.waterSource),
           category: editingListing.category || '',
           city: editingListing.location?.city || '',
           country: editingListing.location?.country || '',
@@ -793,6 +1006,7 @@ const MyListingsPage: React.FC = () => {
 
       return defaultData;
     });
+    const [translationLocale, setTranslationLocale] = useState<Locale | null>(null);
     const [images, setImages] = useState<string[]>([]);
     // Use global categories cache instead of local state
     const categories = globalCategories;
@@ -816,8 +1030,7 @@ const MyListingsPage: React.FC = () => {
         setFormData(prevData => ({
           ...prevData,
           // Core fields (already loaded for instant opening)
-          title: editingListing.title || prevData.title,
-          description: editingListing.description || prevData.description,
+          ...splitTranslations(editingListing),
           category: editingListing.category || prevData.category,
 
           // Location fields (progressive loading)
@@ -840,12 +1053,19 @@ const MyListingsPage: React.FC = () => {
           twitter: editingListing.contact?.socials?.twitter || prevData.twitter,
           linkedin: editingListing.contact?.socials?.linkedin || prevData.linkedin,
 
+          // Opening hours
+          ...(editingListing.operatingHours ? getOpeningHoursFields(editingListing.operatingHours) : {}),
+
+          // Water source details
+          ...(editingListing.waterSource ? getWaterSourceFields(editingListing.waterSource) : {}),
+
           // Pricing and metadata (loaded on demand)
           priceType: (editingListing.priceType || prevData.priceType) as 'free' | 'paid' | 'donation',
           price: editingListing.price?.toString() || prevData.price,
           tags: editingListing.tags?.join(', ') || prevData.tags,
           status: (editingListing.status || prevData.status) as 'active' | 'inactive' | 'pending' | 'rejected',
-          hideAddress: (editingListing as any)?.hideAddress ?? prevData.hideAddress
+          hideAddress: (editingListing as any)?.hideAddress ?? prevData.hideAddress,
+          hideContactInfo: editingListing.hideContactInfo ?? prevData.hideContactInfo
         }));
       }
     }, [editingListing, isLoadingCompleteData]);
@@ -862,35 +1082,123 @@ const MyListingsPage: React.FC = () => {
 
 
 
+    const handlePrimaryLocaleChange = (value: string) => {
+      if (!isSupportedLocale(value) || value === formData.primaryLocale) {
+        return;
+      }
+
+      const { [value]: promoted, ...others } = formData.translations;
+      const translations: ListingTranslations = others;
+      if (!promoted) {
+        setFormData({ ...formData, primaryLocale: value });
+        return;
+      }
+
+      // Swap texts so the existing translation becomes the main one and nothing is lost
+      translations[formData.primaryLocale] = { title: formData.title, description: formData.description };
+      setFormData({
+        ...formData,
+        primaryLocale: value,
+        title: promoted.title,
+        description: promoted.description,
+        translations
+      });
+      setTranslationLocale(null);
+    };
+
+    const updateTranslation = (target: Locale, field: keyof ListingTranslation, value: string) => {
+      setFormData(prevData => ({
+        ...prevData,
+        translations: {
+          ...prevData.translations,
+          [target]: { title: '', description: '', ...prevData.translations[target], [field]: value }
+        }
+      }));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
 
       if (!token) {
-        alert('You must be logged in to create a listing');
+        alert(t('listings.alerts.loginRequired'));
         return;
       }
 
       // Basic validation for required fields
       if (!formData.title.trim()) {
-        alert('Please enter a title for your listing');
+        alert(t('listings.alerts.titleRequired'));
         return;
       }
 
       if (!formData.description.trim()) {
-        alert('Please enter a description for your listing');
+        alert(t('listings.alerts.descriptionRequired'));
         return;
       }
 
       if (!formData.category) {
-        alert('Please select a category for your listing');
+        alert(t('listings.alerts.categoryRequired'));
         return;
       }
 
       if (!formData.city.trim()) {
-        alert('Please enter a city for your listing');
+        alert(t('listings.alerts.cityRequired'));
         return;
       }
 
+      // Untouched translations are left out; half-filled ones need finishing first
+      const translations: ListingTranslations = {};
+      for (const target of SUPPORTED_LOCALES) {
+        const text = formData.translations[target];
+        if (target === formData.primaryLocale || !text || (!text.title.trim() && !text.description.trim())) {
+          continue;
+        }
+        if (!text.title.trim() || !text.description.trim()) {
+          alert(t('listings.alerts.translationIncomplete', { language: LOCALE_NAMES[target] }));
+          setActiveTab('basic');
+          setTranslationLocale(target);
+          return;
+        }
+        translations[target] = text;
+      }
+
+      const weekly: OpeningHours['weekly'] = {};
+      for (const day of WEEKDAYS) {
+        const intervals = parseIntervals(formData.weeklyHours[day]);
+        if (!intervals) {
+          alert(t('listings.alerts.invalidHours', { day: t(`listings.weekdays.${day}`) }));
+          setActiveTab('hours');
+          return;
+        }
+        if (intervals.length > 0) {
+          weekly[day] = intervals;
+        }
+      }
+
+      // Seasonal hours and exceptions set through the API are kept
+      const previousHours = editingListing?.operatingHours;
+      const hasOpeningHours = formData.alwaysOpen || Object.keys(weekly).length > 0 ||
+        !!previousHours?.seasons?.length || !!previousHours?.exceptions?.length;
+      const operatingHours: OpeningHours | null = hasOpeningHours
+        ? { ...previousHours, timezone: formData.timezone, alwaysOpen: formData.alwaysOpen, weekly }
+        : null;
+
+      // Only water sources have water details; the season needs both dates or neither
+      const isWaterSource = formData.category === 'water_source';
+      const seasonFrom = formData.waterSeasonFrom.trim();
+      const seasonTo = formData.waterSeasonTo.trim();
+      if (isWaterSource && (seasonFrom || seasonTo) &&
+          (!MONTH_DAY_PATTERN.test(seasonFrom) || !MONTH_DAY_PATTERN.test(seasonTo))) {
+        alert(t('listings.alerts.invalidWaterSeason'));
+        setActiveTab('water');
+        return;
+      }
+      const waterSource = isWaterSource ? {
+        potable: formData.waterPotable === '' ? undefined : formData.waterPotable === 'yes',
+        season: seasonFrom ? { from: seasonFrom, to: seasonTo } : undefined,
+        lastTestedAt: formData.waterLastTestedAt || undefined,
+        certificateUrl: formData.waterCertificateUrl || undefined
+      } : undefined;
+
       setIsSubmitting(true);
 
       try {
@@ -922,7 +1230,12 @@ const MyListingsPage: React.FC = () => {
           priceRange: formData.priceType === 'free' ? 'free' :
                      formData.priceType === 'paid' ? 'medium' : 'low',
           hideAddress: formData.hideAddress,
-          status: formData.status
+          hideContactInfo: formData.hideContactInfo,
+          status: formData.status,
+          primaryLocale: formData.primaryLocale,
+          translations,
+          operatingHours,
+          waterSource
         };
 
         console.log(`Submitting listing data for ${isEditing ? 'update' : 'create'}:`, listingData);
@@ -942,7 +1255,7 @@ const MyListingsPage: React.FC = () => {
         if (response.ok) {
           const result = await response.json();
           console.log(`Listing ${isEditing ? 'updated' : 'created'} successfully:`, result);
-          alert(`Listing ${isEditing ? 'updated' : 'created'} successfully!`);
+          alert(result.message || t(isEditing ? 'listings.alerts.updated' : 'listings.alerts.created'));
           setEditingListing(null);
           setShowCreateForm(false);
           // Refresh the listings without full page reload
@@ -957,13 +1270,15 @@ const MyListingsPage: React.FC = () => {
               duplicates: error.duplicates,
               message: error.message
             });
+          } else if (error.code === 'LISTING_QUOTA_EXCEEDED') {
+            alert(getQuotaErrorMessage(error));
           } else {
-            alert(`Failed to ${isEditing ? 'update' : 'create'} listing: ${error.error || 'Unknown error'}`);
+            alert(t(isEditing ? 'listings.alerts.updateFailed' : 'listings.alerts.createFailed', { error: error.error || t('listings.alerts.unknownError') }));
           }
         }
       } catch (error) {
         console.error(`Error ${isEditing ? 'updating' : 'creating'} listing:`, error);
-        alert(`An error occurred while ${isEditing ? 'updating' : 'creating'} the listing. Please try again.`);
+        alert(t(isEditing ? 'listings.alerts.updateError' : 'listings.alerts.createError'));
       } finally {
         setIsSubmitting(false);
       }
@@ -1043,6 +1358,24 @@ const MyListingsPage: React.FC = () => {
                     </svg>
                   )
                 },
+                {
+                  id: 'hours',
+                  label: 'Hours',
+                  icon: (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  )
+                },
+                ...(formData.category === 'water_source' ? [{
+                  id: 'water',
+                  label: 'Water',
+                  icon: (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3c3 4 6 7.5 6 11a6 6 0 11-12 0c0-3.5 3-7 6-11z" />
+                    </svg>
+                  )
+                }] : []),
                 {
                   id: 'media',
                   label: 'Media',
@@ -1086,6 +1419,22 @@ const MyListingsPage: React.FC = () => {
                   {activeTab === 'basic' && (
                     <div className="max-w-4xl mx-auto">
                       <div className="bg-white rounded-xl shadow-sm p-6 space-y-8">
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-800 mb-3">
+                            Language *
+                            <span className="text-gray-500 font-normal ml-2">The language you write the title and description in</span>
+                          </label>
+                          <select
+                            value={formData.primaryLocale}
+                            onChange={(e) => handlePrimaryLocaleChange(e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 text-lg"
+                          >
+                            {SUPPORTED_LOCALES.map(code => (
+                              <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+                            ))}
+                          </select>
+                        </div>
+
                         <div>
                           <label className="block text-sm font-semibold text-gray-800 mb-3">
                             Title *
@@ -1119,6 +1468,54 @@ const MyListingsPage: React.FC = () => {
                           </p>
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-800 mb-3">
+                            Translations
+                            <span className="text-gray-500 font-normal ml-2">Optional: visitors see the version in their own language</span>
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {SUPPORTED_LOCALES.filter(code => code !== formData.primaryLocale).map(code => {
+                              const text = formData.translations[code];
+                              const hasText = !!(text?.title.trim() || text?.description.trim());
+                              return (
+                                <button
+                                  key={code}
+                                  type="button"
+                                  onClick={() => setTranslationLocale(translationLocale === code ? null : code)}
+                                  className={`px-4 py-2 rounded-xl border text-sm font-medium transition-all duration-200 ${
+                                    translationLocale === code
+                                      ? 'bg-green-600 border-green-600 text-white'
+                                      : hasText
+                                        ? 'bg-green-50 border-green-300 text-green-800 hover:bg-green-100'
+                                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {LOCALE_NAMES[code]}{hasText && ' ✓'}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          {translationLocale && translationLocale !== formData.primaryLocale && (
+                            <div className="mt-4 space-y-4 border border-gray-200 rounded-xl p-4">
+                              <input
+                                type="text"
+                                value={formData.translations[translationLocale]?.title || ''}
+                                onChange={(e) => updateTranslation(translationLocale, 'title', e.target.value)}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200"
+                                placeholder={`Title in ${LOCALE_NAMES[translationLocale]}`}
+                              />
+                              <RichTextEditor
+                                key={translationLocale}
+                                value={formData.translations[translationLocale]?.description || ''}
+                                onChange={(value) => updateTranslation(translationLocale, 'description', value)}
+                                placeholder={`Description in ${LOCALE_NAMES[translationLocale]}`}
+                                minHeight="150px"
+                                className="focus:ring-2 focus:ring-green-500 focus:border-transparent rounded-xl"
+                              />
+                            </div>
+                          )}
+                        </div>
+
                         <div>
                           <label className="block text-sm font-semibold text-gray-800 mb-3">
                             Category *
@@ -1316,6 +1713,24 @@ const MyListingsPage: React.FC = () => {
                         />
                       </div>
 
+                      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-center">
+                          <input
+                            type="checkbox"
+                            id="hideContactInfo"
+                            checked={formData.hideContactInfo}
+                            onChange={(e) => setFormData({ ...formData, hideContactInfo: e.target.checked })}
+                            className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                          />
+                          <label htmlFor="hideContactInfo" className="ml-2 text-sm text-gray-700">
+                            Hide email and phone from public view
+                          </label>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                          Visitors can still reach you through Messages without seeing your email address or phone number.
+                        </p>
+                      </div>
+
                       <div>
                         <h4 className="text-sm font-medium text-gray-700 mb-4">Social Media</h4>
                         <div className="space-y-4">
@@ -1366,6 +1781,146 @@ const MyListingsPage: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Opening Hours Tab */}
+                  {activeTab === 'hours' && (
+                    <div className="space-y-6">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+                        <input
+                          type="text"
+                          value={formData.timezone}
+                          onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                          placeholder="Europe/Berlin"
+                        />
+                      </div>
+
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={formData.alwaysOpen}
+                          onChange={(e) => setFormData({ ...formData, alwaysOpen: e.target.checked })}
+                          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                        />
+                        <span className="text-sm font-medium text-gray-700">
+                          Open 24/7
+                          <span className="text-gray-500 font-normal ml-2">For vending machines and other places that never close</span>
+                        </span>
+                      </label>
+
+                      {!formData.alwaysOpen && (
+                        <div className="space-y-3">
+                          <p className="text-sm text-gray-500">
+                            One or more time ranges per day, e.g. 08:00-12:00, 14:00-18:00. Leave a day empty when closed.
+                          </p>
+                          {WEEKDAYS.map(day => (
+                            <div key={day} className="grid grid-cols-3 gap-4 items-center">
+                              <label className="text-sm font-medium text-gray-700 capitalize">{t(`listings.weekdays.${day}`)}</label>
+                              <input
+                                type="text"
+                                value={formData.weeklyHours[day]}
+                                onChange={(e) => setFormData({
+                                  ...formData,
+                                  weeklyHours: { ...formData.weeklyHours, [day]: e.target.value }
+                                })}
+                                className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                                placeholder="Closed"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {(!!editingListing?.operatingHours?.seasons?.length || !!editingListing?.operatingHours?.exceptions?.length) && (
+                        <p className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
+                          This listing also has seasonal hours or holiday exceptions. They are kept when you save.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Water Source Tab */}
+                  {activeTab === 'water' && formData.category === 'water_source' && (
+                    <div className="space-y-6">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Drinking water</label>
+                        <select
+                          value={formData.waterPotable}
+                          onChange={(e) => setFormData({ ...formData, waterPotable: e.target.value as '' | 'yes' | 'no' })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        >
+                          <option value="">Unknown</option>
+                          <option value="yes">Potable</option>
+                          <option value="no">Not potable</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Season
+                          <span className="text-gray-500 font-normal ml-2">Leave empty if the source runs all year</span>
+                        </label>
+                        <div className="grid grid-cols-2 gap-4">
+                          <input
+                            type="text"
+                            value={formData.waterSeasonFrom}
+                            onChange={(e) => setFormData({ ...formData, waterSeasonFrom: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                            placeholder="From (MM-DD), e.g. 04-01"
+                          />
+                          <input
+                            type="text"
+                            value={formData.waterSeasonTo}
+                            onChange={(e) => setFormData({ ...formData, waterSeasonTo: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                            placeholder="To (MM-DD), e.g. 10-31"
+                          />
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Last tested</label>
+                        <input
+                          type="date"
+                          value={formData.waterLastTestedAt}
+                          max={new Date().toISOString().slice(0, 10)}
+                          onChange={(e) => setFormData({ ...formData, waterLastTestedAt: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Lab certificate</label>
+                        {formData.waterCertificateUrl ? (
+                          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                            <a
+                              href={formData.waterCertificateUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm text-blue-600 hover:underline"
+                            >
+                              View certificate
+                            </a>
+                            <button
+                              type="button"
+                              onClick={() => setFormData({ ...formData, waterCertificateUrl: '' })}
+                              className="text-sm text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ) : (
+                          <DocumentUpload
+                            documentType="certification"
+                            acceptedTypes={['application/pdf', 'image/jpeg', 'image/png', 'image/webp']}
+                            onUpload={(document) => setFormData(prev => ({ ...prev, waterCertificateUrl: document.url }))}
+                            onError={(message) => alert(message)}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Media Tab */}
                   {activeTab === 'media' && (
                     <div className="max-w-4xl mx-auto">
@@ -1727,13 +2282,13 @@ const MyListingsPage: React.FC = () => {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">My Listings</h1>
-            <p className="text-gray-600">Manage your listings and track their performance</p>
+            <h1 className="text-2xl font-bold text-gray-900">{t('listings.title')}</h1>
+            <p className="text-gray-600">{t('listings.loadingSubtitle')}</p>
           </div>
         </div>
         <div className="flex items-center justify-center py-12">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
-          <span className="ml-3 text-gray-600">Loading your listings...</span>
+          <span className="ml-3 text-gray-600">{t('listings.loadingListings')}</span>
         </div>
       </div>
     );
@@ -1745,8 +2300,8 @@ const MyListingsPage: React.FC = () => {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">My Listings</h1>
-            <p className="text-gray-600">Manage your listings and track their performance</p>
+            <h1 className="text-2xl font-bold text-gray-900">{t('listings.title')}</h1>
+            <p className="text-gray-600">{t('listings.loadingSubtitle')}</p>
           </div>
         </div>
         <div className="text-center py-12">
@@ -1755,13 +2310,13 @@ const MyListingsPage: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
             </svg>
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Listings</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('listings.errorLoading')}</h3>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
             onClick={refreshListings}
             className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors"
           >
-            Try Again
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -1773,8 +2328,30 @@ const MyListingsPage: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">My Listings</h1>
-          <p className="text-gray-600 mt-1">Manage your shared locations and experiences</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('listings.title')}</h1>
+          <p className="text-gray-600 mt-1">{t('listings.subtitle')}</p>
+          {/* Listing quota meter */}
+          {listingQuota && listingQuota.limit !== -1 && (
+            <div className="mt-3 w-64">
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-gray-700">
+                  {t('listings.quotaUsed', { used: listingQuota.used, limit: listingQuota.limit })}
+                </span>
+                <span className="text-gray-500">{t('listings.quotaPeriod', { days: listingQuota.periodDays })}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${listingQuota.remaining === 0 ? 'bg-red-500' : listingQuota.remaining <= 1 ? 'bg-yellow-500' : 'bg-green-600'}`}
+                  style={{ width: `${Math.min(100, (listingQuota.used / Math.max(listingQuota.limit, 1)) * 100)}%` }}
+                ></div>
+              </div>
+              {listingQuota.remaining === 0 && listingQuota.upgradePlanId && (
+                <a href="/subscription" className="text-xs text-green-700 hover:underline">
+                  {t('listings.upgradeForMore')}
+                </a>
+              )}
+            </div>
+          )}
         </div>
         
         <div className="flex items-center space-x-4 mt-4 sm:mt-0">
@@ -1808,7 +2385,7 @@ const MyListingsPage: React.FC = () => {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
             </svg>
-            <span>Create Listing</span>
+            <span>{t('listings.createListing')}</span>
           </button>
         </div>
       </div>
@@ -1820,14 +2397,15 @@ const MyListingsPage: React.FC = () => {
           onChange={(e) => setFilterStatus(e.target.value)}
           className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
         >
-          <option value="all">All Status</option>
-          <option value="published">Published</option>
-          <option value="draft">Draft</option>
-          <option value="archived">Archived</option>
+          <option value="all">{t('listings.status.all')}</option>
+          <option value="active">{t('listings.status.active')}</option>
+          <option value="inactive">{t('listings.status.inactive')}</option>
+          <option value="pending">{t('listings.status.pending')}</option>
+          <option value="rejected">{t('listings.status.rejected')}</option>
         </select>
 
         <div className="text-sm text-gray-600">
-          {filteredListings.length} listing{filteredListings.length !== 1 ? 's' : ''}
+          {t('listings.count', { count: filteredListings.length })}
         </div>
       </div>
 
@@ -1854,23 +2432,24 @@ const MyListingsPage: React.FC = () => {
                       <div className="flex items-center space-x-2 mb-1">
                         <h3 className="text-lg font-semibold text-gray-900">{listing.title}</h3>
                         <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(listing.status)}`}>
-                          {listing.status.charAt(0).toUpperCase() + listing.status.slice(1)}
+                          {getStatusLabel(listing.status)}
                         </span>
                       </div>
                       <p className="text-gray-600 text-sm mb-2">{listing.description}</p>
+                      <ModerationNote listing={listing} />
                       <div className="flex items-center space-x-4 text-sm text-gray-500">
                         <div className="flex items-center">
                           <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                           </svg>
-                          {listing.views} views
+                          {t('listings.views', { count: listing.views })}
                         </div>
                         <div className="flex items-center">
                           <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                           </svg>
-                          {listing.inquiries} inquiries
+                          {t('listings.inquiries', { count: listing.inquiries ?? 0 })}
                         </div>
                         {/* Enhanced Location Display */}
                         <div className="flex items-center">
@@ -1916,17 +2495,17 @@ const MyListingsPage: React.FC = () => {
                               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                             </svg>
-                            <span>Opening...</span>
+                            <span>{t('common.opening')}</span>
                           </>
                         ) : (
-                          <span>Edit</span>
+                          <span>{t('common.edit')}</span>
                         )}
                       </button>
                       <button
                         onClick={() => handleViewListing(listing.id)}
                         className="px-3 py-1 border border-gray-300 rounded text-sm font-medium hover:bg-gray-50 transition-colors"
                       >
-                        View
+                        {t('common.view')}
                       </button>
                     </div>
                   </div>
@@ -1942,8 +2521,8 @@ const MyListingsPage: React.FC = () => {
           <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
           </svg>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No listings found</h3>
-          <p className="text-gray-600 mb-4">Create your first listing to share with the community</p>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('listings.noListings')}</h3>
+          <p className="text-gray-600 mb-4">{t('listings.noListingsHint')}</p>
           <button
             onClick={() => {
               setEditingListing(null);
@@ -1953,7 +2532,7 @@ const MyListingsPage: React.FC = () => {
             }}
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
           >
-            Create Your First Listing
+            {t('listings.createFirst')}
           </button>
         </div>
       )}
@@ -1973,6 +2552,14 @@ const MyListingsPage: React.FC = () => {
         />
       )}
 
+      {/* Existing listing found by duplicate detection, claimable from its detail view */}
+      {claimListingId && (
+        <ListingDetail
+          listingId={claimListingId}
+          onClose={() => setClaimListingId(null)}
+        />
+      )}
+
       {/* Click outside to close dropdown */}
       {showDropdownId && (
         <div
@@ -2010,6 +2597,15 @@ const MyListingsPage: React.FC = () => {
                         <h4 className="font-medium text-gray-900">{duplicate.title}</h4>
                         <p className="text-sm text-gray-600 mt-1">{duplicate.address}</p>
                         <p className="text-sm text-yellow-700 mt-2">{duplicate.reason}</p>
+                        <button
+                          onClick={() => {
+                            setDuplicateWarning(null);
+                            setClaimListingId(duplicate.id);
+                          }}
+                          className="text-sm text-blue-600 hover:underline mt-2"
+                        >
+                          This is my business – view and claim it
+                        </button>
                       </div>
                       <div className="ml-4 flex-shrink-0">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import ContactOwnerForm from '../messages/ContactOwnerForm';
+import ListingReviews from '../reviews/ListingReviews';
+import WaterSourcePanel, { WaterSourceDetails } from '../water/WaterSourcePanel';
+import ListingProducts from '../products/ListingProducts';
+import ClaimListing from '../claims/ClaimListing';
 
 interface Location {
   id: string;
@@ -28,6 +33,7 @@ interface Location {
     email?: string;
     website?: string;
   };
+  waterSource?: WaterSourceDetails;
 }
 
 interface LocationDetailProps {
@@ -78,21 +84,22 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
             }
           },
           images: data.listing.images || [],
-          rating: 4.5, // Default rating since not in database
-          reviews: Math.floor(Math.random() * 50) + 10, // Mock reviews
+          rating: data.listing.averageRating || 0,
+          reviews: data.listing.reviewCount || 0,
           price: data.listing.priceRange === 'low' ? 10 : data.listing.priceRange === 'medium' ? 25 : data.listing.priceRange === 'high' ? 50 : undefined,
           priceType: data.listing.priceRange ? 'paid' : 'free',
           tags: data.listing.tags || [],
           createdBy: data.listing.userId || '',
           createdAt: data.listing.createdAt || '',
-          isVerified: false, // Default since not in database
+          isVerified: data.listing.isVerified || false,
           isFeatured: false, // Default since not in database
           views: Math.floor(Math.random() * 200) + 50, // Mock views
           contact: {
             phone: data.listing.contactInfo?.phone || data.listing.contact?.phone,
             email: data.listing.contactInfo?.email || data.listing.contact?.email,
             website: data.listing.contactInfo?.website || data.listing.contact?.website
-          }
+          },
+          waterSource: data.listing.waterSource
         };
 
         setLocation(transformedLocation);
@@ -181,75 +188,6 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
     ));
   };
 
-  const ContactForm: React.FC = () => {
-    const [formData, setFormData] = useState({
-      name: '',
-      email: '',
-      message: ''
-    });
-
-    const handleSubmit = (e: React.FormEvent) => {
-      e.preventDefault();
-      console.log('Contact form submitted:', formData);
-      setShowContactForm(false);
-    };
-
-    return (
-      <div className="fixed inset-0 bg-black bg-opacity-50 z-60 flex items-center justify-center p-4">
-        <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Contact Host</h3>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
-              <input
-                type="text"
-                value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
-                required
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
-              <input
-                type="email"
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
-                required
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
-              <textarea
-                value={formData.message}
-                onChange={(e) => setFormData({ ...formData, message: e.target.value })}
-                rows={4}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
-                required
-              />
-            </div>
-            <div className="flex space-x-3 pt-4">
-              <button
-                type="submit"
-                className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-              >
-                Send Message
-              </button>
-              <button
-                type="button"
-                onClick={() => setShowContactForm(false)}
-                className="px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
-          </form>
-        </div>
-      </div>
-    );
-  };
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
       <div className="bg-white rounded-lg w-full max-w-7xl h-full max-h-[98vh] sm:max-h-[95vh] overflow-hidden shadow-2xl flex flex-col">
@@ -268,6 +206,11 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
                   {renderStars(location.rating)}
                   <span className="ml-1 text-sm text-gray-600">({location.reviews} reviews)</span>
                 </div>
+                {location.isVerified && (
+                  <span className="px-3 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                    Verified owner
+                  </span>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-3">
@@ -446,6 +389,24 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
                     </div>
                   </div>
                 )}
+
+                {/* Water source status */}
+                {location.category === 'water_source' && (
+                  <WaterSourcePanel listingId={location.id} details={location.waterSource} />
+                )}
+
+                {/* Vending machine products */}
+                {location.category === 'vending_machine' && (
+                  <ListingProducts listingId={location.id} ownerId={location.createdBy} />
+                )}
+
+                {/* Reviews */}
+                <ListingReviews
+                  listingId={location.id}
+                  ownerId={location.createdBy}
+                  onRatingChange={(averageRating, reviewCount) =>
+                    setLocation(prev => prev && { ...prev, rating: averageRating || 0, reviews: reviewCount })}
+                />
               </div>
 
               {/* Sidebar */}
@@ -493,16 +454,25 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
 
                   {/* Action Buttons */}
                   <div className="mt-6 space-y-3">
-                    <button
-                      onClick={() => setShowContactForm(true)}
-                      className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-                    >
-                      Contact Host
-                    </button>
+                    {user?.id !== location.createdBy && (
+                      <button
+                        onClick={() => setShowContactForm(true)}
+                        className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                      >
+                        Contact Host
+                      </button>
+                    )}
                     <button className="w-full border border-gray-300 hover:bg-gray-50 px-6 py-3 rounded-lg font-medium transition-colors">
                       Save to Favorites
                     </button>
                   </div>
+
+                  {user?.id !== location.createdBy && (
+                    <ClaimListing
+                      listingId={location.id}
+                      onClaimed={() => setLocation(prev => prev && user ? { ...prev, createdBy: user.id, isVerified: true } : prev)}
+                    />
+                  )}
                 </div>
 
                 {/* Stats */}
@@ -531,7 +501,7 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
                         </svg>
                         Rating
                       </span>
-                      <span className="font-medium text-gray-800">{location.rating}/5</span>
+                      <span className="font-medium text-gray-800">{location.reviews > 0 ? `${location.rating.toFixed(1)}/5` : '–'}</span>
                     </div>
                   </div>
                 </div>
@@ -541,7 +511,13 @@ const LocationDetail: React.FC<LocationDetailProps> = ({ locationId, onClose, on
         </div>
 
         {/* Contact Form Modal */}
-        {showContactForm && <ContactForm />}
+        {showContactForm && (
+          <ContactOwnerForm
+            listingId={location.id}
+            listingTitle={location.title}
+            onClose={() => setShowContactForm(false)}
+          />
+        )}
       </div>
     </div>
   );
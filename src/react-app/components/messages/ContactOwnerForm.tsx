@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface ContactOwnerFormProps {
+  listingId: string;
+  listingTitle: string;
+  onClose: () => void;
+}
+
+// Mirrors MAX_MESSAGE_LENGTH in the worker
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Starts (or continues) the visitor's conversation with a listing owner.
+ * Replies arrive in the Messages inbox, so neither side sees the other's email.
+ */
+const ContactOwnerForm: React.FC<ContactOwnerFormProps> = ({ listingId, listingTitle, onClose }) => {
+  const { token, isAuthenticated } = useAuth();
+  const { t } = useLanguage();
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) {
+      return;
+    }
+
+    try {
+      setSending(true);
+      setError(null);
+      const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/conversations`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setSent(true);
+    } catch (err) {
+      console.error('Error contacting owner:', err);
+      setError(err instanceof Error && err.message ? err.message : t('messages.sendError'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+        <h3 className="text-lg font-semibold text-gray-900">{t('messages.contactOwner')}</h3>
+        <p className="text-sm text-gray-500 mb-4">{t('messages.about', { title: listingTitle })}</p>
+
+        {!isAuthenticated ? (
+          <p className="text-sm text-gray-700">{t('messages.signInToContact')}</p>
+        ) : sent ? (
+          <p className="text-sm text-green-700">{t('messages.contactSent')}</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder={t('messages.placeholder')}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              required
+            />
+            <p className="text-xs text-gray-500">{t('messages.contactPrivacy')}</p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={sending || !body.trim()}
+              className="w-full bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              {sending ? t('messages.sending') : t('messages.send')}
+            </button>
+          </form>
+        )}
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="w-full mt-3 px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+        >
+          {t('messages.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ContactOwnerForm;
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  body: string;
+  createdAt: string;
+}
+
+interface Conversation {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  otherParticipant: { id: string; name: string };
+  unreadCount: number;
+  lastMessage?: Pick<Message, 'senderId' | 'body' | 'createdAt'>;
+  blocked: boolean;
+  blockedBy: boolean;
+  lastMessageAt: string;
+}
+
+// Mirrors MAX_MESSAGE_LENGTH in the worker
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Opened from the new-message email as /messages?conversation=<id>
+const getConversationFromUrl = () => new URLSearchParams(window.location.search).get('conversation');
+
+const MessagesPage: React.FC = () => {
+  const { user, token } = useAuth();
+  const { locale, t } = useLanguage();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(getConversationFromUrl);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadingThread, setLoadingThread] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const selected = conversations.find(conversation => conversation.id === selectedId) || null;
+
+  useEffect(() => {
+    if (token) {
+      loadConversations();
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token && selectedId) {
+      loadThread(selectedId);
+    }
+  }, [token, selectedId]);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  // Stored as UTC "YYYY-MM-DD HH:MM:SS" by the database
+  const formatTime = (value: string) =>
+    new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleString(locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    });
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  });
+
+  const loadConversations = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/conversations', { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setConversations(data.conversations);
+    } catch (err) {
+      console.error('Error loading conversations:', err);
+      setError(t('messages.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadThread = async (conversationId: string) => {
+    try {
+      setLoadingThread(true);
+      setError(null);
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/messages`, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setMessages(data.messages);
+      setConversations(prev => prev.some(c => c.id === conversationId)
+        ? prev.map(c => c.id === conversationId ? data.conversation : c)
+        : [data.conversation, ...prev]);
+    } catch (err) {
+      console.error('Error loading messages:', err);
+      setError(err instanceof Error && err.message ? err.message : t('messages.loadError'));
+      setMessages([]);
+    } finally {
+      setLoadingThread(false);
+    }
+  };
+
+  const selectConversation = (conversationId: string | null) => {
+    setSelectedId(conversationId);
+    setMessages([]);
+    setDraft('');
+    setNotice(null);
+    window.history.replaceState({}, '', conversationId
+      ? `/messages?conversation=${encodeURIComponent(conversationId)}`
+      : '/messages');
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !draft.trim()) {
+      return;
+    }
+
+    try {
+      setSending(true);
+      setError(null);
+      const response = await fetch(`/api/conversations/${encodeURIComponent(selected.id)}/messages`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ body: draft })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+
+      const message: Message = data.message;
+      setMessages(prev => [...prev, message]);
+      setConversations(prev => [
+        { ...selected, lastMessage: message, lastMessageAt: message.createdAt },
+        ...prev.filter(c => c.id !== selected.id)
+      ]);
+      setDraft('');
+    } catch (err) {
+      console.error('Error sending message:', err);
+      setError(err instanceof Error && err.message ? err.message : t('messages.sendError'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleBlock = async (block: boolean) => {
+    if (!selected || (block && !window.confirm(t('messages.blockConfirm', { name: selected.otherParticipant.name })))) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(selected.id)}/block`, {
+        method: block ? 'POST' : 'DELETE',
+        headers: authHeaders()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setConversations(prev => prev.map(c => c.id === selected.id ? { ...c, blocked: block } : c));
+    } catch (err) {
+      console.error('Error updating block:', err);
+      setError(err instanceof Error && err.message ? err.message : t('messages.actionError'));
+    }
+  };
+
+  const handleReport = async () => {
+    if (!selected) {
+      return;
+    }
+    const reason = window.prompt(t('messages.reportPrompt'));
+    if (!reason?.trim()) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(selected.id)}/report`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ reason })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setNotice(t('messages.reported'));
+    } catch (err) {
+      console.error('Error reporting conversation:', err);
+      setError(err instanceof Error && err.message ? err.message : t('messages.actionError'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="flex h-[calc(100vh-12rem)] min-h-[28rem]">
+        {/* Conversation list */}
+        <div className={`${selected ? 'hidden md:flex' : 'flex'} flex-col w-full md:w-80 border-r border-gray-200`}>
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">{t('messages.inbox')}</h2>
+          </div>
+          {conversations.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+              <svg className="w-12 h-12 text-gray-300 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+              <p className="font-medium text-gray-900">{t('messages.empty')}</p>
+              <p className="text-sm text-gray-500 mt-1">{t('messages.emptyHint')}</p>
+            </div>
+          ) : (
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {conversations.map(conversation => (
+                <li key={conversation.id}>
+                  <button
+                    onClick={() => selectConversation(conversation.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${conversation.id === selectedId ? 'bg-green-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className={`text-sm truncate ${conversation.unreadCount > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-700'}`}>
+                        {conversation.otherParticipant.name}
+                      </span>
+                      {conversation.unreadCount > 0 && (
+                        <span className="ml-2 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1.5 rounded-full text-xs font-medium bg-green-600 text-white">
+                          {conversation.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-green-700 truncate">{conversation.listingTitle}</p>
+                    {conversation.lastMessage && (
+                      <p className="text-sm text-gray-500 truncate mt-0.5">
+                        {conversation.lastMessage.senderId === user?.id ? `${t('messages.you')}: ` : ''}
+                        {conversation.lastMessage.body}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Thread */}
+        <div className={`${selected ? 'flex' : 'hidden md:flex'} flex-1 flex-col min-w-0`}>
+          {!selected ? (
+            <div className="flex-1 flex items-center justify-center p-6 text-gray-500">
+              {loadingThread ? (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+              ) : (error || t('messages.selectConversation'))}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+                <div className="flex items-center min-w-0">
+                  <button
+                    onClick={() => selectConversation(null)}
+                    className="md:hidden mr-3 text-gray-500 hover:text-gray-700"
+                    aria-label={t('messages.back')}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                  </button>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{selected.otherParticipant.name}</p>
+                    <p className="text-xs text-gray-500 truncate">{t('messages.about', { title: selected.listingTitle })}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleBlock(!selected.blocked)}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {selected.blocked ? t('messages.unblock') : t('messages.block')}
+                  </button>
+                  <button
+                    onClick={handleReport}
+                    className="px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    {t('messages.report')}
+                  </button>
+                </div>
+              </div>
+
+              {notice && (
+                <div className="px-4 py-2 bg-green-50 border-b border-green-200 text-sm text-green-800">{notice}</div>
+              )}
+              {error && (
+                <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-gray-50">
+                {loadingThread && messages.length === 0 ? (
+                  <div className="flex justify-center py-6">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+                  </div>
+                ) : messages.map(message => {
+                  const own = message.senderId === user?.id;
+                  return (
+                    <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[75%] rounded-lg px-3 py-2 ${own ? 'bg-green-600 text-white' : 'bg-white border border-gray-200 text-gray-900'}`}>
+                        <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                        <p className={`text-xs mt-1 ${own ? 'text-green-100' : 'text-gray-400'}`}>{formatTime(message.createdAt)}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+                <div ref={threadEndRef} />
+              </div>
+
+              {selected.blocked || selected.blockedBy ? (
+                <div className="px-4 py-3 border-t border-gray-200 text-sm text-gray-500">
+                  {selected.blocked
+                    ? t('messages.blockedNotice', { name: selected.otherParticipant.name })
+                    : t('messages.blockedByNotice')}
+                </div>
+              ) : (
+                <form onSubmit={handleSend} className="flex items-end space-x-2 p-3 border-t border-gray-200">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder={t('messages.placeholder')}
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    rows={2}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+                  >
+                    {sending ? t('messages.sending') : t('messages.send')}
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
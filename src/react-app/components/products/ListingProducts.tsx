@@ -0,0 +1,368 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+type StockReportStatus = 'sold_out' | 'restocked';
+
+interface Product {
+  id: string;
+  listingId: string;
+  name: string;
+  description?: string;
+  price?: number;
+  currency: string;
+  unit?: string;
+  inStock: boolean;
+  stockUpdatedAt: string;
+  stockUpdatedBy?: 'owner' | 'visitor';
+}
+
+// A row in the owner's editor; the price stays a string while it is being typed
+interface ProductDraft {
+  key: string;
+  name: string;
+  description: string;
+  price: string;
+  unit: string;
+  inStock: boolean;
+}
+
+interface ListingProductsProps {
+  listingId: string;
+  ownerId: string;
+}
+
+// Mirror the limits in the worker's product service
+const MAX_PRODUCTS = 100;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_UNIT_LENGTH = 20;
+
+const toDraft = (product: Product): ProductDraft => ({
+  key: product.id,
+  name: product.name,
+  description: product.description || '',
+  price: product.price !== undefined ? String(product.price) : '',
+  unit: product.unit || '',
+  inStock: product.inStock,
+});
+
+const emptyDraft = (): ProductDraft => ({
+  key: crypto.randomUUID(),
+  name: '',
+  description: '',
+  price: '',
+  unit: '',
+  inStock: true,
+});
+
+const parsePrice = (value: string) => Number(value.trim().replace(',', '.'));
+
+/**
+ * What a vending machine currently offers. Signed-in visitors report products as sold out
+ * or restocked; the owner edits the catalogue here or replaces it from a CSV file.
+ */
+const ListingProducts: React.FC<ListingProductsProps> = ({ listingId, ownerId }) => {
+  const { user, token, isAuthenticated } = useAuth();
+  const { locale, t } = useLanguage();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<ProductDraft[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const canManage = !!user && (user.id === ownerId || user.role === 'admin');
+
+  useEffect(() => {
+    loadProducts();
+  }, [listingId]);
+
+  // Stored as UTC "YYYY-MM-DD HH:MM:SS" by the database
+  const toDate = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+  const formatDateTime = (value: string) =>
+    toDate(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const formatPrice = (product: Product) => {
+    if (product.price === undefined) return null;
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency: product.currency }).format(product.price);
+    } catch {
+      return `${product.price.toFixed(2)} ${product.currency}`;
+    }
+  };
+
+  const loadProducts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Owners see their products before the listing is approved
+      const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/products`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setProducts(data.products);
+    } catch (err) {
+      console.error('Error loading products:', err);
+      setError(err instanceof Error && err.message ? err.message : t('products.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReport = async (product: Product, status: StockReportStatus) => {
+    try {
+      setReportingId(product.id);
+      setError(null);
+      setNotice(null);
+      const response = await fetch(`/api/products/${encodeURIComponent(product.id)}/stock`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setProducts(prev => prev.map(p => (p.id === product.id ? data.product : p)));
+      setNotice(t('products.reported'));
+    } catch (err) {
+      console.error('Error reporting stock:', err);
+      setError(err instanceof Error && err.message ? err.message : t('products.reportError'));
+    } finally {
+      setReportingId(null);
+    }
+  };
+
+  const updateDraft = (key: string, changes: Partial<ProductDraft>) => {
+    setDrafts(prev => prev && prev.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  // Replaces the whole catalogue, so products left out are deleted
+  const saveCatalogue = async (body: string, contentType: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/products`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': contentType,
+        },
+        body
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setProducts(data.products);
+      setDrafts(null);
+      setNotice(t('products.saved'));
+    } catch (err) {
+      console.error('Error saving products:', err);
+      setError(err instanceof Error && err.message ? err.message : t('products.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!drafts) return;
+    const rows = drafts.filter(draft => draft.name.trim());
+    if (rows.some(draft => draft.price.trim() && !(parsePrice(draft.price) >= 0))) {
+      setError(t('products.invalidPrice'));
+      return;
+    }
+    saveCatalogue(JSON.stringify({
+      products: rows.map(draft => ({
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+        price: draft.price.trim() ? parsePrice(draft.price) : null,
+        unit: draft.unit.trim() || null,
+        inStock: draft.inStock,
+      }))
+    }), 'application/json');
+  };
+
+  const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !window.confirm(t('products.confirmCsvImport'))) return;
+    saveCatalogue(await file.text(), 'text/csv');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">{t('products.title')}</h3>
+        {canManage && !drafts && (
+          <div className="flex gap-3">
+            <button
+              onClick={() => setDrafts(products.length > 0 ? products.map(toDraft) : [emptyDraft()])}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              {t('products.edit')}
+            </button>
+            <button
+              onClick={() => csvInputRef.current?.click()}
+              disabled={saving}
+              className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+            >
+              {t('products.importCsv')}
+            </button>
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleCsvImport}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {notice && <p className="mb-3 text-sm text-green-700">{notice}</p>}
+
+      {drafts ? (
+        /* Owner editor */
+        <div className="space-y-3">
+          {drafts.map(draft => (
+            <div key={draft.key} className="bg-gray-50 rounded-lg p-3 grid grid-cols-1 sm:grid-cols-6 gap-2 items-center">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft(draft.key, { name: e.target.value })}
+                maxLength={MAX_NAME_LENGTH}
+                placeholder={t('products.namePlaceholder')}
+                className="sm:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <input
+                type="text"
+                inputMode="decimal"
+                value={draft.price}
+                onChange={(e) => updateDraft(draft.key, { price: e.target.value })}
+                placeholder={t('products.pricePlaceholder')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <input
+                type="text"
+                value={draft.unit}
+                onChange={(e) => updateDraft(draft.key, { unit: e.target.value })}
+                maxLength={MAX_UNIT_LENGTH}
+                placeholder={t('products.unitPlaceholder')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.inStock}
+                  onChange={(e) => updateDraft(draft.key, { inStock: e.target.checked })}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                {t('products.inStock')}
+              </label>
+              <button
+                onClick={() => setDrafts(prev => prev && prev.filter(d => d.key !== draft.key))}
+                className="text-sm text-red-600 hover:underline justify-self-start"
+              >
+                {t('products.remove')}
+              </button>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                placeholder={t('products.descriptionPlaceholder')}
+                className="sm:col-span-6 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setDrafts(prev => prev && [...prev, emptyDraft()])}
+              disabled={drafts.length >= MAX_PRODUCTS}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {t('products.add')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {saving ? t('products.saving') : t('products.save')}
+            </button>
+            <button
+              onClick={() => setDrafts(null)}
+              disabled={saving}
+              className="px-3 py-2 text-sm text-gray-600 hover:underline"
+            >
+              {t('products.cancel')}
+            </button>
+          </div>
+        </div>
+      ) : loading && products.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('products.loading')}</p>
+      ) : products.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('products.empty')}</p>
+      ) : (
+        /* Catalogue */
+        <ul className="divide-y divide-gray-100">
+          {products.map(product => (
+            <li key={product.id} className="py-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="font-medium text-gray-800">{product.name}</span>
+                  {(product.price !== undefined || product.unit) && (
+                    <span className="ml-2 text-sm text-gray-600">
+                      {[formatPrice(product), product.unit].filter(Boolean).join(' / ')}
+                    </span>
+                  )}
+                  {product.description && <p className="text-sm text-gray-600">{product.description}</p>}
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  product.inStock ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}>
+                  {product.inStock ? t('products.inStock') : t('products.soldOut')}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                <span>
+                  {product.stockUpdatedBy === 'visitor'
+                    ? t('products.reportedByVisitor', { date: formatDateTime(product.stockUpdatedAt) })
+                    : t('products.updatedByOwner', { date: formatDateTime(product.stockUpdatedAt) })}
+                </span>
+                {isAuthenticated && (
+                  <button
+                    onClick={() => handleReport(product, product.inStock ? 'sold_out' : 'restocked')}
+                    disabled={reportingId === product.id}
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    {product.inStock ? t('products.reportSoldOut') : t('products.reportRestocked')}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isAuthenticated && products.length > 0 && (
+        <p className="mt-3 text-sm text-gray-600">{t('products.signInToReport')}</p>
+      )}
+    </div>
+  );
+};
+
+export default ListingProducts;
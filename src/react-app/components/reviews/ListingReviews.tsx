@@ -0,0 +1,496 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface Review {
+  id: string;
+  listingId: string;
+  author: { id: string; name: string };
+  rating: number;
+  body: string;
+  photos: string[];
+  status: 'published' | 'removed';
+  ownerReply?: string;
+  ownerReplyAt?: string;
+  removalReason?: string;
+  helpfulCount: number;
+  votedHelpful: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type ReviewSort = 'recent' | 'helpful' | 'rating';
+
+interface ListingReviewsProps {
+  listingId: string;
+  ownerId: string;
+  // Lets the page header show the same rating as the reviews section
+  onRatingChange?: (averageRating: number | null, reviewCount: number) => void;
+}
+
+// Mirror the limits in the worker's review service
+const MAX_REVIEW_LENGTH = 5000;
+const MAX_REVIEW_PHOTOS = 5;
+const MAX_OWNER_REPLY_LENGTH = 2000;
+
+const SORTS: ReviewSort[] = ['recent', 'helpful', 'rating'];
+
+const Stars: React.FC<{ rating: number; size?: string; onSelect?: (rating: number) => void }> = ({ rating, size = 'w-4 h-4', onSelect }) => (
+  <span className="inline-flex items-center">
+    {Array.from({ length: 5 }, (_, i) => (
+      <svg
+        key={i}
+        className={`${size} ${i < Math.round(rating) ? 'text-yellow-400' : 'text-gray-300'} ${onSelect ? 'cursor-pointer' : ''}`}
+        fill="currentColor"
+        viewBox="0 0 20 20"
+        onClick={onSelect ? () => onSelect(i + 1) : undefined}
+      >
+        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+      </svg>
+    ))}
+  </span>
+);
+
+/**
+ * Star rating summary, reviews and the signed-in user's own review form.
+ * The listing owner replies here instead of writing a review.
+ */
+const ListingReviews: React.FC<ListingReviewsProps> = ({ listingId, ownerId, onRatingChange }) => {
+  const { user, token, isAuthenticated } = useAuth();
+  const { locale, t } = useLanguage();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [ownReview, setOwnReview] = useState<Review | null>(null);
+  const [averageRating, setAverageRating] = useState<number | null>(null);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [sort, setSort] = useState<ReviewSort>('recent');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+
+  const isOwner = user?.id === ownerId;
+
+  useEffect(() => {
+    loadReviews(1);
+  }, [listingId, sort, token]);
+
+  // Stored as UTC "YYYY-MM-DD HH:MM:SS" by the database
+  const formatDate = (value: string) =>
+    new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleDateString(locale, {
+      dateStyle: 'medium'
+    });
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  });
+
+  const request = async (url: string, method: string, payload?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: authHeaders(),
+      body: payload === undefined ? undefined : JSON.stringify(payload)
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error);
+    }
+    return data;
+  };
+
+  const showError = (err: unknown, fallback: string) => {
+    console.error('Review action failed:', err);
+    setError(err instanceof Error && err.message ? err.message : t(fallback));
+  };
+
+  const loadReviews = async (nextPage: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(
+        `/api/listings/${encodeURIComponent(listingId)}/reviews?sort=${sort}&page=${nextPage}`,
+        { headers: token ? { 'Authorization': `Bearer ${token}` } : {} }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setReviews(prev => nextPage === 1 ? data.reviews : [...prev, ...data.reviews]);
+      setOwnReview(data.ownReview || null);
+      setPage(data.page);
+      setTotalPages(data.totalPages);
+      setAverageRating(data.averageRating);
+      setReviewCount(data.reviewCount);
+      onRatingChange?.(data.averageRating, data.reviewCount);
+    } catch (err) {
+      showError(err, 'reviews.loadError');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (review: Review | null) => {
+    setRating(review?.rating || 0);
+    setBody(review?.body || '');
+    setPhotos(review?.photos || []);
+    setNotice(null);
+    setEditing(true);
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS - photos.length);
+    e.target.value = '';
+
+    try {
+      setUploading(true);
+      setError(null);
+      for (const file of files) {
+        const response = await fetch(`/api/upload/review-photo/${encodeURIComponent(listingId)}`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': file.type,
+            'x-file-name': file.name
+          },
+          body: file
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error);
+        }
+        setPhotos(prev => [...prev, data.imageUrl]);
+      }
+    } catch (err) {
+      showError(err, 'reviews.uploadError');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating || !body.trim()) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const payload = { rating, body, photos };
+      if (ownReview) {
+        await request(`/api/reviews/${encodeURIComponent(ownReview.id)}`, 'PUT', payload);
+      } else {
+        await request(`/api/listings/${encodeURIComponent(listingId)}/reviews`, 'POST', payload);
+      }
+      setEditing(false);
+      await loadReviews(1);
+    } catch (err) {
+      showError(err, 'reviews.saveError');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ownReview || !window.confirm(t('reviews.deleteConfirm'))) {
+      return;
+    }
+
+    try {
+      await request(`/api/reviews/${encodeURIComponent(ownReview.id)}`, 'DELETE');
+      setEditing(false);
+      await loadReviews(1);
+    } catch (err) {
+      showError(err, 'reviews.actionError');
+    }
+  };
+
+  const handleVote = async (review: Review) => {
+    try {
+      const data = await request(`/api/reviews/${encodeURIComponent(review.id)}/vote`, review.votedHelpful ? 'DELETE' : 'POST');
+      setReviews(prev => prev.map(r => r.id === review.id ? { ...r, ...data } : r));
+    } catch (err) {
+      showError(err, 'reviews.actionError');
+    }
+  };
+
+  const handleFlag = async (review: Review) => {
+    const reason = window.prompt(t('reviews.flagPrompt'));
+    if (!reason?.trim()) {
+      return;
+    }
+
+    try {
+      await request(`/api/reviews/${encodeURIComponent(review.id)}/flag`, 'POST', { reason });
+      setNotice(t('reviews.flagged'));
+    } catch (err) {
+      showError(err, 'reviews.actionError');
+    }
+  };
+
+  const handleReply = async (review: Review) => {
+    try {
+      const data = await request(`/api/reviews/${encodeURIComponent(review.id)}/reply`, 'PUT', { reply: replyDraft });
+      setReviews(prev => prev.map(r => r.id === review.id ? data.review : r));
+      setReplyingTo(null);
+      setReplyDraft('');
+    } catch (err) {
+      showError(err, 'reviews.actionError');
+    }
+  };
+
+  const handleDeleteReply = async (review: Review) => {
+    try {
+      await request(`/api/reviews/${encodeURIComponent(review.id)}/reply`, 'DELETE');
+      setReviews(prev => prev.map(r => r.id === review.id ? { ...r, ownerReply: undefined, ownerReplyAt: undefined } : r));
+    } catch (err) {
+      showError(err, 'reviews.actionError');
+    }
+  };
+
+  const renderReview = (review: Review) => {
+    const isAuthor = review.author.id === user?.id;
+
+    return (
+      <div key={review.id} className="border-b border-gray-100 pb-4 last:border-b-0">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Stars rating={review.rating} />
+            <span className="text-sm font-medium text-gray-800">{isAuthor ? t('reviews.you') : review.author.name}</span>
+          </div>
+          <span className="text-xs text-gray-500">{formatDate(review.createdAt)}</span>
+        </div>
+        <p className="mt-2 text-gray-700 whitespace-pre-line">{review.body}</p>
+
+        {review.photos.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {review.photos.map(photo => (
+              <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                <img src={photo} alt="" className="w-20 h-20 object-cover rounded-lg" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {review.ownerReply && (
+          <div className="mt-3 ml-4 pl-3 border-l-2 border-green-200">
+            <p className="text-xs font-medium text-green-700">{t('reviews.ownerReply')}</p>
+            <p className="text-sm text-gray-700 whitespace-pre-line">{review.ownerReply}</p>
+            {isOwner && (
+              <button onClick={() => handleDeleteReply(review)} className="text-xs text-gray-500 hover:text-red-600">
+                {t('reviews.deleteReply')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {review.status === 'published' && (
+          <div className="mt-2 flex items-center space-x-4 text-xs text-gray-500">
+            <span>{t('reviews.helpfulCount', { count: review.helpfulCount })}</span>
+            {isAuthenticated && !isAuthor && (
+              <>
+                <button onClick={() => handleVote(review)} className={review.votedHelpful ? 'text-green-700 font-medium' : 'hover:text-green-700'}>
+                  {review.votedHelpful ? t('reviews.votedHelpful') : t('reviews.helpful')}
+                </button>
+                <button onClick={() => handleFlag(review)} className="hover:text-red-600">
+                  {t('reviews.flag')}
+                </button>
+              </>
+            )}
+            {isOwner && replyingTo !== review.id && (
+              <button
+                onClick={() => {
+                  setReplyingTo(review.id);
+                  setReplyDraft(review.ownerReply || '');
+                }}
+                className="hover:text-green-700"
+              >
+                {review.ownerReply ? t('reviews.editReply') : t('reviews.reply')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {replyingTo === review.id && (
+          <div className="mt-2 ml-4 space-y-2">
+            <textarea
+              value={replyDraft}
+              onChange={(e) => setReplyDraft(e.target.value)}
+              placeholder={t('reviews.replyPlaceholder')}
+              maxLength={MAX_OWNER_REPLY_LENGTH}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleReply(review)}
+                disabled={!replyDraft.trim()}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm"
+              >
+                {t('reviews.postReply')}
+              </button>
+              <button onClick={() => setReplyingTo(null)} className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">
+                {t('reviews.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-4 gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">{t('reviews.title')}</h3>
+          {averageRating !== null ? (
+            <div className="flex items-center space-x-2">
+              <Stars rating={averageRating} size="w-5 h-5" />
+              <span className="font-medium text-gray-800">{averageRating.toFixed(1)}</span>
+              <span className="text-sm text-gray-500">{t('reviews.count', { count: reviewCount })}</span>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t('reviews.none')}</p>
+          )}
+        </div>
+        {reviewCount > 1 && (
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {SORTS.map(option => (
+              <option key={option} value={option}>{t(`reviews.sort.${option}`)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {notice && <p className="mb-3 text-sm text-green-700">{notice}</p>}
+
+      {/* Own review */}
+      {!isOwner && (
+        <div className="mb-6">
+          {!isAuthenticated ? (
+            <p className="text-sm text-gray-600">{t('reviews.signInToReview')}</p>
+          ) : editing ? (
+            <form onSubmit={handleSubmit} className="space-y-3 bg-gray-50 rounded-lg p-4">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-700">{t('reviews.yourRating')}</span>
+                <Stars rating={rating} size="w-6 h-6" onSelect={setRating} />
+              </div>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={t('reviews.placeholder')}
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                required
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                {photos.map(photo => (
+                  <div key={photo} className="relative">
+                    <img src={photo} alt="" className="w-16 h-16 object-cover rounded-lg" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotos(prev => prev.filter(p => p !== photo))}
+                      className="absolute -top-2 -right-2 bg-white border border-gray-300 rounded-full w-5 h-5 text-xs leading-none"
+                      aria-label={t('reviews.removePhoto')}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                {photos.length < MAX_REVIEW_PHOTOS && (
+                  <label className="px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 cursor-pointer hover:bg-white">
+                    {uploading ? t('reviews.uploading') : t('reviews.addPhotos', { max: MAX_REVIEW_PHOTOS })}
+                    <input type="file" accept="image/*" multiple onChange={handlePhotoUpload} disabled={uploading} className="hidden" />
+                  </label>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={saving || uploading || !rating || !body.trim()}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  {saving ? t('reviews.saving') : ownReview ? t('reviews.update') : t('reviews.submit')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditing(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                >
+                  {t('reviews.cancel')}
+                </button>
+              </div>
+            </form>
+          ) : ownReview ? (
+            <div className="bg-gray-50 rounded-lg p-4">
+              {ownReview.status === 'removed' && (
+                <p className="mb-2 text-sm text-red-600">
+                  {t('reviews.removed')}{ownReview.removalReason ? ` ${ownReview.removalReason}` : ''}
+                </p>
+              )}
+              {renderReview(ownReview)}
+              <div className="mt-2 flex space-x-3 text-sm">
+                {ownReview.status === 'published' && (
+                  <>
+                    <button onClick={() => startEditing(ownReview)} className="text-green-600 hover:text-green-700 font-medium">
+                      {t('reviews.edit')}
+                    </button>
+                    <button onClick={handleDelete} className="text-gray-500 hover:text-red-600">
+                      {t('reviews.delete')}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => startEditing(null)}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              {t('reviews.write')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {reviews.filter(review => review.id !== ownReview?.id).map(renderReview)}
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+        </div>
+      )}
+
+      {!loading && page < totalPages && (
+        <button
+          onClick={() => loadReviews(page + 1)}
+          className="mt-4 w-full px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+        >
+          {t('reviews.loadMore')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ListingReviews;
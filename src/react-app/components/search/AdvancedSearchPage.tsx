@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
 import SemanticSearchComponent from './SemanticSearchComponent';
 import RecommendationsComponent from './RecommendationsComponent';
+import Map from '../Map';
+import ListingDetail from '../listings/ListingDetail';
+import { ListingCategory } from './SearchPage';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface SearchResult {
   id: string;
@@ -19,10 +23,25 @@ interface SearchResult {
   is_active: boolean;
 }
 
+const MAP_CATEGORIES: ListingCategory[] = [
+  'organic_farm',
+  'local_product',
+  'water_source',
+  'vending_machine',
+  'craft',
+  'sustainable_good',
+];
+
+// Central Europe, where most listings are
+const MAP_CENTER: [number, number] = [47.5, 9];
+
 const AdvancedSearchPage: React.FC = () => {
   const { user } = useAuth();
+  const { t, tList } = useLanguage();
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [activeTab, setActiveTab] = useState<'search' | 'recommendations'>('search');
+  const [activeTab, setActiveTab] = useState<'search' | 'map' | 'recommendations'>('search');
+  const [mapCategory, setMapCategory] = useState<ListingCategory | ''>('');
+  const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
 
   const handleSearchResults = (results: SearchResult[]) => {
     setSearchResults(results);
@@ -40,11 +59,10 @@ const AdvancedSearchPage: React.FC = () => {
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            AI-Powered Sustainable Search
+            {t('search.title')}
           </h1>
           <p className="text-lg text-gray-600 max-w-3xl mx-auto">
-            Discover sustainable businesses, products, and services using advanced semantic search 
-            powered by artificial intelligence. Find exactly what you're looking for with natural language queries.
+            {t('search.description')}
           </p>
         </div>
 
@@ -63,7 +81,22 @@ const AdvancedSearchPage: React.FC = () => {
                 <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                 </svg>
-                <span>AI Search</span>
+                <span>{t('search.aiSearchTab')}</span>
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('map')}
+              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeTab === 'map'
+                  ? 'bg-green-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+                <span>{t('search.mapTab')}</span>
               </div>
             </button>
             {user && (
@@ -79,7 +112,7 @@ const AdvancedSearchPage: React.FC = () => {
                   <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>
                   </svg>
-                  <span>For You</span>
+                  <span>{t('search.forYouTab')}</span>
                 </div>
               </button>
             )}
@@ -97,6 +130,33 @@ const AdvancedSearchPage: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'map' && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-gray-600">{t('search.mapHint')}</p>
+                <select
+                  value={mapCategory}
+                  onChange={(e) => setMapCategory(e.target.value as ListingCategory | '')}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">{t('searchPage.allCategories')}</option>
+                  {MAP_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{t(`searchPage.categories.${category}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <Map
+                center={MAP_CENTER}
+                zoom={5}
+                height="600px"
+                showListings={true}
+                listingCategory={mapCategory || undefined}
+                onListingClick={setSelectedListingId}
+                formatCategory={(category) => t(`searchPage.categories.${category}`)}
+              />
+            </div>
+          )}
+
           {activeTab === 'recommendations' && user && (
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <RecommendationsComponent
@@ -108,7 +168,7 @@ const AdvancedSearchPage: React.FC = () => {
           )}
 
           {/* Features Section */}
-          {searchResults.length === 0 && (
+          {searchResults.length === 0 && activeTab !== 'map' && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mt-12">
               <div className="text-center">
                 <div className="bg-green-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
@@ -117,11 +177,10 @@ const AdvancedSearchPage: React.FC = () => {
                   </svg>
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  Semantic Understanding
+                  {t('search.semanticTitle')}
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  Our AI understands the meaning behind your search, not just keywords. 
-                  Search naturally and find exactly what you need.
+                  {t('search.semanticText')}
                 </p>
               </div>
 
@@ -133,11 +192,10 @@ const AdvancedSearchPage: React.FC = () => {
                   </svg>
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  Location-Aware
+                  {t('search.locationTitle')}
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  Find sustainable options near you with intelligent location-based filtering 
-                  and distance calculations.
+                  {t('search.locationText')}
                 </p>
               </div>
 
@@ -148,11 +206,10 @@ const AdvancedSearchPage: React.FC = () => {
                   </svg>
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  Personalized Results
+                  {t('search.personalizedTitle')}
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  Get recommendations tailored to your interests and search history 
-                  for a more relevant experience.
+                  {t('search.personalizedText')}
                 </p>
               </div>
             </div>
@@ -162,17 +219,10 @@ const AdvancedSearchPage: React.FC = () => {
           {searchResults.length === 0 && activeTab === 'search' && (
             <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-lg p-8 mt-8">
               <h3 className="text-lg font-semibold text-gray-900 mb-4 text-center">
-                Try These Example Searches
+                {t('search.examplesTitle')}
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {[
-                  "organic vegetables near me",
-                  "zero waste stores in Berlin",
-                  "sustainable fashion brands",
-                  "local farmers markets",
-                  "eco-friendly cleaning products",
-                  "renewable energy consultants"
-                ].map((example, index) => (
+                {tList('search.examples').map((example, index) => (
                   <button
                     key={index}
                     onClick={() => {
@@ -199,12 +249,10 @@ const AdvancedSearchPage: React.FC = () => {
           <div className="bg-gray-900 rounded-lg p-8 text-white mt-12">
             <div className="text-center">
               <h3 className="text-xl font-semibold mb-4">
-                Powered by Advanced AI Technology
+                {t('search.technologyTitle')}
               </h3>
               <p className="text-gray-300 mb-6 max-w-3xl mx-auto">
-                Our search engine uses Cloudflare Vectorize and OpenAI embeddings to understand 
-                the semantic meaning of your queries, delivering more relevant and accurate results 
-                than traditional keyword-based search.
+                {t('search.technologyText')}
               </p>
               <div className="flex items-center justify-center space-x-8">
                 <div className="flex items-center space-x-2">
@@ -223,13 +271,20 @@ const AdvancedSearchPage: React.FC = () => {
                   <svg className="h-6 w-6 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                   </svg>
-                  <span className="text-sm font-medium">Real-time Processing</span>
+                  <span className="text-sm font-medium">{t('search.realtime')}</span>
                 </div>
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {selectedListingId && (
+        <ListingDetail
+          listingId={selectedListingId}
+          onClose={() => setSelectedListingId(null)}
+        />
+      )}
     </div>
   );
 };
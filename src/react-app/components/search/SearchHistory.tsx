@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 export interface SearchHistoryItem {
   id: string;
@@ -9,16 +11,41 @@ export interface SearchHistoryItem {
   filters?: any;
 }
 
+export type AlertFrequency = 'off' | 'instant' | 'daily' | 'weekly';
+
 export interface SavedSearch {
   id: string;
   name: string;
   query: string;
   location?: string;
   filters?: any;
+  alertFrequency?: AlertFrequency; // Only for searches saved to the account
   createdAt: string;
   lastUsed: string;
 }
 
+// Shape returned by /api/saved-searches
+interface ServerSavedSearch {
+  id: string;
+  name: string;
+  query: { query?: string; filters?: SavedSearch['filters'] };
+  alertFrequency: AlertFrequency;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const ALERT_FREQUENCIES: AlertFrequency[] = ['off', 'instant', 'daily', 'weekly'];
+
+const fromServer = (search: ServerSavedSearch): SavedSearch => ({
+  id: search.id,
+  name: search.name,
+  query: search.query.query || '',
+  filters: search.query.filters,
+  alertFrequency: search.alertFrequency,
+  createdAt: search.createdAt,
+  lastUsed: search.updatedAt
+});
+
 interface SearchHistoryProps {
   onSearchSelect: (query: string, filters?: any) => void;
   className?: string;
@@ -31,10 +58,34 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [activeTab, setActiveTab] = useState<'history' | 'saved'>('history');
+  const { token } = useAuth();
+  const { t, locale } = useLanguage();
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    ...(token && { 'Authorization': `Bearer ${token}` })
+  };
 
-  // Load data from localStorage on component mount
+  const createServerSavedSearch = async (search: Pick<SavedSearch, 'name' | 'query' | 'filters'>): Promise<SavedSearch | null> => {
+    const response = await fetch('/api/saved-searches', {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({
+        name: search.name,
+        query: { query: search.query || undefined, filters: search.filters }
+      })
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || t('searchHistory.saveFailed'));
+    }
+    const data = await response.json();
+    return fromServer(data.savedSearch);
+  };
+
+  // Load history from localStorage, and saved searches from the account when signed in
   useEffect(() => {
-    const loadData = () => {
+    const loadData = async () => {
       try {
         const historyData = localStorage.getItem('kisigua_search_history');
         if (historyData) {
@@ -42,8 +93,28 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
         }
 
         const savedData = localStorage.getItem('kisigua_saved_searches');
-        if (savedData) {
-          setSavedSearches(JSON.parse(savedData));
+        const localSaved: SavedSearch[] = savedData ? JSON.parse(savedData) : [];
+        if (!token) {
+          setSavedSearches(localSaved);
+          return;
+        }
+
+        // Searches saved in this browser before signing in move to the account
+        const imported: SavedSearch[] = [];
+        for (const search of localSaved) {
+          const created = await createServerSavedSearch(search).catch(() => null);
+          if (created) {
+            imported.push(created);
+          }
+        }
+        if (imported.length === localSaved.length) {
+          localStorage.removeItem('kisigua_saved_searches');
+        }
+
+        const response = await fetch('/api/saved-searches', { headers: authHeaders });
+        if (response.ok) {
+          const data = await response.json();
+          setSavedSearches((data.savedSearches as ServerSavedSearch[]).map(fromServer));
         }
       } catch (error) {
         console.error('Error loading search data:', error);
@@ -51,10 +122,23 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
     };
 
     loadData();
-  }, []);
+  }, [token]);
 
   // Save search
-  const saveSearch = (item: SearchHistoryItem, name: string) => {
+  const saveSearch = async (item: SearchHistoryItem, name: string) => {
+    if (token) {
+      try {
+        const created = await createServerSavedSearch({ name, query: item.query, filters: item.filters });
+        if (created) {
+          setSavedSearches(prev => [{ ...created, location: item.location }, ...prev]);
+        }
+      } catch (error) {
+        console.error('Error saving search:', error);
+        alert(error instanceof Error ? error.message : t('searchHistory.saveFailed'));
+      }
+      return;
+    }
+
     const savedSearch: SavedSearch = {
       id: Date.now().toString(),
       name,
@@ -71,12 +155,40 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
   };
 
   // Delete saved search
-  const deleteSavedSearch = (id: string) => {
+  const deleteSavedSearch = async (id: string) => {
+    if (token) {
+      const response = await fetch(`/api/saved-searches/${id}`, { method: 'DELETE', headers: authHeaders });
+      if (!response.ok && response.status !== 404) {
+        console.error('Error deleting saved search:', response.status);
+        return;
+      }
+      setSavedSearches(prev => prev.filter(s => s.id !== id));
+      return;
+    }
+
     const updatedSaved = savedSearches.filter(s => s.id !== id);
     setSavedSearches(updatedSaved);
     localStorage.setItem('kisigua_saved_searches', JSON.stringify(updatedSaved));
   };
 
+  // Email alerts for new listings matching a saved search
+  const updateAlertFrequency = async (id: string, alertFrequency: AlertFrequency) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${id}`, {
+        method: 'PUT',
+        headers: authHeaders,
+        body: JSON.stringify({ alertFrequency })
+      });
+      if (response.ok) {
+        const data = await response.json();
+        const updated = fromServer(data.savedSearch);
+        setSavedSearches(prev => prev.map(s => s.id === id ? { ...s, alertFrequency: updated.alertFrequency } : s));
+      }
+    } catch (error) {
+      console.error('Error updating saved search alerts:', error);
+    }
+  };
+
   // Clear history
   const clearHistory = () => {
     setSearchHistory([]);
@@ -92,11 +204,11 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
     const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
     const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
 
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString();
+    if (diffMins < 1) return t('searchHistory.justNow');
+    if (diffMins < 60) return t('searchHistory.minutesAgo', { count: diffMins });
+    if (diffHours < 24) return t('searchHistory.hoursAgo', { count: diffHours });
+    if (diffDays < 7) return t('searchHistory.daysAgo', { count: diffDays });
+    return date.toLocaleDateString(locale);
   };
 
   // Note: Methods can be accessed via props instead of imperative handle
@@ -106,7 +218,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
       {/* Header */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
-          <h3 className="text-lg font-semibold text-gray-900">Search History</h3>
+          <h3 className="text-lg font-semibold text-gray-900">{t('searchHistory.title')}</h3>
           <div className="flex bg-gray-100 rounded-lg p-1">
             <button
               onClick={() => setActiveTab('history')}
@@ -116,7 +228,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              Recent
+              {t('searchHistory.recent')}
             </button>
             <button
               onClick={() => setActiveTab('saved')}
@@ -126,7 +238,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              Saved
+              {t('searchHistory.saved')}
             </button>
           </div>
         </div>
@@ -141,7 +253,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                 <svg className="w-12 h-12 text-gray-400 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <p className="text-gray-500 text-sm">No search history yet</p>
+                <p className="text-gray-500 text-sm">{t('searchHistory.noHistory')}</p>
               </div>
             ) : (
               <>
@@ -168,18 +280,18 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                         )}
                       </div>
                       <div className="text-xs text-gray-500 mt-1">
-                        {item.results} results • {formatTimestamp(item.timestamp)}
+                        {t('searchHistory.results', { count: item.results })} • {formatTimestamp(item.timestamp)}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          const name = prompt('Enter a name for this saved search:');
+                          const name = prompt(t('searchHistory.namePrompt'));
                           if (name) saveSearch(item, name);
                         }}
                         className="p-1 text-gray-400 hover:text-yellow-600 transition-colors"
-                        title="Save search"
+                        title={t('searchHistory.save')}
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
@@ -195,7 +307,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                       onClick={clearHistory}
                       className="text-sm text-red-600 hover:text-red-800 transition-colors"
                     >
-                      Clear History
+                      {t('searchHistory.clearHistory')}
                     </button>
                   </div>
                 )}
@@ -209,7 +321,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                 <svg className="w-12 h-12 text-gray-400 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
                 </svg>
-                <p className="text-gray-500 text-sm">No saved searches yet</p>
+                <p className="text-gray-500 text-sm">{t('searchHistory.noSaved')}</p>
               </div>
             ) : (
               savedSearches.map((item) => (
@@ -227,8 +339,21 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                     </div>
                     <div className="text-sm text-gray-600 mt-1">{item.query}</div>
                     <div className="text-xs text-gray-500 mt-1">
-                      Saved {formatTimestamp(item.createdAt)}
+                      {t('searchHistory.savedAt', { time: formatTimestamp(item.createdAt) })}
                     </div>
+                    {token && item.alertFrequency && (
+                      <select
+                        value={item.alertFrequency}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => updateAlertFrequency(item.id, e.target.value as AlertFrequency)}
+                        className="mt-2 text-xs px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+                        title={t('searchHistory.alertsTitle')}
+                      >
+                        {ALERT_FREQUENCIES.map(frequency => (
+                          <option key={frequency} value={frequency}>{t(`searchHistory.alerts.${frequency}`)}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                   <button
                     onClick={(e) => {
@@ -236,7 +361,7 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({
                       deleteSavedSearch(item.id);
                     }}
                     className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                    title="Delete saved search"
+                    title={t('searchHistory.delete')}
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 export type ListingCategory = 'organic_farm' | 'local_product' | 'water_source' | 'vending_machine' | 'craft' | 'sustainable_good';
 
@@ -29,6 +30,10 @@ export interface Listing {
   priceRange?: 'free' | 'low' | 'medium' | 'high';
   views: number;
   favorites: number;
+  averageRating?: number;
+  reviewCount: number;
+  waterStatus?: { status: 'working' | 'broken' | 'dry' | 'not_potable' | null };
+  isVerified: boolean;
   createdAt: string;
 }
 
@@ -38,8 +43,15 @@ interface SearchFilters {
   isCertified?: boolean;
   priceRange?: ('free' | 'low' | 'medium' | 'high')[];
   city?: string;
+  openNow?: boolean;
+  minRating?: number;
+  workingOnly?: boolean;
+  potable?: boolean;
+  product?: string;
 }
 
+type SortOption = 'relevance' | 'rating' | 'created_at';
+
 interface SearchResult {
   listings: Listing[];
   total: number;
@@ -47,22 +59,26 @@ interface SearchResult {
   totalPages: number;
 }
 
-const CATEGORY_LABELS: Record<ListingCategory, string> = {
-  organic_farm: 'Organic Farm',
-  local_product: 'Local Product',
-  water_source: 'Water Source',
-  vending_machine: 'Vending Machine',
-  craft: 'Craft & Artisan',
-  sustainable_good: 'Sustainable Good',
-};
+const CATEGORIES: ListingCategory[] = [
+  'organic_farm',
+  'local_product',
+  'water_source',
+  'vending_machine',
+  'craft',
+  'sustainable_good',
+];
+
+const MIN_RATING_OPTIONS = [4, 3, 2];
 
 const SearchPage = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<SearchFilters>({});
+  const [sortBy, setSortBy] = useState<SortOption>('relevance');
   const [results, setResults] = useState<SearchResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const { token } = useAuth();
+  const { t } = useLanguage();
 
   useEffect(() => {
     // Load initial results
@@ -75,6 +91,7 @@ const SearchPage = () => {
       const searchData = {
         query: searchQuery || undefined,
         filters: Object.keys(filters).length > 0 ? filters : undefined,
+        sortBy: sortBy === 'relevance' ? undefined : sortBy,
         page: 1,
         limit: 20
       };
@@ -110,11 +127,12 @@ const SearchPage = () => {
 
   const clearFilters = () => {
     setFilters({});
+    setSortBy('relevance');
   };
 
   const getPriceRangeLabel = (range: string) => {
     switch (range) {
-      case 'free': return 'Free';
+      case 'free': return t('searchPage.free');
       case 'low': return '€';
       case 'medium': return '€€';
       case 'high': return '€€€';
@@ -127,7 +145,7 @@ const SearchPage = () => {
       {/* Search Header */}
       <div className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 py-6">
-          <h1 className="text-2xl font-bold text-gray-900 mb-4">Search Local Resources</h1>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">{t('searchPage.title')}</h1>
           
           {/* Search Bar */}
           <div className="flex gap-4">
@@ -137,7 +155,7 @@ const SearchPage = () => {
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
-                placeholder="Search for organic farms, local products, water sources..."
+                placeholder={t('searchPage.placeholder')}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
               />
             </div>
@@ -146,13 +164,13 @@ const SearchPage = () => {
               disabled={loading}
               className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
             >
-              {loading ? 'Searching...' : 'Search'}
+              {loading ? t('searchPage.searching') : t('searchPage.search')}
             </button>
             <button
               onClick={() => setShowFilters(!showFilters)}
               className="border border-gray-300 text-gray-700 px-4 py-3 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              Filters
+              {t('searchPage.filters')}
             </button>
           </div>
 
@@ -162,58 +180,130 @@ const SearchPage = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {/* Category Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.category')}</label>
                   <select
                     value={filters.category?.[0] || ''}
                     onChange={(e) => handleFilterChange('category', e.target.value ? [e.target.value as ListingCategory] : undefined)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   >
-                    <option value="">All Categories</option>
-                    {Object.entries(CATEGORY_LABELS).map(([key, label]) => (
-                      <option key={key} value={key}>{label}</option>
+                    <option value="">{t('searchPage.allCategories')}</option>
+                    {CATEGORIES.map(category => (
+                      <option key={category} value={category}>{t(`searchPage.categories.${category}`)}</option>
                     ))}
                   </select>
                 </div>
 
                 {/* Organic Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Organic</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.organic')}</label>
                   <select
                     value={filters.isOrganic === undefined ? '' : filters.isOrganic.toString()}
                     onChange={(e) => handleFilterChange('isOrganic', e.target.value === '' ? undefined : e.target.value === 'true')}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   >
-                    <option value="">Any</option>
-                    <option value="true">Organic Only</option>
-                    <option value="false">Non-Organic</option>
+                    <option value="">{t('searchPage.any')}</option>
+                    <option value="true">{t('searchPage.organicOnly')}</option>
+                    <option value="false">{t('searchPage.nonOrganic')}</option>
                   </select>
                 </div>
 
                 {/* Certified Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Certified</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.certified')}</label>
                   <select
                     value={filters.isCertified === undefined ? '' : filters.isCertified.toString()}
                     onChange={(e) => handleFilterChange('isCertified', e.target.value === '' ? undefined : e.target.value === 'true')}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   >
-                    <option value="">Any</option>
-                    <option value="true">Certified Only</option>
-                    <option value="false">Not Certified</option>
+                    <option value="">{t('searchPage.any')}</option>
+                    <option value="true">{t('searchPage.certifiedOnly')}</option>
+                    <option value="false">{t('searchPage.notCertified')}</option>
                   </select>
                 </div>
 
                 {/* City Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">City</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.city')}</label>
                   <input
                     type="text"
                     value={filters.city || ''}
                     onChange={(e) => handleFilterChange('city', e.target.value || undefined)}
-                    placeholder="Enter city name"
+                    placeholder={t('searchPage.cityPlaceholder')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+
+                {/* Opening Hours Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.openingHours')}</label>
+                  <select
+                    value={filters.openNow ? 'true' : ''}
+                    onChange={(e) => handleFilterChange('openNow', e.target.value === 'true' || undefined)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">{t('searchPage.any')}</option>
+                    <option value="true">{t('searchPage.openNowOnly')}</option>
+                  </select>
+                </div>
+
+                {/* Water Source Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.waterSources')}</label>
+                  <select
+                    value={filters.potable ? 'potable' : filters.workingOnly ? 'working' : ''}
+                    onChange={(e) => setFilters(prev => ({
+                      ...prev,
+                      workingOnly: e.target.value !== '' || undefined,
+                      potable: e.target.value === 'potable' || undefined
+                    }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">{t('searchPage.any')}</option>
+                    <option value="working">{t('searchPage.workingOnly')}</option>
+                    <option value="potable">{t('searchPage.potableOnly')}</option>
+                  </select>
+                </div>
+
+                {/* Product Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.product')}</label>
+                  <input
+                    type="text"
+                    value={filters.product || ''}
+                    onChange={(e) => handleFilterChange('product', e.target.value || undefined)}
+                    placeholder={t('searchPage.productPlaceholder')}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   />
                 </div>
+
+                {/* Rating Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.rating')}</label>
+                  <select
+                    value={filters.minRating?.toString() || ''}
+                    onChange={(e) => handleFilterChange('minRating', e.target.value ? Number(e.target.value) : undefined)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">{t('searchPage.any')}</option>
+                    {MIN_RATING_OPTIONS.map(rating => (
+                      <option key={rating} value={rating}>{t('searchPage.minRating', { rating })}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Sort Order */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('searchPage.sortBy')}</label>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as SortOption)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="relevance">{t('searchPage.sort.relevance')}</option>
+                    <option value="rating">{t('searchPage.sort.rating')}</option>
+                    <option value="created_at">{t('searchPage.sort.created_at')}</option>
+                  </select>
+                </div>
               </div>
 
               <div className="mt-4 flex gap-2">
@@ -221,13 +311,13 @@ const SearchPage = () => {
                   onClick={handleSearch}
                   className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
                 >
-                  Apply Filters
+                  {t('searchPage.applyFilters')}
                 </button>
                 <button
                   onClick={clearFilters}
                   className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors"
                 >
-                  Clear All
+                  {t('searchPage.clearAll')}
                 </button>
               </div>
             </div>
@@ -240,8 +330,9 @@ const SearchPage = () => {
         {results && (
           <div className="mb-6">
             <p className="text-gray-600">
-              Found {results.total} result{results.total !== 1 ? 's' : ''}
-              {searchQuery && ` for "${searchQuery}"`}
+              {searchQuery
+                ? t('searchPage.foundFor', { count: results.total, query: searchQuery })
+                : t('searchPage.found', { count: results.total })}
             </p>
           </div>
         )}
@@ -257,14 +348,22 @@ const SearchPage = () => {
                 <div className="p-6">
                   <div className="flex items-start justify-between mb-3">
                     <span className="inline-block bg-green-100 text-green-800 text-xs font-medium px-2 py-1 rounded-full">
-                      {CATEGORY_LABELS[listing.category]}
+                      {t(`searchPage.categories.${listing.category}`)}
                     </span>
                     <div className="flex items-center space-x-2">
                       {listing.isOrganic && (
-                        <span className="bg-green-50 text-green-700 text-xs px-2 py-1 rounded">Organic</span>
+                        <span className="bg-green-50 text-green-700 text-xs px-2 py-1 rounded">{t('searchPage.organic')}</span>
                       )}
                       {listing.isCertified && (
-                        <span className="bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded">Certified</span>
+                        <span className="bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded">{t('searchPage.certified')}</span>
+                      )}
+                      {listing.isVerified && (
+                        <span className="bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded">{t('claims.verifiedOwner')}</span>
+                      )}
+                      {listing.waterStatus?.status && (
+                        <span className={`text-xs px-2 py-1 rounded ${listing.waterStatus.status === 'working' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                          {t(`waterSource.status.${listing.waterStatus.status}`)}
+                        </span>
                       )}
                     </div>
                   </div>
@@ -301,7 +400,7 @@ const SearchPage = () => {
 
                   {listing.priceRange && (
                     <div className="flex items-center text-sm text-gray-500 mb-3">
-                      <span className="font-medium">Price: {getPriceRangeLabel(listing.priceRange)}</span>
+                      <span className="font-medium">{t('searchPage.price', { price: getPriceRangeLabel(listing.priceRange) })}</span>
                     </div>
                   )}
 
@@ -320,9 +419,17 @@ const SearchPage = () => {
                         </svg>
                         {listing.favorites}
                       </span>
+                      {listing.averageRating !== undefined && (
+                        <span className="flex items-center" title={t('searchPage.reviewCount', { count: listing.reviewCount })}>
+                          <svg className="w-4 h-4 mr-1 text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
+                            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                          </svg>
+                          {listing.averageRating.toFixed(1)} ({listing.reviewCount})
+                        </span>
+                      )}
                     </div>
                     <button className="text-green-600 hover:text-green-700 font-medium">
-                      View Details
+                      {t('searchPage.viewDetails')}
                     </button>
                   </div>
                 </div>
@@ -334,8 +441,8 @@ const SearchPage = () => {
             <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No results found</h3>
-            <p className="text-gray-500">Try adjusting your search terms or filters</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{t('searchPage.noResults')}</h3>
+            <p className="text-gray-500">{t('searchPage.noResultsHint')}</p>
           </div>
         )}
       </div>
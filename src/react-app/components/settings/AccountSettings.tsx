@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 
 const AccountSettings: React.FC = () => {
-  const { user, token, logout } = useAuth();
+  const { user, token, logout, logoutEverywhere } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -108,6 +108,21 @@ const AccountSettings: React.FC = () => {
     }
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!confirm('Sign out of Kisigua on all devices, including this one?')) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      console.error('Logout everywhere error:', error);
+      setMessage({ type: 'error', text: 'An error occurred while signing out of your devices' });
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -234,6 +249,19 @@ const AccountSettings: React.FC = () => {
                   )}
                 </button>
               </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Sign Out Everywhere</p>
+                  <p className="text-sm text-gray-600">End every session, including on lost or shared devices</p>
+                </div>
+                <button
+                  onClick={handleLogoutEverywhere}
+                  disabled={isLoading}
+                  className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Sign Out All Devices
+                </button>
+              </div>
             </div>
           </div>
 
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 
 interface NotificationPreferences {
@@ -6,8 +6,9 @@ interface NotificationPreferences {
     newListings: boolean;
     favorites: boolean;
     messages: boolean;
+    listingUpdates: boolean;
     newsletter: boolean;
-    security: boolean;
+    security: boolean; // Always on
   };
   pushNotifications: {
     newListings: boolean;
@@ -26,6 +27,7 @@ const NotificationSettings: React.FC = () => {
       newListings: true,
       favorites: true,
       messages: true,
+      listingUpdates: true,
       newsletter: false,
       security: true
     },
@@ -36,6 +38,29 @@ const NotificationSettings: React.FC = () => {
     }
   });
 
+  // Load the saved preferences; the defaults above match the server's for new users
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch('/api/user/notification-preferences', {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setPreferences(data.preferences);
+        }
+      } catch (error) {
+        console.error('Notification preferences load error:', error);
+      }
+    };
+
+    if (token) {
+      loadPreferences();
+    }
+  }, [token]);
+
   const handleEmailToggle = (key: keyof NotificationPreferences['emailNotifications']) => {
     setPreferences(prev => ({
       ...prev,
@@ -74,6 +99,7 @@ const NotificationSettings: React.FC = () => {
       const data = await response.json();
 
       if (data.success) {
+        setPreferences(data.preferences);
         setMessage({ type: 'success', text: 'Notification preferences updated successfully!' });
       } else {
         setMessage({ type: 'error', text: data.message || 'Failed to update preferences' });
@@ -148,7 +174,7 @@ const NotificationSettings: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-900">New Listings</p>
-                  <p className="text-sm text-gray-500">Get notified when new sustainable locations are added in your area</p>
+                  <p className="text-sm text-gray-500">Emails about new listings matching your saved searches. Choose how often for each search under Saved searches.</p>
                 </div>
                 <ToggleSwitch 
                   enabled={preferences.emailNotifications.newListings}
@@ -178,6 +204,17 @@ const NotificationSettings: React.FC = () => {
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Your Listings</p>
+                  <p className="text-sm text-gray-500">Get notified when moderators approve, reject or ask for changes to your listings</p>
+                </div>
+                <ToggleSwitch 
+                  enabled={preferences.emailNotifications.listingUpdates}
+                  onChange={() => handleEmailToggle('listingUpdates')}
+                />
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-900">Newsletter</p>
@@ -192,11 +229,12 @@ const NotificationSettings: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-900">Security Alerts</p>
-                  <p className="text-sm text-gray-500">Important security notifications about your account (recommended)</p>
+                  <p className="text-sm text-gray-500">Email verification, password resets and other account security emails are always sent</p>
                 </div>
                 <ToggleSwitch 
                   enabled={preferences.emailNotifications.security}
                   onChange={() => handleEmailToggle('security')}
+                  disabled
                 />
               </div>
             </div>
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+type WaterStatus = 'working' | 'broken' | 'dry' | 'not_potable';
+
+export interface WaterSourceDetails {
+  potable?: boolean;
+  season?: { from: string; to: string }; // "MM-DD"
+  lastTestedAt?: string; // "YYYY-MM-DD"
+  certificateUrl?: string;
+}
+
+interface WaterStatusSummary {
+  status: WaterStatus | null;
+  reportedAt?: string;
+  reportCount: number;
+}
+
+interface WaterStatusReport {
+  id: string;
+  status: WaterStatus;
+  note?: string;
+  reporter: { id: string; name: string };
+  createdAt: string;
+}
+
+interface WaterSourcePanelProps {
+  listingId: string;
+  details?: WaterSourceDetails;
+}
+
+// Mirror the limit in the worker's water source service
+const MAX_NOTE_LENGTH = 500;
+
+const STATUSES: WaterStatus[] = ['working', 'broken', 'dry', 'not_potable'];
+
+const STATUS_STYLES: Record<WaterStatus, string> = {
+  working: 'bg-green-100 text-green-800',
+  broken: 'bg-red-100 text-red-800',
+  dry: 'bg-yellow-100 text-yellow-800',
+  not_potable: 'bg-orange-100 text-orange-800',
+};
+
+/**
+ * Water quality details, the status visitors currently report and the report history.
+ * Signed-in visitors report what they found when they were there.
+ */
+const WaterSourcePanel: React.FC<WaterSourcePanelProps> = ({ listingId, details }) => {
+  const { token, isAuthenticated } = useAuth();
+  const { locale, t } = useLanguage();
+  const [summary, setSummary] = useState<WaterStatusSummary | null>(null);
+  const [reports, setReports] = useState<WaterStatusReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, [listingId]);
+
+  // Stored as UTC "YYYY-MM-DD HH:MM:SS" by the database
+  const toDate = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+  const formatDateTime = (value: string) =>
+    toDate(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  // "MM-DD" and "YYYY-MM-DD" are calendar dates, shown without converting timezones
+  const formatMonthDay = (value: string) =>
+    new Date(Date.UTC(2000, Number(value.slice(0, 2)) - 1, Number(value.slice(3, 5))))
+      .toLocaleDateString(locale, { month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+  const formatDay = (value: string) =>
+    new Date(`${value}T00:00:00Z`).toLocaleDateString(locale, { dateStyle: 'medium', timeZone: 'UTC' });
+
+  const loadStatus = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/water-status`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setSummary(data.status);
+      setReports(data.reports);
+    } catch (err) {
+      console.error('Error loading water status:', err);
+      setError(err instanceof Error && err.message ? err.message : t('waterSource.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReport = async (status: WaterStatus) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      setNotice(null);
+      const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/water-status`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, note: note.trim() || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setNote('');
+      setNotice(t('waterSource.reported'));
+      await loadStatus();
+    } catch (err) {
+      console.error('Error reporting water status:', err);
+      setError(err instanceof Error && err.message ? err.message : t('waterSource.reportError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('waterSource.title')}</h3>
+
+      {/* Current status */}
+      <div className="mb-4">
+        {loading && !summary ? (
+          <p className="text-sm text-gray-500">{t('waterSource.loading')}</p>
+        ) : summary?.status ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[summary.status]}`}>
+              {t(`waterSource.status.${summary.status}`)}
+            </span>
+            <span className="text-sm text-gray-500">
+              {t('waterSource.basedOn', { count: summary.reportCount })}
+              {summary.reportedAt && ` · ${t('waterSource.lastReport', { date: formatDateTime(summary.reportedAt) })}`}
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">{t('waterSource.noRecentReports')}</p>
+        )}
+      </div>
+
+      {/* Owner details */}
+      {details && (
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 text-sm">
+          <div>
+            <dt className="text-gray-500">{t('waterSource.potable')}</dt>
+            <dd className="font-medium text-gray-800">
+              {details.potable === undefined
+                ? t('waterSource.unknown')
+                : details.potable ? t('waterSource.potableYes') : t('waterSource.potableNo')}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('waterSource.season')}</dt>
+            <dd className="font-medium text-gray-800">
+              {details.season
+                ? t('waterSource.seasonRange', { from: formatMonthDay(details.season.from), to: formatMonthDay(details.season.to) })
+                : t('waterSource.allYear')}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('waterSource.lastTested')}</dt>
+            <dd className="font-medium text-gray-800">
+              {details.lastTestedAt ? formatDay(details.lastTestedAt) : t('waterSource.unknown')}
+            </dd>
+          </div>
+          {details.certificateUrl && (
+            <div>
+              <dt className="text-gray-500">{t('waterSource.certificate')}</dt>
+              <dd>
+                <a
+                  href={details.certificateUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:underline"
+                >
+                  {t('waterSource.viewCertificate')}
+                </a>
+              </dd>
+            </div>
+          )}
+        </dl>
+      )}
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {notice && <p className="mb-3 text-sm text-green-700">{notice}</p>}
+
+      {/* Report */}
+      {isAuthenticated ? (
+        <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-3">
+          <p className="text-sm text-gray-700">{t('waterSource.reportPrompt')}</p>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={MAX_NOTE_LENGTH}
+            placeholder={t('waterSource.notePlaceholder')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {STATUSES.map(status => (
+              <button
+                key={status}
+                onClick={() => handleReport(status)}
+                disabled={submitting}
+                className={`px-3 py-1 rounded-lg text-sm font-medium disabled:opacity-50 ${STATUS_STYLES[status]}`}
+              >
+                {t(`waterSource.status.${status}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 mb-4">{t('waterSource.signInToReport')}</p>
+      )}
+
+      {/* History */}
+      {reports.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {showHistory ? t('waterSource.hideHistory') : t('waterSource.showHistory', { count: reports.length })}
+          </button>
+          {showHistory && (
+            <ul className="mt-3 divide-y divide-gray-100">
+              {reports.map(report => (
+                <li key={report.id} className="py-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[report.status]}`}>
+                      {t(`waterSource.status.${report.status}`)}
+                    </span>
+                    <span className="text-gray-700">{report.reporter.name}</span>
+                    <span className="text-gray-500">{formatDateTime(report.createdAt)}</span>
+                  </div>
+                  {report.note && <p className="mt-1 text-gray-600">{report.note}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaterSourcePanel;
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 
 export type UserRole = 'admin' | 'user' | 'premium' | 'supporter';
 
@@ -12,6 +12,9 @@ export interface User {
   emailVerified: boolean;
   createdAt: string;
   lastLoginAt?: string;
+  suspendedUntil?: string;
+  suspensionReason?: string;
+  locale?: string;
 }
 
 export interface AuthContextType {
@@ -22,6 +25,7 @@ export interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, firstName: string, lastName: string) => Promise<void>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
   error: string | null;
   clearError: () => void;
   requiresEmailVerification: boolean;
@@ -42,6 +46,21 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+const TOKEN_KEY = 'kisigua_token';
+const REFRESH_TOKEN_KEY = 'kisigua_refresh_token';
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Expiry (ms) from the JWT payload, or null if the token can't be decoded
+const getTokenExpiry = (jwt: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
@@ -50,18 +69,123 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [requiresEmailVerification, setRequiresEmailVerification] = useState(false);
   const [userEmail, setUserEmail] = useState<string | null>(null);
 
+  const refreshInFlight = useRef<Promise<boolean> | null>(null);
+
   const isAuthenticated = !!user && !!token;
 
+  const storeSession = (accessToken: string, refreshToken?: string) => {
+    setToken(accessToken);
+    localStorage.setItem(TOKEN_KEY, accessToken);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  };
+
+  const clearSession = () => {
+    setUser(null);
+    setToken(null);
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  };
+
+  // Exchange the refresh token for a new token pair. Concurrent callers share one request,
+  // since a refresh token can only be used once.
+  const refreshSession = useCallback((): Promise<boolean> => {
+    if (refreshInFlight.current) {
+      return refreshInFlight.current;
+    }
+
+    const request = (async () => {
+      // Read from storage so a rotation done by another tab is picked up
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) {
+        return false;
+      }
+
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken }),
+        });
+        const data = await response.json();
+
+        if (response.ok && data.success && data.token) {
+          storeSession(data.token, data.refreshToken);
+          setUser(data.user);
+          return true;
+        }
+
+        // Another tab may have rotated the token while this request was in flight
+        if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+          const latestToken = localStorage.getItem(TOKEN_KEY);
+          if (latestToken) {
+            setToken(latestToken);
+            return true;
+          }
+        }
+
+        console.log('❌ AuthContext: Session refresh failed:', data.message);
+        clearSession();
+        return false;
+      } catch (error) {
+        console.error('❌ AuthContext: Session refresh network error:', error);
+        return false;
+      }
+    })();
+
+    refreshInFlight.current = request;
+    request.finally(() => {
+      refreshInFlight.current = null;
+    });
+    return request;
+  }, []);
+
+  // Refresh shortly before the access token expires
+  useEffect(() => {
+    if (!token) return;
+
+    const expiresAt = getTokenExpiry(token);
+    if (!expiresAt) return;
+
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS));
+
+    return () => clearTimeout(timer);
+  }, [token, refreshSession]);
+
+  // Keep tabs in sync when another tab refreshes or logs out
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== TOKEN_KEY) return;
+      if (e.newValue) {
+        setToken(e.newValue);
+      } else {
+        setUser(null);
+        setToken(null);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   // Load token from localStorage on mount
   useEffect(() => {
     console.log('🔄 AuthContext: Initializing authentication state');
-    const savedToken = localStorage.getItem('kisigua_token');
+    const savedToken = localStorage.getItem(TOKEN_KEY);
 
     if (savedToken) {
       console.log('✅ AuthContext: Found saved token, verifying...');
       setToken(savedToken);
       // Verify token and get user info
       verifyToken(savedToken);
+    } else if (localStorage.getItem(REFRESH_TOKEN_KEY)) {
+      console.log('🔄 AuthContext: No access token, refreshing session');
+      refreshSession().finally(() => setIsLoading(false));
     } else {
       console.log('❌ AuthContext: No saved token found');
       setIsLoading(false);
@@ -93,18 +217,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         setToken(tokenToVerify);
       } else {
         console.log('❌ AuthContext: Token verification failed:', data.message);
-        console.log('🗑️ AuthContext: Removing invalid token from localStorage');
-        // Token is invalid or expired, remove it
-        localStorage.removeItem('kisigua_token');
-        setToken(null);
-        setUser(null);
+        // Access token expired or revoked; the refresh token may still be valid
+        if (!(await refreshSession())) {
+          console.log('🗑️ AuthContext: Removing invalid session from localStorage');
+          clearSession();
+        }
       }
     } catch (error) {
       console.error('❌ AuthContext: Token verification network error:', error);
       console.log('🗑️ AuthContext: Removing token due to network error');
-      localStorage.removeItem('kisigua_token');
-      setToken(null);
-      setUser(null);
+      clearSession();
     } finally {
       console.log('🏁 AuthContext: Token verification complete, setting loading to false');
       setIsLoading(false);
@@ -129,9 +251,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log('Login response:', { success: data.success, hasToken: !!data.token, hasUser: !!data.user });
 
       if (data.success && data.token && data.user) {
-        setToken(data.token);
+        storeSession(data.token, data.refreshToken);
         setUser(data.user);
-        localStorage.setItem('kisigua_token', data.token);
         setRequiresEmailVerification(false);
         setUserEmail(null);
         console.log('Login successful, token stored');
@@ -184,9 +305,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           console.log('Registration successful, email verification required');
         } else if (data.token && data.user) {
           // Registration successful and user is logged in
-          setToken(data.token);
+          storeSession(data.token, data.refreshToken);
           setUser(data.user);
-          localStorage.setItem('kisigua_token', data.token);
           setRequiresEmailVerification(false);
           setUserEmail(null);
         }
@@ -205,9 +325,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = () => {
     console.log('Logging out user');
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('kisigua_token');
+
+    // Revoke the session server-side; local state is cleared either way
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken || token) {
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(error => console.error('Logout request failed:', error));
+    }
+
+    clearSession();
     setError(null);
     setRequiresEmailVerification(false);
     setUserEmail(null);
@@ -218,6 +350,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     console.log('Logout complete');
   };
 
+  const logoutEverywhere = async () => {
+    const response = await fetch('/api/auth/logout-all', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to log out of all sessions');
+    }
+
+    clearSession();
+    localStorage.removeItem('kisigua_favorites');
+  };
+
   const clearError = () => {
     setError(null);
     setRequiresEmailVerification(false);
@@ -232,6 +381,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
+    logoutEverywhere,
     error,
     clearError,
     requiresEmailVerification,
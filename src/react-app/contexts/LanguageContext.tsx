@@ -0,0 +1,127 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  Locale,
+  DEFAULT_LOCALE,
+  LOCALE_STORAGE_KEY,
+  TranslationParams,
+  detectLocale,
+  isCatalogLoaded,
+  isSupportedLocale,
+  loadCatalog,
+  translate,
+  translateList
+} from '../i18n';
+
+export interface LanguageContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: string, params?: TranslationParams) => string;
+  tList: (key: string) => string[];
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+interface LanguageProviderProps {
+  children: ReactNode;
+}
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// The cookie lets the worker answer in the same language as the UI
+const persistLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  document.cookie = `${LOCALE_STORAGE_KEY}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+  document.documentElement.lang = locale;
+};
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+  const { user, token } = useAuth();
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+  // Keep rendering the previous language until the selected catalog has loaded
+  const [renderedLocale, setRenderedLocale] = useState<Locale>(() =>
+    isCatalogLoaded(locale) ? locale : DEFAULT_LOCALE
+  );
+  const syncedUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    persistLocale(locale);
+
+    let cancelled = false;
+    loadCatalog(locale)
+      .then(() => {
+        if (!cancelled) {
+          setRenderedLocale(locale);
+        }
+      })
+      .catch(error => console.error('Failed to load translations:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  const saveUserLocale = useCallback((next: Locale, accessToken: string) => {
+    fetch('/api/user/locale', {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ locale: next })
+    }).catch(error => console.error('Failed to save language preference:', error));
+  }, []);
+
+  // On sign-in the account's language wins; accounts without one adopt the current choice
+  useEffect(() => {
+    if (!user || !token) {
+      syncedUserId.current = null;
+      return;
+    }
+    if (syncedUserId.current === user.id) {
+      return;
+    }
+    syncedUserId.current = user.id;
+
+    if (isSupportedLocale(user.locale)) {
+      setLocaleState(user.locale);
+    } else {
+      saveUserLocale(locale, token);
+    }
+  }, [user, token, locale, saveUserLocale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    if (user && token) {
+      saveUserLocale(next, token);
+    }
+  }, [user, token, saveUserLocale]);
+
+  const t = useCallback(
+    (key: string, params?: TranslationParams) => translate(renderedLocale, key, params),
+    [renderedLocale]
+  );
+
+  const tList = useCallback((key: string) => translateList(renderedLocale, key), [renderedLocale]);
+
+  const value: LanguageContextType = {
+    locale,
+    setLocale,
+    t,
+    tList
+  };
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,106 @@
+import en from './locales/en.json';
+
+export const SUPPORTED_LOCALES = ['en', 'de', 'it', 'es', 'fr'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language is listed in its own name so it can be found from any UI language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  it: 'Italiano',
+  es: 'Español',
+  fr: 'Français'
+};
+
+// Shared with the worker, which reads the cookie of the same name
+export const LOCALE_STORAGE_KEY = 'kisigua_locale';
+
+export type TranslationParams = Record<string, string | number>;
+
+type Message = string | string[] | MessageCatalog;
+
+interface MessageCatalog {
+  [key: string]: Message;
+}
+
+// English ships with the bundle; other languages are fetched when first selected
+const loaders = import.meta.glob<MessageCatalog>(['./locales/*.json', '!./locales/en.json'], { import: 'default' });
+const catalogs: Partial<Record<Locale, MessageCatalog>> = { en };
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+export function isCatalogLoaded(locale: Locale): boolean {
+  return !!catalogs[locale];
+}
+
+export async function loadCatalog(locale: Locale): Promise<void> {
+  if (catalogs[locale]) {
+    return;
+  }
+  const loader = loaders[`./locales/${locale}.json`];
+  if (loader) {
+    catalogs[locale] = await loader();
+  }
+}
+
+/**
+ * Saved choice first, then the browser's language list, then English
+ */
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isSupportedLocale(saved)) {
+    return saved;
+  }
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const language = tag?.toLowerCase().split('-')[0];
+    if (isSupportedLocale(language)) {
+      return language;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+function lookup(catalog: MessageCatalog | undefined, key: string): Message | undefined {
+  let node: Message | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (!node || typeof node === 'string' || Array.isArray(node)) {
+      return undefined;
+    }
+    node = node[part];
+  }
+  return node;
+}
+
+function interpolate(message: string, params?: TranslationParams): string {
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Message for a dotted key ("footer.privacyPolicy"). Falls back to English,
+ * then to the key itself, so a missing translation is visible but harmless.
+ */
+export function translate(locale: Locale, key: string, params?: TranslationParams): string {
+  const message = lookup(catalogs[locale], key);
+  const fallback = typeof message === 'string' ? message : lookup(catalogs[DEFAULT_LOCALE], key);
+  return interpolate(typeof fallback === 'string' ? fallback : key, params);
+}
+
+/**
+ * List of messages for a key that holds an array (bullet points, examples)
+ */
+export function translateList(locale: Locale, key: string): string[] {
+  const message = lookup(catalogs[locale], key);
+  const fallback = Array.isArray(message) ? message : lookup(catalogs[DEFAULT_LOCALE], key);
+  return Array.isArray(fallback) ? fallback : [];
+}
@@ -41,6 +41,32 @@ export interface MapSearchResult {
   totalFound: number;
 }
 
+// Listings in one grid cell of /api/listings/map
+export interface ListingMapCluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  categoryCounts: Record<string, number>;
+  bounds: MapBounds;
+}
+
+export interface ListingMapPoint {
+  id: string;
+  title: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  isVerified: boolean;
+}
+
+export interface ListingsInView {
+  zoom: number;
+  clusters: ListingMapCluster[];
+  points: ListingMapPoint[];
+  truncated: boolean; // Too many listings in view to return them all
+  pointsMinZoom: number; // Zoom level from which listings are no longer clustered
+}
+
 export class MapService {
   private static cache = new Map<string, MapSearchResult>();
   private static readonly CACHE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
@@ -210,6 +236,30 @@ export class MapService {
     }
   }
 
+  /**
+   * Get the listings in the visible map area, grouped into clusters when zoomed out
+   */
+  static async getListingsInView(bounds: MapBounds, zoom: number, category?: string): Promise<ListingsInView | null> {
+    const params = new URLSearchParams({
+      bbox: [bounds.west, bounds.south, bounds.east, bounds.north].map(value => value.toFixed(5)).join(','),
+      zoom: String(Math.round(zoom))
+    });
+    if (category) {
+      params.set('category', category);
+    }
+
+    try {
+      const response = await fetch(`/api/listings/map?${params}`);
+      if (!response.ok) {
+        return null;
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Loading listings in view failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Get optimal map zoom level based on radius
    */
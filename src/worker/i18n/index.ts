@@ -0,0 +1,108 @@
+import en from './locales/en.json';
+import de from './locales/de.json';
+import it from './locales/it.json';
+import es from './locales/es.json';
+import fr from './locales/fr.json';
+
+export const SUPPORTED_LOCALES = ['en', 'de', 'it', 'es', 'fr'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Set by the language switcher in the app; takes precedence over Accept-Language
+export const LOCALE_COOKIE = 'kisigua_locale';
+
+export type TranslationParams = Record<string, string | number>;
+
+interface MessageCatalog {
+  [key: string]: string | MessageCatalog;
+}
+
+const catalogs: Record<Locale, MessageCatalog> = { en, de, it, es, fr };
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Best supported match for an Accept-Language header, honouring q-values
+ * ("de-CH,de;q=0.9,en;q=0.8" -> "de")
+ */
+export function parseAcceptLanguage(header?: string | null): Locale | null {
+  if (!header) {
+    return null;
+  }
+
+  const ranges = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find(p => p.trim().startsWith('q='));
+      return {
+        language: tag.trim().toLowerCase().split('-')[0],
+        quality: q ? parseFloat(q.trim().substring(2)) : 1,
+        index
+      };
+    })
+    .filter(range => range.language && !isNaN(range.quality) && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranges.map(range => range.language).find(isSupportedLocale) || null;
+}
+
+export function resolveLocale(options: { preferred?: string | null; acceptLanguage?: string | null }): Locale {
+  if (isSupportedLocale(options.preferred)) {
+    return options.preferred;
+  }
+  return parseAcceptLanguage(options.acceptLanguage) || DEFAULT_LOCALE;
+}
+
+/**
+ * Languages to try, in order, when content exists in several translations: the
+ * requested one, the content's own language, English, then anything available
+ */
+export function localeFallbackChain(requested: Locale, primary?: string | null): Locale[] {
+  const chain: Locale[] = [requested];
+  if (isSupportedLocale(primary)) {
+    chain.push(primary);
+  }
+  chain.push(DEFAULT_LOCALE, ...SUPPORTED_LOCALES);
+  return chain.filter((locale, index) => chain.indexOf(locale) === index);
+}
+
+function lookup(catalog: MessageCatalog, key: string): string | undefined {
+  let node: string | MessageCatalog | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (!node || typeof node === 'string') {
+      return undefined;
+    }
+    node = node[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Message for a dotted key ("auth.invalidCredentials"). Falls back to English,
+ * then to the key itself, so a missing translation never breaks a response.
+ */
+export function translate(locale: Locale, key: string, params?: TranslationParams): string {
+  const message = lookup(catalogs[locale] || catalogs[DEFAULT_LOCALE], key)
+    ?? lookup(catalogs[DEFAULT_LOCALE], key)
+    ?? key;
+
+  if (!params) {
+    return message;
+  }
+
+  return message.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function formatDateTime(locale: Locale, value: string | Date): string {
+  return new Date(value).toLocaleString(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+    timeZoneName: 'short'
+  });
+}
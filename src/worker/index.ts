@@ -1,26 +1,119 @@
-import { Hono } from "hono";
+import { Hono, Context, Next } from "hono";
 import { cors } from "hono/cors";
 import * as jwt from "jsonwebtoken";
 import { AuthService } from "./services/authService";
+import { SessionService, SessionMetadata } from "./services/sessionService";
 import { ListingsService } from "./services/listingsService";
 import { SubscriptionService } from "./services/subscriptionService";
-import { DatabaseService } from "./services/databaseService";
+import { DatabaseService, findInvalidSearchFilter } from "./services/databaseService";
 import { StorageService } from "./services/storageService";
 import { AnalyticsService } from "./services/analyticsService";
 import { CategoryService } from "./services/categoryService";
-import { FavoritesService } from "./services/favoritesService";
+import {
+  FavoritesService,
+  parseCollectionRequest,
+  parseCollectionOrder,
+  isCollectionExportFormat,
+  slugifyCollectionName,
+  collectionToGeoJson,
+  collectionToGpx,
+  COLLECTION_EXPORT_FORMATS,
+  MAX_COLLECTION_NAME_LENGTH,
+  MAX_COLLECTION_LISTINGS
+} from "./services/favoritesService";
 import { ActivityService } from "./services/activityService";
 import { StatsService } from "./services/statsService";
 import { DuplicateDetectionService } from "./services/duplicateDetectionService";
 import { EmailVerificationService } from "./services/emailVerificationService";
+import { EmailService } from "./services/emailService";
+import { ModerationService, MAX_MODERATION_REASON_LENGTH, parseModerationDecision } from "./services/moderationService";
 import { EmbeddingService } from "./services/embeddingService";
+import { EmbeddingSyncService } from "./services/embeddingSyncService";
 import { SemanticSearchService } from "./services/semanticSearchService";
 import { UserBehaviorService } from "./services/userBehaviorService";
 import { PostalCodeService } from "./services/postalCodeService";
+import { parseOpeningHours } from "./services/openingHours";
+import { NotificationPreferencesService, parseNotificationPreferences } from "./services/notificationPreferencesService";
+import {
+  SavedSearchService,
+  MAX_SAVED_SEARCHES,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  parseSavedSearchRequest
+} from "./services/savedSearchService";
+import {
+  MessagingService,
+  MAX_MESSAGE_LENGTH,
+  MAX_REPORT_REASON_LENGTH,
+  MESSAGES_PER_HOUR,
+  NEW_CONVERSATIONS_PER_DAY,
+  parseMessageBody,
+  parseReportReason
+} from "./services/messagingService";
+import {
+  ReviewService,
+  MAX_REVIEW_LENGTH,
+  MAX_REVIEW_PHOTOS,
+  MAX_OWNER_REPLY_LENGTH,
+  MAX_REVIEW_REASON_LENGTH,
+  REVIEWS_PER_PAGE,
+  MAX_REVIEWS_PER_PAGE,
+  parseReviewRequest,
+  parseOwnerReply,
+  parseReviewReason
+} from "./services/reviewService";
+import {
+  WaterSourceService,
+  MAX_WATER_REPORT_NOTE_LENGTH,
+  WATER_REPORT_COOLDOWN_MINUTES,
+  isWaterSourceCategory,
+  parseWaterSourceDetails,
+  parseWaterStatusReport
+} from "./services/waterSourceService";
+import {
+  ProductService,
+  MAX_PRODUCTS_PER_LISTING,
+  STOCK_REPORT_COOLDOWN_MINUTES,
+  isVendingMachineCategory,
+  parseProductCsv,
+  parseProductList,
+  parseStockReport
+} from "./services/productService";
+import {
+  ClaimService,
+  CLAIMS_PER_DAY,
+  MAX_CLAIM_CODE_ATTEMPTS,
+  MAX_CLAIM_MESSAGE_LENGTH,
+  MAX_CLAIM_REVIEW_NOTE_LENGTH,
+  getClaimWebsiteUrl,
+  isClaimStatus,
+  parseClaimDecision,
+  parseClaimRequest
+} from "./services/claimService";
+import {
+  TripPlannerService,
+  MAX_TRIP_STOPS,
+  parseTripRequest,
+  tripToGpx
+} from "./services/tripPlannerService";
+import {
+  ListingMapService,
+  MAP_POINTS_MIN_ZOOM,
+  MAX_MAP_ZOOM,
+  parseMapListingsQuery
+} from "./services/listingMapService";
+import {
+  PublicFeedService,
+  PUBLIC_FEED_CATEGORIES,
+  matchesEtag,
+  parsePublicFeedQuery
+} from "./services/publicFeedService";
 import {
   createAuthMiddleware,
+  createOptionalAuthMiddleware,
   createRoleMiddleware
 } from "./middleware/auth";
+import { createLocaleMiddleware, t } from "./middleware/locale";
+import { SUPPORTED_LOCALES, isSupportedLocale, translate } from "./i18n";
 import {
   LoginRequest,
   RegisterRequest,
@@ -28,10 +121,17 @@ import {
   VerifyEmailRequest,
   ForgotPasswordRequest,
   ResetPasswordRequest,
-  ResendVerificationRequest
+  ResendVerificationRequest,
+  UpdateUserStatusRequest,
+  BulkUserAction,
+  BulkUserActionRequest,
+  BulkUserActionResult
 } from "./types/auth";
-import { SearchQuery, CreateListingRequest, UpdateListingRequest } from "./types/listings";
-import { CreateCheckoutSessionRequest } from "./types/subscription";
+import { SearchQuery, CreateListingRequest, UpdateListingRequest, ListingStatus } from "./types/listings";
+import { CreateCheckoutSessionRequest, ListingQuotaUsage, SubscriptionWebhookEvent, getPlanById } from "./types/subscription";
+import { ALERT_FREQUENCIES } from "./types/savedSearches";
+import { MESSAGE_REPORT_STATUSES, MessageReportStatus } from "./types/messaging";
+import { REVIEW_SORTS, ReviewSort } from "./types/reviews";
 import { Env } from "./types/env";
 
 const app = new Hono<{ Bindings: Env }>();
@@ -56,24 +156,42 @@ async function initializeServices(env: Env) {
   const activityService = new ActivityService(env.DB);
   const statsService = new StatsService(env.DB);
 
+  const sessionService = new SessionService(env.DB, env.CACHE);
+
   console.log('Creating AuthService with JWT_SECRET:', env.JWT_SECRET ? 'SET' : 'USING FALLBACK');
-  const authService = new AuthService(env.JWT_SECRET || 'your-secret-key-change-in-production', databaseService);
+  const authService = new AuthService(env.JWT_SECRET || 'your-secret-key-change-in-production', databaseService, sessionService);
   console.log('AuthService created successfully');
 
-  console.log('Creating EmailVerificationService with RESEND_API_KEY:', env.RESEND_API_KEY ? 'SET' : 'USING FALLBACK');
-  const emailVerificationService = new EmailVerificationService(
+  // Signs the one-click unsubscribe links in emails
+  const notificationPreferencesService = new NotificationPreferencesService(
     env.DB,
-    env.RESEND_API_KEY || 're_F6JhDUHU_4eTP4noKar5kvSqmCUN13ZHA'
+    env.JWT_SECRET || 'your-secret-key-change-in-production'
   );
-  console.log('EmailVerificationService created successfully');
+  // The one email sender for every service; sends fail with a clear error when RESEND_API_KEY is unset
+  const emailService = new EmailService(env.RESEND_API_KEY, undefined, notificationPreferencesService);
+  const emailVerificationService = new EmailVerificationService(env.DB, emailService);
+  const moderationService = new ModerationService(env.DB, emailService);
+  const savedSearchService = new SavedSearchService(env.DB, databaseService, emailService);
+  const messagingService = new MessagingService(env.DB, emailService);
+  const reviewService = new ReviewService(env.DB);
+  const waterSourceService = new WaterSourceService(env.DB);
+  const productService = new ProductService(env.DB);
+  const claimService = new ClaimService(env.DB, emailService);
+  const tripPlannerService = new TripPlannerService(env.DB);
+  const listingMapService = new ListingMapService(env.DB);
+  const publicFeedService = new PublicFeedService(env.DB, env.CACHE);
 
   const listingsService = new ListingsService(databaseService);
   const duplicateDetectionService = new DuplicateDetectionService(databaseService);
-  const subscriptionService = new SubscriptionService(env.STRIPE_SECRET_KEY || 'sk_test_your_stripe_secret_key');
+  const subscriptionService = new SubscriptionService(
+    env.DB,
+    env.STRIPE_SECRET_KEY || 'sk_test_your_stripe_secret_key',
+    env.STRIPE_WEBHOOK_SECRET
+  );
 
-  console.log('Creating EmbeddingService with OPENAI_API_KEY:', env.OPENAI_API_KEY ? 'SET' : 'NOT SET');
   const embeddingService = new EmbeddingService(env);
-  console.log('EmbeddingService created successfully');
+  console.log('EmbeddingService created with provider:', embeddingService.getProviderInfo().provider);
+  const embeddingSyncService = new EmbeddingSyncService(env.DB, embeddingService, databaseService);
 
   console.log('Creating SemanticSearchService...');
   const semanticSearchService = new SemanticSearchService(env, databaseService);
@@ -101,25 +219,50 @@ async function initializeServices(env: Env) {
     favoritesService,
     activityService,
     statsService,
+    sessionService,
     authService,
     emailVerificationService,
+    moderationService,
+    notificationPreferencesService,
+    savedSearchService,
+    messagingService,
+    reviewService,
+    waterSourceService,
+    productService,
+    claimService,
+    tripPlannerService,
+    listingMapService,
+    publicFeedService,
     listingsService,
     duplicateDetectionService,
     subscriptionService,
     embeddingService,
+    embeddingSyncService,
     semanticSearchService,
     userBehaviorService
   };
 }
 
-// Enable CORS for all routes
-app.use("*", cors({
+// Enable CORS for all routes except the public feeds below
+const appCors = cors({
   origin: ['http://localhost:5173', 'http://localhost:8787', 'https://kisigua.com', 'https://www.kisigua.com', 'https://kisura.com', 'https://www.kisura.com'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
+});
+app.use("*", (c, next) => c.req.path.startsWith('/api/public/') ? next() : appCors(c, next));
+
+// The open-data feeds are meant to be embedded on partner sites, which revalidate with If-None-Match
+app.use("/api/public/*", cors({
+  origin: '*',
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['If-None-Match'],
+  exposeHeaders: ['ETag'],
 }));
 
+// Resolve the response language from the language cookie or Accept-Language
+app.use("*", createLocaleMiddleware());
+
 // Middleware to initialize services and add to context
 app.use("*", async (c, next) => {
   const services = await initializeServices(c.env);
@@ -146,6 +289,36 @@ const authMiddleware = async (c: any, next: any) => {
   return await middleware(c, next);
 };
 
+// Sets auth when a valid token is sent, for endpoints that are public but personalised
+const optionalAuthMiddleware = async (c: Context, next: Next) => {
+  const services = c.get('services');
+  const middleware = createOptionalAuthMiddleware(services.authService);
+  return await middleware(c, next);
+};
+
+// Client details stored with refresh tokens so users can recognise their sessions
+const getSessionMetadata = (c: Context): SessionMetadata => ({
+  userAgent: c.req.header('User-Agent'),
+  ipAddress: c.req.header('CF-Connecting-IP')
+});
+
+// 402 Payment Required when an upgrade would lift the listing quota, 403 otherwise
+const listingQuotaExceeded = (c: Context, quota: ListingQuotaUsage) => {
+  const upgradePlan = quota.upgradePlanId ? getPlanById(quota.upgradePlanId) : undefined;
+  return c.json({
+    error: t(c, 'errors.listingQuotaExceeded'),
+    code: "LISTING_QUOTA_EXCEEDED",
+    message: t(c, 'errors.listingQuotaUsage', { used: quota.used, limit: quota.limit, days: quota.periodDays }),
+    quota,
+    upgrade: upgradePlan ? {
+      planId: upgradePlan.id,
+      planName: upgradePlan.name,
+      maxListings: upgradePlan.maxListings,
+      url: '/subscription'
+    } : null
+  }, upgradePlan ? 402 : 403);
+};
+
 // Helper middleware for role checking
 const roleMiddleware = (roles: UserRole[]) => async (c: any, next: any) => {
   const middleware = createRoleMiddleware(roles);
@@ -608,12 +781,12 @@ app.post("/api/auth/login", async (c) => {
     if (!body.email || !body.password) {
       return c.json({
         success: false,
-        message: "Email and password are required"
+        message: t(c, 'auth.emailAndPasswordRequired')
       }, 400);
     }
 
     console.log('🔍 LOGIN ENDPOINT: Calling authService.login for:', body.email);
-    const result = await services.authService.login(body);
+    const result = await services.authService.login(body, getSessionMetadata(c), c.get('locale'));
 
     console.log('🔍 LOGIN ENDPOINT: AuthService result:', {
       success: result.success,
@@ -632,7 +805,7 @@ app.post("/api/auth/login", async (c) => {
     console.error('Login endpoint error:', error);
     return c.json({
       success: false,
-      message: "Invalid request format"
+      message: t(c, 'errors.invalidRequest')
     }, 400);
   }
 });
@@ -645,11 +818,11 @@ app.post("/api/auth/register", async (c) => {
     if (!body.email || !body.password || !body.firstName || !body.lastName) {
       return c.json({
         success: false,
-        message: "All fields are required"
+        message: t(c, 'auth.allFieldsRequired')
       }, 400);
     }
 
-    const result = await services.authService.register(body);
+    const result = await services.authService.register(body, c.get('locale'));
 
     if (result.success) {
       // Only send verification email if the user requires email verification
@@ -674,7 +847,8 @@ app.post("/api/auth/register", async (c) => {
               isActive: Boolean(realUser.is_active),
               emailVerified: false,
               createdAt: realUser.created_at as string,
-              updatedAt: realUser.updated_at as string
+              updatedAt: realUser.updated_at as string,
+              locale: c.get('locale')
             };
 
             const emailResult = await services.emailVerificationService.sendEmailVerification(userForEmail);
@@ -698,7 +872,8 @@ app.post("/api/auth/register", async (c) => {
               isActive: true,
               emailVerified: false,
               createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString()
+              updatedAt: new Date().toISOString(),
+              locale: c.get('locale')
             };
             await services.emailVerificationService.sendEmailVerification(tempUser);
           }
@@ -715,7 +890,8 @@ app.post("/api/auth/register", async (c) => {
             isActive: true,
             emailVerified: false,
             createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
+            updatedAt: new Date().toISOString(),
+            locale: c.get('locale')
           };
           await services.emailVerificationService.sendEmailVerification(tempUser);
         }
@@ -730,7 +906,7 @@ app.post("/api/auth/register", async (c) => {
     console.error('Register endpoint error:', error);
     return c.json({
       success: false,
-      message: "Invalid request format"
+      message: t(c, 'errors.invalidRequest')
     }, 400);
   }
 });
@@ -744,7 +920,7 @@ app.post("/api/auth/verify", async (c) => {
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       return c.json({
         success: false,
-        message: "Missing or invalid authorization header"
+        message: t(c, 'errors.missingAuthHeader')
       }, 401);
     }
 
@@ -754,7 +930,7 @@ app.post("/api/auth/verify", async (c) => {
     if (!payload) {
       return c.json({
         success: false,
-        message: "Invalid or expired token"
+        message: t(c, 'errors.invalidToken')
       }, 401);
     }
 
@@ -763,7 +939,7 @@ app.post("/api/auth/verify", async (c) => {
     if (!user) {
       return c.json({
         success: false,
-        message: "User not found"
+        message: t(c, 'errors.userNotFound')
       }, 404);
     }
 
@@ -776,7 +952,7 @@ app.post("/api/auth/verify", async (c) => {
     console.error('Token verification error:', error);
     return c.json({
       success: false,
-      message: "Token verification failed"
+      message: t(c, 'auth.tokenVerificationFailed')
     }, 401);
   }
 });
@@ -796,7 +972,7 @@ app.post("/api/auth/verify-email", async (c) => {
       console.log('❌ No token provided in request');
       return c.json({
         success: false,
-        message: "Verification token is required"
+        message: t(c, 'auth.verificationTokenRequired')
       }, 400);
     }
 
@@ -806,7 +982,7 @@ app.post("/api/auth/verify-email", async (c) => {
       console.log('❌ Email verification failed:', result.error);
       return c.json({
         success: false,
-        message: result.error || "Email verification failed"
+        message: result.error || t(c, 'auth.emailVerificationFailed')
       }, 400);
     }
 
@@ -814,14 +990,14 @@ app.post("/api/auth/verify-email", async (c) => {
 
     return c.json({
       success: true,
-      message: "Email verified successfully",
+      message: t(c, 'auth.emailVerified'),
       user: result.user
     });
   } catch (error) {
     console.error('Email verification error:', error);
     return c.json({
       success: false,
-      message: "Email verification failed"
+      message: t(c, 'auth.emailVerificationFailed')
     }, 500);
   }
 });
@@ -834,21 +1010,21 @@ app.post("/api/auth/forgot-password", async (c) => {
     if (!body.email) {
       return c.json({
         success: false,
-        message: "Email is required"
+        message: t(c, 'errors.emailRequired')
       }, 400);
     }
 
-    await services.emailVerificationService.sendPasswordReset(body.email);
+    await services.emailVerificationService.sendPasswordReset(body.email, c.get('locale'));
 
     return c.json({
       success: true,
-      message: "If an account with that email exists, a password reset link has been sent"
+      message: t(c, 'auth.passwordResetSent')
     });
   } catch (error) {
     console.error('Forgot password error:', error);
     return c.json({
       success: false,
-      message: "Failed to send password reset email"
+      message: t(c, 'auth.passwordResetEmailFailed')
     }, 500);
   }
 });
@@ -861,14 +1037,14 @@ app.post("/api/auth/reset-password", async (c) => {
     if (!body.token || !body.newPassword) {
       return c.json({
         success: false,
-        message: "Reset token and new password are required"
+        message: t(c, 'auth.resetFieldsRequired')
       }, 400);
     }
 
     if (body.newPassword.length < 8) {
       return c.json({
         success: false,
-        message: "Password must be at least 8 characters long"
+        message: t(c, 'auth.passwordTooShort')
       }, 400);
     }
 
@@ -877,19 +1053,19 @@ app.post("/api/auth/reset-password", async (c) => {
     if (!result.success) {
       return c.json({
         success: false,
-        message: result.error || "Password reset failed"
+        message: result.error || t(c, 'auth.passwordResetFailed')
       }, 400);
     }
 
     return c.json({
       success: true,
-      message: "Password reset successfully"
+      message: t(c, 'auth.passwordReset')
     });
   } catch (error) {
     console.error('Reset password error:', error);
     return c.json({
       success: false,
-      message: "Password reset failed"
+      message: t(c, 'auth.passwordResetFailed')
     }, 500);
   }
 });
@@ -904,11 +1080,11 @@ app.post("/api/auth/resend-verification", async (c) => {
     if (!body.email) {
       return c.json({
         success: false,
-        message: "Email is required"
+        message: t(c, 'errors.emailRequired')
       }, 400);
     }
 
-    const result = await services.emailVerificationService.resendVerification(body.email);
+    const result = await services.emailVerificationService.resendVerification(body.email, c.get('locale'));
 
     console.log('📧 Resend verification result:', {
       success: result.success,
@@ -919,38 +1095,37 @@ app.post("/api/auth/resend-verification", async (c) => {
     if (!result.success) {
       return c.json({
         success: false,
-        message: result.error || "Failed to resend verification email"
+        message: result.error || t(c, 'auth.resendVerificationFailed')
       }, 400);
     }
 
     return c.json({
       success: true,
-      message: "Verification email sent successfully"
+      message: t(c, 'auth.verificationEmailSent')
     });
   } catch (error) {
     console.error('❌ Resend verification error:', error);
     return c.json({
       success: false,
-      message: "Failed to resend verification email"
+      message: t(c, 'auth.resendVerificationFailed')
     }, 500);
   }
 });
 
-// Token refresh endpoint
+// Token refresh endpoint - rotates the refresh token on every use
 app.post("/api/auth/refresh", async (c) => {
   try {
     const services = c.get('services');
-    const authHeader = c.req.header('Authorization');
+    const { refreshToken } = await c.req.json().catch(() => ({})) as { refreshToken?: string };
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!refreshToken) {
       return c.json({
         success: false,
-        message: "Missing or invalid authorization header"
-      }, 401);
+        message: t(c, 'auth.refreshTokenRequired')
+      }, 400);
     }
 
-    const token = authHeader.substring(7);
-    const result = await services.authService.refreshToken(token);
+    const result = await services.authService.refreshToken(refreshToken, getSessionMetadata(c), c.get('locale'));
 
     const statusCode = result.success ? 200 : 401;
     return c.json(result, statusCode);
@@ -958,11 +1133,55 @@ app.post("/api/auth/refresh", async (c) => {
     console.error('Token refresh endpoint error:', error);
     return c.json({
       success: false,
-      message: "Token refresh failed"
+      message: t(c, 'auth.tokenRefreshFailed')
     }, 401);
   }
 });
 
+// Log out the current session. Works with an expired access token as long as
+// the refresh token is sent.
+app.post("/api/auth/logout", async (c) => {
+  try {
+    const services = c.get('services');
+    const { refreshToken } = await c.req.json().catch(() => ({})) as { refreshToken?: string };
+
+    let sessionId: string | undefined;
+    const authHeader = c.req.header('Authorization');
+    if (authHeader?.startsWith('Bearer ')) {
+      const payload = await services.authService.verifyToken(authHeader.substring(7));
+      sessionId = payload?.sid;
+    }
+
+    await services.authService.logout(refreshToken, sessionId);
+
+    return c.json({ success: true, message: t(c, 'auth.loggedOut') });
+  } catch (error) {
+    console.error('Logout endpoint error:', error);
+    return c.json({
+      success: false,
+      message: t(c, 'auth.logoutFailed')
+    }, 500);
+  }
+});
+
+// Log out every session of the current user
+app.post("/api/auth/logout-all", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    await services.authService.logoutEverywhere(auth.userId);
+
+    return c.json({ success: true, message: t(c, 'auth.loggedOutEverywhere') });
+  } catch (error) {
+    console.error('Logout all endpoint error:', error);
+    return c.json({
+      success: false,
+      message: t(c, 'auth.logoutEverywhereFailed')
+    }, 500);
+  }
+});
+
 // Debug endpoint to list all users (remove in production)
 app.get("/api/debug/users", async (c) => {
   const services = c.get('services');
@@ -1046,7 +1265,7 @@ app.get("/api/auth/me", authMiddleware, async (c) => {
   const user = await services.authService.getUserById(auth.userId);
 
   if (!user) {
-    return c.json({ error: "User not found" }, 404);
+    return c.json({ error: t(c, 'errors.userNotFound') }, 404);
   }
 
   return c.json({ user });
@@ -1143,21 +1362,149 @@ app.get("/api/test/database-users", authMiddleware, roleMiddleware(['admin']), a
 
 // Admin only route - get all users (removed duplicate - using database version below)
 
+const USER_ROLES: UserRole[] = ['admin', 'user', 'premium', 'supporter'];
+
 // Admin only route - update user role
 app.put("/api/admin/users/:id/role", authMiddleware, roleMiddleware(['admin']), async (c) => {
   const services = c.get('services');
   const userId = c.req.param('id');
   const { role } = await c.req.json();
 
+  if (!USER_ROLES.includes(role)) {
+    return c.json({ error: "Invalid role" }, 400);
+  }
+
   const success = await services.authService.updateUserRole(userId, role);
 
   if (!success) {
-    return c.json({ error: "User not found" }, 404);
+    return c.json({ error: t(c, 'errors.userNotFound') }, 404);
   }
 
   return c.json({ success: true, message: "Role updated successfully" });
 });
 
+// Admin only route - activate, deactivate or suspend a user
+app.put("/api/admin/users/:id/status", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const userId = c.req.param('id');
+    const data = await c.req.json() as UpdateUserStatusRequest;
+
+    if (data.isActive === undefined && data.suspendedUntil === undefined) {
+      return c.json({ error: "isActive or suspendedUntil is required" }, 400);
+    }
+
+    if (data.suspendedUntil && isNaN(new Date(data.suspendedUntil).getTime())) {
+      return c.json({ error: "suspendedUntil must be a valid date" }, 400);
+    }
+
+    if (userId === auth.userId && (data.isActive === false || data.suspendedUntil)) {
+      return c.json({ error: "You cannot deactivate or suspend your own account" }, 400);
+    }
+
+    const user = await services.authService.updateUserStatus(userId, {
+      isActive: data.isActive,
+      suspendedUntil: data.suspendedUntil === undefined
+        ? undefined
+        : data.suspendedUntil && new Date(data.suspendedUntil).toISOString(),
+      reason: data.reason?.trim() || undefined
+    });
+
+    if (!user) {
+      return c.json({ error: t(c, 'errors.userNotFound') }, 404);
+    }
+
+    return c.json({ success: true, user, message: "User status updated successfully" });
+  } catch (error) {
+    console.error('Update user status error:', error);
+    return c.json({ error: "Failed to update user status" }, 500);
+  }
+});
+
+// Admin only route - apply one action to many users, reporting the result per user
+app.post("/api/admin/users/bulk", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const { userIds, action, role, suspendedUntil, reason } = await c.req.json() as BulkUserActionRequest;
+
+    if (!Array.isArray(userIds) || userIds.length === 0) {
+      return c.json({ error: "userIds must be a non-empty array" }, 400);
+    }
+
+    if (userIds.length > 100) {
+      return c.json({ error: "At most 100 users can be updated at once" }, 400);
+    }
+
+    const actions: BulkUserAction[] = ['activate', 'deactivate', 'suspend', 'unsuspend', 'set_role', 'delete'];
+    if (!actions.includes(action)) {
+      return c.json({ error: `Action must be one of: ${actions.join(', ')}` }, 400);
+    }
+
+    if (action === 'set_role' && (!role || !USER_ROLES.includes(role))) {
+      return c.json({ error: "A valid role is required for set_role" }, 400);
+    }
+
+    if (action === 'suspend' && (!suspendedUntil || isNaN(new Date(suspendedUntil).getTime()))) {
+      return c.json({ error: "A valid suspendedUntil date is required for suspend" }, 400);
+    }
+
+    const results: BulkUserActionResult[] = [];
+    for (const userId of [...new Set(userIds)]) {
+      // Admins can't lock themselves out or demote themselves in bulk
+      if (userId === auth.userId && action !== 'activate' && action !== 'unsuspend') {
+        results.push({ userId, success: false, error: "Cannot apply this action to your own account" });
+        continue;
+      }
+
+      try {
+        let success: boolean;
+        switch (action) {
+          case 'activate':
+            success = !!await services.authService.updateUserStatus(userId, { isActive: true });
+            break;
+          case 'deactivate':
+            success = !!await services.authService.updateUserStatus(userId, { isActive: false });
+            break;
+          case 'suspend':
+            success = !!await services.authService.updateUserStatus(userId, {
+              suspendedUntil: new Date(suspendedUntil!).toISOString(),
+              reason: reason?.trim() || undefined
+            });
+            break;
+          case 'unsuspend':
+            success = !!await services.authService.updateUserStatus(userId, { suspendedUntil: null });
+            break;
+          case 'set_role':
+            success = await services.authService.updateUserRole(userId, role!);
+            break;
+          case 'delete':
+            success = await services.databaseService.deleteUser(userId);
+            break;
+        }
+
+        results.push(success ? { userId, success } : { userId, success, error: "User not found" });
+      } catch (error) {
+        console.error(`Bulk ${action} failed for user ${userId}:`, error);
+        results.push({ userId, success: false, error: error instanceof Error ? error.message : "Update failed" });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return c.json({
+      success: succeeded === results.length,
+      action,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    });
+  } catch (error) {
+    console.error('Bulk user action error:', error);
+    return c.json({ error: "Failed to apply bulk action" }, 500);
+  }
+});
+
 // Listings routes
 
 // Enhanced search endpoint with location integration
@@ -1170,6 +1517,11 @@ app.post("/api/listings/search", async (c) => {
       radius?: number;
     };
 
+    const invalidFilter = findInvalidSearchFilter(searchQuery.filters);
+    if (invalidFilter) {
+      return c.json({ error: t(c, `errors.${invalidFilter}`) }, 400);
+    }
+
     // Initialize PostalCodeService if location-based search is needed
     if (searchQuery.locationQuery && !services.postalCodeService) {
       services.postalCodeService = new PostalCodeService(services.databaseService.db);
@@ -1202,11 +1554,15 @@ app.post("/api/listings/search", async (c) => {
       }
     }
 
-    const result = await services.listingsService.searchListings(searchQuery);
+    if (!isSupportedLocale(searchQuery.locale)) {
+      searchQuery.locale = c.get('locale');
+    }
+
+    const result = await services.databaseService.searchListings(searchQuery);
     return c.json(result);
   } catch (error) {
     console.error('Search endpoint error:', error);
-    return c.json({ error: "Invalid search query" }, 400);
+    return c.json({ error: t(c, 'errors.invalidSearchQuery') }, 400);
   }
 });
 
@@ -1225,6 +1581,10 @@ app.post("/api/listings/semantic-search", async (c) => {
       // Not authenticated, continue without user ID
     }
 
+    if (!isSupportedLocale(searchQuery.locale)) {
+      searchQuery.locale = c.get('locale');
+    }
+
     const result = await services.semanticSearchService.semanticSearch(searchQuery, userId);
     return c.json({
       results: result,
@@ -1252,6 +1612,10 @@ app.post("/api/listings/hybrid-search", async (c) => {
       // Not authenticated, continue without user ID
     }
 
+    if (!isSupportedLocale(searchQuery.locale)) {
+      searchQuery.locale = c.get('locale');
+    }
+
     const result = await services.semanticSearchService.hybridSearch(searchQuery, userId);
     return c.json(result);
   } catch (error) {
@@ -1298,6 +1662,23 @@ app.get("/api/listings/recommendations", authMiddleware, async (c) => {
   }
 });
 
+// Listings in the visible map area: grid clusters when zoomed out, single listings when zoomed in
+app.get("/api/listings/map", async (c) => {
+  try {
+    const services = c.get('services');
+    const query = parseMapListingsQuery(c.req.query('bbox'), c.req.query('zoom'), c.req.query('category'));
+    if (!query) {
+      return c.json({ error: t(c, 'errors.invalidMapQuery', { maxZoom: MAX_MAP_ZOOM }) }, 400);
+    }
+
+    const result = await services.listingMapService.getMapListings(query);
+    return c.json({ ...result, pointsMinZoom: MAP_POINTS_MIN_ZOOM });
+  } catch (error) {
+    console.error('Error loading map listings:', error);
+    return c.json({ error: "Failed to load map listings" }, 500);
+  }
+});
+
 // Record user interaction endpoint
 app.post("/api/listings/:id/interaction", authMiddleware, async (c) => {
   try {
@@ -1569,18 +1950,16 @@ app.post("/api/admin/embeddings/generate/:id", authMiddleware, roleMiddleware(['
     const services = c.get('services');
     const listingId = c.req.param('id');
 
-    // Get listing from database
-    const listing = await services.databaseService.getDatabase()
-      .prepare('SELECT * FROM listings WHERE id = ? AND is_active = true')
-      .bind(listingId)
-      .first();
-
+    const listing = await services.databaseService.getFullListingById(listingId);
     if (!listing) {
-      return c.json({ error: "Listing not found" }, 404);
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
     }
 
-    // Generate and store embedding
-    await services.embeddingService.processListingEmbedding(listing);
+    // Generate and store embedding now rather than on the next cron run
+    const result = await services.embeddingSyncService.syncNow(listingId);
+    if (result.failed > 0) {
+      return c.json({ error: "Failed to generate embedding" }, 500);
+    }
 
     return c.json({
       success: true,
@@ -1593,53 +1972,45 @@ app.post("/api/admin/embeddings/generate/:id", authMiddleware, roleMiddleware(['
   }
 });
 
-// Batch generate embeddings for all listings
+// Queue embeddings for all listings; the cron handler works through the queue
 app.post("/api/admin/embeddings/generate-all", authMiddleware, roleMiddleware(['admin']), async (c) => {
   try {
     const services = c.get('services');
-    const batchSize = parseInt(c.req.query('batchSize') || '10');
-
-    // Get all active listings
-    const listings = await services.databaseService.getDatabase()
-      .prepare('SELECT * FROM listings WHERE is_active = true ORDER BY created_at DESC')
-      .all();
-
-    if (!listings.results || listings.results.length === 0) {
-      return c.json({ message: "No listings found" });
-    }
+    const onlyStale = c.req.query('onlyStale') === 'true';
 
-    const allListings = listings.results;
-    let processed = 0;
-    let errors = 0;
-
-    // Process in batches
-    for (let i = 0; i < allListings.length; i += batchSize) {
-      const batch = allListings.slice(i, i + batchSize);
-
-      try {
-        await services.embeddingService.processBatchListingEmbeddings(batch);
-        processed += batch.length;
-        console.log(`✅ Processed batch ${Math.floor(i/batchSize) + 1}, total processed: ${processed}`);
-      } catch (error) {
-        console.error(`❌ Error processing batch ${Math.floor(i/batchSize) + 1}:`, error);
-        errors += batch.length;
-      }
-
-      // Small delay between batches to avoid rate limits
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    let queued: number;
+    if (onlyStale) {
+      queued = await services.embeddingSyncService.enqueueStale();
+    } else {
+      const listings = await services.databaseService.db
+        .prepare("SELECT id FROM listings WHERE status = 'active'")
+        .all();
+      queued = await services.embeddingSyncService.enqueue(
+        (listings.results || []).map((row: { id: string }) => row.id)
+      );
     }
 
     return c.json({
       success: true,
-      message: `Batch embedding generation completed`,
-      totalListings: allListings.length,
-      processed,
-      errors,
-      batchSize
+      message: `Queued ${queued} listings for embedding`,
+      queued
     });
   } catch (error) {
     console.error('Batch generate embeddings endpoint error:', error);
-    return c.json({ error: "Failed to generate batch embeddings" }, 500);
+    return c.json({ error: "Failed to queue embeddings" }, 500);
+  }
+});
+
+// Retry embedding jobs that exhausted their attempts
+app.post("/api/admin/embeddings/retry-failed", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const retried = await services.embeddingSyncService.retryFailed();
+
+    return c.json({ success: true, retried });
+  } catch (error) {
+    console.error('Retry failed embeddings endpoint error:', error);
+    return c.json({ error: "Failed to retry embedding jobs" }, 500);
   }
 });
 
@@ -1647,11 +2018,20 @@ app.post("/api/admin/embeddings/generate-all", authMiddleware, roleMiddleware(['
 app.get("/api/admin/embeddings/stats", authMiddleware, roleMiddleware(['admin']), async (c) => {
   try {
     const services = c.get('services');
-    const stats = await services.embeddingService.getIndexStats();
+    const backlog = await services.embeddingSyncService.getBacklogStats();
+
+    // The Vectorize index isn't reachable in every environment
+    let stats = null;
+    try {
+      stats = await services.embeddingService.getIndexStats();
+    } catch (error) {
+      console.warn('Vectorize index stats unavailable:', error);
+    }
 
     return c.json({
       success: true,
-      stats
+      stats,
+      backlog
     });
   } catch (error) {
     console.error('Embedding stats endpoint error:', error);
@@ -1685,13 +2065,13 @@ app.get("/api/listings/:id", async (c) => {
     }
 
     // First try to get from database with appropriate privacy settings
-    const listing = await services.databaseService.getFullListingById(listingId, userRole);
+    const listing = await services.databaseService.getFullListingById(listingId, userRole, c.get('locale'));
 
     if (!listing) {
       // Fallback to in-memory service
       const fallbackListing = await services.listingsService.getListing(listingId);
       if (!fallbackListing) {
-        return c.json({ error: "Listing not found" }, 404);
+        return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
       }
       return c.json({ listing: fallbackListing });
     }
@@ -1715,6 +2095,37 @@ app.post("/api/listings", authMiddleware, async (c) => {
 
     console.log('Creating listing with data:', data);
 
+    const translations = Object.entries(data.translations || {});
+    if ((data.primaryLocale !== undefined && !isSupportedLocale(data.primaryLocale)) ||
+        translations.some(([locale, text]) => !isSupportedLocale(locale) || !text?.title?.trim() || !text?.description?.trim())) {
+      return c.json({ error: t(c, 'errors.invalidListingTranslations', { locales: SUPPORTED_LOCALES.join(', ') }) }, 400);
+    }
+
+    if (data.operatingHours) {
+      const operatingHours = parseOpeningHours(data.operatingHours);
+      if (!operatingHours) {
+        return c.json({ error: t(c, 'errors.invalidOpeningHours') }, 400);
+      }
+      data.operatingHours = operatingHours;
+    }
+
+    // Only water sources have water details; the lab certificate must be one of the owner's uploads
+    if (data.waterSource && isWaterSourceCategory(data.category)) {
+      const waterSource = parseWaterSourceDetails(data.waterSource, services.storageService.getUploadUrlPrefix(auth.userId));
+      if (!waterSource) {
+        return c.json({ error: t(c, 'errors.invalidWaterSource') }, 400);
+      }
+      data.waterSource = waterSource;
+    } else {
+      data.waterSource = undefined;
+    }
+
+    // Enforce the rolling monthly listing quota for the user's plan
+    const quota = await services.subscriptionService.getListingUsage(auth.userId, auth.role);
+    if (quota.limit !== -1 && quota.used >= quota.limit) {
+      return listingQuotaExceeded(c, quota);
+    }
+
     // Check for potential duplicates
     const duplicates = await services.duplicateDetectionService.checkForDuplicates(data, auth.userId);
 
@@ -1730,7 +2141,7 @@ app.post("/api/listings", authMiddleware, async (c) => {
           reason: d.reason,
           confidence: d.confidence
         })),
-        message: "A similar listing already exists. Please check if this is a duplicate before proceeding."
+        message: "A similar listing already exists. Please check if this is a duplicate before proceeding. If it is your business, you can claim the existing listing instead."
       }, 409); // 409 Conflict
     }
 
@@ -1794,38 +2205,50 @@ app.post("/api/listings", authMiddleware, async (c) => {
       ? data.images
       : getDefaultImagesForCategory(data.category);
 
+    // Listings from new or unverified owners wait in the moderation queue
+    const status = await services.moderationService.getInitialListingStatus(auth.userId, auth.role);
+
     const listingData = {
       ...data,
       id: listingId,
       user_id: auth.userId,
       location: transformedLocation,
-      status: 'active', // Set new listings as active for immediate visibility
-      images: defaultImages
+      status,
+      images: defaultImages,
+      primaryLocale: data.primaryLocale || c.get('locale')
     };
 
     console.log('Prepared listing data for database:', listingData);
 
+    // Take the quota slot for real: another request may have used it since the check above
+    if (!(await services.subscriptionService.reserveListingSlot(auth.userId, listingId, quota.limit))) {
+      return listingQuotaExceeded(c, await services.subscriptionService.getListingUsage(auth.userId, auth.role));
+    }
+
     // Use database service to create and persist the listing
-    const dbListing = await services.databaseService.createListing(listingData);
+    let dbListing;
+    try {
+      dbListing = await services.databaseService.createListing(listingData);
+    } catch (error) {
+      await services.subscriptionService.releaseListingSlot(listingId);
+      throw error;
+    }
     console.log('Listing created in database:', dbListing);
 
     // Get the full listing with proper format
     const listing = await services.databaseService.getFullListingById(listingId);
     console.log('Retrieved full listing for API response:', listing);
 
-    // Generate and store embedding for the new listing (async, don't wait)
-    try {
-      await services.embeddingService.processListingEmbedding(listing);
-      console.log('✅ Embedding generated for new listing:', listingId);
-    } catch (embeddingError) {
-      console.error('⚠️ Failed to generate embedding for new listing:', embeddingError);
-      // Don't fail the listing creation if embedding fails
-    }
-
-    return c.json({ listing }, 201);
+    // The embedding is generated in the background from the embedding_jobs queue
+    return c.json({
+      listing,
+      ...(status === 'pending' && {
+        message: t(c, 'listings.pendingReview')
+      })
+    }, 201);
   } catch (error) {
     console.error('Create listing error:', error);
-    return c.json({ error: "Invalid listing data" }, 400);
+    return c.json({ error: t(c, 'errors.invalidListingData') }, 400);
   }
 });
 
@@ -1839,17 +2262,52 @@ app.put("/api/listings/:id", authMiddleware, async (c) => {
 
     console.log('Updating listing:', listingId, 'with data:', data);
 
+    const translations = Object.entries(data.translations || {});
+    if ((data.primaryLocale !== undefined && !isSupportedLocale(data.primaryLocale)) ||
+        translations.some(([locale, text]) => !isSupportedLocale(locale) || !text?.title?.trim() || !text?.description?.trim())) {
+      return c.json({ error: t(c, 'errors.invalidListingTranslations', { locales: SUPPORTED_LOCALES.join(', ') }) }, 400);
+    }
+
+    if (data.operatingHours) {
+      const operatingHours = parseOpeningHours(data.operatingHours);
+      if (!operatingHours) {
+        return c.json({ error: t(c, 'errors.invalidOpeningHours') }, 400);
+      }
+      data.operatingHours = operatingHours;
+    }
+
     // Check if listing exists and user has permission
     const existingListing = await services.databaseService.getFullListingById(listingId);
     if (!existingListing) {
-      return c.json({ error: "Listing not found" }, 404);
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
     }
 
     const isAdmin = auth.role === 'admin';
     const isOwner = existingListing.userId === auth.userId;
 
     if (!isAdmin && !isOwner) {
-      return c.json({ error: "Access denied" }, 403);
+      return c.json({ error: t(c, 'errors.accessDenied') }, 403);
+    }
+
+    // Owners can toggle active/inactive, but moderation decisions are admin-only
+    const awaitingChanges = !isAdmin && await services.moderationService.isAwaitingChanges(listingId);
+    if (!isAdmin && data.status && data.status !== existingListing.status) {
+      const moderatedStatuses: ListingStatus[] = ['pending', 'rejected'];
+      if (moderatedStatuses.includes(existingListing.status) || moderatedStatuses.includes(data.status) || awaitingChanges) {
+        return c.json({ error: t(c, 'errors.listingStatusModerated') }, 403);
+      }
+    }
+
+    // Only water sources have water details, cleared when a listing stops being one. The lab
+    // certificate must be one of the owner's uploads, also when an admin edits the listing.
+    if (!isWaterSourceCategory(data.category ?? existingListing.category)) {
+      data.waterSource = isWaterSourceCategory(existingListing.category) ? null : undefined;
+    } else if (data.waterSource) {
+      const waterSource = parseWaterSourceDetails(data.waterSource, services.storageService.getUploadUrlPrefix(existingListing.userId));
+      if (!waterSource) {
+        return c.json({ error: t(c, 'errors.invalidWaterSource') }, 400);
+      }
+      data.waterSource = waterSource;
     }
 
     // Transform frontend location format to database format (same as create endpoint)
@@ -1880,23 +2338,20 @@ app.put("/api/listings/:id", authMiddleware, async (c) => {
       return c.json({ error: "Failed to update listing" }, 500);
     }
 
+    // Editing a listing after changes were requested sends it back for review
+    if (awaitingChanges) {
+      await services.moderationService.resubmit(listingId, auth.userId);
+    }
+
     // Get the updated listing with proper format
     const listing = await services.databaseService.getFullListingById(listingId);
     console.log('Listing updated successfully:', listing);
 
-    // Update embedding for the modified listing (async, don't wait)
-    try {
-      await services.embeddingService.processListingEmbedding(listing);
-      console.log('✅ Embedding updated for listing:', listingId);
-    } catch (embeddingError) {
-      console.error('⚠️ Failed to update embedding for listing:', embeddingError);
-      // Don't fail the listing update if embedding fails
-    }
-
+    // The embedding is refreshed in the background from the embedding_jobs queue
     return c.json({ listing });
   } catch (error) {
     console.error('Update listing error:', error);
-    return c.json({ error: "Invalid listing data" }, 400);
+    return c.json({ error: t(c, 'errors.invalidListingData') }, 400);
   }
 });
 
@@ -1907,19 +2362,16 @@ app.delete("/api/listings/:id", authMiddleware, async (c) => {
   const listingId = c.req.param('id');
 
   const isAdmin = auth.role === 'admin';
-  const success = await services.listingsService.deleteListing(listingId, auth.userId, isAdmin);
+  const listing = await services.databaseService.getFullListingById(listingId);
 
-  if (!success) {
-    return c.json({ error: "Listing not found or access denied" }, 404);
+  if (!listing || (!isAdmin && listing.userId !== auth.userId)) {
+    return c.json({ error: t(c, 'errors.listingNotFoundOrDenied') }, 404);
   }
 
-  // Delete embedding for the deleted listing (async, don't wait)
-  try {
-    await services.embeddingService.deleteEmbedding(`listing_${listingId}`);
-    console.log('✅ Embedding deleted for listing:', listingId);
-  } catch (embeddingError) {
-    console.error('⚠️ Failed to delete embedding for listing:', embeddingError);
-    // Don't fail the listing deletion if embedding deletion fails
+  // Deleting the row queues removal of its embedding
+  const success = await services.databaseService.deleteListing(listingId);
+  if (!success) {
+    return c.json({ error: t(c, 'errors.listingNotFoundOrDenied') }, 404);
   }
 
   return c.json({ success: true });
@@ -1984,6 +2436,35 @@ app.put("/api/user/profile", authMiddleware, async (c) => {
   }
 });
 
+// Language chosen in the app's language switcher, used for emails sent to the user
+app.put("/api/user/locale", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const { locale } = await c.req.json().catch(() => ({})) as { locale?: string };
+
+    if (!isSupportedLocale(locale)) {
+      return c.json({
+        success: false,
+        message: t(c, 'errors.unsupportedLocale', { locales: SUPPORTED_LOCALES.join(', ') })
+      }, 400);
+    }
+
+    const updated = await services.authService.updateUserLocale(auth.userId, locale);
+    if (!updated) {
+      return c.json({ success: false, message: t(c, 'errors.userNotFound') }, 404);
+    }
+
+    return c.json({ success: true, locale, message: translate(locale, 'user.localeUpdated') });
+  } catch (error) {
+    console.error('Locale update error:', error);
+    return c.json({
+      success: false,
+      message: t(c, 'user.localeUpdateFailed')
+    }, 500);
+  }
+});
+
 app.post("/api/user/change-password", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
@@ -2058,24 +2539,94 @@ app.post("/api/user/change-password", authMiddleware, async (c) => {
   }
 });
 
+app.get("/api/user/notification-preferences", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const preferences = await services.notificationPreferencesService.getPreferences(auth.userId);
+    return c.json({ preferences });
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error);
+    return c.json({ error: "Failed to fetch notification preferences" }, 500);
+  }
+});
+
 app.put("/api/user/notification-preferences", authMiddleware, async (c) => {
   try {
-    // For now, just return success - in a real app, you'd store these preferences
-    // You could add a user_preferences table to store notification settings
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const body = await c.req.json().catch(() => null);
+
+    const update = parseNotificationPreferences(body);
+    if (!update) {
+      return c.json({
+        success: false,
+        message: t(c, 'errors.invalidNotificationPreferences')
+      }, 400);
+    }
+
+    const preferences = await services.notificationPreferencesService.updatePreferences(auth.userId, update);
 
     return c.json({
       success: true,
-      message: "Notification preferences updated successfully"
+      preferences,
+      message: t(c, 'user.notificationPreferencesUpdated')
     });
   } catch (error) {
     console.error('Notification preferences update error:', error);
     return c.json({
       success: false,
-      message: "Failed to update notification preferences"
+      message: t(c, 'user.notificationPreferencesUpdateFailed')
     }, 500);
   }
 });
 
+// One-click unsubscribe from the signed link in an email's footer and List-Unsubscribe header.
+// GET shows a confirmation so link scanners can't unsubscribe anyone; mail clients POST (RFC 8058).
+app.on(["GET", "POST"], "/api/email/unsubscribe", async (c) => {
+  const services = c.get('services');
+  const token = c.req.query('token') || '';
+
+  const page = (message: string, form = false, status: 200 | 400 | 500 = 200) => c.html(`<!DOCTYPE html>
+<html lang="${c.get('locale')}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>${t(c, 'unsubscribe.title')}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 480px; margin: 60px auto; padding: 20px; text-align: center;">
+    <h1 style="color: #10b981; font-size: 24px;">Kisigua</h1>
+    <p>${message}</p>
+    ${form ? `<form method="post">
+      <button type="submit" style="background: #10b981; color: white; padding: 12px 24px; border: none; border-radius: 8px; font-weight: bold; font-size: 16px; cursor: pointer;">${t(c, 'unsubscribe.button')}</button>
+    </form>` : ''}
+  </body>
+</html>`, status);
+
+  try {
+    const target = await services.notificationPreferencesService.verifyUnsubscribeToken(token);
+    if (!target) {
+      return page(t(c, 'unsubscribe.invalid'), false, 400);
+    }
+
+    const category = t(c, `unsubscribe.categories.${target.category}`);
+    if (c.req.method === 'GET') {
+      return page(t(c, 'unsubscribe.confirm', { category }), true);
+    }
+
+    const unsubscribed = await services.notificationPreferencesService.unsubscribe(target.userId, target.category);
+    if (!unsubscribed) {
+      return page(t(c, 'unsubscribe.invalid'), false, 400);
+    }
+
+    return page(t(c, 'unsubscribe.done', { category }));
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    return page(t(c, 'unsubscribe.failed'), false, 500);
+  }
+});
+
 app.get("/api/user/export-data", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
@@ -2164,24 +2715,125 @@ app.get("/api/admin/listings", authMiddleware, roleMiddleware(['admin']), async
   }
 });
 
-// Admin: Get all users
-app.get("/api/admin/users", authMiddleware, roleMiddleware(['admin']), async (c) => {
+// Admin: Cleanup of descriptions saved before they were sanitized (migration 024). The
+// scheduled handler does this on its own; this finishes it sooner. Works in batches to stay
+// within the request's limits; call again while `remaining` > 0.
+app.post("/api/admin/listings/sanitize-descriptions", authMiddleware, roleMiddleware(['admin']), async (c) => {
   try {
     const services = c.get('services');
-    const users = await services.databaseService.getAllUsers();
-    return c.json({ users });
+    let listings = 0;
+    let translations = 0;
+    let remaining = 0;
+
+    for (let batch = 0; batch < 10; batch++) {
+      const result = await services.databaseService.sanitizeStoredDescriptions(100);
+      listings += result.listings;
+      translations += result.translations;
+      remaining = result.remaining;
+      if (remaining === 0) {
+        break;
+      }
+    }
+
+    return c.json({ success: true, listings, translations, remaining });
   } catch (error) {
-    console.error('Admin get users error:', error);
-    return c.json({ error: "Failed to fetch users" }, 500);
+    console.error('Sanitize descriptions error:', error);
+    return c.json({ error: "Failed to sanitize descriptions" }, 500);
   }
 });
 
-// Check for duplicates without creating (authenticated)
-app.post("/api/listings/check-duplicates", authMiddleware, async (c) => {
+// Admin: Moderation queue (defaults to pending listings, oldest first)
+app.get("/api/admin/moderation", authMiddleware, roleMiddleware(['admin']), async (c) => {
   try {
     const services = c.get('services');
-    const auth = c.get('auth');
-    const data = await c.req.json() as CreateListingRequest;
+    const status = (c.req.query('status') || 'pending') as ListingStatus;
+    const page = Math.max(parseInt(c.req.query('page') || '1'), 1);
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20'), 1), 100);
+
+    if (!['pending', 'rejected', 'inactive', 'active'].includes(status)) {
+      return c.json({ error: "Invalid status" }, 400);
+    }
+
+    const [queue, counts] = await Promise.all([
+      services.moderationService.getQueue(status, page, limit),
+      services.moderationService.getQueueCounts()
+    ]);
+
+    return c.json({
+      ...queue,
+      counts,
+      page,
+      limit,
+      totalPages: Math.ceil(queue.total / limit)
+    });
+  } catch (error) {
+    console.error('Get moderation queue error:', error);
+    return c.json({ error: "Failed to fetch moderation queue" }, 500);
+  }
+});
+
+// Admin: Approve, reject or request changes for a listing
+app.post("/api/admin/moderation/:id", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+    const decision = parseModerationDecision(await c.req.json().catch(() => null));
+    if (!decision) {
+      return c.json({ error: t(c, 'errors.invalidModerationDecision', { max: MAX_MODERATION_REASON_LENGTH }) }, 400);
+    }
+    const { action, reason } = decision;
+
+    const result = await services.moderationService.moderate(listingId, auth.userId, action, reason);
+    if (!result) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    if (action === 'approve') {
+      await services.activityService.logListingApproved(auth.userId, listingId, result.title);
+    } else if (action === 'reject') {
+      await services.activityService.logListingRejected(auth.userId, listingId, result.title, reason!);
+    } else {
+      await services.activityService.logListingChangesRequested(auth.userId, listingId, result.title, reason!);
+    }
+
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Moderate listing error:', error);
+    return c.json({ error: "Failed to moderate listing" }, 500);
+  }
+});
+
+// Admin: Moderation history for a listing
+app.get("/api/admin/moderation/:id/history", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const history = await services.moderationService.getHistory(c.req.param('id'));
+    return c.json({ history });
+  } catch (error) {
+    console.error('Get moderation history error:', error);
+    return c.json({ error: "Failed to fetch moderation history" }, 500);
+  }
+});
+
+// Admin: Get all users
+app.get("/api/admin/users", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const users = await services.databaseService.getAllUsers();
+    return c.json({ users });
+  } catch (error) {
+    console.error('Admin get users error:', error);
+    return c.json({ error: "Failed to fetch users" }, 500);
+  }
+});
+
+// Check for duplicates without creating (authenticated)
+app.post("/api/listings/check-duplicates", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const data = await c.req.json() as CreateListingRequest;
 
     const duplicates = await services.duplicateDetectionService.checkForDuplicates(data, auth.userId);
 
@@ -2252,7 +2904,7 @@ app.post("/api/admin/listings/force-create", authMiddleware, roleMiddleware(['ad
     return c.json({ listing }, 201);
   } catch (error) {
     console.error('Admin force create listing error:', error);
-    return c.json({ error: "Invalid listing data" }, 400);
+    return c.json({ error: t(c, 'errors.invalidListingData') }, 400);
   }
 });
 
@@ -2396,7 +3048,7 @@ app.get("/api/subscriptions/current", authMiddleware, async (c) => {
   const services = c.get('services');
   const auth = c.get('auth');
   const subscription = await services.subscriptionService.getUserSubscription(auth.userId);
-  const plan = services.subscriptionService.getUserPlan(auth.userId);
+  const plan = await services.subscriptionService.getUserPlan(auth.userId);
 
   return c.json({
     subscription,
@@ -2428,7 +3080,7 @@ app.post("/api/subscriptions/cancel", authMiddleware, async (c) => {
   const subscription = await services.subscriptionService.cancelSubscription(auth.userId, cancelAtPeriodEnd);
 
   if (!subscription) {
-    return c.json({ error: "No active subscription found" }, 404);
+    return c.json({ error: t(c, 'errors.noActiveSubscription') }, 404);
   }
 
   return c.json({ subscription });
@@ -2442,7 +3094,7 @@ app.post("/api/subscriptions/reactivate", authMiddleware, async (c) => {
   const subscription = await services.subscriptionService.reactivateSubscription(auth.userId);
 
   if (!subscription) {
-    return c.json({ error: "No subscription found" }, 404);
+    return c.json({ error: t(c, 'errors.subscriptionNotFound') }, 404);
   }
 
   return c.json({ subscription });
@@ -2455,20 +3107,25 @@ app.get("/api/admin/subscriptions/stats", authMiddleware, roleMiddleware(['admin
   return c.json({ stats });
 });
 
-// Stripe webhook endpoint (public, but should be secured with webhook signature verification)
+// Stripe webhook endpoint (public, secured with webhook signature verification)
 app.post("/api/webhooks/stripe", async (c) => {
   try {
     const services = c.get('services');
-    const event = await c.req.json();
 
-    // In a real implementation, you would verify the webhook signature here
-    // const sig = c.req.header('stripe-signature');
-    // const endpointSecret = 'whsec_...';
-    // const event = stripe.webhooks.constructEvent(body, sig, endpointSecret);
+    // Signature is computed over the raw body, so read it before parsing
+    const payload = await c.req.text();
+    const signature = c.req.header('stripe-signature');
+
+    const isValid = await services.subscriptionService.verifyWebhookSignature(payload, signature);
+    if (!isValid) {
+      console.warn('Rejected Stripe webhook with invalid signature');
+      return c.json({ error: "Invalid webhook signature" }, 400);
+    }
 
-    await services.subscriptionService.handleWebhook(event);
+    const event = JSON.parse(payload) as SubscriptionWebhookEvent;
+    const result = await services.subscriptionService.handleWebhook(event);
 
-    return c.json({ received: true });
+    return c.json({ received: true, duplicate: !!result.duplicate });
   } catch (error) {
     console.error('Webhook error:', error);
     return c.json({ error: "Webhook processing failed" }, 400);
@@ -2640,6 +3297,45 @@ app.post("/api/upload/listing-image/:listingId", authMiddleware, async (c) => {
   }
 });
 
+// Upload review photo for a listing; reference the returned URL in the review
+app.post("/api/upload/review-photo/:listingId", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('listingId');
+    const contentType = c.req.header('content-type') || 'application/octet-stream';
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    const imageData = await c.req.arrayBuffer();
+    const originalFileName = c.req.header('x-file-name') || 'review-photo';
+
+    const result = await services.storageService.uploadReviewPhoto(
+      auth.userId,
+      listingId,
+      imageData,
+      contentType,
+      originalFileName
+    );
+
+    if (result.success) {
+      return c.json({
+        success: true,
+        imageUrl: result.url,
+        fileId: result.fileId
+      });
+    } else {
+      return c.json({ error: result.error }, 400);
+    }
+  } catch (error) {
+    console.error('Review photo upload error:', error);
+    return c.json({ error: "Review photo upload failed" }, 400);
+  }
+});
+
 // Generate signed URL for document upload
 app.post("/api/upload/document/signed-url", authMiddleware, async (c) => {
   try {
@@ -2980,7 +3676,7 @@ app.put("/api/listings/:id/cover", authMiddleware, async (c) => {
     // Get the listing to check ownership
     const listing = await services.databaseService.getFullListingById(listingId);
     if (!listing) {
-      return c.json({ error: "Listing not found" }, 404);
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
     }
 
     // Check if user owns the listing or is admin
@@ -3313,18 +4009,18 @@ app.post("/api/favorites/collections", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
     const auth = c.get('auth');
-    const { name, description, color, isPublic } = await c.req.json();
+    const request = parseCollectionRequest(await c.req.json().catch(() => null), false);
 
-    if (!name) {
-      return c.json({ error: "Collection name is required" }, 400);
+    if (!request || !request.name) {
+      return c.json({ error: t(c, 'errors.invalidCollection', { max: MAX_COLLECTION_NAME_LENGTH }) }, 400);
     }
 
     const collection = await services.favoritesService.createCollection(
       auth.userId,
-      name,
-      description,
-      color,
-      isPublic
+      request.name,
+      request.description ?? undefined,
+      request.color,
+      request.isPublic
     );
 
     return c.json({ collection });
@@ -3334,117 +4030,1402 @@ app.post("/api/favorites/collections", authMiddleware, async (c) => {
   }
 });
 
-// ===== DASHBOARD STATS ENDPOINTS =====
+// Get one of the user's collections with its listings (authenticated)
+app.get("/api/favorites/collections/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const collection = await services.favoritesService.getCollectionWithListings(c.req.param('id'), auth.userId);
 
-// Get dashboard statistics (admin only)
-app.get("/api/admin/dashboard/stats", authMiddleware, roleMiddleware(['admin']), async (c) => {
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
+
+    return c.json({ collection });
+  } catch (error) {
+    console.error('Error fetching collection:', error);
+    return c.json({ error: "Failed to fetch collection" }, 500);
+  }
+});
+
+// Update a collection; making it public gives it a share URL (authenticated)
+app.put("/api/favorites/collections/:id", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
-    const stats = await services.statsService.getDashboardStats();
-    return c.json(stats);
+    const auth = c.get('auth');
+    const request = parseCollectionRequest(await c.req.json().catch(() => null), true);
+
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidCollection', { max: MAX_COLLECTION_NAME_LENGTH }) }, 400);
+    }
+
+    const collection = await services.favoritesService.updateCollection(c.req.param('id'), auth.userId, request);
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
+
+    return c.json({ collection });
   } catch (error) {
-    console.error('Error fetching dashboard stats:', error);
-    return c.json({ error: "Failed to fetch dashboard statistics" }, 500);
+    console.error('Error updating collection:', error);
+    return c.json({ error: "Failed to update collection" }, 500);
   }
 });
 
-// Get user statistics (authenticated)
-app.get("/api/user/stats", authMiddleware, async (c) => {
+// Delete a collection; the listings stay in the user's favorites (authenticated)
+app.delete("/api/favorites/collections/:id", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
     const auth = c.get('auth');
-    const stats = await services.statsService.getUserStats(auth.userId);
-    return c.json(stats);
+    const deleted = await services.favoritesService.deleteCollection(c.req.param('id'), auth.userId);
+
+    if (!deleted) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
   } catch (error) {
-    console.error('Error fetching user stats:', error);
-    return c.json({ error: "Failed to fetch user statistics" }, 500);
+    console.error('Error deleting collection:', error);
+    return c.json({ error: "Failed to delete collection" }, 500);
   }
 });
 
-// ===== PUBLIC LISTINGS ENDPOINTS =====
+// Reorder the listings in a collection (authenticated)
+app.put("/api/favorites/collections/:id/order", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const collectionId = c.req.param('id');
 
-// Get all public listings (no authentication required) - only active listings
-app.get("/api/listings", async (c) => {
+    const collection = await services.favoritesService.getCollection(collectionId, auth.userId);
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
+
+    const listingIds = parseCollectionOrder(await c.req.json().catch(() => null));
+    if (!listingIds || !(await services.favoritesService.reorderCollection(collectionId, listingIds))) {
+      return c.json({ error: t(c, 'errors.invalidCollectionOrder') }, 400);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error reordering collection:', error);
+    return c.json({ error: "Failed to reorder collection" }, 500);
+  }
+});
+
+// Add a listing to a collection (authenticated)
+app.post("/api/favorites/collections/:id/listings", authMiddleware, async (c) => {
   try {
     const services = c.get('services');
-    console.log('Public requesting active listings for dashboard...');
+    const auth = c.get('auth');
+    const collectionId = c.req.param('id');
+    const body = await c.req.json().catch(() => null);
+    const listingId = body && typeof body.listingId === 'string' ? body.listingId : null;
 
-    // Use the search method that filters by status = 'active' for public view
-    const searchResult = await services.databaseService.searchListings({
-      query: '',
-      filters: {},
-      page: 1,
-      limit: 100 // Get all active listings
-    });
+    const collection = await services.favoritesService.getCollection(collectionId, auth.userId);
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
 
-    console.log(`Public listings endpoint returning ${searchResult.listings.length} active listings`);
+    // Other users' listings can only be collected once they are active
+    const listing = listingId ? await services.databaseService.getListingById(listingId) : null;
+    if (!listing || (listing.status !== 'active' && listing.user_id !== auth.userId)) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
 
-    return c.json({ listings: searchResult.listings });
+    if (!collection.listingIds?.includes(listingId) && (collection.listingCount || 0) >= MAX_COLLECTION_LISTINGS) {
+      return c.json({ error: t(c, 'errors.collectionFull', { max: MAX_COLLECTION_LISTINGS }) }, 400);
+    }
+
+    await services.favoritesService.addToCollection(collectionId, listingId);
+    return c.json({ success: true });
   } catch (error) {
-    console.error('Error fetching listings:', error);
-    return c.json({ error: "Failed to fetch listings" }, 500);
+    console.error('Error adding to collection:', error);
+    return c.json({ error: "Failed to add to collection" }, 500);
   }
 });
 
+// Remove a listing from a collection (authenticated)
+app.delete("/api/favorites/collections/:id/listings/:listingId", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const collectionId = c.req.param('id');
 
+    const collection = await services.favoritesService.getCollection(collectionId, auth.userId);
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
 
-// Serve static files for non-API routes
-app.get("*", async (c) => {
-  const url = new URL(c.req.url);
-  const path = url.pathname;
+    const removed = await services.favoritesService.removeFromCollection(collectionId, c.req.param('listingId'));
+    if (!removed) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
 
-  // If it's an API route that wasn't matched, return 404
-  if (path.startsWith('/api/')) {
-    return c.json({ error: 'API endpoint not found' }, 404);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error removing from collection:', error);
+    return c.json({ error: "Failed to remove from collection" }, 500);
   }
+});
 
-  // For all other routes, serve the React app
+// Download a collection as GPX or GeoJSON for GPS devices and map apps (authenticated)
+app.get("/api/favorites/collections/:id/export", authMiddleware, async (c) => {
   try {
-    // Try to get the specific file first
-    let assetPath = path === '/' ? '/index.html' : path;
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const format = c.req.query('format') || 'gpx';
 
-    // If the path doesn't have an extension, serve index.html (SPA routing)
-    if (!assetPath.includes('.')) {
-      assetPath = '/index.html';
+    if (!isCollectionExportFormat(format)) {
+      return c.json({ error: t(c, 'errors.invalidExportFormat', { formats: COLLECTION_EXPORT_FORMATS.join(', ') }) }, 400);
     }
 
-    const response = await c.env.FILES.get(`client${assetPath}`);
+    const collection = await services.favoritesService.getCollectionWithListings(c.req.param('id'), auth.userId);
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
 
-    if (!response) {
-      // If file not found, serve index.html for SPA routing
-      const indexResponse = await c.env.FILES.get('client/index.html');
-      if (!indexResponse) {
-        return c.text('Application not found', 404);
+    const filename = slugifyCollectionName(collection.name) || 'collection';
+    if (format === 'geojson') {
+      return c.body(collectionToGeoJson(collection, collection.listings), 200, {
+        'Content-Type': 'application/geo+json',
+        'Content-Disposition': `attachment; filename="${filename}.geojson"`
+      });
+    }
+
+    return c.body(collectionToGpx(collection, collection.listings), 200, {
+      'Content-Type': 'application/gpx+xml',
+      'Content-Disposition': `attachment; filename="${filename}.gpx"`
+    });
+  } catch (error) {
+    console.error('Error exporting collection:', error);
+    return c.json({ error: "Failed to export collection" }, 500);
+  }
+});
+
+// Public, read-only view of a shared collection
+app.get("/api/collections/:slug", async (c) => {
+  try {
+    const services = c.get('services');
+    const collection = await services.favoritesService.getPublicCollection(c.req.param('slug'));
+
+    if (!collection) {
+      return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+    }
+
+    return c.json({ collection });
+  } catch (error) {
+    console.error('Error fetching public collection:', error);
+    return c.json({ error: "Failed to fetch collection" }, 500);
+  }
+});
+
+// ===== TRIP PLANNER ENDPOINTS =====
+
+// Plan a route through favorite listings or a collection (authenticated).
+// ?format=gpx downloads the route instead of returning the plan.
+app.post("/api/trips/plan", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const format = c.req.query('format');
+
+    if (format !== undefined && format !== 'gpx') {
+      return c.json({ error: t(c, 'errors.invalidExportFormat', { formats: 'gpx' }) }, 400);
+    }
+
+    const request = parseTripRequest(await c.req.json().catch(() => null));
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidTripRequest', { max: MAX_TRIP_STOPS }) }, 400);
+    }
+
+    let listingIds = request.listingIds || [];
+    let name = 'Trip';
+    if (request.collectionId) {
+      const collection = await services.favoritesService.getCollection(request.collectionId, auth.userId);
+      if (!collection) {
+        return c.json({ error: t(c, 'errors.collectionNotFound') }, 404);
+      }
+      if ((collection.listingIds || []).length > MAX_TRIP_STOPS) {
+        return c.json({ error: t(c, 'errors.invalidTripRequest', { max: MAX_TRIP_STOPS }) }, 400);
       }
+      listingIds = collection.listingIds || [];
+      name = collection.name;
+    }
 
-      return new Response(indexResponse.body, {
-        headers: {
-          'Content-Type': 'text/html',
-          'Cache-Control': 'no-cache'
-        }
+    const plan = await services.tripPlannerService.planTrip(request, listingIds);
+    if (plan.stops.length === 0) {
+      return c.json({ error: t(c, 'errors.tripNoStops') }, 400);
+    }
+
+    if (format === 'gpx') {
+      const filename = slugifyCollectionName(name) || 'trip';
+      return c.body(tripToGpx(plan, name), 200, {
+        'Content-Type': 'application/gpx+xml',
+        'Content-Disposition': `attachment; filename="${filename}.gpx"`
       });
     }
 
-    // Determine content type
-    let contentType = 'text/plain';
-    if (assetPath.endsWith('.html')) contentType = 'text/html';
-    else if (assetPath.endsWith('.js')) contentType = 'application/javascript';
-    else if (assetPath.endsWith('.css')) contentType = 'text/css';
-    else if (assetPath.endsWith('.png')) contentType = 'image/png';
-    else if (assetPath.endsWith('.jpg') || assetPath.endsWith('.jpeg')) contentType = 'image/jpeg';
-    else if (assetPath.endsWith('.svg')) contentType = 'image/svg+xml';
-    else if (assetPath.endsWith('.ico')) contentType = 'image/x-icon';
+    return c.json({ plan });
+  } catch (error) {
+    console.error('Error planning trip:', error);
+    return c.json({ error: "Failed to plan trip" }, 500);
+  }
+});
 
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': contentType,
-        'Cache-Control': assetPath.endsWith('.html') ? 'no-cache' : 'public, max-age=31536000'
-      }
+// ===== SAVED SEARCHES ENDPOINTS =====
+
+// Get user's saved searches (authenticated)
+app.get("/api/saved-searches", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const savedSearches = await services.savedSearchService.getSavedSearches(auth.userId);
+    return c.json({ savedSearches, limit: MAX_SAVED_SEARCHES });
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return c.json({ error: "Failed to fetch saved searches" }, 500);
+  }
+});
+
+// Save a search (authenticated)
+app.post("/api/saved-searches", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const body = await c.req.json().catch(() => null);
+
+    const request = parseSavedSearchRequest(body, false);
+    if (!request?.name || !request.query) {
+      return c.json({ error: t(c, 'errors.invalidSavedSearch', { max: MAX_SAVED_SEARCH_NAME_LENGTH, frequencies: ALERT_FREQUENCIES.join(', ') }) }, 400);
+    }
+
+    const count = await services.savedSearchService.countSavedSearches(auth.userId);
+    if (count >= MAX_SAVED_SEARCHES) {
+      return c.json({ error: t(c, 'errors.savedSearchLimitReached', { max: MAX_SAVED_SEARCHES }) }, 409);
+    }
+
+    const savedSearch = await services.savedSearchService.createSavedSearch(auth.userId, {
+      name: request.name,
+      query: request.query,
+      alertFrequency: request.alertFrequency
     });
+    return c.json({ savedSearch }, 201);
   } catch (error) {
-    console.error('Static file serving error:', error);
-    return c.text('Internal Server Error', 500);
+    console.error('Error saving search:', error);
+    return c.json({ error: "Failed to save search" }, 500);
   }
 });
 
-export default app;
+// Rename a saved search, change its query or alert frequency (authenticated)
+app.put("/api/saved-searches/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const body = await c.req.json().catch(() => null);
+
+    const request = parseSavedSearchRequest(body, true);
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidSavedSearch', { max: MAX_SAVED_SEARCH_NAME_LENGTH, frequencies: ALERT_FREQUENCIES.join(', ') }) }, 400);
+    }
+
+    const savedSearch = await services.savedSearchService.updateSavedSearch(c.req.param('id'), auth.userId, request);
+    if (!savedSearch) {
+      return c.json({ error: t(c, 'errors.savedSearchNotFound') }, 404);
+    }
+
+    return c.json({ savedSearch });
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return c.json({ error: "Failed to update saved search" }, 500);
+  }
+});
+
+// Delete a saved search (authenticated)
+app.delete("/api/saved-searches/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const success = await services.savedSearchService.deleteSavedSearch(c.req.param('id'), auth.userId);
+    if (!success) {
+      return c.json({ error: t(c, 'errors.savedSearchNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return c.json({ error: "Failed to delete saved search" }, 500);
+  }
+});
+
+// ===== MESSAGING ENDPOINTS =====
+
+// Get user's conversations as visitor or listing owner (authenticated)
+app.get("/api/conversations", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const conversations = await services.messagingService.getConversations(auth.userId);
+    return c.json({ conversations });
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return c.json({ error: "Failed to fetch conversations" }, 500);
+  }
+});
+
+// Unread messages for the header badge (authenticated)
+app.get("/api/messages/unread-count", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const count = await services.messagingService.getUnreadCount(auth.userId);
+    return c.json({ count });
+  } catch (error) {
+    console.error('Error fetching unread message count:', error);
+    return c.json({ error: "Failed to fetch unread message count" }, 500);
+  }
+});
+
+// Message the owner of a listing, starting the conversation on first contact (authenticated)
+app.post("/api/listings/:id/conversations", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+    const body = parseMessageBody(await c.req.json().catch(() => null));
+    if (!body) {
+      return c.json({ error: t(c, 'errors.invalidMessage', { max: MAX_MESSAGE_LENGTH }) }, 400);
+    }
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+    if (listing.user_id === auth.userId) {
+      return c.json({ error: t(c, 'errors.cannotMessageOwnListing') }, 400);
+    }
+    if (await services.messagingService.isBlockedBetween(auth.userId, listing.user_id)) {
+      return c.json({ error: t(c, 'errors.messagingBlocked') }, 403);
+    }
+
+    const existingId = await services.messagingService.findConversationId(listingId, auth.userId);
+    if (!existingId && await services.messagingService.countRecentConversations(auth.userId) >= NEW_CONVERSATIONS_PER_DAY) {
+      return c.json({ error: t(c, 'errors.conversationRateLimited', { max: NEW_CONVERSATIONS_PER_DAY }) }, 429);
+    }
+    if (await services.messagingService.countRecentMessages(auth.userId) >= MESSAGES_PER_HOUR) {
+      return c.json({ error: t(c, 'errors.messageRateLimited', { max: MESSAGES_PER_HOUR }) }, 429);
+    }
+
+    const conversationId = existingId || await services.messagingService.startConversation(listingId, listing.user_id, auth.userId);
+    const started = await services.messagingService.getConversation(conversationId, auth.userId);
+    if (!started) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+
+    const message = await services.messagingService.sendMessage(started, auth.userId, body);
+    const conversation = await services.messagingService.getConversation(conversationId, auth.userId);
+
+    return c.json({ conversation, message }, existingId ? 200 : 201);
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    return c.json({ error: "Failed to send message" }, 500);
+  }
+});
+
+// Open a conversation: its latest messages, marked as read (authenticated)
+app.get("/api/conversations/:id/messages", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const conversation = await services.messagingService.getConversation(c.req.param('id'), auth.userId);
+    if (!conversation) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+
+    const messages = await services.messagingService.getMessages(conversation.id);
+    await services.messagingService.markRead(conversation, auth.userId);
+
+    return c.json({ conversation: { ...conversation, unreadCount: 0 }, messages });
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return c.json({ error: "Failed to fetch messages" }, 500);
+  }
+});
+
+// Reply in a conversation (authenticated)
+app.post("/api/conversations/:id/messages", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const body = parseMessageBody(await c.req.json().catch(() => null));
+    if (!body) {
+      return c.json({ error: t(c, 'errors.invalidMessage', { max: MAX_MESSAGE_LENGTH }) }, 400);
+    }
+
+    const conversation = await services.messagingService.getConversation(c.req.param('id'), auth.userId);
+    if (!conversation) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+    if (conversation.blocked || conversation.blockedBy) {
+      return c.json({ error: t(c, 'errors.messagingBlocked') }, 403);
+    }
+    if (await services.messagingService.countRecentMessages(auth.userId) >= MESSAGES_PER_HOUR) {
+      return c.json({ error: t(c, 'errors.messageRateLimited', { max: MESSAGES_PER_HOUR }) }, 429);
+    }
+
+    const message = await services.messagingService.sendMessage(conversation, auth.userId, body);
+    return c.json({ message }, 201);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return c.json({ error: "Failed to send message" }, 500);
+  }
+});
+
+// Block the other participant of a conversation (authenticated)
+app.post("/api/conversations/:id/block", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const conversation = await services.messagingService.getConversation(c.req.param('id'), auth.userId);
+    if (!conversation) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+
+    await services.messagingService.blockUser(auth.userId, conversation.otherParticipant.id);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    return c.json({ error: "Failed to block user" }, 500);
+  }
+});
+
+// Unblock the other participant of a conversation (authenticated)
+app.delete("/api/conversations/:id/block", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const conversation = await services.messagingService.getConversation(c.req.param('id'), auth.userId);
+    if (!conversation) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+
+    await services.messagingService.unblockUser(auth.userId, conversation.otherParticipant.id);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    return c.json({ error: "Failed to unblock user" }, 500);
+  }
+});
+
+// Report a conversation to the moderators (authenticated)
+app.post("/api/conversations/:id/report", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const reason = parseReportReason(await c.req.json().catch(() => null));
+    if (!reason) {
+      return c.json({ error: t(c, 'errors.invalidMessageReport', { max: MAX_REPORT_REASON_LENGTH }) }, 400);
+    }
+
+    const conversation = await services.messagingService.getConversation(c.req.param('id'), auth.userId);
+    if (!conversation) {
+      return c.json({ error: t(c, 'errors.conversationNotFound') }, 404);
+    }
+
+    const reportId = await services.messagingService.reportConversation(conversation.id, auth.userId, reason);
+    return c.json({ success: true, reportId }, 201);
+  } catch (error) {
+    console.error('Error reporting conversation:', error);
+    return c.json({ error: "Failed to report conversation" }, 500);
+  }
+});
+
+// Get reported conversations (admin only)
+app.get("/api/admin/message-reports", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const status = c.req.query('status');
+    const reports = await services.messagingService.getReports(
+      (MESSAGE_REPORT_STATUSES as readonly string[]).includes(status || '') ? status as MessageReportStatus : 'open'
+    );
+    return c.json({ reports });
+  } catch (error) {
+    console.error('Error fetching message reports:', error);
+    return c.json({ error: "Failed to fetch message reports" }, 500);
+  }
+});
+
+// Mark a report as handled (admin only)
+app.post("/api/admin/message-reports/:id/resolve", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const resolved = await services.messagingService.resolveReport(c.req.param('id'), auth.userId);
+    if (!resolved) {
+      return c.json({ error: t(c, 'errors.messageReportNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error resolving message report:', error);
+    return c.json({ error: "Failed to resolve message report" }, 500);
+  }
+});
+
+// ===== REVIEWS ENDPOINTS =====
+
+// Get published reviews of a listing; signed-in users also get their own review and votes
+app.get("/api/listings/:id/reviews", optionalAuthMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    const sort = c.req.query('sort');
+    const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+    const limit = Math.min(MAX_REVIEWS_PER_PAGE, Math.max(1, parseInt(c.req.query('limit') || '') || REVIEWS_PER_PAGE));
+
+    const result = await services.reviewService.getReviews(listingId, {
+      sort: (REVIEW_SORTS as readonly string[]).includes(sort || '') ? sort as ReviewSort : 'recent',
+      page,
+      limit
+    }, auth?.userId);
+
+    return c.json({
+      ...result,
+      averageRating: listing.rating_average ? Math.round(listing.rating_average * 10) / 10 : null,
+      reviewCount: listing.rating_count || 0
+    });
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    return c.json({ error: "Failed to fetch reviews" }, 500);
+  }
+});
+
+// Review a listing, once per user (authenticated)
+app.post("/api/listings/:id/reviews", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+    if (listing.user_id === auth.userId) {
+      return c.json({ error: t(c, 'errors.cannotReviewOwnListing') }, 400);
+    }
+
+    const request = parseReviewRequest(
+      await c.req.json().catch(() => null),
+      services.storageService.getReviewPhotoUrlPrefix(auth.userId, listingId)
+    );
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidReview', { max: MAX_REVIEW_LENGTH, photos: MAX_REVIEW_PHOTOS }) }, 400);
+    }
+
+    if (await services.reviewService.findUserReview(listingId, auth.userId)) {
+      return c.json({ error: t(c, 'errors.reviewAlreadyExists') }, 409);
+    }
+
+    const review = await services.reviewService.createReview(listingId, auth.userId, request);
+    return c.json({ review }, 201);
+  } catch (error) {
+    console.error('Error creating review:', error);
+    return c.json({ error: "Failed to create review" }, 500);
+  }
+});
+
+// Edit own review (authenticated)
+app.put("/api/reviews/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review || review.author.id !== auth.userId) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+    if (review.status === 'removed') {
+      return c.json({ error: t(c, 'errors.reviewRemoved') }, 403);
+    }
+
+    const request = parseReviewRequest(
+      await c.req.json().catch(() => null),
+      services.storageService.getReviewPhotoUrlPrefix(auth.userId, review.listingId)
+    );
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidReview', { max: MAX_REVIEW_LENGTH, photos: MAX_REVIEW_PHOTOS }) }, 400);
+    }
+
+    const updated = await services.reviewService.updateReview(review, request);
+    return c.json({ review: updated });
+  } catch (error) {
+    console.error('Error updating review:', error);
+    return c.json({ error: "Failed to update review" }, 500);
+  }
+});
+
+// Delete own review; admins can delete any (authenticated)
+app.delete("/api/reviews/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const review = await services.reviewService.getReview(c.req.param('id'));
+    if (!review || (review.author.id !== auth.userId && auth.role !== 'admin')) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+    // Otherwise deleting would let the author post the removed review again
+    if (review.status === 'removed' && auth.role !== 'admin') {
+      return c.json({ error: t(c, 'errors.reviewRemoved') }, 403);
+    }
+
+    await services.reviewService.deleteReview(review.id);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    return c.json({ error: "Failed to delete review" }, 500);
+  }
+});
+
+// Reply publicly to a review of own listing, replacing an earlier reply (authenticated)
+app.put("/api/reviews/:id/reply", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const reply = parseOwnerReply(await c.req.json().catch(() => null));
+    if (!reply) {
+      return c.json({ error: t(c, 'errors.invalidOwnerReply', { max: MAX_OWNER_REPLY_LENGTH }) }, 400);
+    }
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review || review.status !== 'published') {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+    const listing = await services.databaseService.getListingById(review.listingId);
+    if (!listing || listing.user_id !== auth.userId) {
+      return c.json({ error: t(c, 'errors.onlyOwnerCanReply') }, 403);
+    }
+
+    await services.reviewService.setOwnerReply(review.id, reply);
+    return c.json({ review: await services.reviewService.getReview(review.id, auth.userId) });
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    return c.json({ error: "Failed to reply to review" }, 500);
+  }
+});
+
+// Remove the reply to a review of own listing (authenticated)
+app.delete("/api/reviews/:id/reply", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+    const listing = await services.databaseService.getListingById(review.listingId);
+    if (!listing || listing.user_id !== auth.userId) {
+      return c.json({ error: t(c, 'errors.onlyOwnerCanReply') }, 403);
+    }
+
+    await services.reviewService.setOwnerReply(review.id, null);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error removing review reply:', error);
+    return c.json({ error: "Failed to remove reply" }, 500);
+  }
+});
+
+// Mark a review as helpful (authenticated)
+app.post("/api/reviews/:id/vote", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review || review.status !== 'published') {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+    if (review.author.id === auth.userId) {
+      return c.json({ error: t(c, 'errors.cannotVoteOwnReview') }, 400);
+    }
+
+    await services.reviewService.voteHelpful(review.id, auth.userId);
+    const updated = await services.reviewService.getReview(review.id, auth.userId);
+    return c.json({ helpfulCount: updated?.helpfulCount || 0, votedHelpful: true });
+  } catch (error) {
+    console.error('Error voting for review:', error);
+    return c.json({ error: "Failed to vote for review" }, 500);
+  }
+});
+
+// Take back a helpful vote (authenticated)
+app.delete("/api/reviews/:id/vote", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+
+    await services.reviewService.removeVote(review.id, auth.userId);
+    const updated = await services.reviewService.getReview(review.id, auth.userId);
+    return c.json({ helpfulCount: updated?.helpfulCount || 0, votedHelpful: false });
+  } catch (error) {
+    console.error('Error removing review vote:', error);
+    return c.json({ error: "Failed to remove vote" }, 500);
+  }
+});
+
+// Flag a review for the moderators (authenticated)
+app.post("/api/reviews/:id/flag", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const reason = parseReviewReason(await c.req.json().catch(() => null));
+    if (!reason) {
+      return c.json({ error: t(c, 'errors.invalidReviewReason', { max: MAX_REVIEW_REASON_LENGTH }) }, 400);
+    }
+
+    const review = await services.reviewService.getReview(c.req.param('id'), auth.userId);
+    if (!review || review.status !== 'published') {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+
+    // Flagging twice keeps the first reason
+    await services.reviewService.flagReview(review.id, auth.userId, reason);
+    return c.json({ success: true }, 201);
+  } catch (error) {
+    console.error('Error flagging review:', error);
+    return c.json({ error: "Failed to flag review" }, 500);
+  }
+});
+
+// Get flagged reviews (admin only)
+app.get("/api/admin/reviews/flagged", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const reviews = await services.reviewService.getFlaggedReviews();
+    return c.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching flagged reviews:', error);
+    return c.json({ error: "Failed to fetch flagged reviews" }, 500);
+  }
+});
+
+// Remove a review from the listing, with a note for its author (admin only)
+app.post("/api/admin/reviews/:id/remove", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const reason = parseReviewReason(await c.req.json().catch(() => null));
+    if (!reason) {
+      return c.json({ error: t(c, 'errors.invalidReviewReason', { max: MAX_REVIEW_REASON_LENGTH }) }, 400);
+    }
+
+    const removed = await services.reviewService.removeReview(c.req.param('id'), auth.userId, reason);
+    if (!removed) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error removing review:', error);
+    return c.json({ error: "Failed to remove review" }, 500);
+  }
+});
+
+// Keep a flagged review and clear its flags (admin only)
+app.post("/api/admin/reviews/:id/dismiss-flags", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+
+    const dismissed = await services.reviewService.dismissFlags(c.req.param('id'));
+    if (!dismissed) {
+      return c.json({ error: t(c, 'errors.reviewNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error dismissing review flags:', error);
+    return c.json({ error: "Failed to dismiss flags" }, 500);
+  }
+});
+
+// ===== WATER SOURCES ENDPOINTS =====
+
+// Current status of a water source and its latest reports
+app.get("/api/listings/:id/water-status", async (c) => {
+  try {
+    const services = c.get('services');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active' || !isWaterSourceCategory(listing.category)) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    const reports = await services.waterSourceService.getReports(listingId);
+    return c.json({
+      status: {
+        status: listing.water_status || null,
+        reportedAt: listing.water_status_at || undefined,
+        reportCount: listing.water_status_reports || 0
+      },
+      reports
+    });
+  } catch (error) {
+    console.error('Error fetching water status:', error);
+    return c.json({ error: "Failed to fetch water status" }, 500);
+  }
+});
+
+// Report whether a water source is working, broken, dry or not potable (authenticated)
+app.post("/api/listings/:id/water-status", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active' || !isWaterSourceCategory(listing.category)) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    const report = parseWaterStatusReport(await c.req.json().catch(() => null));
+    if (!report) {
+      return c.json({ error: t(c, 'errors.invalidWaterStatusReport', { max: MAX_WATER_REPORT_NOTE_LENGTH }) }, 400);
+    }
+
+    if (await services.waterSourceService.hasRecentReport(listingId, auth.userId)) {
+      return c.json({ error: t(c, 'errors.waterReportTooSoon', { minutes: WATER_REPORT_COOLDOWN_MINUTES }) }, 429);
+    }
+
+    const status = await services.waterSourceService.addReport(listingId, auth.userId, report.status, report.note);
+    return c.json({ status }, 201);
+  } catch (error) {
+    console.error('Error reporting water status:', error);
+    return c.json({ error: "Failed to report water status" }, 500);
+  }
+});
+
+// ===== VENDING PRODUCTS ENDPOINTS =====
+
+// Products of a vending machine with their latest known stock; owners and admins also see them before approval
+app.get("/api/listings/:id/products", optionalAuthMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    const canManage = !!auth && (auth.role === 'admin' || listing?.user_id === auth.userId);
+    if (!listing || !isVendingMachineCategory(listing.category) || (listing.status !== 'active' && !canManage)) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+
+    const products = await services.productService.getProducts(listingId);
+    return c.json({ products });
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    return c.json({ error: "Failed to fetch products" }, 500);
+  }
+});
+
+// Bulk product updates from the owner, as JSON or CSV (text/csv with a header row).
+// PUT replaces the whole catalogue; PATCH only creates or updates the products it names,
+// e.g. for pushing stock levels from the machine.
+const updateProducts = async (c: Context, replace: boolean) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || !isVendingMachineCategory(listing.category)) {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+    if (listing.user_id !== auth.userId && auth.role !== 'admin') {
+      return c.json({ error: t(c, 'errors.insufficientPermissions') }, 403);
+    }
+
+    const isCsv = (c.req.header('content-type') || '').includes('text/csv');
+    const products = isCsv
+      ? parseProductCsv(await c.req.text())
+      : parseProductList(await c.req.json().catch(() => null));
+    if (!products) {
+      return c.json({ error: t(c, 'errors.invalidProducts', { max: MAX_PRODUCTS_PER_LISTING }) }, 400);
+    }
+
+    const result = await services.productService.bulkUpdate(listingId, products, replace);
+    if (!result) {
+      return c.json({ error: t(c, 'errors.productLimitReached', { max: MAX_PRODUCTS_PER_LISTING }) }, 400);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error('Error updating products:', error);
+    return c.json({ error: "Failed to update products" }, 500);
+  }
+};
+
+app.put("/api/listings/:id/products", authMiddleware, (c) => updateProducts(c, true));
+app.patch("/api/listings/:id/products", authMiddleware, (c) => updateProducts(c, false));
+
+// Report a product as sold out or restocked (authenticated)
+app.post("/api/products/:id/stock", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const product = await services.productService.getProduct(c.req.param('id'));
+    const listing = product ? await services.databaseService.getListingById(product.listingId) : null;
+    if (!product || !listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.productNotFound') }, 404);
+    }
+
+    const status = parseStockReport(await c.req.json().catch(() => null));
+    if (!status) {
+      return c.json({ error: t(c, 'errors.invalidStockReport') }, 400);
+    }
+
+    if (await services.productService.hasRecentStockReport(product.id, auth.userId)) {
+      return c.json({ error: t(c, 'errors.stockReportTooSoon', { minutes: STOCK_REPORT_COOLDOWN_MINUTES }) }, 429);
+    }
+
+    const updated = await services.productService.reportStock(product, auth.userId, status);
+    return c.json({ product: updated }, 201);
+  } catch (error) {
+    console.error('Error reporting stock:', error);
+    return c.json({ error: "Failed to report stock" }, 500);
+  }
+});
+
+// ===== LISTING CLAIMS ENDPOINTS =====
+
+// Claim a listing someone else submitted (authenticated). Email codes are sent to the
+// listing's contact address; website claims get a code to publish on the listing's website.
+app.post("/api/listings/:id/claims", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const listingId = c.req.param('id');
+
+    const listing = await services.databaseService.getListingById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return c.json({ error: t(c, 'errors.listingNotFound') }, 404);
+    }
+    if (listing.user_id === auth.userId) {
+      return c.json({ error: t(c, 'errors.alreadyListingOwner') }, 400);
+    }
+
+    const request = parseClaimRequest(
+      await c.req.json().catch(() => null),
+      services.storageService.getUploadUrlPrefix(auth.userId)
+    );
+    if (!request) {
+      return c.json({ error: t(c, 'errors.invalidClaim', { max: MAX_CLAIM_MESSAGE_LENGTH }) }, 400);
+    }
+    if ((request.method === 'email' && !listing.contact_email) ||
+        (request.method === 'website' && !getClaimWebsiteUrl(listing.contact_website))) {
+      return c.json({ error: t(c, 'errors.claimMethodUnavailable') }, 400);
+    }
+
+    if (await services.claimService.hasPendingClaim(listingId, auth.userId)) {
+      return c.json({ error: t(c, 'errors.claimAlreadyPending') }, 409);
+    }
+    if (await services.claimService.countRecentClaims(auth.userId) >= CLAIMS_PER_DAY) {
+      return c.json({ error: t(c, 'errors.tooManyClaims', { max: CLAIMS_PER_DAY }) }, 429);
+    }
+
+    const user = await services.databaseService.getUserById(auth.userId);
+    if (!user) {
+      return c.json({ error: t(c, 'errors.userNotFound') }, 404);
+    }
+
+    const claim = await services.claimService.createClaim(listing, user, request);
+    if (!claim) {
+      return c.json({ error: t(c, 'errors.claimEmailFailed') }, 502);
+    }
+
+    return c.json({ claim }, 201);
+  } catch (error) {
+    console.error('Error creating claim:', error);
+    return c.json({ error: "Failed to create claim" }, 500);
+  }
+});
+
+// The requesting user's claims (authenticated)
+app.get("/api/claims", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const claims = await services.claimService.getUserClaims(auth.userId);
+    return c.json({ claims });
+  } catch (error) {
+    console.error('Error fetching claims:', error);
+    return c.json({ error: "Failed to fetch claims" }, 500);
+  }
+});
+
+// Prove an email or website claim; the listing is transferred when the proof holds (authenticated)
+app.post("/api/claims/:id/verify", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const claim = await services.claimService.getClaim(c.req.param('id'));
+    if (!claim || claim.userId !== auth.userId) {
+      return c.json({ error: t(c, 'errors.claimNotFound') }, 404);
+    }
+    if (claim.status !== 'pending') {
+      return c.json({ error: t(c, 'errors.claimNotPending') }, 400);
+    }
+    if (claim.method === 'document') {
+      return c.json({ error: t(c, 'errors.claimAwaitingReview') }, 400);
+    }
+
+    const body = await c.req.json().catch(() => null) as { code?: unknown } | null;
+    const code = typeof body?.code === 'string' ? body.code : undefined;
+    const result = await services.claimService.verifyClaim(claim.id, code);
+
+    switch (result) {
+      case 'invalid_code':
+        return c.json({ error: t(c, 'errors.invalidClaimCode') }, 400);
+      case 'code_expired':
+        return c.json({ error: t(c, 'errors.claimCodeExpired') }, 400);
+      case 'too_many_attempts':
+        return c.json({ error: t(c, 'errors.tooManyClaimAttempts', { max: MAX_CLAIM_CODE_ATTEMPTS }) }, 429);
+      case 'website_unreachable':
+        return c.json({ error: t(c, 'errors.claimWebsiteUnreachable', { url: claim.websiteUrl || '' }) }, 400);
+      case 'website_code_missing':
+        return c.json({ error: t(c, 'errors.claimWebsiteCodeMissing', { url: claim.websiteUrl || '' }) }, 400);
+      case 'not_pending':
+        return c.json({ error: t(c, 'errors.claimNotPending') }, 400);
+    }
+
+    await services.activityService.logListingClaimed(auth.userId, claim.listingId, claim.listingTitle, claim.method);
+
+    return c.json({ claim: await services.claimService.getClaim(claim.id) });
+  } catch (error) {
+    console.error('Error verifying claim:', error);
+    return c.json({ error: "Failed to verify claim" }, 500);
+  }
+});
+
+// Withdraw a pending claim (authenticated)
+app.delete("/api/claims/:id", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const cancelled = await services.claimService.cancelClaim(c.req.param('id'), auth.userId);
+    if (!cancelled) {
+      return c.json({ error: t(c, 'errors.claimNotFound') }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling claim:', error);
+    return c.json({ error: "Failed to cancel claim" }, 500);
+  }
+});
+
+// Admin: Claims to review (defaults to pending, oldest first)
+app.get("/api/admin/claims", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const status = c.req.query('status') || 'pending';
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20') || 20, 1), 100);
+
+    if (!isClaimStatus(status)) {
+      return c.json({ error: "Invalid status" }, 400);
+    }
+
+    const result = await services.claimService.getAdminClaims(status, page, limit);
+    return c.json({
+      ...result,
+      page,
+      limit,
+      totalPages: Math.ceil(result.total / limit)
+    });
+  } catch (error) {
+    console.error('Error fetching claims:', error);
+    return c.json({ error: "Failed to fetch claims" }, 500);
+  }
+});
+
+// Admin: Approve a claim, transferring the listing, or reject it with a note for the claimant
+app.post("/api/admin/claims/:id", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+
+    const decision = parseClaimDecision(await c.req.json().catch(() => null));
+    if (!decision) {
+      return c.json({ error: t(c, 'errors.invalidClaimDecision', { max: MAX_CLAIM_REVIEW_NOTE_LENGTH }) }, 400);
+    }
+
+    const claim = await services.claimService.decide(c.req.param('id'), auth.userId, decision.action, decision.note);
+    if (!claim) {
+      return c.json({ error: t(c, 'errors.claimNotFound') }, 404);
+    }
+
+    if (decision.action === 'approve') {
+      await services.activityService.logListingClaimed(claim.userId, claim.listingId, claim.listingTitle, claim.method);
+    }
+
+    return c.json({ claim });
+  } catch (error) {
+    console.error('Error deciding claim:', error);
+    return c.json({ error: "Failed to decide claim" }, 500);
+  }
+});
+
+// ===== DASHBOARD STATS ENDPOINTS =====
+
+// Get dashboard statistics (admin only)
+app.get("/api/admin/dashboard/stats", authMiddleware, roleMiddleware(['admin']), async (c) => {
+  try {
+    const services = c.get('services');
+    const stats = await services.statsService.getDashboardStats();
+    return c.json(stats);
+  } catch (error) {
+    console.error('Error fetching dashboard stats:', error);
+    return c.json({ error: "Failed to fetch dashboard statistics" }, 500);
+  }
+});
+
+// Get user statistics (authenticated)
+app.get("/api/user/stats", authMiddleware, async (c) => {
+  try {
+    const services = c.get('services');
+    const auth = c.get('auth');
+    const [stats, listingQuota] = await Promise.all([
+      services.statsService.getUserStats(auth.userId),
+      services.subscriptionService.getListingUsage(auth.userId, auth.role)
+    ]);
+    return c.json({ ...stats, listingQuota });
+  } catch (error) {
+    console.error('Error fetching user stats:', error);
+    return c.json({ error: "Failed to fetch user statistics" }, 500);
+  }
+});
+
+// ===== PUBLIC LISTINGS ENDPOINTS =====
+
+// Get all public listings (no authentication required) - only active listings
+app.get("/api/listings", async (c) => {
+  try {
+    const services = c.get('services');
+    console.log('Public requesting active listings for dashboard...');
+
+    // Use the search method that filters by status = 'active' for public view
+    const searchResult = await services.databaseService.searchListings({
+      query: '',
+      filters: {},
+      page: 1,
+      limit: 100, // Get all active listings
+      locale: c.get('locale')
+    });
+
+    console.log(`Public listings endpoint returning ${searchResult.listings.length} active listings`);
+
+    return c.json({ listings: searchResult.listings });
+  } catch (error) {
+    console.error('Error fetching listings:', error);
+    return c.json({ error: "Failed to fetch listings" }, 500);
+  }
+});
+
+// Cached for a few minutes by browsers and proxies, then revalidated with the ETag
+const PUBLIC_FEED_CACHE_CONTROL = 'public, max-age=300';
+
+// GeoJSON FeatureCollection of active listings for partner sites and open-data portals.
+// Filters: ?category=water_source,local_product&country=Germany&bbox=west,south,east,north
+app.get("/api/public/listings.geojson", async (c) => {
+  try {
+    const services = c.get('services');
+    const query = parsePublicFeedQuery(c.req.query('category'), c.req.query('country'), c.req.query('bbox'));
+    if (!query) {
+      return c.json({ error: t(c, 'errors.invalidFeedQuery', { categories: PUBLIC_FEED_CATEGORIES.join(', ') }) }, 400);
+    }
+
+    const etag = await services.publicFeedService.getEtag(query, 'geojson');
+    const headers = { 'ETag': etag, 'Cache-Control': PUBLIC_FEED_CACHE_CONTROL };
+    if (matchesEtag(c.req.header('If-None-Match'), etag)) {
+      return c.body(null, 304, headers);
+    }
+
+    return c.body(await services.publicFeedService.getGeoJson(query, etag), 200, {
+      ...headers,
+      'Content-Type': 'application/geo+json; charset=utf-8'
+    });
+  } catch (error) {
+    console.error('Error building public listings feed:', error);
+    return c.json({ error: "Failed to build listings feed" }, 500);
+  }
+});
+
+// Full dump of the same feed, one GeoJSON Feature per line, streamed from D1
+app.get("/api/public/listings.ndjson", async (c) => {
+  try {
+    const services = c.get('services');
+    const query = parsePublicFeedQuery(c.req.query('category'), c.req.query('country'), c.req.query('bbox'));
+    if (!query) {
+      return c.json({ error: t(c, 'errors.invalidFeedQuery', { categories: PUBLIC_FEED_CATEGORIES.join(', ') }) }, 400);
+    }
+
+    const etag = await services.publicFeedService.getEtag(query, 'ndjson');
+    const headers = { 'ETag': etag, 'Cache-Control': PUBLIC_FEED_CACHE_CONTROL };
+    if (matchesEtag(c.req.header('If-None-Match'), etag)) {
+      return c.body(null, 304, headers);
+    }
+
+    return c.body(services.publicFeedService.streamNdjson(query), 200, {
+      ...headers,
+      'Content-Type': 'application/x-ndjson; charset=utf-8'
+    });
+  } catch (error) {
+    console.error('Error streaming public listings feed:', error);
+    return c.json({ error: "Failed to stream listings feed" }, 500);
+  }
+});
+
+
+
+// Serve static files for non-API routes
+app.get("*", async (c) => {
+  const url = new URL(c.req.url);
+  const path = url.pathname;
+
+  // If it's an API route that wasn't matched, return 404
+  if (path.startsWith('/api/')) {
+    return c.json({ error: t(c, 'errors.endpointNotFound') }, 404);
+  }
+
+  // For all other routes, serve the React app
+  try {
+    // Try to get the specific file first
+    let assetPath = path === '/' ? '/index.html' : path;
+
+    // If the path doesn't have an extension, serve index.html (SPA routing)
+    if (!assetPath.includes('.')) {
+      assetPath = '/index.html';
+    }
+
+    const response = await c.env.FILES.get(`client${assetPath}`);
+
+    if (!response) {
+      // If file not found, serve index.html for SPA routing
+      const indexResponse = await c.env.FILES.get('client/index.html');
+      if (!indexResponse) {
+        return c.text('Application not found', 404);
+      }
+
+      return new Response(indexResponse.body, {
+        headers: {
+          'Content-Type': 'text/html',
+          'Cache-Control': 'no-cache'
+        }
+      });
+    }
+
+    // Determine content type
+    let contentType = 'text/plain';
+    if (assetPath.endsWith('.html')) contentType = 'text/html';
+    else if (assetPath.endsWith('.js')) contentType = 'application/javascript';
+    else if (assetPath.endsWith('.css')) contentType = 'text/css';
+    else if (assetPath.endsWith('.png')) contentType = 'image/png';
+    else if (assetPath.endsWith('.jpg') || assetPath.endsWith('.jpeg')) contentType = 'image/jpeg';
+    else if (assetPath.endsWith('.svg')) contentType = 'image/svg+xml';
+    else if (assetPath.endsWith('.ico')) contentType = 'image/x-icon';
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': assetPath.endsWith('.html') ? 'no-cache' : 'public, max-age=31536000'
+      }
+    });
+  } catch (error) {
+    console.error('Static file serving error:', error);
+    return c.text('Internal Server Error', 500);
+  }
+});
+
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger: work through the embedding_jobs queue, send saved search alerts, expire stale water
+  // source statuses and prune expired sessions
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil((async () => {
+      let services: Awaited<ReturnType<typeof initializeServices>>;
+      try {
+        services = await initializeServices(env);
+      } catch (error) {
+        console.error('Scheduled handler initialization error:', error);
+        return;
+      }
+
+      try {
+        const result = await services.embeddingSyncService.drain();
+        console.log(`✅ Embedding sync: ${result.processed} embedded, ${result.deleted} removed, ${result.failed} failed`);
+      } catch (error) {
+        console.error('Scheduled embedding sync error:', error);
+      }
+
+      try {
+        const alerts = await services.savedSearchService.sendAlerts();
+        if (alerts.searchesChecked > 0) {
+          console.log(`🔔 Saved search alerts: ${alerts.searchesChecked} checked, ${alerts.emailsSent} emails, ${alerts.listingsNotified} listings`);
+        }
+      } catch (error) {
+        console.error('Scheduled saved search alerts error:', error);
+      }
+
+      try {
+        const sanitized = await services.databaseService.sanitizeStoredDescriptions(100);
+        if (sanitized.listings + sanitized.translations > 0) {
+          console.log(`🧼 Sanitized ${sanitized.listings} listing and ${sanitized.translations} translation descriptions, ${sanitized.remaining} left`);
+        }
+      } catch (error) {
+        console.error('Scheduled description cleanup error:', error);
+      }
+
+      try {
+        const expired = await services.waterSourceService.expireStaleStatuses();
+        if (expired > 0) {
+          console.log(`💧 Expired the status of ${expired} water sources`);
+        }
+      } catch (error) {
+        console.error('Scheduled water status expiry error:', error);
+      }
+
+      try {
+        const removedSessions = await services.sessionService.cleanupExpired();
+        if (removedSessions > 0) {
+          console.log(`🧹 Removed ${removedSessions} expired sessions`);
+        }
+      } catch (error) {
+        console.error('Scheduled session cleanup error:', error);
+      }
+    })());
+  }
+} satisfies ExportedHandler<Env>;
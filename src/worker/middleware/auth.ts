@@ -1,6 +1,7 @@
 import { Context, Next } from 'hono';
 import { AuthService } from '../services/authService';
 import { UserRole, ROLE_PERMISSIONS } from '../types/auth';
+import { t } from './locale';
 
 export interface AuthContext {
   userId: string;
@@ -20,7 +21,7 @@ export function createAuthMiddleware(authService: AuthService) {
     const authHeader = c.req.header('Authorization');
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ error: 'Missing or invalid authorization header' }, 401);
+      return c.json({ error: t(c, 'errors.missingAuthHeader') }, 401);
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
@@ -29,7 +30,7 @@ export function createAuthMiddleware(authService: AuthService) {
       const payload = await authService.verifyToken(token);
       
       if (!payload) {
-        return c.json({ error: 'Invalid or expired token' }, 401);
+        return c.json({ error: t(c, 'errors.invalidToken') }, 401);
       }
 
       // Set auth context
@@ -42,7 +43,7 @@ export function createAuthMiddleware(authService: AuthService) {
       await next();
     } catch (error) {
       console.error('Auth middleware error:', error);
-      return c.json({ error: 'Authentication failed' }, 401);
+      return c.json({ error: t(c, 'errors.authenticationFailed') }, 401);
     }
   };
 }
@@ -52,12 +53,12 @@ export function createRoleMiddleware(requiredRoles: UserRole[]) {
     const auth = c.get('auth');
     
     if (!auth) {
-      return c.json({ error: 'Authentication required' }, 401);
+      return c.json({ error: t(c, 'errors.authenticationRequired') }, 401);
     }
 
     if (!requiredRoles.includes(auth.role)) {
       return c.json({ 
-        error: 'Insufficient permissions',
+        error: t(c, 'errors.insufficientPermissions'),
         required: requiredRoles,
         current: auth.role 
       }, 403);
@@ -72,7 +73,7 @@ export function createPermissionMiddleware(permission: keyof typeof ROLE_PERMISS
     const auth = c.get('auth');
     
     if (!auth) {
-      return c.json({ error: 'Authentication required' }, 401);
+      return c.json({ error: t(c, 'errors.authenticationRequired') }, 401);
     }
 
     const userPermissions = ROLE_PERMISSIONS[auth.role];
@@ -0,0 +1,36 @@
+import { Context, Next } from 'hono';
+import { getCookie } from 'hono/cookie';
+import {
+  Locale,
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  TranslationParams,
+  resolveLocale,
+  translate
+} from '../i18n';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    locale: Locale;
+  }
+}
+
+export function createLocaleMiddleware() {
+  return async (c: Context, next: Next) => {
+    const locale = resolveLocale({
+      preferred: getCookie(c, LOCALE_COOKIE),
+      acceptLanguage: c.req.header('Accept-Language')
+    });
+
+    c.set('locale', locale);
+    await next();
+    c.header('Content-Language', locale);
+  };
+}
+
+/**
+ * Translate a message into the language of the current request
+ */
+export function t(c: Context, key: string, params?: TranslationParams): string {
+  return translate(c.get('locale') || DEFAULT_LOCALE, key, params);
+}
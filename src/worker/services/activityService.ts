@@ -24,6 +24,8 @@ export type ActivityType =
   | 'listing_updated'
   | 'listing_approved'
   | 'listing_rejected'
+  | 'listing_changes_requested'
+  | 'listing_claimed'
   | 'listing_deleted'
   | 'category_created'
   | 'category_updated'
@@ -242,6 +244,39 @@ export class ActivityService {
     );
   }
 
+  async logListingRejected(adminUserId: string, listingId: string, title: string, reason: string): Promise<void> {
+    await this.logActivity(
+      'listing_rejected',
+      `Listing rejected: ${title}`,
+      adminUserId,
+      'listing',
+      listingId,
+      { title, reason }
+    );
+  }
+
+  async logListingChangesRequested(adminUserId: string, listingId: string, title: string, reason: string): Promise<void> {
+    await this.logActivity(
+      'listing_changes_requested',
+      `Changes requested for listing: ${title}`,
+      adminUserId,
+      'listing',
+      listingId,
+      { title, reason }
+    );
+  }
+
+  async logListingClaimed(userId: string, listingId: string, title: string, method: string): Promise<void> {
+    await this.logActivity(
+      'listing_claimed',
+      `Listing claimed by its owner: ${title}`,
+      userId,
+      'listing',
+      listingId,
+      { title, method }
+    );
+  }
+
   async logCategoryCreated(adminUserId: string, categoryId: string, name: string): Promise<void> {
     await this.logActivity(
       'category_created',
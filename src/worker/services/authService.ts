@@ -7,18 +7,23 @@ import {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
-  UserRole
+  UserRole,
+  UpdateUserStatusRequest
 } from '../types/auth';
 import { DatabaseService } from './databaseService';
+import { SessionService, SessionMetadata, ACCESS_TOKEN_TTL_SECONDS } from './sessionService';
+import { Locale, DEFAULT_LOCALE, isSupportedLocale, translate, formatDateTime } from '../i18n';
 
 export class AuthService {
   private jwtSecret: string;
   private databaseService: DatabaseService;
+  private sessionService: SessionService;
   private users: Map<string, User> = new Map(); // Fallback for test users
 
-  constructor(jwtSecret: string, databaseService: DatabaseService) {
+  constructor(jwtSecret: string, databaseService: DatabaseService, sessionService: SessionService) {
     this.jwtSecret = jwtSecret;
     this.databaseService = databaseService;
+    this.sessionService = sessionService;
     this.initializeDefaultUsers();
   }
 
@@ -112,7 +117,7 @@ export class AuthService {
     console.log('===========================');
   }
 
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
+  async login(credentials: LoginRequest, metadata: SessionMetadata = {}, locale: Locale = DEFAULT_LOCALE): Promise<AuthResponse> {
     try {
       console.log('Login attempt for:', credentials.email);
       this.listAllUsers(); // Debug: show all available users
@@ -147,7 +152,10 @@ export class AuthService {
             isActive: isActive,
             createdAt: dbUser.createdAt || new Date().toISOString(),
             updatedAt: dbUser.updatedAt || new Date().toISOString(),
-            lastLoginAt: dbUser.lastLoginAt
+            lastLoginAt: dbUser.lastLoginAt,
+            suspendedUntil: dbUser.suspendedUntil || undefined,
+            suspensionReason: dbUser.suspensionReason || undefined,
+            locale: isSupportedLocale(dbUser.locale) ? dbUser.locale : undefined
           };
 
           console.log('✅ User loaded from database:', {
@@ -177,7 +185,7 @@ export class AuthService {
         console.log('No user found for email:', credentials.email);
         return {
           success: false,
-          message: 'Invalid email or password'
+          message: translate(locale, 'auth.invalidCredentials')
         };
       }
 
@@ -187,7 +195,20 @@ export class AuthService {
         console.log('User account is deactivated:', user.email);
         return {
           success: false,
-          message: 'Account is deactivated'
+          message: translate(locale, 'auth.accountDeactivated')
+        };
+      }
+
+      if (this.isSuspended(user)) {
+        console.log('User account is suspended:', user.email, 'until', user.suspendedUntil);
+        return {
+          success: false,
+          message: user.suspensionReason
+            ? translate(locale, 'auth.accountSuspendedWithReason', {
+                until: formatDateTime(locale, user.suspendedUntil!),
+                reason: user.suspensionReason
+              })
+            : translate(locale, 'auth.accountSuspended', { until: formatDateTime(locale, user.suspendedUntil!) })
         };
       }
 
@@ -206,7 +227,7 @@ export class AuthService {
         console.log('Password verification failed for user:', user.email);
         return {
           success: false,
-          message: 'Invalid email or password'
+          message: translate(locale, 'auth.invalidCredentials')
         };
       }
 
@@ -246,39 +267,30 @@ export class AuthService {
           success: false,
           requiresEmailVerification: true,
           email: user.email,
-          message: 'Please verify your email address before logging in. Check your inbox for a verification link.'
+          message: translate(locale, 'auth.verifyEmailFirst')
         };
       }
 
-      // Generate JWT token with longer expiration
-      const payload: JWTPayload = {
-        sub: user.id,
-        email: user.email,
-        role: user.role,
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60), // 7 days
-      };
-
-      const token = await sign(payload, this.jwtSecret);
+      const tokens = await this.issueTokens(user, metadata);
 
       console.log('Login successful for user:', user.email, 'Test user:', isTestUser, 'Admin:', isAdmin);
 
       return {
         success: true,
-        token,
+        ...tokens,
         user: this.toUserProfile(user),
-        message: 'Login successful'
+        message: translate(locale, 'auth.loginSuccessful')
       };
     } catch (error) {
       console.error('Login error:', error);
       return {
         success: false,
-        message: 'An error occurred during login'
+        message: translate(locale, 'auth.loginFailed')
       };
     }
   }
 
-  async register(userData: RegisterRequest): Promise<AuthResponse> {
+  async register(userData: RegisterRequest, locale: Locale = DEFAULT_LOCALE): Promise<AuthResponse> {
     try {
       // Check if user already exists in database first
       try {
@@ -286,7 +298,7 @@ export class AuthService {
         if (existingDbUser) {
           return {
             success: false,
-            message: 'User with this email already exists'
+            message: translate(locale, 'auth.userExists')
           };
         }
       } catch (dbError) {
@@ -298,7 +310,7 @@ export class AuthService {
       if (existingUser) {
         return {
           success: false,
-          message: 'User with this email already exists'
+          message: translate(locale, 'auth.userExists')
         };
       }
 
@@ -317,6 +329,7 @@ export class AuthService {
         isActive: true,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        locale,
       };
 
       // Save user to database
@@ -327,7 +340,8 @@ export class AuthService {
           password_hash: hashedPassword,
           role: 'user',
           first_name: userData.firstName,
-          last_name: userData.lastName
+          last_name: userData.lastName,
+          locale
         });
         console.log('✅ User saved to database:', userId);
       } catch (dbError) {
@@ -358,24 +372,16 @@ export class AuthService {
           console.log('⚠️ Could not update verification status in database:', dbError);
         }
 
-        // Generate JWT token and log them in
-        const payload: JWTPayload = {
-          sub: newUser.id,
-          email: newUser.email,
-          role: newUser.role,
-          iat: Math.floor(Date.now() / 1000),
-          exp: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60), // 7 days
-        };
-
-        const token = await sign(payload, this.jwtSecret);
+        // Issue tokens and log them in
+        const tokens = await this.issueTokens(newUser);
 
         console.log('✅ Test user registered and logged in automatically:', userData.email);
 
         return {
           success: true,
-          token,
+          ...tokens,
           user: this.toUserProfile(newUser),
-          message: 'Registration successful - logged in automatically (test user)'
+          message: translate(locale, 'auth.registeredTestUser')
         };
       } else {
         // For regular users, require email verification
@@ -385,14 +391,14 @@ export class AuthService {
           success: true,
           requiresEmailVerification: true,
           email: userData.email,
-          message: 'Registration successful! Please check your email to verify your account before logging in.'
+          message: translate(locale, 'auth.registered')
         };
       }
     } catch (error) {
       console.error('Registration error:', error);
       return {
         success: false,
-        message: 'An error occurred during registration'
+        message: translate(locale, 'auth.registrationFailed')
       };
     }
   }
@@ -427,7 +433,11 @@ export class AuthService {
               isActive: Boolean(dbUser.isActive),
               emailVerified: Boolean(dbUser.emailVerified),
               createdAt: dbUser.createdAt,
-              updatedAt: dbUser.updatedAt
+              updatedAt: dbUser.updatedAt,
+              suspendedUntil: dbUser.suspendedUntil || undefined,
+              suspensionReason: dbUser.suspensionReason || undefined,
+              sessionsRevokedAt: dbUser.sessionsRevokedAt || undefined,
+              locale: isSupportedLocale(dbUser.locale) ? dbUser.locale : undefined
             };
 
             // Store in memory for future requests
@@ -449,6 +459,21 @@ export class AuthService {
         return null;
       }
 
+      if (this.isSuspended(user)) {
+        console.log('User is suspended:', { userId: payload.sub, suspendedUntil: user.suspendedUntil });
+        return null;
+      }
+
+      if (user.sessionsRevokedAt && payload.iat < Math.floor(new Date(user.sessionsRevokedAt).getTime() / 1000)) {
+        console.log('Token issued before session revocation:', { userId: payload.sub, revokedAt: user.sessionsRevokedAt });
+        return null;
+      }
+
+      if (await this.sessionService.isAccessTokenDenied(payload)) {
+        console.log('Token is on the denylist:', { userId: payload.sub, sessionId: payload.sid });
+        return null;
+      }
+
       console.log('Token verified successfully:', { userId: payload.sub, email: payload.email });
       return payload;
     } catch (error) {
@@ -457,51 +482,75 @@ export class AuthService {
     }
   }
 
-  async refreshToken(oldToken: string): Promise<AuthResponse> {
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * Reusing a rotated refresh token signs out every session from that login.
+   */
+  async refreshToken(refreshToken: string, metadata: SessionMetadata = {}, locale: Locale = DEFAULT_LOCALE): Promise<AuthResponse> {
     try {
-      const payload = await this.verifyToken(oldToken);
+      const rotation = await this.sessionService.rotate(refreshToken, metadata);
 
-      if (!payload) {
+      if (rotation.status === 'reused') {
         return {
           success: false,
-          message: 'Invalid or expired token'
+          message: translate(locale, 'auth.refreshTokenReused')
         };
       }
 
-      const user = this.users.get(payload.sub);
-      if (!user || !user.isActive) {
+      if (rotation.status === 'invalid') {
         return {
           success: false,
-          message: 'User not found or inactive'
+          message: translate(locale, 'auth.refreshTokenInvalid')
         };
       }
 
-      // Generate new JWT token
-      const newPayload: JWTPayload = {
-        sub: user.id,
-        email: user.email,
-        role: user.role,
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60), // 7 days
-      };
-
-      const newToken = await sign(newPayload, this.jwtSecret);
+      const profile = await this.getUserById(rotation.userId);
+      const user = profile ? this.users.get(rotation.userId) : undefined;
+      if (!user || !user.isActive || this.isSuspended(user)) {
+        await this.sessionService.revokeFamily(rotation.sessionId);
+        return {
+          success: false,
+          message: translate(locale, 'auth.userInactive')
+        };
+      }
 
       return {
         success: true,
-        token: newToken,
+        token: await this.signAccessToken(user, rotation.sessionId),
+        refreshToken: rotation.refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
         user: this.toUserProfile(user),
-        message: 'Token refreshed successfully'
+        message: translate(locale, 'auth.tokenRefreshed')
       };
     } catch (error) {
       console.error('Token refresh error:', error);
       return {
         success: false,
-        message: 'Token refresh failed'
+        message: translate(locale, 'auth.tokenRefreshFailed')
       };
     }
   }
 
+  /**
+   * Sign out the login a refresh token or access-token session belongs to
+   */
+  async logout(refreshToken?: string, sessionId?: string): Promise<void> {
+    if (refreshToken) {
+      const familyId = await this.sessionService.revokeByRefreshToken(refreshToken);
+      if (familyId) {
+        return;
+      }
+    }
+
+    if (sessionId) {
+      await this.sessionService.revokeFamily(sessionId);
+    }
+  }
+
+  async logoutEverywhere(userId: string): Promise<void> {
+    await this.sessionService.revokeAllForUser(userId);
+  }
+
   async getUserById(userId: string): Promise<UserProfile | null> {
     // First check in-memory users (test users)
     const memoryUser = this.users.get(userId);
@@ -524,7 +573,11 @@ export class AuthService {
           isActive: Boolean(dbUser.isActive),
           emailVerified: Boolean(dbUser.emailVerified),
           createdAt: dbUser.createdAt,
-          updatedAt: dbUser.updatedAt
+          updatedAt: dbUser.updatedAt,
+          suspendedUntil: dbUser.suspendedUntil || undefined,
+          suspensionReason: dbUser.suspensionReason || undefined,
+          sessionsRevokedAt: dbUser.sessionsRevokedAt || undefined,
+          locale: isSupportedLocale(dbUser.locale) ? dbUser.locale : undefined
         };
 
         // Store in memory for future requests
@@ -551,31 +604,101 @@ export class AuthService {
   }
 
   async updateUserRole(userId: string, newRole: UserRole): Promise<boolean> {
+    const updated = await this.databaseService.updateUserRole(userId, newRole);
+
+    // Test users only exist in memory
     const user = this.users.get(userId);
-    if (!user) {
-      return false;
+    if (user) {
+      user.role = newRole;
+      user.updatedAt = new Date().toISOString();
     }
 
-    user.role = newRole;
-    user.updatedAt = new Date().toISOString();
-    return true;
+    // Access tokens carry the old role; the next refresh issues one with the new role
+    if (updated) {
+      await this.sessionService.denyAccessTokens(userId);
+    }
+
+    return updated || !!user;
   }
 
-  async deactivateUser(userId: string): Promise<boolean> {
+  async updateUserLocale(userId: string, locale: Locale): Promise<boolean> {
+    const updated = await this.databaseService.updateUserLocale(userId, locale);
+
     const user = this.users.get(userId);
-    if (!user) {
-      return false;
+    if (user) {
+      user.locale = locale;
     }
 
-    user.isActive = false;
-    user.updatedAt = new Date().toISOString();
-    return true;
+    return updated || !!user;
+  }
+
+  /**
+   * Activate, deactivate or suspend a user. Deactivated and suspended users
+   * are signed out of every session.
+   */
+  async updateUserStatus(userId: string, status: UpdateUserStatusRequest): Promise<UserProfile | null> {
+    const existing = await this.getUserById(userId);
+    if (!existing) {
+      return null;
+    }
+
+    const isActive = status.isActive ?? existing.isActive;
+    const suspendedUntil = status.suspendedUntil === undefined
+      ? existing.suspendedUntil || null
+      : status.suspendedUntil;
+    const suspensionReason = suspendedUntil ? (status.reason ?? existing.suspensionReason ?? null) : null;
+
+    await this.databaseService.updateUserStatus(userId, { isActive, suspendedUntil, suspensionReason });
+
+    const user = this.users.get(userId);
+    if (user) {
+      user.isActive = isActive;
+      user.suspendedUntil = suspendedUntil || undefined;
+      user.suspensionReason = suspensionReason || undefined;
+      user.updatedAt = new Date().toISOString();
+    }
+
+    if (!isActive || this.isSuspended({ suspendedUntil: suspendedUntil || undefined })) {
+      await this.sessionService.revokeAllForUser(userId);
+    }
+
+    return this.getUserById(userId);
+  }
+
+  async deactivateUser(userId: string): Promise<boolean> {
+    return (await this.updateUserStatus(userId, { isActive: false })) !== null;
   }
 
   async getAllUsers(): Promise<UserProfile[]> {
     return Array.from(this.users.values()).map(user => this.toUserProfile(user));
   }
 
+  private async issueTokens(user: User, metadata: SessionMetadata = {}): Promise<Pick<AuthResponse, 'token' | 'refreshToken' | 'expiresIn'>> {
+    const session = await this.sessionService.createSession(user.id, metadata);
+    return {
+      token: await this.signAccessToken(user, session.sessionId),
+      refreshToken: session.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
+    };
+  }
+
+  private async signAccessToken(user: User, sessionId: string): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: JWTPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL_SECONDS,
+    };
+    return sign(payload, this.jwtSecret);
+  }
+
+  private isSuspended(user: Pick<User, 'suspendedUntil'>): boolean {
+    return !!user.suspendedUntil && new Date(user.suspendedUntil).getTime() > Date.now();
+  }
+
   /**
    * Check if a user is a test user (should bypass email verification)
    */
@@ -614,6 +737,9 @@ export class AuthService {
       isActive: user.isActive,
       createdAt: user.createdAt,
       lastLoginAt: user.lastLoginAt,
+      suspendedUntil: user.suspendedUntil,
+      suspensionReason: user.suspensionReason,
+      locale: user.locale,
     };
   }
 }
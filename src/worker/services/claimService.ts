@@ -0,0 +1,492 @@
+import {
+  AdminListingClaim,
+  CLAIM_METHODS,
+  CLAIM_STATUSES,
+  ClaimDecision,
+  ClaimDecisionRequest,
+  ClaimMethod,
+  ClaimRequest,
+  ClaimStatus,
+  ListingClaim
+} from '../types/claims';
+import { DatabaseListing } from './databaseService';
+import { EmailService } from './emailService';
+import { DEFAULT_LOCALE, isSupportedLocale, translate } from '../i18n';
+import { displayName, isRecord } from './utils';
+
+export const MAX_CLAIM_MESSAGE_LENGTH = 1000;
+export const MAX_CLAIM_REVIEW_NOTE_LENGTH = 1000;
+export const CLAIM_CODE_TTL_HOURS = 24;
+// Wrong codes allowed before the claim has to be started over
+export const MAX_CLAIM_CODE_ATTEMPTS = 5;
+export const CLAIMS_PER_DAY = 5;
+// How long the website check waits for the page, and how much of it is searched
+const WEBSITE_FETCH_TIMEOUT_MS = 10000;
+const WEBSITE_MAX_LENGTH = 512 * 1024;
+
+export type ClaimVerificationResult =
+  | 'verified'
+  | 'invalid_code'
+  | 'code_expired'
+  | 'too_many_attempts'
+  | 'website_unreachable'
+  | 'website_code_missing'
+  | 'not_pending'; // Decided by a concurrent request in the meantime
+
+interface DatabaseListingClaim {
+  id: string;
+  listing_id: string;
+  listing_title: string;
+  listing_contact_email: string | null;
+  listing_contact_website: string | null;
+  user_id: string;
+  method: ClaimMethod;
+  status: ClaimStatus;
+  message: string | null;
+  code_hash: string | null;
+  code_expires_at: string | null;
+  attempts: number;
+  website_code: string | null;
+  document_url: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DatabaseAdminListingClaim extends DatabaseListingClaim {
+  claimant_email: string;
+  claimant_first_name: string | null;
+  claimant_last_name: string | null;
+  claimant_email_verified: number;
+  owner_id: string | null;
+  owner_email: string | null;
+}
+
+const CLAIM_COLUMNS = `
+  c.*, l.title AS listing_title,
+  l.contact_email AS listing_contact_email, l.contact_website AS listing_contact_website
+`;
+
+export function isClaimMethod(value: unknown): value is ClaimMethod {
+  return typeof value === 'string' && (CLAIM_METHODS as readonly string[]).includes(value);
+}
+
+export function isClaimStatus(value: unknown): value is ClaimStatus {
+  return typeof value === 'string' && (CLAIM_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * A new claim from the request body. Documents must be files the claimant uploaded
+ * through our storage, i.e. URLs under `fileUrlPrefix`. Returns null when malformed.
+ */
+export function parseClaimRequest(body: unknown, fileUrlPrefix: string): ClaimRequest | null {
+  if (!isRecord(body) || !isClaimMethod(body.method)) {
+    return null;
+  }
+
+  const { method, documentUrl, message } = body;
+  const claim: ClaimRequest = { method };
+
+  if (message !== undefined && message !== null) {
+    if (typeof message !== 'string' || message.trim().length > MAX_CLAIM_MESSAGE_LENGTH) {
+      return null;
+    }
+    claim.message = message.trim() || undefined;
+  }
+
+  if (method === 'document') {
+    if (typeof documentUrl !== 'string' || !documentUrl.startsWith(fileUrlPrefix) ||
+        documentUrl.length <= fileUrlPrefix.length) {
+      return null;
+    }
+    claim.documentUrl = documentUrl;
+  }
+
+  return claim;
+}
+
+export function parseClaimDecision(body: unknown): ClaimDecisionRequest | null {
+  if (!isRecord(body) || (body.action !== 'approve' && body.action !== 'reject')) {
+    return null;
+  }
+
+  const { note } = body;
+  if (note !== undefined && note !== null &&
+      (typeof note !== 'string' || note.trim().length > MAX_CLAIM_REVIEW_NOTE_LENGTH)) {
+    return null;
+  }
+
+  const trimmed = typeof note === 'string' ? note.trim() : '';
+  // Rejected claimants are always told why
+  if (body.action === 'reject' && !trimmed) {
+    return null;
+  }
+  return { action: body.action, note: trimmed || undefined };
+}
+
+/**
+ * The listing's website as a fetchable URL. Owners often enter "www.example.com"
+ * without a scheme.
+ */
+export function getClaimWebsiteUrl(website: string | null | undefined): string | null {
+  const value = website?.trim();
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// "anna@example.com" becomes "a***@example.com"
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return domain ? `${local.charAt(0)}***@${domain}` : '***';
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateEmailCode(): string {
+  const array = new Uint32Array(1);
+  crypto.getRandomValues(array);
+  return (array[0] % 1000000).toString().padStart(6, '0');
+}
+
+function generateWebsiteCode(): string {
+  const array = new Uint8Array(12);
+  crypto.getRandomValues(array);
+  return `kisigua-verification-${Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export class ClaimService {
+  private db: D1Database;
+  private emailService: EmailService;
+  private appUrl: string;
+
+  constructor(db: D1Database, emailService: EmailService, appUrl: string = 'https://kisigua.com') {
+    this.db = db;
+    this.emailService = emailService;
+    this.appUrl = appUrl;
+  }
+
+  async getClaim(id: string): Promise<ListingClaim | null> {
+    const row = await this.getClaimRow(id);
+    return row ? this.convertClaim(row) : null;
+  }
+
+  /**
+   * A user's claims, newest first
+   */
+  async getUserClaims(userId: string): Promise<ListingClaim[]> {
+    const result = await this.db.prepare(`
+      SELECT ${CLAIM_COLUMNS}
+      FROM listing_claims c
+      JOIN listings l ON l.id = c.listing_id
+      WHERE c.user_id = ?
+      ORDER BY c.created_at DESC
+    `).bind(userId).all();
+
+    return (result.results as unknown as DatabaseListingClaim[]).map(row => this.convertClaim(row));
+  }
+
+  async hasPendingClaim(listingId: string, userId: string): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM listing_claims WHERE listing_id = ? AND user_id = ? AND status = 'pending'
+    `).bind(listingId, userId).first();
+
+    return !!row;
+  }
+
+  async countRecentClaims(userId: string): Promise<number> {
+    const row = await this.db.prepare(`
+      SELECT COUNT(*) AS count FROM listing_claims
+      WHERE user_id = ? AND created_at > datetime('now', '-1 day')
+    `).bind(userId).first();
+
+    return (row?.count as number) || 0;
+  }
+
+  /**
+   * Open a claim. The email method sends its code to the listing's contact address
+   * right away; returns null when that email can't be sent.
+   */
+  async createClaim(listing: DatabaseListing, claimant: { id: string; firstName: string; lastName: string }, request: ClaimRequest): Promise<ListingClaim | null> {
+    const id = crypto.randomUUID();
+    let code: string | null = null;
+    let codeExpiresAt: string | null = null;
+
+    if (request.method === 'email') {
+      code = generateEmailCode();
+      codeExpiresAt = new Date(Date.now() + CLAIM_CODE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+    }
+
+    await this.db.prepare(`
+      INSERT INTO listing_claims (id, listing_id, user_id, method, message, code_hash, code_expires_at, website_code, document_url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id,
+      listing.id,
+      claimant.id,
+      request.method,
+      request.message || null,
+      code ? await sha256Hex(`${id}:${code}`) : null,
+      codeExpiresAt,
+      request.method === 'website' ? generateWebsiteCode() : null,
+      request.documentUrl || null
+    ).run();
+
+    if (code && listing.contact_email) {
+      // The contact address belongs to the business, not to an account, so its language is unknown
+      const locale = isSupportedLocale(listing.primary_locale) ? listing.primary_locale : DEFAULT_LOCALE;
+      const sent = await this.emailService.sendListingClaimCodeEmail(
+        listing.contact_email,
+        displayName(claimant.firstName, claimant.lastName) || translate(locale, 'email.defaultName'),
+        listing.title,
+        code,
+        locale
+      );
+      if (!sent.success) {
+        await this.db.prepare('DELETE FROM listing_claims WHERE id = ?').bind(id).run();
+        return null;
+      }
+    }
+
+    return this.getClaim(id);
+  }
+
+  /**
+   * Check the claimant's proof for the email and website methods and transfer the
+   * listing when it holds
+   */
+  async verifyClaim(claimId: string, code?: string): Promise<ClaimVerificationResult> {
+    const row = await this.getClaimRow(claimId);
+    if (!row || row.status !== 'pending') {
+      throw new Error('Claim is not pending');
+    }
+
+    if (row.method === 'email') {
+      if (!row.code_expires_at || Date.parse(row.code_expires_at) < Date.now()) {
+        return 'code_expired';
+      }
+      // Take the attempt before comparing, so parallel requests can't all pass the limit
+      const attempt = await this.db.prepare(`
+        UPDATE listing_claims SET attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'pending' AND attempts < ?
+        RETURNING attempts
+      `).bind(row.id, MAX_CLAIM_CODE_ATTEMPTS).first<{ attempts: number }>();
+      if (!attempt) {
+        const current = await this.getClaimRow(row.id);
+        return current?.status === 'pending' ? 'too_many_attempts' : 'not_pending';
+      }
+      if (!code || (await sha256Hex(`${row.id}:${code.trim()}`)) !== row.code_hash) {
+        return attempt.attempts >= MAX_CLAIM_CODE_ATTEMPTS ? 'too_many_attempts' : 'invalid_code';
+      }
+    } else if (row.method === 'website') {
+      const url = getClaimWebsiteUrl(row.listing_contact_website);
+      if (!url || !row.website_code) {
+        return 'website_unreachable';
+      }
+      const page = await this.fetchWebsite(url);
+      if (page === null) {
+        return 'website_unreachable';
+      }
+      if (!page.includes(row.website_code)) {
+        return 'website_code_missing';
+      }
+    } else {
+      throw new Error('Documents are reviewed by an admin');
+    }
+
+    return (await this.transferOwnership(row, null, null)) ? 'verified' : 'not_pending';
+  }
+
+  /**
+   * Withdraw a pending claim
+   */
+  async cancelClaim(claimId: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE listing_claims SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND user_id = ? AND status = 'pending'
+    `).bind(claimId, userId).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Claims for the admin review queue, oldest first
+   */
+  async getAdminClaims(status: ClaimStatus = 'pending', page: number = 1, limit: number = 20): Promise<{
+    claims: AdminListingClaim[];
+    total: number;
+  }> {
+    const offset = (page - 1) * limit;
+
+    const [rows, count] = await Promise.all([
+      this.db.prepare(`
+        SELECT ${CLAIM_COLUMNS},
+          u.email AS claimant_email, u.first_name AS claimant_first_name, u.last_name AS claimant_last_name,
+          u.email_verified AS claimant_email_verified,
+          o.id AS owner_id, o.email AS owner_email
+        FROM listing_claims c
+        JOIN listings l ON l.id = c.listing_id
+        JOIN users u ON u.id = c.user_id
+        LEFT JOIN users o ON o.id = l.user_id
+        WHERE c.status = ?
+        ORDER BY c.created_at ASC
+        LIMIT ? OFFSET ?
+      `).bind(status, limit, offset).all(),
+      this.db.prepare('SELECT COUNT(*) AS total FROM listing_claims WHERE status = ?').bind(status).first()
+    ]);
+
+    const claims = (rows.results as unknown as DatabaseAdminListingClaim[]).map(row => ({
+      ...this.convertClaim(row),
+      // Admins see the full proof
+      contactEmail: row.listing_contact_email || undefined,
+      claimant: {
+        id: row.user_id,
+        email: row.claimant_email,
+        firstName: row.claimant_first_name || '',
+        lastName: row.claimant_last_name || '',
+        emailVerified: Boolean(row.claimant_email_verified),
+      },
+      owner: row.owner_id ? { id: row.owner_id, email: row.owner_email || '' } : null,
+    }));
+
+    return { claims, total: (count?.total as number) || 0 };
+  }
+
+  /**
+   * Apply an admin decision on a pending claim and notify the claimant. Null when the
+   * claim doesn't exist or was already decided.
+   */
+  async decide(claimId: string, adminId: string, action: ClaimDecision, note?: string): Promise<ListingClaim | null> {
+    const row = await this.getClaimRow(claimId);
+    if (!row || row.status !== 'pending') {
+      return null;
+    }
+
+    if (action === 'approve') {
+      if (!(await this.transferOwnership(row, adminId, note || null))) {
+        return null;
+      }
+    } else {
+      const result = await this.db.prepare(`
+        UPDATE listing_claims
+        SET status = 'rejected', reviewed_by = ?, review_note = ?, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'pending'
+      `).bind(adminId, note || null, claimId).run();
+      if (result.meta.changes === 0) {
+        return null;
+      }
+    }
+
+    const claimant = await this.db.prepare(`
+      SELECT email, first_name, locale FROM users WHERE id = ?
+    `).bind(row.user_id).first();
+    if (claimant?.email) {
+      const locale = isSupportedLocale(claimant.locale) ? claimant.locale : DEFAULT_LOCALE;
+      await this.emailService.sendListingClaimDecisionEmail(
+        claimant.email as string,
+        (claimant.first_name as string) || translate(locale, 'email.defaultName'),
+        row.listing_title,
+        action === 'approve',
+        note || null,
+        `${this.appUrl}/my-listings`,
+        locale
+      );
+    }
+
+    return this.getClaim(claimId);
+  }
+
+  /**
+   * Hand the listing to the claimant and mark it verified. Other open claims on the
+   * listing are closed, since only one of them can be the owner. False when the claim
+   * was no longer pending, e.g. another claim on the listing won a concurrent request.
+   */
+  private async transferOwnership(row: DatabaseListingClaim, reviewerId: string | null, note: string | null): Promise<boolean> {
+    // The batch runs as one transaction. A claim closed by a winning claim on the same listing
+    // is rejected, so the listing only moves while this claim is the approved one.
+    const [approval] = await this.db.batch([
+      this.db.prepare(`
+        UPDATE listing_claims
+        SET status = 'approved', previous_owner_id = (SELECT user_id FROM listings WHERE id = ?),
+          reviewed_by = ?, review_note = ?, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'pending'
+      `).bind(row.listing_id, reviewerId, note, row.id),
+      this.db.prepare(`
+        UPDATE listings
+        SET user_id = ?, is_verified = true, verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND EXISTS (SELECT 1 FROM listing_claims WHERE id = ? AND status = 'approved')
+      `).bind(row.user_id, row.listing_id, row.id),
+      this.db.prepare(`
+        UPDATE listing_claims
+        SET status = 'rejected', reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE listing_id = ? AND status = 'pending' AND id != ?
+          AND EXISTS (SELECT 1 FROM listing_claims WHERE id = ? AND status = 'approved')
+      `).bind(row.listing_id, row.id, row.id),
+    ]);
+
+    return approval.meta.changes > 0;
+  }
+
+  /**
+   * The page's text, or null when it can't be loaded
+   */
+  private async fetchWebsite(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': `KisiguaBot/1.0 (+${this.appUrl})` },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(WEBSITE_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return null;
+      }
+      return (await response.text()).slice(0, WEBSITE_MAX_LENGTH);
+    } catch (error) {
+      console.error('Error fetching website for claim:', error);
+      return null;
+    }
+  }
+
+  private async getClaimRow(id: string): Promise<DatabaseListingClaim | null> {
+    const row = await this.db.prepare(`
+      SELECT ${CLAIM_COLUMNS}
+      FROM listing_claims c
+      JOIN listings l ON l.id = c.listing_id
+      WHERE c.id = ?
+    `).bind(id).first();
+
+    return (row as unknown as DatabaseListingClaim) || null;
+  }
+
+  private convertClaim(row: DatabaseListingClaim): ListingClaim {
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      listingTitle: row.listing_title,
+      userId: row.user_id,
+      method: row.method,
+      status: row.status,
+      message: row.message || undefined,
+      contactEmail: row.method === 'email' && row.listing_contact_email ? maskEmail(row.listing_contact_email) : undefined,
+      websiteUrl: row.method === 'website' ? getClaimWebsiteUrl(row.listing_contact_website) || undefined : undefined,
+      websiteCode: row.website_code || undefined,
+      documentUrl: row.document_url || undefined,
+      codeExpiresAt: row.code_expires_at || undefined,
+      reviewNote: row.review_note || undefined,
+      reviewedAt: row.reviewed_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -1,12 +1,15 @@
 import { User, UserRole } from '../types/auth';
-import { Listing, CreateListingRequest, UpdateListingRequest, SearchQuery, SearchResult } from '../types/listings';
+import { Listing, ListingTranslation, ListingTranslations, CreateListingRequest, UpdateListingRequest, SearchQuery, SearchResult, WaterSourceDetails, WaterStatus } from '../types/listings';
 import { UserSubscription } from '../types/subscription';
+import { Locale, isSupportedLocale, localeFallbackChain } from '../i18n';
+import { getOpeningStatus, isOpenAt, parseStoredOpeningHours } from './openingHours';
+import { htmlToPlainText, sanitizeHtml, storedDescriptionHtml } from './htmlSanitizer';
 
 export interface DatabaseUser extends Omit<User, 'password'> {
   password_hash: string;
 }
 
-export interface DatabaseListing extends Omit<Listing, 'location' | 'contactInfo' | 'operatingHours'> {
+export interface DatabaseListing extends Omit<Listing, 'location' | 'contactInfo' | 'operatingHours' | 'openingStatus' | 'primaryLocale' | 'locale' | 'translations' | 'averageRating' | 'reviewCount' | 'waterSource' | 'waterStatus' | 'isVerified'> {
   latitude: number;
   longitude: number;
   address: string;
@@ -25,11 +28,60 @@ export interface DatabaseListing extends Omit<Listing, 'location' | 'contactInfo
   certification_details?: string;
   price_range?: string;
   hide_address: boolean;
+  hide_contact_info: boolean;
+  moderation_reason?: string;
+  primary_locale?: string | null;
+  rating_average?: number | null;
+  rating_count?: number;
+  water_potable?: boolean | null;
+  water_season_from?: string | null;
+  water_season_to?: string | null;
+  water_last_tested_at?: string | null;
+  water_certificate_url?: string | null;
+  water_status?: WaterStatus | null;
+  water_status_at?: string | null;
+  water_status_reports?: number;
+  is_verified?: boolean;
+  description_text?: string | null; // Plain text of the description, NULL until it has been sanitized
   user_id: string;
   created_at: string;
   updated_at: string;
 }
 
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.045;
+
+// Private-use characters that stand in for <mark> tags while FTS highlights are escaped
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+
+// Highlights are cut from user text, so escape it before the sentinels become <mark> tags
+function toHighlightHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+}
+
+/**
+ * The worker i18n error key for the first search filter searchListings would reject,
+ * or null when the filters are valid
+ */
+export function findInvalidSearchFilter(filters?: SearchQuery['filters']): 'invalidOpenAt' | 'invalidMinRating' | null {
+  if (filters?.openAt && isNaN(new Date(filters.openAt).getTime())) {
+    return 'invalidOpenAt';
+  }
+  if (filters?.minRating !== undefined &&
+      (typeof filters.minRating !== 'number' || filters.minRating < 1 || filters.minRating > 5)) {
+    return 'invalidMinRating';
+  }
+  return null;
+}
+
 export class DatabaseService {
   private db: D1Database;
 
@@ -155,10 +207,11 @@ export class DatabaseService {
     role: UserRole;
     first_name: string;
     last_name: string;
+    locale?: Locale;
   }): Promise<DatabaseUser> {
     const stmt = this.db.prepare(`
-      INSERT INTO users (id, email, password_hash, role, first_name, last_name)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO users (id, email, password_hash, role, first_name, last_name, locale)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     
     await stmt.bind(
@@ -167,7 +220,8 @@ export class DatabaseService {
       userData.password_hash,
       userData.role,
       userData.first_name,
-      userData.last_name
+      userData.last_name,
+      userData.locale || null
     ).run();
 
     return this.getUserById(userData.id) as Promise<DatabaseUser>;
@@ -187,7 +241,11 @@ export class DatabaseService {
         profile_image_url as profileImageUrl,
         created_at as createdAt,
         updated_at as updatedAt,
-        last_login_at as lastLoginAt
+        last_login_at as lastLoginAt,
+        suspended_until as suspendedUntil,
+        suspension_reason as suspensionReason,
+        sessions_revoked_at as sessionsRevokedAt,
+        locale
       FROM users
       WHERE id = ?
     `);
@@ -210,7 +268,11 @@ export class DatabaseService {
         profile_image_url as profileImageUrl,
         created_at as createdAt,
         updated_at as updatedAt,
-        last_login_at as lastLoginAt
+        last_login_at as lastLoginAt,
+        suspended_until as suspendedUntil,
+        suspension_reason as suspensionReason,
+        sessions_revoked_at as sessionsRevokedAt,
+        locale
       FROM users
       WHERE email = ?
     `);
@@ -252,12 +314,19 @@ export class DatabaseService {
         profile_image_url as profileImageUrl,
         created_at as createdAt,
         updated_at as updatedAt,
-        last_login_at as lastLoginAt
+        last_login_at as lastLoginAt,
+        suspended_until as suspendedUntil,
+        suspension_reason as suspensionReason,
+        sessions_revoked_at as sessionsRevokedAt,
+        locale
       FROM users
       ORDER BY created_at DESC
     `);
     const result = await stmt.all();
-    const users = result.results as unknown as DatabaseUser[];
+    const users = (result.results as unknown as DatabaseUser[]).map(user => ({
+      ...user,
+      isActive: Boolean(user.isActive)
+    }));
 
     console.log(`✅ getAllUsers found ${users.length} users:`, users.map(u => ({
       id: u.id,
@@ -271,6 +340,40 @@ export class DatabaseService {
     return users;
   }
 
+  async updateUserRole(userId: string, role: UserRole): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(role, userId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  async updateUserStatus(userId: string, status: {
+    isActive: boolean;
+    suspendedUntil: string | null;
+    suspensionReason: string | null;
+  }): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE users
+      SET is_active = ?, suspended_until = ?, suspension_reason = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(status.isActive ? 1 : 0, status.suspendedUntil, status.suspensionReason, userId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  async updateUserLocale(userId: string, locale: Locale): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE users SET locale = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(locale, userId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM users WHERE id = ?').bind(userId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
   async updateLastLogin(userId: string): Promise<void> {
     const stmt = this.db.prepare(`
       UPDATE users SET last_login_at = CURRENT_TIMESTAMP 
@@ -286,13 +389,18 @@ export class DatabaseService {
       ? listingData.category
       : `cat_${listingData.category}`;
 
+    // Title and description on the listing are in its primary language
+    const primaryLocale = listingData.primaryLocale || null;
+    const primaryText = primaryLocale ? listingData.translations?.[primaryLocale] : undefined;
+
     const stmt = this.db.prepare(`
       INSERT INTO listings (
-        id, user_id, title, description, category, status, latitude, longitude,
+        id, user_id, title, description, description_text, category, status, latitude, longitude,
         address, street, house_number, city, region, country, postal_code,
         contact_email, contact_phone, contact_website, is_organic, is_certified,
-        certification_details, price_range, operating_hours, hide_address
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        certification_details, price_range, operating_hours, hide_address, hide_contact_info, primary_locale,
+        water_potable, water_season_from, water_season_to, water_last_tested_at, water_certificate_url
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     // Extract street and house number from location data
@@ -302,8 +410,8 @@ export class DatabaseService {
     await stmt.bind(
       listingData.id,
       listingData.user_id,
-      listingData.title,
-      listingData.description,
+      primaryText?.title ?? listingData.title,
+      ...this.descriptionColumns(primaryText?.description ?? listingData.description),
       dbCategory,
       (listingData as any).status || 'active', // Default to active if not specified
       listingData.location.latitude,
@@ -323,9 +431,16 @@ export class DatabaseService {
       listingData.certificationDetails || null,
       listingData.priceRange || null,
       listingData.operatingHours ? JSON.stringify(listingData.operatingHours) : null,
-      listingData.hideAddress || false
+      listingData.hideAddress || false,
+      listingData.hideContactInfo || false,
+      primaryLocale,
+      ...this.waterSourceColumns(listingData.waterSource)
     ).run();
 
+    if (listingData.translations) {
+      await this.replaceListingTranslations(listingData.id, listingData.translations, primaryLocale);
+    }
+
     // Add tags if provided
     if (listingData.tags && listingData.tags.length > 0) {
       await this.addListingTags(listingData.id, listingData.tags);
@@ -345,12 +460,17 @@ export class DatabaseService {
     return result as DatabaseListing | null;
   }
 
-  async getFullListingById(listingId: string, userRole: string = 'public'): Promise<Listing | null> {
+  /**
+   * Listing in API format. With a locale, title and description are the best
+   * available translation for it; without one they stay in the primary language.
+   */
+  async getFullListingById(listingId: string, userRole: string = 'public', locale?: Locale): Promise<Listing | null> {
     const dbListing = await this.getListingById(listingId);
     if (!dbListing) {
       return null;
     }
-    return this.convertDatabaseListingToListing(dbListing, userRole);
+    const listing = await this.convertDatabaseListingToListing(dbListing, userRole);
+    return locale ? this.localizeListing(listing, locale) : listing;
   }
 
   async updateListing(listingId: string, updates: Partial<UpdateListingRequest>): Promise<DatabaseListing | null> {
@@ -358,13 +478,45 @@ export class DatabaseService {
     const updateFields: string[] = [];
     const values: any[] = [];
 
+    let translations = updates.translations;
+    let primaryLocale: Locale | null = null;
+    if (updates.primaryLocale || translations) {
+      const current = await this.getListingById(listingId);
+      const currentPrimary = isSupportedLocale(current?.primary_locale) ? current.primary_locale : null;
+      primaryLocale = updates.primaryLocale || currentPrimary;
+
+      // Switching to a language the listing is already translated into swaps the
+      // two texts, so nothing the owner wrote is lost
+      if (!translations && current && currentPrimary && primaryLocale && primaryLocale !== currentPrimary) {
+        const stored = (await this.getListingTranslations([listingId])).get(listingId) || {};
+        if (stored[primaryLocale]) {
+          translations = {
+            ...stored,
+            [currentPrimary]: {
+              title: updates.title || current.title,
+              description: updates.description || current.description
+            }
+          };
+        }
+      }
+
+      const primaryText = primaryLocale ? translations?.[primaryLocale] : undefined;
+      if (primaryText) {
+        updates = { ...updates, title: primaryText.title, description: primaryText.description };
+      }
+      if (updates.primaryLocale) {
+        updateFields.push('primary_locale = ?');
+        values.push(updates.primaryLocale);
+      }
+    }
+
     if (updates.title) {
       updateFields.push('title = ?');
       values.push(updates.title);
     }
     if (updates.description) {
-      updateFields.push('description = ?');
-      values.push(updates.description);
+      updateFields.push('description = ?', 'description_text = ?');
+      values.push(...this.descriptionColumns(updates.description));
     }
     if (updates.category) {
       updateFields.push('category = ?');
@@ -417,6 +569,10 @@ export class DatabaseService {
         values.push(updates.contactInfo.website);
       }
     }
+    if (updates.hideContactInfo !== undefined) {
+      updateFields.push('hide_contact_info = ?');
+      values.push(updates.hideContactInfo);
+    }
     if (updates.isOrganic !== undefined) {
       updateFields.push('is_organic = ?');
       values.push(updates.isOrganic);
@@ -437,11 +593,19 @@ export class DatabaseService {
       updateFields.push('operating_hours = ?');
       values.push(updates.operatingHours ? JSON.stringify(updates.operatingHours) : null);
     }
+    if (updates.waterSource !== undefined) {
+      updateFields.push('water_potable = ?', 'water_season_from = ?', 'water_season_to = ?', 'water_last_tested_at = ?', 'water_certificate_url = ?');
+      values.push(...this.waterSourceColumns(updates.waterSource));
+    }
     if (updates.status) {
       updateFields.push('status = ?');
       values.push(updates.status);
     }
 
+    if (translations) {
+      await this.replaceListingTranslations(listingId, translations, primaryLocale);
+    }
+
     if (updateFields.length === 0) {
       return this.getListingById(listingId);
     }
@@ -505,20 +669,18 @@ export class DatabaseService {
     return listings;
   }
 
-  async searchListings(searchQuery: SearchQuery): Promise<SearchResult> {
-    let sql = `
-      SELECT DISTINCT l.* FROM listings l
-      LEFT JOIN listing_tags lt ON l.id = lt.listing_id
-      WHERE l.status = 'active'
-    `;
+  async searchListings(searchQuery: SearchQuery, useFullText: boolean = true): Promise<SearchResult> {
+    let where = `WHERE l.status = 'active'`;
     const params: any[] = [];
+    const location = searchQuery.filters?.location;
+    const matchExpression = useFullText && searchQuery.query ? this.buildMatchExpression(searchQuery.query) : null;
 
     // Add filters
     if (searchQuery.filters) {
       const { filters } = searchQuery;
 
       if (filters.category && filters.category.length > 0) {
-        sql += ` AND l.category IN (${filters.category.map(() => '?').join(',')})`;
+        where += ` AND l.category IN (${filters.category.map(() => '?').join(',')})`;
         // Transform category filters from API format to database format
         const dbCategories = filters.category.map(cat =>
           cat.startsWith('cat_') ? cat : `cat_${cat}`
@@ -527,59 +689,192 @@ export class DatabaseService {
       }
 
       if (filters.isOrganic !== undefined) {
-        sql += ' AND l.is_organic = ?';
+        where += ' AND l.is_organic = ?';
         params.push(filters.isOrganic);
       }
 
       if (filters.isCertified !== undefined) {
-        sql += ' AND l.is_certified = ?';
+        where += ' AND l.is_certified = ?';
         params.push(filters.isCertified);
       }
 
       if (filters.priceRange && filters.priceRange.length > 0) {
-        sql += ` AND l.price_range IN (${filters.priceRange.map(() => '?').join(',')})`;
+        where += ` AND l.price_range IN (${filters.priceRange.map(() => '?').join(',')})`;
         params.push(...filters.priceRange);
       }
 
       if (filters.city) {
-        sql += ' AND l.city LIKE ?';
+        where += ' AND l.city LIKE ?';
         params.push(`%${filters.city}%`);
       }
 
       if (filters.country) {
-        sql += ' AND l.country LIKE ?';
+        where += ' AND l.country LIKE ?';
         params.push(`%${filters.country}%`);
       }
 
+      if (filters.publishedSince) {
+        where += ' AND julianday(l.published_at) >= julianday(?)';
+        params.push(filters.publishedSince);
+      }
+
+      if (filters.minRating !== undefined) {
+        if (typeof filters.minRating !== 'number' || filters.minRating < 1 || filters.minRating > 5) {
+          throw new Error(`Invalid minRating: ${filters.minRating}`);
+        }
+        where += ' AND l.rating_average >= ?';
+        params.push(filters.minRating);
+      }
+
+      // Sources nobody reported on recently are unknown and stay in
+      if (filters.workingOnly) {
+        where += " AND (l.water_status IS NULL OR l.water_status = 'working')";
+      }
+
+      if (filters.potable !== undefined) {
+        where += ' AND l.water_potable = ?';
+        params.push(filters.potable);
+      }
+
+      if (filters.product?.trim()) {
+        where += ' AND EXISTS (SELECT 1 FROM listing_products p WHERE p.listing_id = l.id AND p.in_stock AND p.name LIKE ?)';
+        params.push(`%${filters.product.trim()}%`);
+      }
+
       if (filters.tags && filters.tags.length > 0) {
-        sql += ` AND lt.tag IN (${filters.tags.map(() => '?').join(',')})`;
+        where += ` AND lt.tag IN (${filters.tags.map(() => '?').join(',')})`;
         params.push(...filters.tags);
       }
+
+      // Cheap bounding-box prefilter on the coordinate index; the exact radius is applied below
+      if (location) {
+        const box = this.getBoundingBox(location.latitude, location.longitude, location.radius);
+        where += ' AND l.latitude BETWEEN ? AND ?';
+        params.push(box.minLat, box.maxLat);
+
+        if (box.minLng !== null && box.maxLng !== null) {
+          if (box.minLng <= box.maxLng) {
+            where += ' AND l.longitude BETWEEN ? AND ?';
+          } else {
+            // Box crosses the antimeridian
+            where += ' AND (l.longitude >= ? OR l.longitude <= ?)';
+          }
+          params.push(box.minLng, box.maxLng);
+        }
+      }
     }
 
-    // Add full-text search
-    if (searchQuery.query) {
-      sql += ' AND (l.title LIKE ? OR l.description LIKE ? OR l.address LIKE ?)';
+    // Add full-text search: FTS5 match, or LIKE when the index is unavailable
+    if (matchExpression) {
+      where += ' AND listings_fts MATCH ?';
+      params.push(matchExpression);
+    } else if (searchQuery.query) {
+      where += ` AND (l.title LIKE ? OR coalesce(l.description_text, l.description) LIKE ? OR l.address LIKE ?
+        OR EXISTS (SELECT 1 FROM listing_products p WHERE p.listing_id = l.id AND p.name LIKE ?))`;
       const searchTerm = `%${searchQuery.query}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
+      params.push(searchTerm, searchTerm, searchTerm, searchTerm);
     }
 
-    // Add sorting
-    const sortBy = searchQuery.sortBy || 'created_at';
-    const sortOrder = searchQuery.sortOrder || 'desc';
-    
+    // Haversine distance in km, computed in SQL so radius filtering and distance
+    // sorting happen before pagination
+    let distanceColumn = '';
+    const distanceParams: number[] = [];
+    if (location) {
+      distanceColumn = `, ${EARTH_RADIUS_KM} * 2 * asin(min(1.0, sqrt(
+        power(sin(radians(l.latitude - ?) / 2), 2) +
+        cos(radians(?)) * cos(radians(l.latitude)) * power(sin(radians(l.longitude - ?) / 2), 2)
+      ))) AS distance_km`;
+      distanceParams.push(location.latitude, location.latitude, location.longitude);
+    }
+
+    // BM25 weights follow the column order: listing_id, title, description, tags, city, category, translations, products
+    const ftsColumns = matchExpression
+      ? `, bm25(listings_fts, 0, 10.0, 2.0, 5.0, 3.0, 3.0, 4.0, 5.0) AS relevance_score,
+        highlight(listings_fts, 1, '${MARK_START}', '${MARK_END}') AS title_highlight,
+        snippet(listings_fts, 2, '${MARK_START}', '${MARK_END}', '…', 16) AS description_snippet`
+      : '';
+    const ftsJoin = matchExpression ? 'JOIN listings_fts ON listings_fts.listing_id = l.id' : '';
+
+    let sql = `
+      SELECT * FROM (
+        SELECT DISTINCT l.*${distanceColumn}${ftsColumns} FROM listings l
+        ${ftsJoin}
+        LEFT JOIN listing_tags lt ON l.id = lt.listing_id
+        ${where}
+      ) results
+    `;
+    const queryParams: unknown[] = [...distanceParams, ...params];
+
+    if (location) {
+      sql += ' WHERE distance_km <= ?';
+      queryParams.push(location.radius);
+    }
+
+    // Get total count
+    const openAt = this.getOpenAtFilter(searchQuery.filters);
+
+    let total: number;
+    try {
+      // Opening hours are JSON with their own timezone, so open/closed is decided here
+      // and the query narrowed to the listings that are open
+      if (openAt) {
+        const candidates = await this.db.prepare(`
+          SELECT id, operating_hours FROM (${sql}) WHERE operating_hours IS NOT NULL
+        `).bind(...queryParams).all();
+        const openIds = (candidates.results as unknown as Array<{ id: string; operating_hours: string }>)
+          .filter(row => {
+            const hours = parseStoredOpeningHours(row.operating_hours);
+            return hours !== null && isOpenAt(hours, openAt);
+          })
+          .map(row => row.id);
+
+        sql = `SELECT * FROM (${sql}) WHERE id IN (SELECT value FROM json_each(?))`;
+        queryParams.push(JSON.stringify(openIds));
+      }
+
+      const countStmt = this.db.prepare(`SELECT COUNT(*) as total FROM (${sql})`);
+      const countResult = await countStmt.bind(...queryParams).first() as { total: number };
+      total = countResult?.total || 0;
+    } catch (error) {
+      if (!matchExpression) {
+        throw error;
+      }
+      console.error('Full-text search failed, falling back to LIKE search:', error);
+      return this.searchListings(searchQuery, false);
+    }
+
+    // Add sorting; id breaks ties so pages don't overlap
+    const sortBy = searchQuery.sortBy || (matchExpression ? 'relevance' : 'created_at');
+    const sortOrder = searchQuery.sortOrder || (sortBy === 'distance' ? 'asc' : 'desc');
+    const direction = sortOrder === 'asc' ? 'ASC' : 'DESC';
+
     switch (sortBy) {
+      case 'relevance':
+        // bm25() is lower for better matches
+        sql += matchExpression
+          ? ` ORDER BY relevance_score ${sortOrder === 'asc' ? 'DESC' : 'ASC'}, id ASC`
+          : ` ORDER BY created_at DESC, id ASC`;
+        break;
+      case 'distance':
+        sql += location
+          ? ` ORDER BY distance_km ${direction}, id ASC`
+          : ` ORDER BY created_at DESC, id ASC`;
+        break;
       case 'views':
-        sql += ` ORDER BY l.views ${sortOrder.toUpperCase()}`;
+        sql += ` ORDER BY views ${direction}, id ASC`;
         break;
       case 'favorites':
-        sql += ` ORDER BY l.favorites ${sortOrder.toUpperCase()}`;
+        sql += ` ORDER BY favorites ${direction}, id ASC`;
+        break;
+      case 'rating':
+        // Unrated listings go last either way; more reviews win a tie
+        sql += ` ORDER BY rating_average IS NULL, rating_average ${direction}, rating_count DESC, id ASC`;
         break;
       case 'created_at':
-        sql += ` ORDER BY l.created_at ${sortOrder.toUpperCase()}`;
+        sql += ` ORDER BY created_at ${direction}, id ASC`;
         break;
       default:
-        sql += ` ORDER BY l.created_at DESC`;
+        sql += ` ORDER BY created_at DESC, id ASC`;
     }
 
     // Add pagination
@@ -588,37 +883,30 @@ export class DatabaseService {
     const offset = (page - 1) * limit;
 
     sql += ' LIMIT ? OFFSET ?';
-    params.push(limit, offset);
 
     const stmt = this.db.prepare(sql);
-    const result = await stmt.bind(...params).all();
-    const listings = result.results as unknown as DatabaseListing[];
-
-    // Get total count
-    let countSql = `
-      SELECT COUNT(DISTINCT l.id) as total FROM listings l
-      LEFT JOIN listing_tags lt ON l.id = lt.listing_id
-      WHERE l.status = 'active'
-    `;
-    const countParams = params.slice(0, -2); // Remove limit and offset
-
-    if (searchQuery.filters || searchQuery.query) {
-      // Rebuild count query with same filters
-      countSql = sql.replace(/SELECT DISTINCT l\.\*/, 'SELECT COUNT(DISTINCT l.id) as total')
-                    .replace(/ORDER BY.*$/, '')
-                    .replace(/LIMIT.*$/, '');
-    }
-
-    const countStmt = this.db.prepare(countSql);
-    const countResult = await countStmt.bind(...countParams).first() as { total: number };
-    const total = countResult.total;
+    const result = await stmt.bind(...queryParams, limit, offset).all();
+    const listings = result.results as unknown as Array<DatabaseListing & {
+      distance_km?: number;
+      title_highlight?: string;
+      description_snippet?: string;
+    }>;
 
     // Convert listings with images
     const convertedListings = await Promise.all(
-      listings.map(listing => this.convertDatabaseListingToListing(listing, 'public'))
+      listings.map(async listing => {
+        let converted = await this.convertDatabaseListingToListing(listing, 'public');
+        if (searchQuery.locale) {
+          converted = this.localizeListing(converted, searchQuery.locale);
+        }
+        if (listing.distance_km !== undefined && listing.distance_km !== null) {
+          converted.distanceKm = Math.round(listing.distance_km * 10) / 10;
+        }
+        return converted;
+      })
     );
 
-    return {
+    const searchResult: SearchResult = {
       listings: convertedListings,
       total,
       page,
@@ -626,6 +914,77 @@ export class DatabaseService {
       totalPages: Math.ceil(total / limit),
       filters: searchQuery.filters || {}
     };
+
+    if (matchExpression) {
+      const highlights: NonNullable<SearchResult['highlights']> = {};
+      listings.forEach((listing, index) => {
+        const shown = convertedListings[index];
+        // Highlights are cut from the primary-language text; a translation is shown unmarked
+        highlights[listing.id] = shown.title === listing.title
+          ? { title: toHighlightHtml(listing.title_highlight || listing.title), snippet: toHighlightHtml(listing.description_snippet || '') }
+          : { title: toHighlightHtml(shown.title), snippet: '' };
+      });
+      searchResult.highlights = highlights;
+    }
+
+    return searchResult;
+  }
+
+  private getOpenAtFilter(filters?: SearchQuery['filters']): Date | null {
+    if (filters?.openAt) {
+      const openAt = new Date(filters.openAt);
+      if (isNaN(openAt.getTime())) {
+        throw new Error(`Invalid openAt time: ${filters.openAt}`);
+      }
+      return openAt;
+    }
+    return filters?.openNow ? new Date() : null;
+  }
+
+  /**
+   * Turn free text into an FTS5 query: every word must match, as a prefix, so
+   * "bio kase" finds "Biohof Müller - Käse". Quoting each word keeps FTS5 operators
+   * and punctuation in user input from being parsed as query syntax.
+   */
+  private buildMatchExpression(query: string): string | null {
+    const terms = query.normalize('NFC').match(/[\p{L}\p{N}]+/gu);
+    if (!terms || terms.length === 0) {
+      return null;
+    }
+
+    return terms.slice(0, 10).map(term => `"${term}"*`).join(' ');
+  }
+
+  /**
+   * Degree bounds enclosing a circle of radiusKm around a point. Longitude bounds
+   * are null when the circle reaches a pole and every longitude qualifies.
+   */
+  private getBoundingBox(latitude: number, longitude: number, radiusKm: number): {
+    minLat: number;
+    maxLat: number;
+    minLng: number | null;
+    maxLng: number | null;
+  } {
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const minLat = Math.max(latitude - latDelta, -90);
+    const maxLat = Math.min(latitude + latDelta, 90);
+
+    if (minLat <= -90 || maxLat >= 90) {
+      return { minLat, maxLat, minLng: null, maxLng: null };
+    }
+
+    const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos(latitude * Math.PI / 180));
+    if (lngDelta >= 180) {
+      return { minLat, maxLat, minLng: null, maxLng: null };
+    }
+
+    const wrap = (lng: number) => ((lng + 540) % 360) - 180;
+    return {
+      minLat,
+      maxLat,
+      minLng: wrap(longitude - lngDelta),
+      maxLng: wrap(longitude + lngDelta)
+    };
   }
 
   async getUserListings(userId: string): Promise<Listing[]> {
@@ -678,6 +1037,167 @@ export class DatabaseService {
     return (result.results as any[]).map((row: any) => row.tag);
   }
 
+  /**
+   * One-off cleanup for descriptions stored before they were sanitized on write: runs up
+   * to `limit` listings and translations through the sanitizer. The scheduled handler
+   * drains it; reads sanitize rows it hasn't reached yet. The description itself is only
+   * rewritten when sanitizing changed it, so untouched rows aren't re-embedded.
+   */
+  async sanitizeStoredDescriptions(limit: number = 100): Promise<{ listings: number; translations: number; remaining: number }> {
+    const listingResult = await this.db.prepare(`
+      SELECT id, description FROM listings WHERE description_text IS NULL LIMIT ?
+    `).bind(limit).all();
+    const listings = listingResult.results as unknown as Array<{ id: string; description: string | null }>;
+
+    const translationResult = await this.db.prepare(`
+      SELECT listing_id, locale, description FROM listing_translations WHERE description_text IS NULL LIMIT ?
+    `).bind(limit).all();
+    const translations = translationResult.results as unknown as Array<{ listing_id: string; locale: string; description: string | null }>;
+
+    const statements: D1PreparedStatement[] = [];
+    for (const row of listings) {
+      const [html, text] = this.descriptionColumns(row.description);
+      statements.push(html === row.description
+        ? this.db.prepare('UPDATE listings SET description_text = ? WHERE id = ?').bind(text, row.id)
+        : this.db.prepare('UPDATE listings SET description = ?, description_text = ? WHERE id = ?').bind(html, text, row.id));
+    }
+    for (const row of translations) {
+      const [html, text] = this.descriptionColumns(row.description);
+      statements.push(html === row.description
+        ? this.db.prepare('UPDATE listing_translations SET description_text = ? WHERE listing_id = ? AND locale = ?').bind(text, row.listing_id, row.locale)
+        : this.db.prepare('UPDATE listing_translations SET description = ?, description_text = ? WHERE listing_id = ? AND locale = ?').bind(html, text, row.listing_id, row.locale));
+    }
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+
+    const remaining = await this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM listings WHERE description_text IS NULL) +
+        (SELECT COUNT(*) FROM listing_translations WHERE description_text IS NULL) AS count
+    `).first<{ count: number }>();
+
+    return { listings: listings.length, translations: translations.length, remaining: remaining?.count || 0 };
+  }
+
+  // Translation operations
+  /**
+   * Stored translations per listing. The primary language is not among them: its
+   * text is the listing's own title and description.
+   */
+  async getListingTranslations(listingIds: string[]): Promise<Map<string, ListingTranslations>> {
+    const translations = new Map<string, ListingTranslations>();
+    if (listingIds.length === 0) {
+      return translations;
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT listing_id, locale, title, description, description_text
+      FROM listing_translations
+      WHERE listing_id IN (${listingIds.map(() => '?').join(',')})
+    `);
+    const result = await stmt.bind(...listingIds).all();
+    const rows = result.results as unknown as Array<{
+      listing_id: string;
+      locale: string;
+      title: string;
+      description: string;
+      description_text: string | null;
+    }>;
+
+    for (const row of rows || []) {
+      if (!isSupportedLocale(row.locale)) {
+        continue;
+      }
+      const entry = translations.get(row.listing_id) || {};
+      entry[row.locale] = { title: row.title, description: storedDescriptionHtml(row.description, row.description_text) };
+      translations.set(row.listing_id, entry);
+    }
+
+    return translations;
+  }
+
+  /**
+   * Replace a listing's stored translations. An entry for the primary language is
+   * skipped, since that text lives on the listing itself.
+   */
+  private async replaceListingTranslations(
+    listingId: string,
+    translations: ListingTranslations,
+    primaryLocale: Locale | null
+  ): Promise<void> {
+    const statements = [
+      this.db.prepare('DELETE FROM listing_translations WHERE listing_id = ?').bind(listingId)
+    ];
+
+    for (const [locale, translation] of Object.entries(translations)) {
+      if (locale === primaryLocale || !translation) {
+        continue;
+      }
+      statements.push(this.db.prepare(`
+        INSERT INTO listing_translations (listing_id, locale, title, description, description_text)
+        VALUES (?, ?, ?, ?, ?)
+      `).bind(listingId, locale, translation.title, ...this.descriptionColumns(translation.description)));
+    }
+
+    await this.db.batch(statements);
+  }
+
+  /**
+   * Show a listing in the best language available for the requester, following
+   * localeFallbackChain. `locale` on the result names the language chosen.
+   */
+  localizeListing(listing: Listing, locale: Locale): Listing {
+    const chosen = this.selectTranslation(listing.translations || {}, locale, listing.primaryLocale);
+    if (!chosen) {
+      return listing;
+    }
+    return { ...listing, ...chosen.translation, locale: chosen.locale };
+  }
+
+  /**
+   * Best title and description for `locale` for raw listing rows, keyed by id
+   */
+  async getLocalizedListingTexts(
+    listings: Array<{ id: string; title: string; description: string; description_text?: string | null; primary_locale?: string | null }>,
+    locale: Locale
+  ): Promise<Map<string, ListingTranslation>> {
+    const stored = await this.getListingTranslations(listings.map(listing => listing.id));
+    const texts = new Map<string, ListingTranslation>();
+
+    for (const listing of listings) {
+      const description = storedDescriptionHtml(listing.description, listing.description_text);
+      const primaryLocale = isSupportedLocale(listing.primary_locale) ? listing.primary_locale : undefined;
+      const translations: ListingTranslations = { ...stored.get(listing.id) };
+      if (primaryLocale) {
+        translations[primaryLocale] = { title: listing.title, description };
+      }
+      const chosen = this.selectTranslation(translations, locale, primaryLocale);
+      texts.set(listing.id, chosen ? chosen.translation : { title: listing.title, description });
+    }
+
+    return texts;
+  }
+
+  /**
+   * Pick the translation to show for `locale`. Without a known primary language
+   * (listings from before translations existed) only an exact match is used.
+   */
+  private selectTranslation(
+    translations: ListingTranslations,
+    locale: Locale,
+    primaryLocale?: Locale
+  ): { locale: Locale; translation: ListingTranslation } | null {
+    const candidates = primaryLocale ? localeFallbackChain(locale, primaryLocale) : [locale];
+    for (const candidate of candidates) {
+      const translation = translations[candidate];
+      if (translation) {
+        return { locale: candidate, translation };
+      }
+    }
+    return null;
+  }
+
   // Subscription operations
   async createSubscription(subscription: UserSubscription): Promise<UserSubscription> {
     const stmt = this.db.prepare(`
@@ -779,20 +1299,61 @@ export class DatabaseService {
     }
   }
 
+  // Column values for description and description_text: the sanitized HTML and its plain text
+  private descriptionColumns(description: string | null | undefined): [string, string] {
+    const html = sanitizeHtml(description);
+    return [html, htmlToPlainText(html)];
+  }
+
+  // Column values for water_potable, water_season_from, water_season_to, water_last_tested_at, water_certificate_url
+  private waterSourceColumns(details: WaterSourceDetails | null | undefined): Array<boolean | string | null> {
+    return [
+      details?.potable ?? null,
+      details?.season?.from || null,
+      details?.season?.to || null,
+      details?.lastTestedAt || null,
+      details?.certificateUrl || null
+    ];
+  }
+
   // Helper method to convert database listing to API listing format
   private async convertDatabaseListingToListing(dbListing: DatabaseListing, userRole?: string): Promise<Listing> {
     // Fetch images for this listing
     const images = await this.getListingImages(dbListing.id);
 
+    const operatingHours = parseStoredOpeningHours(dbListing.operating_hours) || undefined;
+
+    const description = storedDescriptionHtml(dbListing.description, dbListing.description_text);
+
+    const primaryLocale = isSupportedLocale(dbListing.primary_locale) ? dbListing.primary_locale : undefined;
+    const translations: ListingTranslations = {
+      ...(await this.getListingTranslations([dbListing.id])).get(dbListing.id)
+    };
+    if (primaryLocale) {
+      translations[primaryLocale] = { title: dbListing.title, description };
+    }
+
     // Transform category from database format (cat_1753818080779_q2e6cq87ie) to API format (1753818080779_q2e6cq87ie)
     const apiCategory = dbListing.category.startsWith('cat_')
       ? dbListing.category.substring(4)
       : dbListing.category;
 
+    const hideContactInfo = dbListing.hide_contact_info && userRole !== 'admin' && userRole !== 'owner';
+
+    const isWaterSource = apiCategory === 'water_source';
+    const waterSource: WaterSourceDetails = {
+      potable: dbListing.water_potable === null || dbListing.water_potable === undefined ? undefined : Boolean(dbListing.water_potable),
+      season: dbListing.water_season_from && dbListing.water_season_to
+        ? { from: dbListing.water_season_from, to: dbListing.water_season_to }
+        : undefined,
+      lastTestedAt: dbListing.water_last_tested_at || undefined,
+      certificateUrl: dbListing.water_certificate_url || undefined
+    };
+
     return {
       id: dbListing.id,
       title: dbListing.title,
-      description: dbListing.description,
+      description,
       category: apiCategory as any, // Cast to maintain type compatibility
       status: dbListing.status,
       location: {
@@ -807,9 +1368,10 @@ export class DatabaseService {
         country: dbListing.country,
         postalCode: (dbListing.hide_address && userRole !== 'admin') ? undefined : (dbListing.postal_code || undefined)
       } as any, // Cast to allow additional fields
+      // Owners who hide their contact details are reached through messages
       contactInfo: {
-        email: dbListing.contact_email || undefined,
-        phone: dbListing.contact_phone || undefined,
+        email: hideContactInfo ? undefined : (dbListing.contact_email || undefined),
+        phone: hideContactInfo ? undefined : (dbListing.contact_phone || undefined),
         website: dbListing.contact_website || undefined
       },
       images: images,
@@ -817,14 +1379,29 @@ export class DatabaseService {
       isOrganic: dbListing.is_organic,
       isCertified: dbListing.is_certified,
       certificationDetails: dbListing.certification_details || undefined,
-      operatingHours: dbListing.operating_hours ? JSON.parse(dbListing.operating_hours) : undefined,
+      operatingHours,
+      openingStatus: operatingHours ? getOpeningStatus(operatingHours) : undefined,
       priceRange: (dbListing.price_range as 'free' | 'low' | 'medium' | 'high') || undefined,
       hideAddress: dbListing.hide_address || false,
+      hideContactInfo: Boolean(dbListing.hide_contact_info),
       userId: dbListing.user_id,
+      isVerified: Boolean(dbListing.is_verified),
       createdAt: dbListing.created_at,
       updatedAt: dbListing.updated_at,
       views: dbListing.views,
-      favorites: dbListing.favorites
+      favorites: dbListing.favorites,
+      averageRating: dbListing.rating_average ? Math.round(dbListing.rating_average * 10) / 10 : undefined,
+      reviewCount: dbListing.rating_count || 0,
+      waterSource: isWaterSource ? waterSource : undefined,
+      waterStatus: isWaterSource ? {
+        status: dbListing.water_status || null,
+        reportedAt: dbListing.water_status_at || undefined,
+        reportCount: dbListing.water_status_reports || 0
+      } : undefined,
+      moderationReason: userRole !== 'public' ? (dbListing.moderation_reason || undefined) : undefined,
+      primaryLocale,
+      locale: primaryLocale,
+      translations
     };
   }
 }
@@ -1,18 +1,43 @@
 import { Resend } from 'resend';
+import { Locale, DEFAULT_LOCALE, translate } from '../i18n';
+import { SavedSearchDigestEntry } from '../types/savedSearches';
+import { EmailCategory } from '../types/notifications';
+import { NotificationPreferencesService } from './notificationPreferencesService';
+
+// How an email in a category the recipient can turn off goes out
+interface OptionalEmailDelivery {
+  unsubscribeUrl?: string;
+  headers?: Record<string, string>;
+}
 
 // Email service using Resend API for secure email verification
 export class EmailService {
-  private resend: Resend;
+  private resend: Resend | null;
   private fromEmail: string;
   private apiKey: string;
+  private preferences?: NotificationPreferencesService;
 
-  constructor(apiKey: string, fromEmail: string = 'Kisigua <noreply@kisigua.com>') {
+  /**
+   * Without a preferences service every email is sent and none carries
+   * unsubscribe links, which is enough for security mail
+   */
+  constructor(apiKey: string, fromEmail: string = 'Kisigua <noreply@kisigua.com>', preferences?: NotificationPreferencesService) {
     this.apiKey = apiKey;
-    this.resend = new Resend(apiKey);
+    // Without a key the worker still starts; every send fails with a clear error instead
+    this.resend = apiKey ? new Resend(apiKey) : null;
     this.fromEmail = fromEmail;
+    this.preferences = preferences;
+
+    if (!apiKey) {
+      console.error('❌ RESEND_API_KEY is not set: no emails will be sent');
+    }
+  }
 
-    // Log API key status for debugging
-    console.log('EmailService initialized with API key:', apiKey ? (apiKey.startsWith('re_') ? 'VALID_FORMAT' : 'INVALID_FORMAT') : 'MISSING');
+  private get client(): Resend {
+    if (!this.resend) {
+      throw new Error('RESEND_API_KEY is not set');
+    }
+    return this.resend;
   }
 
   /**
@@ -21,7 +46,8 @@ export class EmailService {
   async sendVerificationEmail(
     to: string,
     verificationToken: string,
-    userName: string
+    userName: string,
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       // Check if API key is properly configured
@@ -51,11 +77,11 @@ export class EmailService {
       console.log('🔗 Verification URL:', verificationUrl);
       console.log('🔑 Using API key format:', this.apiKey.substring(0, 10) + '...');
 
-      const { data, error } = await this.resend.emails.send({
+      const { data, error } = await this.client.emails.send({
         from: this.fromEmail,
         to: [to],
-        subject: 'Verify your Kisigua account',
-        html: this.getVerificationEmailTemplate(userName, verificationUrl),
+        subject: translate(locale, 'email.verification.subject'),
+        html: this.getVerificationEmailTemplate(userName, verificationUrl, locale),
       });
 
       if (error) {
@@ -81,16 +107,17 @@ export class EmailService {
   async sendPasswordResetEmail(
     to: string, 
     resetToken: string, 
-    userName: string
+    userName: string,
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       const resetUrl = `https://kisigua.com/reset-password?token=${resetToken}`;
       
-      const { data, error } = await this.resend.emails.send({
+      const { data, error } = await this.client.emails.send({
         from: this.fromEmail,
         to: [to],
-        subject: 'Reset your Kisigua password',
-        html: this.getPasswordResetEmailTemplate(userName, resetUrl),
+        subject: translate(locale, 'email.passwordReset.subject'),
+        html: this.getPasswordResetEmailTemplate(userName, resetUrl, locale),
       });
 
       if (error) {
@@ -110,14 +137,15 @@ export class EmailService {
    */
   async sendWelcomeEmail(
     to: string, 
-    userName: string
+    userName: string,
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
-      const { data, error } = await this.resend.emails.send({
+      const { data, error } = await this.client.emails.send({
         from: this.fromEmail,
         to: [to],
-        subject: 'Welcome to Kisigua - Your sustainable community awaits!',
-        html: this.getWelcomeEmailTemplate(userName),
+        subject: translate(locale, 'email.welcome.subject'),
+        html: this.getWelcomeEmailTemplate(userName, locale),
       });
 
       if (error) {
@@ -133,31 +161,236 @@ export class EmailService {
   }
 
   /**
-   * Send batch emails (for notifications, newsletters, etc.)
+   * Tell a listing owner about a moderation decision
+   */
+  async sendListingModerationEmail(
+    to: string,
+    userName: string,
+    listingTitle: string,
+    action: 'approve' | 'reject' | 'request_changes',
+    reason: string | null,
+    manageUrl: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean }> {
+    const subjects = {
+      approve: translate(locale, 'email.moderation.approveSubject', { title: listingTitle }),
+      reject: translate(locale, 'email.moderation.rejectSubject', { title: listingTitle }),
+      request_changes: translate(locale, 'email.moderation.requestChangesSubject', { title: listingTitle }),
+    };
+
+    try {
+      const delivery = await this.prepareDelivery(to, 'listingUpdates');
+      if (!delivery) {
+        return { success: false, suppressed: true };
+      }
+
+      const { data, error } = await this.client.emails.send({
+        from: this.fromEmail,
+        to: [to],
+        subject: subjects[action],
+        html: this.getListingModerationEmailTemplate(userName, listingTitle, action, reason, manageUrl, locale, delivery.unsubscribeUrl),
+        headers: delivery.headers,
+      });
+
+      if (error) {
+        console.error('Resend API error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Email service error:', error);
+      return { success: false, error: 'Failed to send listing moderation email' };
+    }
+  }
+
+  /**
+   * Send new listings matching a user's saved searches, one section per search
+   */
+  async sendSavedSearchDigestEmail(
+    to: string,
+    userName: string,
+    searches: SavedSearchDigestEntry[],
+    searchUrl: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean }> {
+    const total = searches.reduce((sum, search) => sum + search.total, 0);
+
+    try {
+      const delivery = await this.prepareDelivery(to, 'newListings');
+      if (!delivery) {
+        return { success: false, suppressed: true };
+      }
+
+      const { data, error } = await this.client.emails.send({
+        from: this.fromEmail,
+        to: [to],
+        subject: translate(locale, 'email.savedSearch.subject', { count: total }),
+        html: this.getSavedSearchDigestEmailTemplate(userName, searches, searchUrl, locale, delivery.unsubscribeUrl),
+        headers: delivery.headers,
+      });
+
+      if (error) {
+        console.error('Resend API error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Email service error:', error);
+      return { success: false, error: 'Failed to send saved search digest email' };
+    }
+  }
+
+  /**
+   * Tell a user about a new message in one of their conversations
+   */
+  async sendNewMessageEmail(
+    to: string,
+    userName: string,
+    senderName: string,
+    listingTitle: string,
+    excerpt: string,
+    conversationUrl: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean }> {
+    try {
+      const delivery = await this.prepareDelivery(to, 'messages');
+      if (!delivery) {
+        return { success: false, suppressed: true };
+      }
+
+      const { data, error } = await this.client.emails.send({
+        from: this.fromEmail,
+        to: [to],
+        subject: translate(locale, 'email.message.subject', { name: senderName, title: listingTitle }),
+        html: this.getNewMessageEmailTemplate(userName, senderName, listingTitle, excerpt, conversationUrl, locale, delivery.unsubscribeUrl),
+        headers: delivery.headers,
+      });
+
+      if (error) {
+        console.error('Resend API error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Email service error:', error);
+      return { success: false, error: 'Failed to send new message email' };
+    }
+  }
+
+  /**
+   * Send an ownership claim code to a listing's contact address. Always sent: the
+   * address may not belong to an account and proving control of it is the point.
+   */
+  async sendListingClaimCodeEmail(
+    to: string,
+    claimantName: string,
+    listingTitle: string,
+    code: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      const { data, error } = await this.client.emails.send({
+        from: this.fromEmail,
+        to: [to],
+        subject: translate(locale, 'email.claimCode.subject', { title: listingTitle }),
+        html: this.getListingClaimCodeEmailTemplate(claimantName, listingTitle, code, locale),
+      });
+
+      if (error) {
+        console.error('Resend API error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Email service error:', error);
+      return { success: false, error: 'Failed to send listing claim code email' };
+    }
+  }
+
+  /**
+   * Tell a claimant whether an admin approved their ownership claim
+   */
+  async sendListingClaimDecisionEmail(
+    to: string,
+    userName: string,
+    listingTitle: string,
+    approved: boolean,
+    note: string | null,
+    manageUrl: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean }> {
+    try {
+      const delivery = await this.prepareDelivery(to, 'listingUpdates');
+      if (!delivery) {
+        return { success: false, suppressed: true };
+      }
+
+      const { data, error } = await this.client.emails.send({
+        from: this.fromEmail,
+        to: [to],
+        subject: translate(locale, approved ? 'email.claimDecision.approveSubject' : 'email.claimDecision.rejectSubject', { title: listingTitle }),
+        html: this.getListingClaimDecisionEmailTemplate(userName, listingTitle, approved, note, manageUrl, locale, delivery.unsubscribeUrl),
+        headers: delivery.headers,
+      });
+
+      if (error) {
+        console.error('Resend API error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Email service error:', error);
+      return { success: false, error: 'Failed to send listing claim decision email' };
+    }
+  }
+
+  /**
+   * Send batch emails (for notifications, newsletters, etc.). Recipients who
+   * turned the category off are left out and listed in `suppressed`.
    */
   async sendBatchEmails(
     emails: Array<{
       to: string;
       subject: string;
       html: string;
-    }>
-  ): Promise<{ success: boolean; results?: any[]; error?: string }> {
+    }>,
+    category: EmailCategory
+  ): Promise<{ success: boolean; results?: any[]; error?: string; suppressed?: string[] }> {
     try {
-      const emailData = emails.map(email => ({
-        from: this.fromEmail,
-        to: [email.to],
-        subject: email.subject,
-        html: email.html,
-      }));
+      const suppressed: string[] = [];
+      const emailData = [];
+      for (const email of emails) {
+        const delivery = await this.prepareDelivery(email.to, category);
+        if (!delivery) {
+          suppressed.push(email.to);
+          continue;
+        }
+        emailData.push({
+          from: this.fromEmail,
+          to: [email.to],
+          subject: email.subject,
+          html: email.html,
+          headers: delivery.headers,
+        });
+      }
+
+      if (emailData.length === 0) {
+        return { success: true, results: [], suppressed };
+      }
 
-      const { data, error } = await this.resend.batch.send(emailData);
+      const { data, error } = await this.client.batch.send(emailData);
 
       if (error) {
         console.error('Resend batch API error:', error);
         return { success: false, error: error.message };
       }
 
-      return { success: true, results: data as unknown as any[] };
+      return { success: true, results: data as unknown as any[], suppressed };
     } catch (error) {
       console.error('Batch email service error:', error);
       return { success: false, error: 'Failed to send batch emails' };
@@ -183,7 +416,7 @@ export class EmailService {
       }
 
       // Try to send a test email to a test address
-      const testResult = await this.resend.emails.send({
+      const testResult = await this.client.emails.send({
         from: this.fromEmail,
         to: ['test@resend.dev'], // Resend's test email address
         subject: 'Kisigua API Connection Test',
@@ -221,7 +454,7 @@ export class EmailService {
    */
   async getEmailStatus(emailId: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const { data, error } = await this.resend.emails.get(emailId);
+      const { data, error } = await this.client.emails.get(emailId);
 
       if (error) {
         console.error('Resend get email error:', error);
@@ -243,7 +476,7 @@ export class EmailService {
     scheduledAt: string
   ): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const { data, error } = await this.resend.emails.update({
+      const { data, error } = await this.client.emails.update({
         id: emailId,
         scheduledAt,
       });
@@ -265,7 +498,7 @@ export class EmailService {
    */
   async cancelScheduledEmail(emailId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const { error } = await this.resend.emails.cancel(emailId);
+      const { error } = await this.client.emails.cancel(emailId);
 
       if (error) {
         console.error('Resend cancel email error:', error);
@@ -282,47 +515,49 @@ export class EmailService {
   /**
    * Email verification template
    */
-  private getVerificationEmailTemplate(userName: string, verificationUrl: string): string {
+  private getVerificationEmailTemplate(userName: string, verificationUrl: string, locale: Locale): string {
+    const t = (key: string) => translate(locale, `email.verification.${key}`);
+
     return `
       <!DOCTYPE html>
-      <html>
+      <html lang="${locale}">
         <head>
           <meta charset="utf-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Verify your Kisigua account</title>
+          <title>${t('subject')}</title>
         </head>
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #10b981, #3b82f6); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
-            <h1 style="color: white; margin: 0; font-size: 28px;">Welcome to Kisigua!</h1>
-            <p style="color: #e5f3ff; margin: 10px 0 0 0; font-size: 16px;">Your sustainable community awaits</p>
+            <h1 style="color: white; margin: 0; font-size: 28px;">${t('heading')}</h1>
+            <p style="color: #e5f3ff; margin: 10px 0 0 0; font-size: 16px;">${t('tagline')}</p>
           </div>
           
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
-            <h2 style="color: #1e293b; margin-top: 0;">Hi ${userName}!</h2>
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: userName })}</h2>
             
-            <p>Thank you for joining Kisigua, the platform for discovering sustainable locations and eco-friendly businesses in your community.</p>
+            <p>${t('intro')}</p>
             
-            <p>To complete your registration and start exploring organic farms, water sources, and sustainable businesses, please verify your email address:</p>
+            <p>${t('action')}</p>
             
             <div style="text-align: center; margin: 30px 0;">
               <a href="${verificationUrl}" 
                  style="background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
-                Verify Email Address
+                ${t('button')}
               </a>
             </div>
             
-            <p style="color: #64748b; font-size: 14px;">If the button doesn't work, copy and paste this link into your browser:</p>
+            <p style="color: #64748b; font-size: 14px;">${translate(locale, 'email.linkHint')}</p>
             <p style="color: #3b82f6; word-break: break-all; font-size: 14px;">${verificationUrl}</p>
             
             <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
             
             <p style="color: #64748b; font-size: 14px; margin: 0;">
-              This verification link will expire in 24 hours. If you didn't create an account with Kisigua, you can safely ignore this email.
+              ${t('expiry')}
             </p>
           </div>
           
           <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
-            <p>© 2025 Kisigua. Building sustainable communities together.</p>
+            <p>${translate(locale, 'email.footer')}</p>
           </div>
         </body>
       </html>
@@ -332,47 +567,49 @@ export class EmailService {
   /**
    * Password reset email template
    */
-  private getPasswordResetEmailTemplate(userName: string, resetUrl: string): string {
+  private getPasswordResetEmailTemplate(userName: string, resetUrl: string, locale: Locale): string {
+    const t = (key: string) => translate(locale, `email.passwordReset.${key}`);
+
     return `
       <!DOCTYPE html>
-      <html>
+      <html lang="${locale}">
         <head>
           <meta charset="utf-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Reset your Kisigua password</title>
+          <title>${t('subject')}</title>
         </head>
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #ef4444, #f97316); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
-            <h1 style="color: white; margin: 0; font-size: 28px;">Password Reset</h1>
-            <p style="color: #fef2f2; margin: 10px 0 0 0; font-size: 16px;">Secure your Kisigua account</p>
+            <h1 style="color: white; margin: 0; font-size: 28px;">${t('heading')}</h1>
+            <p style="color: #fef2f2; margin: 10px 0 0 0; font-size: 16px;">${t('tagline')}</p>
           </div>
           
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
-            <h2 style="color: #1e293b; margin-top: 0;">Hi ${userName}!</h2>
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: userName })}</h2>
             
-            <p>We received a request to reset your password for your Kisigua account.</p>
+            <p>${t('intro')}</p>
             
-            <p>Click the button below to create a new password:</p>
+            <p>${t('action')}</p>
             
             <div style="text-align: center; margin: 30px 0;">
               <a href="${resetUrl}" 
                  style="background: #ef4444; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
-                Reset Password
+                ${t('button')}
               </a>
             </div>
             
-            <p style="color: #64748b; font-size: 14px;">If the button doesn't work, copy and paste this link into your browser:</p>
+            <p style="color: #64748b; font-size: 14px;">${translate(locale, 'email.linkHint')}</p>
             <p style="color: #3b82f6; word-break: break-all; font-size: 14px;">${resetUrl}</p>
             
             <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
             
             <p style="color: #64748b; font-size: 14px; margin: 0;">
-              This reset link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.
+              ${t('expiry')}
             </p>
           </div>
           
           <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
-            <p>© 2025 Kisigua. Building sustainable communities together.</p>
+            <p>${translate(locale, 'email.footer')}</p>
           </div>
         </body>
       </html>
@@ -382,55 +619,415 @@ export class EmailService {
   /**
    * Welcome email template
    */
-  private getWelcomeEmailTemplate(userName: string): string {
+  private getWelcomeEmailTemplate(userName: string, locale: Locale): string {
+    const t = (key: string) => translate(locale, `email.welcome.${key}`);
+
     return `
       <!DOCTYPE html>
-      <html>
+      <html lang="${locale}">
         <head>
           <meta charset="utf-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Welcome to Kisigua!</title>
+          <title>${t('heading')}</title>
         </head>
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #10b981, #3b82f6); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
-            <h1 style="color: white; margin: 0; font-size: 28px;">🎉 Welcome to Kisigua!</h1>
-            <p style="color: #e5f3ff; margin: 10px 0 0 0; font-size: 16px;">Your sustainable journey starts here</p>
+            <h1 style="color: white; margin: 0; font-size: 28px;">${t('heading')}</h1>
+            <p style="color: #e5f3ff; margin: 10px 0 0 0; font-size: 16px;">${t('tagline')}</p>
           </div>
           
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
-            <h2 style="color: #1e293b; margin-top: 0;">Hi ${userName}!</h2>
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: userName })}</h2>
             
-            <p>🌱 Your email has been verified and your Kisigua account is now active! Welcome to our community of sustainability enthusiasts.</p>
+            <p>${t('intro')}</p>
             
-            <h3 style="color: #10b981;">What you can do now:</h3>
+            <h3 style="color: #10b981;">${t('nextSteps')}</h3>
             <ul style="color: #475569;">
-              <li>🔍 <strong>Discover sustainable locations</strong> - Find organic farms, water sources, and eco-friendly businesses near you</li>
-              <li>📍 <strong>Use enhanced location search</strong> - Search by city, region, or specific areas with our new advanced filters</li>
-              <li>💚 <strong>Create your own listings</strong> - Share sustainable businesses and locations with the community</li>
-              <li>⭐ <strong>Save favorites</strong> - Build your personal collection of sustainable places</li>
-              <li>🗺️ <strong>Explore with maps</strong> - Use our interactive maps to discover nearby sustainable options</li>
+              <li>🔍 <strong>${t('discoverTitle')}</strong> - ${t('discoverText')}</li>
+              <li>📍 <strong>${t('searchTitle')}</strong> - ${t('searchText')}</li>
+              <li>💚 <strong>${t('createTitle')}</strong> - ${t('createText')}</li>
+              <li>⭐ <strong>${t('favoritesTitle')}</strong> - ${t('favoritesText')}</li>
+              <li>🗺️ <strong>${t('mapsTitle')}</strong> - ${t('mapsText')}</li>
             </ul>
             
             <div style="text-align: center; margin: 30px 0;">
               <a href="https://kisigua.com/dashboard" 
                  style="background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
-                Start Exploring
+                ${t('button')}
               </a>
             </div>
             
             <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
             
             <p style="color: #64748b; font-size: 14px;">
-              Need help getting started? Visit our <a href="https://kisigua.com/help" style="color: #3b82f6;">Help Center</a> or reply to this email.
+              ${t('help')}
             </p>
           </div>
           
           <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
-            <p>© 2025 Kisigua. Building sustainable communities together.</p>
-            <p>🌍 Together, we're making the world more sustainable, one location at a time.</p>
+            <p>${translate(locale, 'email.footer')}</p>
+            <p>${t('closing')}</p>
           </div>
         </body>
       </html>
     `;
   }
+
+  private getListingModerationEmailTemplate(
+    userName: string,
+    listingTitle: string,
+    action: 'approve' | 'reject' | 'request_changes',
+    reason: string | null,
+    manageUrl: string,
+    locale: Locale,
+    unsubscribeUrl?: string
+  ): string {
+    const t = (key: string) => translate(locale, `email.moderation.${key}`);
+    const content = {
+      approve: {
+        heading: t('approveHeading'),
+        color: '#10b981',
+        message: t('approveMessage'),
+        button: t('viewButton'),
+      },
+      reject: {
+        heading: t('rejectHeading'),
+        color: '#dc2626',
+        message: t('rejectMessage'),
+        button: t('viewButton'),
+      },
+      request_changes: {
+        heading: t('requestChangesHeading'),
+        color: '#f59e0b',
+        message: t('requestChangesMessage'),
+        button: t('editButton'),
+      },
+    }[action];
+
+    const reasonBlock = reason ? `
+            <div style="background: #fff; border-left: 4px solid ${content.color}; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0; color: #475569;"><strong>${t('noteLabel')}</strong></p>
+              <p style="margin: 5px 0 0 0; color: #1e293b;">${this.escapeHtml(reason)}</p>
+            </div>` : '';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${locale}">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${content.heading}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: ${content.color}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 26px;">${content.heading}</h1>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: this.escapeHtml(userName) })}</h2>
+
+            <p>${content.message}</p>
+
+            <p style="color: #475569;"><strong>${t('listingLabel')}</strong> ${this.escapeHtml(listingTitle)}</p>
+            ${reasonBlock}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${manageUrl}"
+                 style="background: ${content.color}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
+                ${content.button}
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+
+            <p style="color: #64748b; font-size: 14px;">
+              ${t('questions')}
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
+            <p>${translate(locale, 'email.footer')}</p>
+            ${this.getUnsubscribeFooter(locale, unsubscribeUrl)}
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private getSavedSearchDigestEmailTemplate(
+    userName: string,
+    searches: SavedSearchDigestEntry[],
+    searchUrl: string,
+    locale: Locale,
+    unsubscribeUrl?: string
+  ): string {
+    const t = (key: string, params?: Record<string, string | number>) => translate(locale, `email.savedSearch.${key}`, params);
+
+    const sections = searches.map(search => {
+      const items = search.listings.map(listing => `
+                <li style="margin: 0 0 8px 0;">
+                  <strong style="color: #1e293b;">${this.escapeHtml(listing.title)}</strong>${listing.city ? `<span style="color: #64748b;"> · ${this.escapeHtml(listing.city)}</span>` : ''}
+                </li>`).join('');
+      const more = search.total > search.listings.length
+        ? `<p style="margin: 0; color: #64748b; font-size: 14px;">${t('more', { count: search.total - search.listings.length })}</p>`
+        : '';
+
+      return `
+            <div style="background: #fff; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0 0 10px 0; color: #1e293b;"><strong>${this.escapeHtml(search.name)}</strong> <span style="color: #10b981;">${t('newCount', { count: search.total })}</span></p>
+              <ul style="margin: 0 0 10px 0; padding-left: 20px;">${items}
+              </ul>
+              ${more}
+            </div>`;
+    }).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${locale}">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${t('heading')}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: #10b981; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 26px;">${t('heading')}</h1>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: this.escapeHtml(userName) })}</h2>
+
+            <p>${t('intro')}</p>
+            ${sections}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${searchUrl}"
+                 style="background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
+                ${t('button')}
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+
+            <p style="color: #64748b; font-size: 14px;">
+              ${t('manage')}
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
+            <p>${translate(locale, 'email.footer')}</p>
+            ${this.getUnsubscribeFooter(locale, unsubscribeUrl)}
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private getNewMessageEmailTemplate(
+    userName: string,
+    senderName: string,
+    listingTitle: string,
+    excerpt: string,
+    conversationUrl: string,
+    locale: Locale,
+    unsubscribeUrl?: string
+  ): string {
+    const t = (key: string, params?: Record<string, string | number>) => translate(locale, `email.message.${key}`, params);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${locale}">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${t('heading')}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: #10b981; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 26px;">${t('heading')}</h1>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: this.escapeHtml(userName) })}</h2>
+
+            <p>${t('intro', { name: this.escapeHtml(senderName), title: this.escapeHtml(listingTitle) })}</p>
+
+            <div style="background: #fff; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0; color: #1e293b;">${this.escapeHtml(excerpt).replace(/\n/g, '<br>')}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${conversationUrl}"
+                 style="background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
+                ${t('button')}
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+
+            <p style="color: #64748b; font-size: 14px;">
+              ${t('privacy')}
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
+            <p>${translate(locale, 'email.footer')}</p>
+            ${this.getUnsubscribeFooter(locale, unsubscribeUrl)}
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private getListingClaimCodeEmailTemplate(
+    claimantName: string,
+    listingTitle: string,
+    code: string,
+    locale: Locale
+  ): string {
+    const t = (key: string, params?: Record<string, string | number>) => translate(locale, `email.claimCode.${key}`, params);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${locale}">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${t('heading')}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: #10b981; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 26px;">${t('heading')}</h1>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <p>${t('intro', { name: this.escapeHtml(claimantName), title: this.escapeHtml(listingTitle) })}</p>
+
+            <p>${t('action')}</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <span style="background: #fff; border: 2px dashed #10b981; padding: 15px 30px; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 28px; letter-spacing: 6px; color: #1e293b;">
+                ${code}
+              </span>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+
+            <p style="color: #64748b; font-size: 14px; margin: 0;">
+              ${t('expiry')}
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
+            <p>${translate(locale, 'email.footer')}</p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private getListingClaimDecisionEmailTemplate(
+    userName: string,
+    listingTitle: string,
+    approved: boolean,
+    note: string | null,
+    manageUrl: string,
+    locale: Locale,
+    unsubscribeUrl?: string
+  ): string {
+    const t = (key: string) => translate(locale, `email.claimDecision.${key}`);
+    const heading = approved ? t('approveHeading') : t('rejectHeading');
+    const color = approved ? '#10b981' : '#dc2626';
+
+    const noteBlock = note ? `
+            <div style="background: #fff; border-left: 4px solid ${color}; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0; color: #475569;"><strong>${translate(locale, 'email.moderation.noteLabel')}</strong></p>
+              <p style="margin: 5px 0 0 0; color: #1e293b;">${this.escapeHtml(note)}</p>
+            </div>` : '';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${locale}">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${heading}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: ${color}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 26px;">${heading}</h1>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <h2 style="color: #1e293b; margin-top: 0;">${translate(locale, 'email.greeting', { name: this.escapeHtml(userName) })}</h2>
+
+            <p>${approved ? t('approveMessage') : t('rejectMessage')}</p>
+
+            <p style="color: #475569;"><strong>${translate(locale, 'email.moderation.listingLabel')}</strong> ${this.escapeHtml(listingTitle)}</p>
+            ${noteBlock}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${manageUrl}"
+                 style="background: ${color}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
+                ${translate(locale, 'email.moderation.viewButton')}
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+
+            <p style="color: #64748b; font-size: 14px;">
+              ${translate(locale, 'email.moderation.questions')}
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 20px; color: #64748b; font-size: 12px;">
+            <p>${translate(locale, 'email.footer')}</p>
+            ${this.getUnsubscribeFooter(locale, unsubscribeUrl)}
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Null when the recipient turned the category off. Addresses without an
+   * account get the email without unsubscribe links.
+   */
+  private async prepareDelivery(to: string, category: EmailCategory): Promise<OptionalEmailDelivery | null> {
+    if (!this.preferences) {
+      return {};
+    }
+
+    const recipient = await this.preferences.getEmailRecipient(to);
+    if (!recipient) {
+      return {};
+    }
+    if (!recipient.preferences.emailNotifications[category]) {
+      console.log(`Skipping ${category} email to a recipient who turned it off`);
+      return null;
+    }
+
+    // RFC 8058 one-click unsubscribe: mail clients POST to the URL without a login
+    const unsubscribeUrl = await this.preferences.getUnsubscribeUrl(recipient.userId, category);
+    return {
+      unsubscribeUrl,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    };
+  }
+
+  private getUnsubscribeFooter(locale: Locale, unsubscribeUrl?: string): string {
+    return unsubscribeUrl
+      ? `<p><a href="${unsubscribeUrl}" style="color: #64748b;">${translate(locale, 'email.unsubscribe')}</a></p>`
+      : '';
+  }
+
+  // Listing titles, search names, moderator notes, messages and claimant names are user-supplied
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
 }
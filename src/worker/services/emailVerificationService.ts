@@ -1,4 +1,5 @@
 import { EmailService } from './emailService';
+import { Locale, DEFAULT_LOCALE, isSupportedLocale, translate } from '../i18n';
 import {
   EmailLog,
   User,
@@ -9,9 +10,9 @@ export class EmailVerificationService {
   private emailService: EmailService;
   private db: D1Database;
 
-  constructor(db: D1Database, resendApiKey: string) {
+  constructor(db: D1Database, emailService: EmailService) {
     this.db = db;
-    this.emailService = new EmailService(resendApiKey);
+    this.emailService = emailService;
   }
 
   /**
@@ -80,7 +81,8 @@ export class EmailVerificationService {
       const emailResult = await this.emailService.sendVerificationEmail(
         user.email,
         token,
-        user.firstName
+        user.firstName,
+        user.locale
       );
 
       console.log('📧 Email result:', {
@@ -96,7 +98,7 @@ export class EmailVerificationService {
           userId: user.id,
           emailType: 'verification',
           recipientEmail: user.email,
-          subject: 'Verify your Kisigua account',
+          subject: translate(user.locale || DEFAULT_LOCALE, 'email.verification.subject'),
           resendMessageId: emailResult.messageId,
           status: emailResult.success ? 'sent' : 'failed',
           errorMessage: emailResult.error,
@@ -192,9 +194,11 @@ export class EmailVerificationService {
       }
 
       // Send welcome email
+      const locale = isSupportedLocale(userResult.locale) ? userResult.locale : DEFAULT_LOCALE;
       await this.emailService.sendWelcomeEmail(
         userResult.email as string,
-        userResult.first_name as string
+        userResult.first_name as string,
+        locale
       );
 
       // Log welcome email
@@ -203,7 +207,7 @@ export class EmailVerificationService {
         userId: userResult.id as string,
         emailType: 'welcome',
         recipientEmail: userResult.email as string,
-        subject: 'Welcome to Kisigua - Your sustainable community awaits!',
+        subject: translate(locale, 'email.welcome.subject'),
         status: 'sent',
         sentAt: new Date().toISOString()
       });
@@ -222,9 +226,9 @@ export class EmailVerificationService {
   }
 
   /**
-   * Send password reset email
+   * Send password reset email, in the user's language or the requester's if none is saved
    */
-  async sendPasswordReset(email: string): Promise<{ success: boolean; error?: string }> {
+  async sendPasswordReset(email: string, fallbackLocale: Locale = DEFAULT_LOCALE): Promise<{ success: boolean; error?: string }> {
     try {
       // Find user by email
       const userResult = await this.db.prepare(`
@@ -255,10 +259,12 @@ export class EmailVerificationService {
       `).bind(token, expiresAt, userResult.id).run();
 
       // Send email
+      const locale = isSupportedLocale(userResult.locale) ? userResult.locale : fallbackLocale;
       const emailResult = await this.emailService.sendPasswordResetEmail(
         email,
         token,
-        userResult.first_name as string
+        userResult.first_name as string,
+        locale
       );
 
       // Log email
@@ -267,7 +273,7 @@ export class EmailVerificationService {
         userId: userResult.id as string,
         emailType: 'password_reset',
         recipientEmail: email,
-        subject: 'Reset your Kisigua password',
+        subject: translate(locale, 'email.passwordReset.subject'),
         resendMessageId: emailResult.messageId,
         status: emailResult.success ? 'sent' : 'failed',
         errorMessage: emailResult.error,
@@ -325,7 +331,7 @@ export class EmailVerificationService {
   /**
    * Resend verification email
    */
-  async resendVerification(email: string): Promise<{ success: boolean; error?: string }> {
+  async resendVerification(email: string, fallbackLocale: Locale = DEFAULT_LOCALE): Promise<{ success: boolean; error?: string }> {
     try {
       console.log('🔄 Resending verification for email:', email);
 
@@ -382,7 +388,8 @@ export class EmailVerificationService {
         isActive: Boolean(userResult.is_active),
         createdAt: userResult.created_at as string,
         updatedAt: userResult.updated_at as string,
-        lastLoginAt: userResult.last_login_at as string
+        lastLoginAt: userResult.last_login_at as string,
+        locale: isSupportedLocale(userResult.locale) ? userResult.locale : fallbackLocale
       };
 
       console.log('📧 Sending verification email to user:', user.firstName, user.email);
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Env } from '../types/env';
+import { createEmbeddingProvider, LocalHashingEmbeddingProvider } from './embeddingProviders';
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(dot(vector, vector));
+}
+
+describe('LocalHashingEmbeddingProvider', () => {
+  const provider = new LocalHashingEmbeddingProvider();
+
+  it('returns the same vector for the same text, also across instances', async () => {
+    const [first] = await provider.embed(['Fresh organic eggs from the farm']);
+    const [again] = await new LocalHashingEmbeddingProvider().embed(['Fresh organic eggs from the farm']);
+
+    expect(again).toEqual(first);
+  });
+
+  it('returns one vector per text with the configured dimensions', async () => {
+    const vectors = await new LocalHashingEmbeddingProvider(64).embed(['eggs', 'milk', 'honey']);
+
+    expect(vectors).toHaveLength(3);
+    vectors.forEach(vector => expect(vector).toHaveLength(64));
+    expect(provider.dimensions).toBe(1536);
+    expect(await provider.embed([])).toEqual([]);
+  });
+
+  it('returns unit vectors, and a zero vector for text without words', async () => {
+    const [words, punctuation] = await provider.embed(['Raw milk vending machine', '  ?! ']);
+
+    expect(norm(words)).toBeCloseTo(1, 10);
+    expect(punctuation.every(value => value === 0)).toBe(true);
+  });
+
+  it('ignores case and accents', async () => {
+    const [plain, accented] = await provider.embed(['cafe creme', 'Café Crème']);
+    expect(accented).toEqual(plain);
+  });
+
+  it('scores shared words and near-spellings above unrelated text', async () => {
+    const [query, related, misspelled, unrelated] = await provider.embed([
+      'organic vegetables',
+      'fresh organic vegetables from the farm',
+      'organik vegetable',
+      'bicycle repair workshop'
+    ]);
+
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+    expect(dot(query, misspelled)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  const ai = {} as Ai;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the provider named in EMBEDDING_PROVIDER', () => {
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'local', OPENAI_API_KEY: 'sk-test' } as Env).name).toBe('local');
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'Workers-AI', AI: ai } as Env).name).toBe('workers-ai');
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'openai', AI: ai } as Env).name).toBe('openai');
+  });
+
+  it('sizes local vectors from EMBEDDING_DIMENSIONS', () => {
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'local', EMBEDDING_DIMENSIONS: '384' } as Env).dimensions).toBe(384);
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'local', EMBEDDING_DIMENSIONS: 'many' } as Env).dimensions).toBe(1536);
+  });
+
+  it('prefers OpenAI, then Workers AI, then the local provider when none is named', () => {
+    expect(createEmbeddingProvider({ OPENAI_API_KEY: 'sk-test', AI: ai } as Env).name).toBe('openai');
+    expect(createEmbeddingProvider({ AI: ai } as Env).name).toBe('workers-ai');
+    expect(createEmbeddingProvider({} as Env).name).toBe('local');
+  });
+
+  it('chooses automatically for an unknown provider name', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createEmbeddingProvider({ EMBEDDING_PROVIDER: 'cohere' } as Env).name).toBe('local');
+    expect(warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { Env } from '../types/env';
+
+export type EmbeddingProviderName = 'openai' | 'workers-ai' | 'local';
+
+/**
+ * A source of text embeddings. Vectors from different providers (or models)
+ * live in different spaces and must never be compared with each other.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+    index: number;
+    object: string;
+  }>;
+  model: string;
+  object: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Matches the dimensions of the production Vectorize index
+const DEFAULT_DIMENSIONS = 1536;
+
+/**
+ * OpenAI text-embedding-3-small
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model = 'text-embedding-3-small';
+  readonly dimensions = 1536;
+
+  constructor(private apiKey: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: texts,
+        model: this.model,
+        encoding_format: 'float'
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+    }
+
+    const data: OpenAIEmbeddingResponse = await response.json();
+
+    if (!data.data || data.data.length === 0) {
+      throw new Error('No embedding data received from OpenAI');
+    }
+
+    // Sort by index to maintain order
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Cloudflare Workers AI bge-m3 (multilingual, 1024 dimensions).
+ * Needs an AI binding and a Vectorize index created with 1024 dimensions.
+ */
+export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'workers-ai' as const;
+  readonly model = '@cf/baai/bge-m3';
+  readonly dimensions = 1024;
+
+  constructor(private ai: Ai | undefined) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.ai) {
+      throw new Error('Workers AI binding not configured');
+    }
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const output = await this.ai.run(this.model, { text: texts, truncate_inputs: true });
+    if (!output || !('data' in output) || !output.data || output.data.length !== texts.length) {
+      throw new Error('No embedding data received from Workers AI');
+    }
+
+    return output.data;
+  }
+}
+
+/**
+ * Deterministic offline embeddings using signed feature hashing of words, word
+ * bigrams and character trigrams with sublinear term frequency. No network and
+ * no model, so dev, test and CI get stable vectors where shared vocabulary and
+ * near-spellings score as similar.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = 'hashing-v1';
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const counts = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    const words = text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+    words.forEach((word, index) => {
+      addFeature(`w:${word}`, 1);
+      if (index > 0) {
+        addFeature(`b:${words[index - 1]} ${word}`, 0.5);
+      }
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    for (const [feature, count] of counts) {
+      const hash = this.hash(feature);
+      const index = hash % this.dimensions;
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(1 + count));
+    }
+
+    // L2-normalise so cosine similarity equals the dot product
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  // 32-bit FNV-1a
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Pick the provider from EMBEDDING_PROVIDER, falling back to OpenAI when a key
+ * is configured, then Workers AI when bound, then the local provider
+ */
+export const createEmbeddingProvider = (env: Env): EmbeddingProvider => {
+  const configured = (env.EMBEDDING_PROVIDER || '').toLowerCase();
+  const localDimensions = parseInt(env.EMBEDDING_DIMENSIONS || '') || DEFAULT_DIMENSIONS;
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(env.OPENAI_API_KEY || '');
+    case 'workers-ai':
+      return new WorkersAIEmbeddingProvider(env.AI);
+    case 'local':
+      return new LocalHashingEmbeddingProvider(localDimensions);
+    case '':
+      break;
+    default:
+      console.warn(`Unknown EMBEDDING_PROVIDER "${env.EMBEDDING_PROVIDER}", choosing automatically`);
+  }
+
+  if (env.OPENAI_API_KEY) {
+    return new OpenAIEmbeddingProvider(env.OPENAI_API_KEY);
+  }
+  if (env.AI) {
+    return new WorkersAIEmbeddingProvider(env.AI);
+  }
+  return new LocalHashingEmbeddingProvider(localDimensions);
+};
@@ -1,4 +1,7 @@
 import { Env } from '../types/env';
+import { EmbeddingProvider, EmbeddingProviderName, createEmbeddingProvider } from './embeddingProviders';
+import { ListingTranslation } from '../types/listings';
+import { htmlToPlainText } from './htmlSanitizer';
 
 export interface EmbeddingVector {
   id: string;
@@ -12,6 +15,9 @@ export interface EmbeddingVector {
     tags: string[];
     createdAt: string;
     updatedAt: string;
+    provider: EmbeddingProviderName;
+    model: string;
+    dimensions: number;
   };
 }
 
@@ -21,63 +27,33 @@ export interface SearchResult {
   metadata: EmbeddingVector['metadata'];
 }
 
-export interface EmbeddingResponse {
-  data: Array<{
-    embedding: number[];
-    index: number;
-    object: string;
-  }>;
-  model: string;
-  object: string;
-  usage: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
-}
-
 export class EmbeddingService {
   private env: Env;
-  private openaiApiKey: string;
+  private provider: EmbeddingProvider;
 
-  constructor(env: Env) {
+  constructor(env: Env, provider?: EmbeddingProvider) {
     this.env = env;
-    this.openaiApiKey = env.OPENAI_API_KEY || '';
+    this.provider = provider || createEmbeddingProvider(env);
   }
 
   /**
-   * Generate embeddings for text using OpenAI's text-embedding-3-small model
+   * The provider generating embeddings for this environment
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+  getProviderInfo(): { provider: EmbeddingProviderName; model: string; dimensions: number } {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: this.provider.dimensions
+    };
+  }
 
+  /**
+   * Generate embeddings for text using the configured provider
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          input: text,
-          model: 'text-embedding-3-small', // 1536 dimensions, cost-effective
-          encoding_format: 'float'
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-      }
-
-      const data: EmbeddingResponse = await response.json();
-      
-      if (!data.data || data.data.length === 0) {
-        throw new Error('No embedding data received from OpenAI');
-      }
-
-      return data.data[0].embedding;
+      const [embedding] = await this.provider.embed([text]);
+      return embedding;
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw error;
@@ -88,43 +64,12 @@ export class EmbeddingService {
    * Generate embeddings for multiple texts in batch
    */
   async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    if (!this.openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
     if (texts.length === 0) {
       return [];
     }
 
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          input: texts,
-          model: 'text-embedding-3-small',
-          encoding_format: 'float'
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-      }
-
-      const data: EmbeddingResponse = await response.json();
-      
-      if (!data.data || data.data.length === 0) {
-        throw new Error('No embedding data received from OpenAI');
-      }
-
-      // Sort by index to maintain order
-      return data.data
-        .sort((a, b) => a.index - b.index)
-        .map(item => item.embedding);
+      return await this.provider.embed(texts);
     } catch (error) {
       console.error('Error generating batch embeddings:', error);
       throw error;
@@ -137,13 +82,17 @@ export class EmbeddingService {
   createSearchableText(listing: any): string {
     const parts = [
       listing.title || '',
-      listing.description || '',
+      htmlToPlainText(listing.description),
       listing.category || '',
       listing.location?.city || '',
       listing.location?.address || '',
       ...(listing.tags || []),
       listing.sustainability_practices || '',
-      listing.certifications || ''
+      listing.certifications || '',
+      // Other languages, so a query in any of them finds the listing
+      ...Object.entries<ListingTranslation>(listing.translations || {})
+        .filter(([locale]) => locale !== listing.primaryLocale)
+        .map(([, translation]) => `${translation.title} ${htmlToPlainText(translation.description)}`)
     ].filter(Boolean);
 
     return parts.join(' ').trim();
@@ -202,11 +151,15 @@ export class EmbeddingService {
         returnMetadata: true
       });
 
-      return results.matches.map(match => ({
-        id: match.id,
-        score: match.score,
-        metadata: match.metadata as EmbeddingVector['metadata']
-      }));
+      // Vectors from another provider live in a different space; vectors stored
+      // before providers were recorded came from OpenAI
+      return results.matches
+        .filter(match => ((match.metadata?.provider as string) || 'openai') === this.provider.name)
+        .map(match => ({
+          id: match.id,
+          score: match.score,
+          metadata: match.metadata as EmbeddingVector['metadata']
+        }));
     } catch (error) {
       console.error('Error searching similar vectors:', error);
       throw error;
@@ -249,7 +202,7 @@ export class EmbeddingService {
   async getIndexStats(): Promise<any> {
     try {
       const stats = await this.env.VECTORIZE.describe();
-      return stats;
+      return { ...stats, ...this.getProviderInfo() };
     } catch (error) {
       console.error('Error getting index stats:', error);
       throw error;
@@ -270,12 +223,15 @@ export class EmbeddingService {
         metadata: {
           listingId: listing.id,
           title: listing.title || '',
-          description: listing.description || '',
+          description: htmlToPlainText(listing.description),
           category: listing.category || '',
           location: `${listing.location?.city || ''}, ${listing.location?.address || ''}`.trim(),
           tags: listing.tags || [],
           createdAt: listing.created_at || new Date().toISOString(),
-          updatedAt: listing.updated_at || new Date().toISOString()
+          updatedAt: listing.updated_at || new Date().toISOString(),
+          provider: this.provider.name,
+          model: this.provider.model,
+          dimensions: this.provider.dimensions
         }
       };
 
@@ -308,12 +264,15 @@ export class EmbeddingService {
         metadata: {
           listingId: listing.id,
           title: listing.title || '',
-          description: listing.description || '',
+          description: htmlToPlainText(listing.description),
           category: listing.category || '',
           location: `${listing.location?.city || ''}, ${listing.location?.address || ''}`.trim(),
           tags: listing.tags || [],
           createdAt: listing.created_at || new Date().toISOString(),
-          updatedAt: listing.updated_at || new Date().toISOString()
+          updatedAt: listing.updated_at || new Date().toISOString(),
+          provider: this.provider.name,
+          model: this.provider.model,
+          dimensions: this.provider.dimensions
         }
       }));
 
@@ -0,0 +1,272 @@
+import { EmbeddingService } from './embeddingService';
+import { DatabaseService } from './databaseService';
+import { Listing } from '../types/listings';
+
+// Jobs that fail this many times stay in the queue as failed until retried by an admin
+const MAX_ATTEMPTS = 5;
+const MAX_BACKOFF_MINUTES = 60;
+
+interface EmbeddingJob {
+  listing_id: string;
+  operation: 'upsert' | 'delete';
+  version: number;
+  attempts: number;
+}
+
+export interface EmbeddingDrainResult {
+  processed: number;
+  deleted: number;
+  failed: number;
+}
+
+export interface EmbeddingBacklogStats {
+  pending: number;
+  retrying: number;
+  failed: number;
+  oldestPendingAt: string | null;
+  lastError: string | null;
+  embeddedListings: number;
+  missingVectors: number;
+  staleVectors: number;
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Drains the embedding_jobs outbox. Jobs are written by triggers whenever a listing
+ * or its tags change, and processed in batches by the cron handler.
+ */
+export class EmbeddingSyncService {
+  private db: D1Database;
+  private embeddingService: EmbeddingService;
+  private databaseService: DatabaseService;
+
+  constructor(db: D1Database, embeddingService: EmbeddingService, databaseService: DatabaseService) {
+    this.db = db;
+    this.embeddingService = embeddingService;
+    this.databaseService = databaseService;
+  }
+
+  /**
+   * Queue listings for (re-)embedding, e.g. for a full re-index
+   */
+  async enqueue(listingIds: string[]): Promise<number> {
+    if (listingIds.length === 0) {
+      return 0;
+    }
+
+    const statements = listingIds.map(listingId => this.db.prepare(`
+      INSERT INTO embedding_jobs (listing_id, operation) VALUES (?, 'upsert')
+      ON CONFLICT(listing_id) DO UPDATE SET
+        version = version + 1, attempts = 0, last_error = NULL,
+        enqueued_at = CURRENT_TIMESTAMP, available_at = CURRENT_TIMESTAMP
+    `).bind(listingId));
+
+    await this.db.batch(statements);
+    return listingIds.length;
+  }
+
+  /**
+   * Queue every active listing whose vector is missing, outdated or from another provider
+   */
+  async enqueueStale(): Promise<number> {
+    const { provider } = this.embeddingService.getProviderInfo();
+    const result = await this.db.prepare(`
+      SELECT l.id FROM listings l
+      LEFT JOIN listing_embeddings e ON e.listing_id = l.id
+      WHERE l.status = 'active'
+        AND (e.listing_id IS NULL
+          OR julianday(e.listing_updated_at) < julianday(l.updated_at)
+          OR e.provider != ?)
+    `).bind(provider).all();
+
+    return this.enqueue((result.results || []).map(row => row.id as string));
+  }
+
+  /**
+   * Give failed jobs a fresh set of attempts
+   */
+  async retryFailed(): Promise<number> {
+    const result = await this.db.prepare(`
+      UPDATE embedding_jobs SET attempts = 0, available_at = CURRENT_TIMESTAMP
+      WHERE attempts >= ?
+    `).bind(MAX_ATTEMPTS).run();
+    return result.meta?.changes || 0;
+  }
+
+  /**
+   * Process due jobs in batches until the queue is empty or maxBatches is reached
+   */
+  async drain(batchSize: number = 20, maxBatches: number = 5): Promise<EmbeddingDrainResult> {
+    const totals: EmbeddingDrainResult = { processed: 0, deleted: 0, failed: 0 };
+
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const result = await this.db.prepare(`
+        SELECT listing_id, operation, version, attempts FROM embedding_jobs
+        WHERE attempts < ? AND available_at <= CURRENT_TIMESTAMP
+        ORDER BY available_at ASC
+        LIMIT ?
+      `).bind(MAX_ATTEMPTS, batchSize).all();
+
+      const jobs = (result.results || []) as unknown as EmbeddingJob[];
+      if (jobs.length === 0) {
+        break;
+      }
+
+      const batchResult = await this.processJobs(jobs);
+      totals.processed += batchResult.processed;
+      totals.deleted += batchResult.deleted;
+      totals.failed += batchResult.failed;
+
+      if (jobs.length < batchSize) {
+        break;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Sync one listing immediately instead of waiting for the next cron run
+   */
+  async syncNow(listingId: string): Promise<EmbeddingDrainResult> {
+    await this.enqueue([listingId]);
+    const job = await this.db.prepare(
+      'SELECT listing_id, operation, version, attempts FROM embedding_jobs WHERE listing_id = ?'
+    ).bind(listingId).first();
+
+    return this.processJobs(job ? [job as unknown as EmbeddingJob] : []);
+  }
+
+  async getBacklogStats(): Promise<EmbeddingBacklogStats> {
+    const providerInfo = this.embeddingService.getProviderInfo();
+
+    const [queue, lastError, vectors] = await Promise.all([
+      this.db.prepare(`
+        SELECT
+          SUM(CASE WHEN attempts = 0 THEN 1 ELSE 0 END) as pending,
+          SUM(CASE WHEN attempts > 0 AND attempts < ? THEN 1 ELSE 0 END) as retrying,
+          SUM(CASE WHEN attempts >= ? THEN 1 ELSE 0 END) as failed,
+          MIN(enqueued_at) as oldest
+        FROM embedding_jobs
+      `).bind(MAX_ATTEMPTS, MAX_ATTEMPTS).first(),
+      this.db.prepare(`
+        SELECT last_error FROM embedding_jobs
+        WHERE last_error IS NOT NULL
+        ORDER BY available_at DESC
+        LIMIT 1
+      `).first(),
+      this.db.prepare(`
+        SELECT
+          SUM(CASE WHEN e.listing_id IS NOT NULL THEN 1 ELSE 0 END) as embedded,
+          SUM(CASE WHEN e.listing_id IS NULL THEN 1 ELSE 0 END) as missing,
+          SUM(CASE WHEN e.listing_id IS NOT NULL
+            AND (julianday(e.listing_updated_at) < julianday(l.updated_at) OR e.provider != ?)
+            THEN 1 ELSE 0 END) as stale
+        FROM listings l
+        LEFT JOIN listing_embeddings e ON e.listing_id = l.id
+        WHERE l.status = 'active'
+      `).bind(providerInfo.provider).first()
+    ]);
+
+    return {
+      pending: (queue?.pending as number) || 0,
+      retrying: (queue?.retrying as number) || 0,
+      failed: (queue?.failed as number) || 0,
+      oldestPendingAt: (queue?.oldest as string) || null,
+      lastError: (lastError?.last_error as string) || null,
+      embeddedListings: (vectors?.embedded as number) || 0,
+      missingVectors: (vectors?.missing as number) || 0,
+      staleVectors: (vectors?.stale as number) || 0,
+      ...providerInfo
+    };
+  }
+
+  private async processJobs(jobs: EmbeddingJob[]): Promise<EmbeddingDrainResult> {
+    const result: EmbeddingDrainResult = { processed: 0, deleted: 0, failed: 0 };
+    if (jobs.length === 0) {
+      return result;
+    }
+
+    // Decide from the listing's current state, not the queued operation
+    const listings = await Promise.all(
+      jobs.map(job => this.databaseService.getFullListingById(job.listing_id))
+    );
+
+    const upserts: Array<{ job: EmbeddingJob; listing: Listing }> = [];
+    const deletes: EmbeddingJob[] = [];
+    jobs.forEach((job, index) => {
+      const listing = listings[index];
+      if (listing && listing.status === 'active') {
+        upserts.push({ job, listing });
+      } else {
+        deletes.push(job);
+      }
+    });
+
+    if (upserts.length > 0) {
+      try {
+        await this.embeddingService.processBatchListingEmbeddings(upserts.map(({ listing }) => listing));
+        await this.recordEmbeddings(upserts.map(({ listing }) => listing));
+        await this.completeJobs(upserts.map(({ job }) => job));
+        result.processed += upserts.length;
+      } catch (error) {
+        console.error('❌ Embedding batch failed:', error);
+        await this.failJobs(upserts.map(({ job }) => job), error);
+        result.failed += upserts.length;
+      }
+    }
+
+    if (deletes.length > 0) {
+      try {
+        await this.embeddingService.deleteBatchEmbeddings(deletes.map(job => `listing_${job.listing_id}`));
+        await this.db.batch(deletes.map(job =>
+          this.db.prepare('DELETE FROM listing_embeddings WHERE listing_id = ?').bind(job.listing_id)
+        ));
+        await this.completeJobs(deletes);
+        result.deleted += deletes.length;
+      } catch (error) {
+        console.error('❌ Embedding delete batch failed:', error);
+        await this.failJobs(deletes, error);
+        result.failed += deletes.length;
+      }
+    }
+
+    return result;
+  }
+
+  private async recordEmbeddings(listings: Listing[]): Promise<void> {
+    const { provider, model, dimensions } = this.embeddingService.getProviderInfo();
+    await this.db.batch(listings.map(listing => this.db.prepare(`
+      INSERT INTO listing_embeddings (listing_id, vector_id, provider, model, dimensions, listing_updated_at, embedded_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(listing_id) DO UPDATE SET
+        vector_id = excluded.vector_id,
+        provider = excluded.provider,
+        model = excluded.model,
+        dimensions = excluded.dimensions,
+        listing_updated_at = excluded.listing_updated_at,
+        embedded_at = CURRENT_TIMESTAMP
+    `).bind(listing.id, `listing_${listing.id}`, provider, model, dimensions, listing.updatedAt)));
+  }
+
+  // Only remove the version we processed; an edit during the drain re-queued a newer one
+  private async completeJobs(jobs: EmbeddingJob[]): Promise<void> {
+    await this.db.batch(jobs.map(job =>
+      this.db.prepare('DELETE FROM embedding_jobs WHERE listing_id = ? AND version = ?').bind(job.listing_id, job.version)
+    ));
+  }
+
+  private async failJobs(jobs: EmbeddingJob[], error: unknown): Promise<void> {
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, 500);
+    await this.db.batch(jobs.map(job => {
+      const backoffMinutes = Math.min(2 ** job.attempts, MAX_BACKOFF_MINUTES);
+      return this.db.prepare(`
+        UPDATE embedding_jobs
+        SET attempts = attempts + 1, last_error = ?, available_at = datetime('now', ?)
+        WHERE listing_id = ? AND version = ?
+      `).bind(message, `+${backoffMinutes} minutes`, job.listing_id, job.version);
+    }));
+  }
+}
@@ -1,6 +1,22 @@
 // import { D1Database } from '@cloudflare/workers-types';
 type D1Database = any;
 
+import { htmlToPlainText, storedDescriptionHtml } from './htmlSanitizer';
+import { coarsenCoordinate } from './listingMapService';
+import { isRecord } from './utils';
+
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+// Listings per collection, which keeps public pages and exports a sensible size
+export const MAX_COLLECTION_LISTINGS = 200;
+
+export const COLLECTION_EXPORT_FORMATS = ['gpx', 'geojson'] as const;
+export type CollectionExportFormat = typeof COLLECTION_EXPORT_FORMATS[number];
+
+const DEFAULT_COLLECTION_COLOR = '#10B981';
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_SLUG_LENGTH = 60;
+
 export interface Favorite {
   id: string;
   userId: string;
@@ -19,6 +35,45 @@ export interface FavoriteCollection {
   createdAt: string;
   updatedAt: string;
   listingCount?: number;
+  slug?: string; // Share URL path, set once the collection has been public
+  listingIds?: string[]; // In the owner's order
+}
+
+export interface CollectionRequest {
+  name?: string;
+  description?: string | null;
+  color?: string;
+  isPublic?: boolean;
+}
+
+export interface CollectionListing {
+  id: string;
+  title: string;
+  description: string; // Plain text
+  category: string;
+  address: string; // City and country only when the owner hides the address
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  thumbnail?: string;
+  isVerified: boolean;
+  addedAt: string;
+}
+
+export interface CollectionWithListings extends FavoriteCollection {
+  listings: CollectionListing[];
+}
+
+// What anyone with the link sees: no owner ids or private details
+export interface PublicCollection {
+  slug: string;
+  name: string;
+  description?: string;
+  color: string;
+  ownerName: string;
+  updatedAt: string;
+  listings: CollectionListing[];
 }
 
 export interface FavoriteWithListing {
@@ -49,6 +104,183 @@ export interface FavoriteWithListing {
   };
 }
 
+interface DatabaseCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  is_public: number | boolean;
+  slug: string | null;
+  created_at: string;
+  updated_at: string;
+  listing_count?: number;
+  listing_ids?: string | null;
+}
+
+interface DatabaseCollectionListing {
+  id: string;
+  title: string;
+  description: string | null;
+  description_text: string | null;
+  category: string;
+  address: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  hide_address: number | boolean;
+  is_verified: number | boolean;
+  thumbnail: string | null;
+  added_at: string;
+}
+
+export function isCollectionExportFormat(value: unknown): value is CollectionExportFormat {
+  return typeof value === 'string' && (COLLECTION_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a create (all fields) or update (only the fields given) request. An empty
+ * description clears it.
+ */
+export function parseCollectionRequest(body: unknown, partial: boolean): CollectionRequest | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const { name, description, color, isPublic } = body;
+  const request: CollectionRequest = {};
+
+  if (name !== undefined || !partial) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_COLLECTION_NAME_LENGTH) {
+      return null;
+    }
+    request.name = trimmed;
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string' || description.trim().length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      return null;
+    }
+    request.description = description.trim() || null;
+  } else if (description === null) {
+    request.description = null;
+  }
+
+  if (color !== undefined) {
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+      return null;
+    }
+    request.color = color.toUpperCase();
+  }
+
+  if (isPublic !== undefined) {
+    if (typeof isPublic !== 'boolean') {
+      return null;
+    }
+    request.isPublic = isPublic;
+  }
+
+  return request;
+}
+
+/**
+ * The new order of a collection: every listing id in it, each once.
+ */
+export function parseCollectionOrder(body: unknown): string[] | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const { listingIds } = body;
+  if (!Array.isArray(listingIds) || listingIds.length > MAX_COLLECTION_LISTINGS ||
+      !listingIds.every(id => typeof id === 'string' && id) ||
+      new Set(listingIds).size !== listingIds.length) {
+    return null;
+  }
+  return listingIds as string[];
+}
+
+/**
+ * URL slug from a collection name, e.g. "Best milk vending machines in Allgäu"
+ * becomes "best-milk-vending-machines-in-allgau".
+ */
+export function slugifyCollectionName(name: string): string {
+  return name
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * A collection as a GeoJSON FeatureCollection, one Point feature per listing.
+ */
+export function collectionToGeoJson(collection: { name: string; description?: string }, listings: CollectionListing[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name: collection.name,
+    description: collection.description || undefined,
+    features: listings.map(listing => ({
+      type: 'Feature',
+      id: listing.id,
+      geometry: {
+        type: 'Point',
+        coordinates: [listing.longitude, listing.latitude]
+      },
+      properties: {
+        id: listing.id,
+        title: listing.title,
+        description: listing.description,
+        category: listing.category,
+        address: listing.address,
+        city: listing.city,
+        country: listing.country
+      }
+    }))
+  }, null, 2);
+}
+
+/**
+ * A collection as GPX 1.1 waypoints, in the collection's order.
+ */
+export function collectionToGpx(collection: { name: string; description?: string }, listings: CollectionListing[]): string {
+  const waypoints = listings.map(listing => [
+    `  <wpt lat="${listing.latitude}" lon="${listing.longitude}">`,
+    `    <name>${escapeXml(listing.title)}</name>`,
+    `    <cmt>${escapeXml(listing.address)}</cmt>`,
+    listing.description ? `    <desc>${escapeXml(listing.description)}</desc>` : null,
+    `    <type>${escapeXml(listing.category)}</type>`,
+    '  </wpt>'
+  ].filter(line => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Kisigua" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(collection.name)}</name>`,
+    collection.description ? `    <desc>${escapeXml(collection.description)}</desc>` : null,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    '</gpx>',
+    ''
+  ].filter(line => line !== null).join('\n');
+}
+
 export class FavoritesService {
   constructor(private db: D1Database) {}
 
@@ -114,6 +346,7 @@ export class FavoritesService {
           l.id as listing_id,
           l.title,
           l.description,
+          l.description_text,
           l.category,
           l.address,
           l.city,
@@ -122,7 +355,7 @@ export class FavoritesService {
           l.longitude,
           l.user_id as created_by,
           l.created_at as listing_created_at,
-          l.is_certified as is_verified,
+          l.is_verified,
           l.featured as is_featured,
           l.views
         FROM favorites f
@@ -141,7 +374,7 @@ export class FavoritesService {
         listing: {
           id: row.listing_id as string,
           title: row.title as string,
-          description: row.description as string,
+          description: storedDescriptionHtml(row.description, row.description_text),
           category: row.category as string,
           location: row.address as string,
           city: row.city as string,
@@ -181,9 +414,10 @@ export class FavoritesService {
 
   async createCollection(userId: string, name: string, description?: string, color?: string, isPublic?: boolean): Promise<FavoriteCollection> {
     try {
+      const slug = isPublic ? await this.generateSlug(name) : null;
       const stmt = this.db.prepare(`
-        INSERT INTO favorite_collections (user_id, name, description, color, is_public)
-        VALUES (?, ?, ?, ?, ?)
+        INSERT INTO favorite_collections (user_id, name, description, color, is_public, slug)
+        VALUES (?, ?, ?, ?, ?, ?)
         RETURNING *
       `);
       
@@ -191,24 +425,16 @@ export class FavoritesService {
         userId,
         name,
         description || null,
-        color || '#10B981',
-        isPublic || false
+        color || DEFAULT_COLLECTION_COLOR,
+        isPublic || false,
+        slug
       ).first();
       
       if (!result) {
         throw new Error('Failed to create collection');
       }
 
-      return {
-        id: result.id as string,
-        userId: result.user_id as string,
-        name: result.name as string,
-        description: result.description as string,
-        color: result.color as string,
-        isPublic: Boolean(result.is_public),
-        createdAt: result.created_at as string,
-        updatedAt: result.updated_at as string,
-      };
+      return { ...this.convertCollection(result as DatabaseCollection), listingCount: 0, listingIds: [] };
     } catch (error) {
       console.error('Error creating collection:', error);
       throw error;
@@ -218,35 +444,96 @@ export class FavoritesService {
   async getUserCollections(userId: string): Promise<FavoriteCollection[]> {
     try {
       const stmt = this.db.prepare(`
-        SELECT 
+        SELECT
           fc.*,
-          COUNT(cl.listing_id) as listing_count
+          ${this.listingIdsColumns('fc')}
         FROM favorite_collections fc
-        LEFT JOIN collection_listings cl ON fc.id = cl.collection_id
         WHERE fc.user_id = ?
-        GROUP BY fc.id
         ORDER BY fc.created_at DESC
       `);
       
       const result = await stmt.bind(userId).all();
       
-      return result.results?.map((row: any) => ({
-        id: row.id as string,
-        userId: row.user_id as string,
-        name: row.name as string,
-        description: row.description as string,
-        color: row.color as string,
-        isPublic: Boolean(row.is_public),
-        createdAt: row.created_at as string,
-        updatedAt: row.updated_at as string,
-        listingCount: row.listing_count as number || 0,
-      })) || [];
+      return ((result.results || []) as DatabaseCollection[]).map(row => this.convertCollection(row));
     } catch (error) {
       console.error('Error getting user collections:', error);
       throw error;
     }
   }
 
+  /**
+   * One of the user's own collections, null when it doesn't exist or belongs to someone else
+   */
+  async getCollection(collectionId: string, userId: string): Promise<FavoriteCollection | null> {
+    const row = await this.db.prepare(`
+      SELECT
+        fc.*,
+        ${this.listingIdsColumns('fc')}
+      FROM favorite_collections fc
+      WHERE fc.id = ? AND fc.user_id = ?
+    `).bind(collectionId, userId).first();
+
+    return row ? this.convertCollection(row as DatabaseCollection) : null;
+  }
+
+  async getCollectionWithListings(collectionId: string, userId: string): Promise<CollectionWithListings | null> {
+    const collection = await this.getCollection(collectionId, userId);
+    if (!collection) {
+      return null;
+    }
+    return { ...collection, listings: await this.getCollectionListings(collectionId, userId) };
+  }
+
+  /**
+   * Making a collection public for the first time gives it its slug
+   */
+  async updateCollection(collectionId: string, userId: string, request: CollectionRequest): Promise<FavoriteCollection | null> {
+    const current = await this.getCollection(collectionId, userId);
+    if (!current) {
+      return null;
+    }
+
+    const fields: string[] = [];
+    const values: Array<string | boolean | null> = [];
+    if (request.name !== undefined) {
+      fields.push('name = ?');
+      values.push(request.name);
+    }
+    if (request.description !== undefined) {
+      fields.push('description = ?');
+      values.push(request.description);
+    }
+    if (request.color !== undefined) {
+      fields.push('color = ?');
+      values.push(request.color);
+    }
+    if (request.isPublic !== undefined) {
+      fields.push('is_public = ?');
+      values.push(request.isPublic);
+      if (request.isPublic && !current.slug) {
+        fields.push('slug = ?');
+        values.push(await this.generateSlug(request.name ?? current.name));
+      }
+    }
+
+    if (fields.length > 0) {
+      await this.db.prepare(`
+        UPDATE favorite_collections SET ${fields.join(', ')}, updated_at = datetime('now')
+        WHERE id = ? AND user_id = ?
+      `).bind(...values, collectionId, userId).run();
+    }
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  async deleteCollection(collectionId: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM favorite_collections WHERE id = ? AND user_id = ?
+    `).bind(collectionId, userId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  // New listings go to the end of the collection
   async addToCollection(collectionId: string, listingId: string): Promise<boolean> {
     try {
       // Check if already in collection
@@ -258,13 +545,14 @@ export class FavoritesService {
         return true; // Already in collection
       }
 
-      const stmt = this.db.prepare(`
-        INSERT INTO collection_listings (collection_id, listing_id)
-        VALUES (?, ?)
-      `);
-      
-      const result = await stmt.bind(collectionId, listingId).run();
-      return result.success;
+      const result = await this.db.batch([
+        this.db.prepare(`
+          INSERT INTO collection_listings (collection_id, listing_id, position)
+          SELECT ?, ?, COALESCE(MAX(position), 0) + 1 FROM collection_listings WHERE collection_id = ?
+        `).bind(collectionId, listingId, collectionId),
+        this.touchCollection(collectionId)
+      ]);
+      return result[0].success;
     } catch (error) {
       console.error('Error adding to collection:', error);
       throw error;
@@ -273,18 +561,155 @@ export class FavoritesService {
 
   async removeFromCollection(collectionId: string, listingId: string): Promise<boolean> {
     try {
-      const stmt = this.db.prepare(
-        'DELETE FROM collection_listings WHERE collection_id = ? AND listing_id = ?'
-      );
-      
-      const result = await stmt.bind(collectionId, listingId).run();
-      return result.success;
+      const result = await this.db.batch([
+        this.db.prepare(
+          'DELETE FROM collection_listings WHERE collection_id = ? AND listing_id = ?'
+        ).bind(collectionId, listingId),
+        this.touchCollection(collectionId)
+      ]);
+      return (result[0].meta?.changes || 0) > 0;
     } catch (error) {
       console.error('Error removing from collection:', error);
       throw error;
     }
   }
 
+  /**
+   * Put a collection's listings in the given order. False when `listingIds` isn't
+   * exactly the listings in the collection.
+   */
+  async reorderCollection(collectionId: string, listingIds: string[]): Promise<boolean> {
+    const result = await this.db.prepare(
+      'SELECT listing_id FROM collection_listings WHERE collection_id = ?'
+    ).bind(collectionId).all();
+    const current = new Set(((result.results || []) as Array<{ listing_id: string }>).map(row => row.listing_id));
+
+    if (current.size !== listingIds.length || !listingIds.every(id => current.has(id))) {
+      return false;
+    }
+
+    await this.db.batch([
+      ...listingIds.map((listingId, index) => this.db.prepare(
+        'UPDATE collection_listings SET position = ? WHERE collection_id = ? AND listing_id = ?'
+      ).bind(index + 1, collectionId, listingId)),
+      this.touchCollection(collectionId)
+    ]);
+    return true;
+  }
+
+  /**
+   * A public collection by its slug, with only its active listings. Null when there is
+   * no such collection or its owner made it private again.
+   */
+  async getPublicCollection(slug: string): Promise<PublicCollection | null> {
+    const row = await this.db.prepare(`
+      SELECT fc.*, u.first_name AS owner_first_name
+      FROM favorite_collections fc
+      JOIN users u ON u.id = fc.user_id
+      WHERE fc.slug = ? AND fc.is_public = 1
+    `).bind(slug).first() as (DatabaseCollection & { owner_first_name: string | null }) | null;
+
+    if (!row) {
+      return null;
+    }
+
+    const collection = this.convertCollection(row);
+    return {
+      slug,
+      name: collection.name,
+      description: collection.description,
+      color: collection.color,
+      ownerName: row.owner_first_name || '',
+      updatedAt: collection.updatedAt,
+      listings: await this.getCollectionListings(row.id, null)
+    };
+  }
+
+  async countCollectionListings(collectionId: string): Promise<number> {
+    const result = await this.db.prepare(
+      'SELECT COUNT(*) AS count FROM collection_listings WHERE collection_id = ?'
+    ).bind(collectionId).first();
+    return (result?.count as number) || 0;
+  }
+
+  // Listings in the owner's order. Only active listings are shown, plus the viewer's own ones,
+  // so a collection can't expose other users' pending or rejected listings
+  private async getCollectionListings(collectionId: string, viewerId: string | null): Promise<CollectionListing[]> {
+    const result = await this.db.prepare(`
+      SELECT
+        l.id, l.title, l.description, l.description_text, l.category, l.address, l.city, l.country,
+        l.latitude, l.longitude, l.hide_address, l.is_verified, cl.added_at,
+        (SELECT image_url FROM listing_images WHERE listing_id = l.id ORDER BY sort_order LIMIT 1) AS thumbnail
+      FROM collection_listings cl
+      JOIN listings l ON l.id = cl.listing_id
+      WHERE cl.collection_id = ? AND (l.status = 'active' OR l.user_id = ?)
+      ORDER BY cl.position ASC, cl.added_at ASC
+    `).bind(collectionId, viewerId).all();
+
+    return ((result.results || []) as DatabaseCollectionListing[]).map(row => ({
+      id: row.id,
+      title: row.title,
+      description: row.description_text ?? htmlToPlainText(row.description),
+      category: row.category.startsWith('cat_') ? row.category.substring(4) : row.category,
+      address: row.hide_address ? `${row.city}, ${row.country}` : row.address,
+      city: row.city,
+      country: row.country,
+      latitude: row.hide_address ? coarsenCoordinate(row.latitude) : row.latitude,
+      longitude: row.hide_address ? coarsenCoordinate(row.longitude) : row.longitude,
+      thumbnail: row.thumbnail || undefined,
+      isVerified: Boolean(row.is_verified),
+      addedAt: row.added_at
+    }));
+  }
+
+  // listing_count and listing_ids (comma-separated, in order) for a collection alias
+  private listingIdsColumns(alias: string): string {
+    return `
+      (SELECT COUNT(*) FROM collection_listings WHERE collection_id = ${alias}.id) AS listing_count,
+      (SELECT group_concat(listing_id, ',') FROM (
+        SELECT listing_id FROM collection_listings WHERE collection_id = ${alias}.id ORDER BY position ASC, added_at ASC
+      )) AS listing_ids`;
+  }
+
+  private touchCollection(collectionId: string) {
+    return this.db.prepare(
+      "UPDATE favorite_collections SET updated_at = datetime('now') WHERE id = ?"
+    ).bind(collectionId);
+  }
+
+  /**
+   * Unique slug for a name, with -2, -3, ... appended when it's taken
+   */
+  private async generateSlug(name: string): Promise<string> {
+    const base = slugifyCollectionName(name) || 'collection';
+    const result = await this.db.prepare(
+      'SELECT slug FROM favorite_collections WHERE slug = ? OR slug LIKE ?'
+    ).bind(base, `${base}-%`).all();
+    const taken = new Set(((result.results || []) as Array<{ slug: string }>).map(row => row.slug));
+
+    let slug = base;
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  }
+
+  private convertCollection(row: DatabaseCollection): FavoriteCollection {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description || undefined,
+      color: row.color || DEFAULT_COLLECTION_COLOR,
+      isPublic: Boolean(row.is_public),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      listingCount: row.listing_count || 0,
+      slug: row.slug || undefined,
+      listingIds: row.listing_ids ? row.listing_ids.split(',') : []
+    };
+  }
+
   async getFavoritesCount(userId: string): Promise<number> {
     try {
       const result = await this.db.prepare(
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToPlainText, sanitizeHtml, storedDescriptionHtml } from './htmlSanitizer';
+
+describe('sanitizeHtml', () => {
+  it('drops scripts and styles together with their content', () => {
+    expect(sanitizeHtml('<p>Fresh eggs</p><script>alert(1)</script><style>p{color:red}</style>'))
+      .toBe('<p>Fresh eggs</p>');
+  });
+
+  it('drops images and event handler attributes', () => {
+    expect(sanitizeHtml('<img src=x onerror=alert(1)>text')).toBe('<p>text</p>');
+    expect(sanitizeHtml('<p onmouseover="x()">Hi <b>there</b> <span style="x">you</span></p>'))
+      .toBe('<p>Hi <strong>there</strong> you</p>');
+  });
+
+  it('keeps nested tag tricks as text', () => {
+    expect(sanitizeHtml('<scr<script>ipt>alert(1)</script>')).toBe('<p>ipt&gt;alert(1)</p>');
+  });
+
+  it('unwraps links with a javascript: href', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">click</a>')).toBe('<p>click</p>');
+  });
+
+  it('unwraps links whose scheme is hidden with entities or whitespace', () => {
+    expect(sanitizeHtml('<a href="jav&#x61;script:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href="&#106;avascript:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href="java\tscript:alert(1)">x</a>')).toBe('<p>x</p>');
+  });
+
+  it('keeps http, mailto and tel links and sets rel and target itself', () => {
+    expect(sanitizeHtml('<a href="https://example.com" onclick="evil()" target="_self">site</a>'))
+      .toBe('<p><a href="https://example.com/" rel="nofollow noopener noreferrer" target="_blank">site</a></p>');
+    expect(sanitizeHtml('<a href="mailto:farm@example.com">mail</a>'))
+      .toBe('<p><a href="mailto:farm@example.com" rel="nofollow noopener noreferrer" target="_blank">mail</a></p>');
+    expect(sanitizeHtml('<a href="tel:+49123">call</a>'))
+      .toBe('<p><a href="tel:+49123" rel="nofollow noopener noreferrer" target="_blank">call</a></p>');
+  });
+
+  it('turns plain text into paragraphs and line breaks', () => {
+    expect(sanitizeHtml('Line one\nLine two\n\nSecond & third'))
+      .toBe('<p>Line one<br>Line two</p><p>Second &amp; third</p>');
+  });
+
+  it('keeps escaped markup escaped', () => {
+    expect(sanitizeHtml('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'))
+      .toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+  });
+
+  it('returns its own output unchanged', () => {
+    const inputs = [
+      '<p>Fresh eggs</p><script>alert(1)</script>',
+      '<a href="https://example.com">site</a> and <i>more</i>',
+      '<ul><li>Apples</li><li>Pears <b>and</b> plums</li></ul><p>After</p>',
+      'Plain & simple\n\nwith <b>bold</b>',
+      '<p>&lt;b&gt; &amp;amp;</p>'
+    ];
+    for (const input of inputs) {
+      const sanitized = sanitizeHtml(input);
+      expect(sanitizeHtml(sanitized)).toBe(sanitized);
+    }
+  });
+
+  it('returns an empty string for missing descriptions', () => {
+    expect(sanitizeHtml(null)).toBe('');
+    expect(sanitizeHtml(undefined)).toBe('');
+    expect(sanitizeHtml('')).toBe('');
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('leaves out scripts and styles', () => {
+    expect(htmlToPlainText('<p>Fresh eggs</p><script>alert(1)</script><style>p{color:red}</style>'))
+      .toBe('Fresh eggs');
+  });
+
+  it('separates paragraphs by a blank line and list items by a newline', () => {
+    expect(htmlToPlainText('<p>Intro</p><ul><li>Apples</li><li>Pears</li></ul><p>After</p>'))
+      .toBe('Intro\n\nApples\nPears\n\nAfter');
+  });
+
+  it('decodes entities', () => {
+    expect(htmlToPlainText('<p>&lt;script&gt; &amp; more</p>')).toBe('<script> & more');
+  });
+
+  it('keeps the text of plain-text descriptions', () => {
+    expect(htmlToPlainText('Line one\nLine two\n\nSecond & third')).toBe('Line one\nLine two\n\nSecond & third');
+  });
+
+  it('gives the same text for a description and its sanitized form', () => {
+    const html = '<div>Hi <span>there</span></div><ol><li>One</li><li>Two</li></ol>';
+    expect(htmlToPlainText(sanitizeHtml(html))).toBe(htmlToPlainText(html));
+  });
+});
+
+describe('storedDescriptionHtml', () => {
+  it('sanitizes rows that have not been cleaned yet', () => {
+    expect(storedDescriptionHtml('<script>x</script><p>a</p>', null)).toBe('<p>a</p>');
+  });
+
+  it('serves cleaned rows as stored', () => {
+    expect(storedDescriptionHtml('<p><strong>a</strong></p>', 'a')).toBe('<p><strong>a</strong></p>');
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Allow-list sanitizer for rich-text listing descriptions. The editor in the app writes
+ * whatever contentEditable produces, so descriptions are normalized on write into a small
+ * safe subset: paragraphs, line breaks, lists, bold, italic and http(s)/mailto/tel links.
+ * Everything else is unwrapped to its text, or dropped with its content when it can
+ * only carry code (scripts, styles, embeds, form controls).
+ */
+
+interface TextNode {
+  type: 'text';
+  text: string;
+}
+
+interface ElementNode {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = TextNode | ElementNode;
+
+// Dropped together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template',
+  'noscript', 'noembed', 'textarea', 'select', 'option', 'button', 'input', 'svg', 'math',
+  'head', 'title', 'meta', 'link', 'base', 'img', 'picture', 'video', 'audio', 'canvas', 'form'
+]);
+
+// Their content is raw text up to the closing tag, never markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'plaintext']);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'wbr', 'area', 'base', 'col', 'embed', 'source', 'track', 'param']);
+
+// Become paragraphs of their own
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'section', 'article',
+  'header', 'footer', 'aside', 'nav', 'main', 'address', 'center', 'figure', 'figcaption',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'dl', 'dt', 'dd', 'li', 'hr'
+]);
+
+const LIST_TAGS = new Set(['ul', 'ol']);
+
+const INLINE_TAGS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em'
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  shy: '\u00ad',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  euro: '€',
+  copy: '©',
+  reg: '®',
+  deg: '°',
+  middot: '·',
+  bull: '•'
+};
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+);?/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (!codePoint || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+        return '\ufffd';
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Lenient tree builder: stray closing tags are ignored and anything left open is
+ * closed at the end, so any input yields a tree.
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: ElementNode = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: ElementNode[] = [root];
+  let position = 0;
+  let text = '';
+
+  const flushText = () => {
+    if (text) {
+      stack[stack.length - 1].children.push({ type: 'text', text: decodeEntities(text) });
+      text = '';
+    }
+  };
+
+  while (position < html.length) {
+    const next = html.indexOf('<', position);
+    if (next === -1) {
+      text += html.slice(position);
+      break;
+    }
+    text += html.slice(position, next);
+    position = next;
+    const rest = html.slice(position);
+
+    // Comments, doctypes, CDATA and processing instructions
+    if (rest.startsWith('<!--')) {
+      const end = html.indexOf('-->', position + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (rest.startsWith('<!') || rest.startsWith('<?')) {
+      const end = html.indexOf('>', position);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const match = TAG_PATTERN.exec(rest);
+    if (!match) {
+      text += '<';
+      position += 1;
+      continue;
+    }
+
+    flushText();
+    position += match[0].length;
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (closing) {
+      const index = stack.map(node => node.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const element: ElementNode = { type: 'element', tag, attrs: parseAttributes(match[3]), children: [] };
+    stack[stack.length - 1].children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, position);
+      const content = html.slice(position, end === -1 ? html.length : end);
+      element.children.push({ type: 'text', text: content });
+      if (end === -1) {
+        position = html.length;
+      } else {
+        const close = html.indexOf('>', end);
+        position = close === -1 ? html.length : close + 1;
+      }
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tag) && !match[3].trim().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  flushText();
+  return root.children;
+}
+
+function safeHref(href: string | undefined): string | null {
+  // Browsers ignore control characters inside the scheme
+  const cleaned = Array.from(href || '').filter(char => char > '\u001f' && char !== '\u007f').join('').trim();
+  if (!cleaned) {
+    return null;
+  }
+  try {
+    const url = new URL(cleaned);
+    return LINK_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\n\r\f]+/g, ' ');
+}
+
+function hasText(html: string): boolean {
+  return html.replace(/<[^>]*>/g, '').trim() !== '';
+}
+
+function trimInline(html: string): string {
+  return html.replace(/^(?:\s|<br>)+/, '').replace(/(?:\s|<br>)+$/, '');
+}
+
+function renderList(list: ElementNode): string {
+  const items: string[] = [];
+  let loose: HtmlNode[] = [];
+
+  // Content directly inside the list, outside any <li>, becomes an item of its own
+  const flushLoose = () => {
+    const content = trimInline(renderInline(loose, false));
+    if (hasText(content)) {
+      items.push(`<li>${content}</li>`);
+    }
+    loose = [];
+  };
+
+  for (const child of list.children) {
+    if (child.type === 'element' && child.tag === 'li') {
+      flushLoose();
+      const content = trimInline(renderInline(child.children, false));
+      if (hasText(content)) {
+        items.push(`<li>${content}</li>`);
+      }
+    } else {
+      loose.push(child);
+    }
+  }
+  flushLoose();
+
+  const tag = list.tag === 'ol' ? 'ol' : 'ul';
+  return items.length > 0 ? `<${tag}>${items.join('')}</${tag}>` : '';
+}
+
+function renderInline(nodes: HtmlNode[], insideLink: boolean): string {
+  let html = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      html += escapeText(collapseWhitespace(node.text));
+      continue;
+    }
+    if (DROPPED_TAGS.has(node.tag)) {
+      continue;
+    }
+    if (node.tag === 'br') {
+      html += '<br>';
+      continue;
+    }
+    if (LIST_TAGS.has(node.tag)) {
+      // Only reachable inside a list item, where nested lists are valid
+      html += renderList(node);
+      continue;
+    }
+
+    const inlineTag = INLINE_TAGS[node.tag];
+    if (inlineTag) {
+      const content = renderInline(node.children, insideLink);
+      html += hasText(content) ? `<${inlineTag}>${content}</${inlineTag}>` : content;
+      continue;
+    }
+
+    if (node.tag === 'a') {
+      const href = insideLink ? null : safeHref(node.attrs.href);
+      const content = renderInline(node.children, insideLink || !!href);
+      html += href && hasText(content)
+        ? `<a href="${escapeAttribute(href)}" rel="nofollow noopener noreferrer" target="_blank">${content}</a>`
+        : content;
+      continue;
+    }
+
+    // Anything else is unwrapped; block content goes on a line of its own
+    const content = renderInline(node.children, insideLink);
+    if (BLOCK_TAGS.has(node.tag) && hasText(content)) {
+      html += `${html && !html.endsWith('<br>') ? '<br>' : ''}${trimInline(content)}<br>`;
+    } else {
+      html += content;
+    }
+  }
+
+  return html;
+}
+
+function renderBlocks(nodes: HtmlNode[]): string[] {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    const content = trimInline(renderInline(inline, false));
+    if (hasText(content)) {
+      blocks.push(`<p>${content}</p>`);
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'element' && LIST_TAGS.has(node.tag)) {
+      flushInline();
+      const list = renderList(node);
+      if (list) {
+        blocks.push(list);
+      }
+    } else if (node.type === 'element' && BLOCK_TAGS.has(node.tag)) {
+      flushInline();
+      blocks.push(...renderBlocks(node.children));
+    } else if (node.type === 'element' && DROPPED_TAGS.has(node.tag)) {
+      continue;
+    } else {
+      inline.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks;
+}
+
+/**
+ * Text without any markup gets its paragraphs from blank lines and its line breaks
+ * from single newlines, the way it was typed.
+ */
+function plainTextToHtml(text: string): string {
+  return decodeEntities(text)
+    .split(/\r?\n\s*\r?\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${paragraph.split(/\r?\n/).map(line => escapeText(line.trim())).join('<br>')}</p>`)
+    .join('');
+}
+
+/**
+ * Normalize user-supplied HTML into the allowed subset. The result is safe to render
+ * with innerHTML; sanitizing it again returns it unchanged.
+ */
+export function sanitizeHtml(html: string | null | undefined): string {
+  if (!html) {
+    return '';
+  }
+  if (!/<[a-zA-Z!/?]/.test(html)) {
+    return plainTextToHtml(html);
+  }
+  return renderBlocks(parseHtml(html)).join('');
+}
+
+/**
+ * Readable text of a description for search, embeddings and email: paragraphs are
+ * separated by a blank line, list items and line breaks by a newline.
+ */
+export function htmlToPlainText(html: string | null | undefined): string {
+  if (!html) {
+    return '';
+  }
+
+  const lines: string[] = [];
+  let line = '';
+
+  const endLine = (blankAfter: boolean) => {
+    const trimmed = line.replace(/ {2,}/g, ' ').trim();
+    if (trimmed) {
+      lines.push(trimmed);
+    }
+    if (blankAfter && lines.length > 0 && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+    line = '';
+  };
+
+  // Only the outermost list is set off by a blank line
+  const walk = (nodes: HtmlNode[], listDepth: number) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        line += collapseWhitespace(node.text);
+      } else if (DROPPED_TAGS.has(node.tag)) {
+        continue;
+      } else if (node.tag === 'br') {
+        endLine(false);
+      } else if (node.tag === 'li') {
+        endLine(false);
+        walk(node.children, listDepth);
+        endLine(false);
+      } else if (LIST_TAGS.has(node.tag)) {
+        endLine(false);
+        walk(node.children, listDepth + 1);
+        endLine(listDepth === 0);
+      } else if (BLOCK_TAGS.has(node.tag)) {
+        endLine(true);
+        walk(node.children, listDepth);
+        endLine(true);
+      } else {
+        walk(node.children, listDepth);
+      }
+    }
+  };
+
+  walk(parseHtml(/<[a-zA-Z!/?]/.test(html) ? html : plainTextToHtml(html)), 0);
+  endLine(false);
+
+  while (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Description to serve for a stored row. Rows saved before descriptions were sanitized
+ * on write have no plain text yet; they are sanitized on the way out until the
+ * scheduled cleanup has rewritten them.
+ */
+export function storedDescriptionHtml(description: string | null | undefined, descriptionText: string | null | undefined): string {
+  return typeof descriptionText === 'string' ? (description || '') : sanitizeHtml(description);
+}
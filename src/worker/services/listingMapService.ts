@@ -0,0 +1,262 @@
+import { MapBounds, MapCluster, MapListings, MapListingsQuery, MapPoint } from '../types/map';
+
+export const MAX_MAP_ZOOM = 22;
+// From this zoom on listings are returned one by one instead of in clusters
+export const MAP_POINTS_MIN_ZOOM = 13;
+export const MAX_MAP_POINTS = 500;
+
+// Grid cells along the edge of a 256px map tile, so a cell is about 64px on screen
+const CELLS_PER_TILE = 4;
+
+const CATEGORY_PATTERN = /^[a-z_]+$/;
+
+// Two decimals is roughly a kilometre, enough to place a listing in its town
+const COARSE_COORDINATE_FACTOR = 100;
+
+// Coordinates as they may be shown: rounded like coarsenCoordinate() when the owner hides their address
+const SHOWN_LATITUDE = 'CASE WHEN hide_address = 1 THEN ROUND(latitude * ?) / ? ELSE latitude END';
+const SHOWN_LONGITUDE = 'CASE WHEN hide_address = 1 THEN ROUND(longitude * ?) / ? ELSE longitude END';
+
+interface DatabaseMapPoint {
+  id: string;
+  title: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  hide_address: number | null;
+  is_verified: number | null;
+}
+
+// One category in one grid cell
+interface DatabaseMapCell {
+  cell_x: number;
+  cell_y: number;
+  category: string;
+  count: number;
+  latitude_sum: number;
+  longitude_sum: number;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+  // Only meaningful when the cell holds a single listing
+  id: string;
+  title: string;
+  is_verified: number | null;
+}
+
+function toApiCategory(category: string): string {
+  return category.startsWith('cat_') ? category.substring(4) : category;
+}
+
+/**
+ * Round a coordinate to about a kilometre, for listings whose owners hide their address
+ */
+export function coarsenCoordinate(value: number): number {
+  return Math.round(value * COARSE_COORDINATE_FACTOR) / COARSE_COORDINATE_FACTOR;
+}
+
+// Leaflet keeps counting longitudes past ±180 when the map is panned around the world
+function wrapLongitude(longitude: number): number {
+  return longitude >= -180 && longitude <= 180 ? longitude : ((longitude + 180) % 360 + 360) % 360 - 180;
+}
+
+/**
+ * Parse a bbox parameter given as "west,south,east,north" in degrees. Longitudes
+ * are wrapped into ±180 and latitudes clamped to ±90; returns null when malformed.
+ */
+export function parseMapBounds(bbox: string | undefined): MapBounds | null {
+  const values = (bbox || '').split(',').map(value => value.trim() ? Number(value) : NaN);
+  if (values.length !== 4 || !values.every(isFinite)) {
+    return null;
+  }
+
+  const [west, south, east, north] = values;
+  if (south > north || west > east) {
+    return null;
+  }
+
+  const bounds: MapBounds = east - west >= 360
+    ? { west: -180, south, east: 180, north }
+    : { west: wrapLongitude(west), south, east: wrapLongitude(east), north };
+  bounds.south = Math.max(bounds.south, -90);
+  bounds.north = Math.min(bounds.north, 90);
+  return bounds;
+}
+
+/**
+ * Validate the query string of /api/listings/map: a bbox, an integer zoom level
+ * and an optional category. Returns null when anything is malformed.
+ */
+export function parseMapListingsQuery(bbox: string | undefined, zoom: string | undefined, category?: string): MapListingsQuery | null {
+  const bounds = parseMapBounds(bbox);
+  const zoomLevel = Number(zoom);
+  if (!bounds || !zoom || !Number.isInteger(zoomLevel) || zoomLevel < 0 || zoomLevel > MAX_MAP_ZOOM) {
+    return null;
+  }
+
+  const query: MapListingsQuery = { bounds, zoom: zoomLevel };
+  if (category) {
+    if (!CATEGORY_PATTERN.test(category)) {
+      return null;
+    }
+    query.category = category;
+  }
+  return query;
+}
+
+export class ListingMapService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Active listings in the map's bounds: grid clusters with category counts below
+   * MAP_POINTS_MIN_ZOOM, individual listings from there on.
+   */
+  async getMapListings(query: MapListingsQuery): Promise<MapListings> {
+    return query.zoom >= MAP_POINTS_MIN_ZOOM
+      ? this.getPoints(query)
+      : this.getClusters(query);
+  }
+
+  private async getPoints(query: MapListingsQuery): Promise<MapListings> {
+    const { where, params } = this.whereClause(query);
+    const result = await this.db.prepare(`
+      SELECT id, title, category, latitude, longitude, hide_address, is_verified
+      FROM listings
+      WHERE ${where}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).bind(...params, MAX_MAP_POINTS + 1).all();
+
+    const rows = result.results as unknown as DatabaseMapPoint[];
+    return {
+      zoom: query.zoom,
+      clusters: [],
+      points: rows.slice(0, MAX_MAP_POINTS).map(row => ({
+        id: row.id,
+        title: row.title,
+        category: toApiCategory(row.category),
+        latitude: row.hide_address ? coarsenCoordinate(row.latitude) : row.latitude,
+        longitude: row.hide_address ? coarsenCoordinate(row.longitude) : row.longitude,
+        isVerified: Boolean(row.is_verified),
+      })),
+      truncated: rows.length > MAX_MAP_POINTS,
+    };
+  }
+
+  /**
+   * Group listings into square grid cells of about 64px at this zoom. Latitude cells
+   * shrink by cos(latitude) to stay square on the Mercator map; a cell holding a
+   * single listing comes back as a point. Centres and bounds are built from the
+   * coarsened coordinates of listings with a hidden address, so they can't give
+   * those away.
+   */
+  private async getClusters(query: MapListingsQuery): Promise<MapListings> {
+    const { bounds, zoom } = query;
+    const cellWidth = 360 / 2 ** zoom / CELLS_PER_TILE;
+    const centerLatitude = (bounds.south + bounds.north) / 2;
+    const cellHeight = cellWidth * Math.max(Math.cos(centerLatitude * Math.PI / 180), 0.1);
+
+    const { where, params } = this.whereClause(query);
+    const factor = COARSE_COORDINATE_FACTOR;
+    const result = await this.db.prepare(`
+      SELECT
+        cell_x,
+        cell_y,
+        category,
+        COUNT(*) AS count,
+        SUM(shown_latitude) AS latitude_sum,
+        SUM(shown_longitude) AS longitude_sum,
+        MIN(shown_latitude) AS south,
+        MAX(shown_latitude) AS north,
+        MIN(shown_longitude) AS west,
+        MAX(shown_longitude) AS east,
+        MIN(id) AS id,
+        MIN(title) AS title,
+        MAX(is_verified) AS is_verified
+      FROM (
+        SELECT
+          CAST((longitude + 180) / ? AS INTEGER) AS cell_x,
+          CAST((latitude + 90) / ? AS INTEGER) AS cell_y,
+          ${SHOWN_LATITUDE} AS shown_latitude,
+          ${SHOWN_LONGITUDE} AS shown_longitude,
+          category, id, title, is_verified
+        FROM listings
+        WHERE ${where}
+      )
+      GROUP BY cell_x, cell_y, category
+    `).bind(cellWidth, cellHeight, factor, factor, factor, factor, ...params).all();
+
+    const cells = new Map<string, DatabaseMapCell[]>();
+    for (const row of result.results as unknown as DatabaseMapCell[]) {
+      const key = `${row.cell_x}:${row.cell_y}`;
+      cells.set(key, [...(cells.get(key) || []), row]);
+    }
+
+    const clusters: MapCluster[] = [];
+    const points: MapPoint[] = [];
+    for (const rows of cells.values()) {
+      const count = rows.reduce((sum, row) => sum + row.count, 0);
+      if (count === 1) {
+        const [row] = rows;
+        points.push({
+          id: row.id,
+          title: row.title,
+          category: toApiCategory(row.category),
+          latitude: row.latitude_sum,
+          longitude: row.longitude_sum,
+          isVerified: Boolean(row.is_verified),
+        });
+        continue;
+      }
+
+      const categoryCounts: Record<string, number> = {};
+      for (const row of rows) {
+        const category = toApiCategory(row.category);
+        categoryCounts[category] = (categoryCounts[category] || 0) + row.count;
+      }
+
+      clusters.push({
+        latitude: rows.reduce((sum, row) => sum + row.latitude_sum, 0) / count,
+        longitude: rows.reduce((sum, row) => sum + row.longitude_sum, 0) / count,
+        count,
+        categoryCounts,
+        bounds: {
+          west: Math.min(...rows.map(row => row.west)),
+          south: Math.min(...rows.map(row => row.south)),
+          east: Math.max(...rows.map(row => row.east)),
+          north: Math.max(...rows.map(row => row.north)),
+        },
+      });
+    }
+
+    return { zoom, clusters, points, truncated: false };
+  }
+
+  // Uses the (status, latitude, longitude) index
+  private whereClause(query: MapListingsQuery): { where: string; params: Array<string | number> } {
+    const { bounds, category } = query;
+    let where = "status = 'active' AND latitude BETWEEN ? AND ?";
+    const params: Array<string | number> = [bounds.south, bounds.north];
+
+    if (bounds.west <= bounds.east) {
+      where += ' AND longitude BETWEEN ? AND ?';
+    } else {
+      // Bounds cross the antimeridian
+      where += ' AND (longitude >= ? OR longitude <= ?)';
+    }
+    params.push(bounds.west, bounds.east);
+
+    if (category) {
+      // Older listings store the category without the cat_ prefix
+      where += ' AND category IN (?, ?)';
+      params.push(category, `cat_${category}`);
+    }
+
+    return { where, params };
+  }
+}
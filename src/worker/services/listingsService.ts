@@ -44,21 +44,27 @@ export class ListingsService {
         isCertified: true,
         certificationDetails: 'EU Organic Certification',
         operatingHours: {
-          monday: { open: '08:00', close: '18:00' },
-          tuesday: { open: '08:00', close: '18:00' },
-          wednesday: { open: '08:00', close: '18:00' },
-          thursday: { open: '08:00', close: '18:00' },
-          friday: { open: '08:00', close: '18:00' },
-          saturday: { open: '09:00', close: '16:00' },
-          sunday: { closed: true, open: '', close: '' }
+          timezone: 'Europe/Berlin',
+          weekly: {
+            monday: [{ open: '08:00', close: '18:00' }],
+            tuesday: [{ open: '08:00', close: '18:00' }],
+            wednesday: [{ open: '08:00', close: '18:00' }],
+            thursday: [{ open: '08:00', close: '18:00' }],
+            friday: [{ open: '08:00', close: '18:00' }],
+            saturday: [{ open: '09:00', close: '16:00' }],
+            sunday: []
+          }
         },
         priceRange: 'medium',
         hideAddress: false,
+        hideContactInfo: false,
+        isVerified: false,
         userId: 'user-001',
         createdAt: new Date('2024-01-15').toISOString(),
         updatedAt: new Date('2024-01-15').toISOString(),
         views: 245,
-        favorites: 18
+        favorites: 18,
+        reviewCount: 0
       },
       {
         id: 'listing-002',
@@ -85,11 +91,14 @@ export class ListingsService {
         certificationDetails: 'Water Quality Certified',
         priceRange: 'free',
         hideAddress: false,
+        hideContactInfo: false,
+        isVerified: false,
         userId: 'admin-001',
         createdAt: new Date('2024-01-10').toISOString(),
         updatedAt: new Date('2024-01-10').toISOString(),
         views: 156,
-        favorites: 32
+        favorites: 32,
+        reviewCount: 0
       },
       {
         id: 'listing-003',
@@ -116,11 +125,14 @@ export class ListingsService {
         isCertified: false,
         priceRange: 'medium',
         hideAddress: false,
+        hideContactInfo: false,
+        isVerified: false,
         userId: 'premium-001',
         createdAt: new Date('2024-01-20').toISOString(),
         updatedAt: new Date('2024-01-20').toISOString(),
         views: 89,
-        favorites: 12
+        favorites: 12,
+        reviewCount: 0
       },
       {
         id: 'listing-004',
@@ -147,11 +159,14 @@ export class ListingsService {
         certificationDetails: 'FSC Certified Wood',
         priceRange: 'high',
         hideAddress: false,
+        hideContactInfo: false,
+        isVerified: false,
         userId: 'supporter-001',
         createdAt: new Date('2024-01-25').toISOString(),
         updatedAt: new Date('2024-01-25').toISOString(),
         views: 67,
-        favorites: 8
+        favorites: 8,
+        reviewCount: 0
       },
       {
         id: 'listing-005',
@@ -179,11 +194,14 @@ export class ListingsService {
         certificationDetails: 'Ecocert Certified',
         priceRange: 'medium',
         hideAddress: false,
+        hideContactInfo: false,
+        isVerified: false,
         userId: 'user-001',
         createdAt: new Date('2024-01-30').toISOString(),
         updatedAt: new Date('2024-01-30').toISOString(),
         views: 134,
-        favorites: 21
+        favorites: 21,
+        reviewCount: 0
       }
     ];
 
@@ -205,11 +223,16 @@ export class ListingsService {
       isOrganic: data.isOrganic || false,
       isCertified: data.isCertified || false,
       hideAddress: data.hideAddress || false,
+      hideContactInfo: data.hideContactInfo || false,
+      isVerified: false,
+      operatingHours: data.operatingHours || undefined,
+      waterSource: data.waterSource || undefined,
       userId,
       createdAt: now,
       updatedAt: now,
       views: 0,
-      favorites: 0
+      favorites: 0,
+      reviewCount: 0
     };
 
     this.listings.set(listingId, listing);
@@ -231,6 +254,8 @@ export class ListingsService {
     const updatedListing: Listing = {
       ...listing,
       ...data,
+      operatingHours: data.operatingHours === undefined ? listing.operatingHours : data.operatingHours || undefined,
+      waterSource: data.waterSource === undefined ? listing.waterSource : data.waterSource || undefined,
       updatedAt: new Date().toISOString()
     };
 
@@ -321,17 +346,19 @@ export class ListingsService {
         );
       }
 
-      // Location-based filtering (simple distance calculation)
+      // Location-based filtering; copies carry the distance so the stored listings stay untouched
       if (filters.location) {
-        filteredListings = filteredListings.filter(listing => {
-          const distance = this.calculateDistance(
-            filters.location!.latitude,
-            filters.location!.longitude,
-            listing.location.latitude,
-            listing.location.longitude
-          );
-          return distance <= filters.location!.radius;
-        });
+        filteredListings = filteredListings
+          .map(listing => ({
+            ...listing,
+            distanceKm: Math.round(this.calculateDistance(
+              filters.location!.latitude,
+              filters.location!.longitude,
+              listing.location.latitude,
+              listing.location.longitude
+            ) * 10) / 10
+          }))
+          .filter(listing => listing.distanceKm <= filters.location!.radius);
       }
     }
 
@@ -349,7 +376,7 @@ export class ListingsService {
 
     // Sorting
     const sortBy = searchQuery.sortBy || 'relevance';
-    const sortOrder = searchQuery.sortOrder || 'desc';
+    const sortOrder = searchQuery.sortOrder || (sortBy === 'distance' ? 'asc' : 'desc');
 
     filteredListings.sort((a, b) => {
       let comparison = 0;
@@ -365,8 +392,10 @@ export class ListingsService {
           comparison = a.favorites - b.favorites;
           break;
         case 'distance':
-          // For distance, we'd need the user's location
-          comparison = 0;
+          // Only location searches have distances; keep the rest in a stable order
+          if (a.distanceKm !== undefined && b.distanceKm !== undefined) {
+            comparison = a.distanceKm - b.distanceKm;
+          }
           break;
         case 'relevance':
         default:
@@ -0,0 +1,383 @@
+import {
+  Conversation,
+  Message,
+  MessageReport,
+  MessageReportStatus
+} from '../types/messaging';
+import { EmailService } from './emailService';
+import { DEFAULT_LOCALE, isSupportedLocale, translate } from '../i18n';
+import { displayName, parseText } from './utils';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_REPORT_REASON_LENGTH = 1000;
+// Rate limits, counted from the messages and conversations tables
+export const MESSAGES_PER_HOUR = 30;
+export const NEW_CONVERSATIONS_PER_DAY = 10;
+// Messages returned when a thread is opened, newest kept
+const MESSAGES_PER_THREAD = 200;
+// Messages shown to moderators with a report
+const MESSAGES_PER_REPORT = 20;
+// Characters of a message quoted in the new-message email and the inbox
+const PREVIEW_LENGTH = 200;
+
+interface DatabaseConversation {
+  id: string;
+  listing_id: string;
+  listing_title: string;
+  visitor_id: string;
+  owner_id: string;
+  visitor_unread: number;
+  owner_unread: number;
+  other_first_name: string | null;
+  other_last_name: string | null;
+  last_sender_id: string | null;
+  last_body: string | null;
+  last_created_at: string | null;
+  blocked: number;
+  blocked_by: number;
+  last_message_at: string;
+  created_at: string;
+}
+
+interface DatabaseMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+}
+
+interface DatabaseMessageReport {
+  id: string;
+  conversation_id: string;
+  listing_id: string;
+  listing_title: string;
+  reporter_id: string;
+  reporter_email: string;
+  reported_user_id: string;
+  reported_user_email: string;
+  reason: string;
+  status: MessageReportStatus;
+  created_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+}
+
+/**
+ * The `body` of a send-message request, trimmed. Null when missing, empty or too long.
+ */
+export function parseMessageBody(body: unknown): string | null {
+  return parseText(body, 'body', MAX_MESSAGE_LENGTH);
+}
+
+export function parseReportReason(body: unknown): string | null {
+  return parseText(body, 'reason', MAX_REPORT_REASON_LENGTH);
+}
+
+export class MessagingService {
+  private db: D1Database;
+  private emailService: EmailService;
+  private appUrl: string;
+
+  constructor(db: D1Database, emailService: EmailService, appUrl: string = 'https://kisigua.com') {
+    this.db = db;
+    this.emailService = emailService;
+    this.appUrl = appUrl;
+  }
+
+  /**
+   * The user's conversations as visitor or owner, most recently active first
+   */
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const result = await this.queryConversations(userId, '', []).all();
+    return (result.results as unknown as DatabaseConversation[]).map(row => this.convertConversation(row, userId));
+  }
+
+  /**
+   * Null unless the user takes part in the conversation
+   */
+  async getConversation(id: string, userId: string): Promise<Conversation | null> {
+    const row = await this.queryConversations(userId, 'AND c.id = ?', [id]).first();
+    return row ? this.convertConversation(row as unknown as DatabaseConversation, userId) : null;
+  }
+
+  async findConversationId(listingId: string, visitorId: string): Promise<string | null> {
+    const row = await this.db.prepare(`
+      SELECT id FROM conversations WHERE listing_id = ? AND visitor_id = ?
+    `).bind(listingId, visitorId).first();
+
+    return (row?.id as string) || null;
+  }
+
+  /**
+   * The visitor's thread about a listing, created on first contact
+   */
+  async startConversation(listingId: string, ownerId: string, visitorId: string): Promise<string> {
+    await this.db.prepare(`
+      INSERT INTO conversations (id, listing_id, visitor_id, owner_id)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(listing_id, visitor_id) DO NOTHING
+    `).bind(crypto.randomUUID(), listingId, visitorId, ownerId).run();
+
+    const id = await this.findConversationId(listingId, visitorId);
+    if (!id) {
+      throw new Error('Failed to start conversation');
+    }
+    return id;
+  }
+
+  /**
+   * The latest messages of a conversation, oldest first
+   */
+  async getMessages(conversationId: string, limit: number = MESSAGES_PER_THREAD): Promise<Message[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM (
+        SELECT *, rowid AS position FROM messages
+        WHERE conversation_id = ?
+        ORDER BY created_at DESC, position DESC
+        LIMIT ?
+      ) ORDER BY created_at ASC, position ASC
+    `).bind(conversationId, limit).all();
+
+    return (result.results as unknown as DatabaseMessage[]).map(row => this.convertMessage(row));
+  }
+
+  async markRead(conversation: Conversation, userId: string): Promise<void> {
+    const column = conversation.visitorId === userId ? 'visitor_unread' : 'owner_unread';
+    await this.db.prepare(`
+      UPDATE conversations SET ${column} = 0 WHERE id = ?
+    `).bind(conversation.id).run();
+  }
+
+  /**
+   * Store a message and email the recipient when it is the first one they
+   * haven't read, so a busy thread sends one email until they open it
+   */
+  async sendMessage(conversation: Conversation, senderId: string, body: string): Promise<Message> {
+    const senderColumn = conversation.visitorId === senderId ? 'visitor_unread' : 'owner_unread';
+    const recipientColumn = senderColumn === 'visitor_unread' ? 'owner_unread' : 'visitor_unread';
+    const recipientId = conversation.visitorId === senderId ? conversation.ownerId : conversation.visitorId;
+
+    const [inserted, updated] = await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO messages (id, conversation_id, sender_id, body)
+        VALUES (?, ?, ?, ?)
+        RETURNING *
+      `).bind(crypto.randomUUID(), conversation.id, senderId, body),
+      // Replying means the sender has read the thread
+      this.db.prepare(`
+        UPDATE conversations
+        SET ${recipientColumn} = ${recipientColumn} + 1, ${senderColumn} = 0, last_message_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+        RETURNING ${recipientColumn} AS unread
+      `).bind(conversation.id),
+    ]);
+
+    const message = this.convertMessage((inserted.results as unknown as DatabaseMessage[])[0]);
+    const unread = (updated.results as unknown as Array<{ unread: number }>)[0]?.unread;
+
+    if (unread === 1) {
+      try {
+        await this.notifyRecipient(conversation, senderId, recipientId, body);
+      } catch (error) {
+        // The message is stored either way; the inbox shows it as unread
+        console.error('New message email failed for conversation:', conversation.id, error);
+      }
+    }
+
+    return message;
+  }
+
+  /**
+   * Unread messages across all of the user's conversations
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT SUM(CASE WHEN visitor_id = ? THEN visitor_unread ELSE owner_unread END) as total
+      FROM conversations
+      WHERE visitor_id = ? OR owner_id = ?
+    `).bind(userId, userId, userId).first();
+
+    return (result?.total as number) || 0;
+  }
+
+  async countRecentMessages(userId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) as total FROM messages
+      WHERE sender_id = ? AND created_at > datetime('now', '-1 hour')
+    `).bind(userId).first();
+
+    return (result?.total as number) || 0;
+  }
+
+  async countRecentConversations(userId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) as total FROM conversations
+      WHERE visitor_id = ? AND created_at > datetime('now', '-1 day')
+    `).bind(userId).first();
+
+    return (result?.total as number) || 0;
+  }
+
+  /**
+   * True when either user blocked the other
+   */
+  async isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM user_blocks
+      WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?)
+      LIMIT 1
+    `).bind(userId, otherUserId, otherUserId, userId).first();
+
+    return !!row;
+  }
+
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO user_blocks (blocker_id, blocked_id) VALUES (?, ?)
+    `).bind(blockerId, blockedId).run();
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.prepare(`
+      DELETE FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?
+    `).bind(blockerId, blockedId).run();
+  }
+
+  async reportConversation(conversationId: string, reporterId: string, reason: string): Promise<string> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO message_reports (id, conversation_id, reporter_id, reason)
+      VALUES (?, ?, ?, ?)
+    `).bind(id, conversationId, reporterId, reason).run();
+
+    return id;
+  }
+
+  /**
+   * Reports for moderators, oldest open ones first, with the messages they are about
+   */
+  async getReports(status: MessageReportStatus): Promise<MessageReport[]> {
+    const result = await this.db.prepare(`
+      SELECT r.*, c.listing_id, l.title AS listing_title,
+        reporter.email AS reporter_email,
+        reported.id AS reported_user_id, reported.email AS reported_user_email
+      FROM message_reports r
+      JOIN conversations c ON c.id = r.conversation_id
+      JOIN listings l ON l.id = c.listing_id
+      JOIN users reporter ON reporter.id = r.reporter_id
+      JOIN users reported ON reported.id = CASE WHEN c.visitor_id = r.reporter_id THEN c.owner_id ELSE c.visitor_id END
+      WHERE r.status = ?
+      ORDER BY r.created_at ${status === 'open' ? 'ASC' : 'DESC'}
+      LIMIT 100
+    `).bind(status).all();
+
+    const rows = result.results as unknown as DatabaseMessageReport[];
+    return Promise.all(rows.map(async row => ({
+      id: row.id,
+      conversationId: row.conversation_id,
+      listingId: row.listing_id,
+      listingTitle: row.listing_title,
+      reporterId: row.reporter_id,
+      reporterEmail: row.reporter_email,
+      reportedUserId: row.reported_user_id,
+      reportedUserEmail: row.reported_user_email,
+      reason: row.reason,
+      status: row.status,
+      messages: await this.getMessages(row.conversation_id, MESSAGES_PER_REPORT),
+      createdAt: row.created_at,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined,
+    })));
+  }
+
+  async resolveReport(id: string, moderatorId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE message_reports
+      SET status = 'resolved', resolved_by = ?, resolved_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'open'
+    `).bind(moderatorId, id).run();
+
+    return result.meta.changes > 0;
+  }
+
+  private queryConversations(userId: string, condition: string, params: unknown[]): D1PreparedStatement {
+    return this.db.prepare(`
+      SELECT c.*, l.title AS listing_title,
+        other.first_name AS other_first_name, other.last_name AS other_last_name,
+        m.sender_id AS last_sender_id, substr(m.body, 1, ${PREVIEW_LENGTH}) AS last_body, m.created_at AS last_created_at,
+        EXISTS (SELECT 1 FROM user_blocks WHERE blocker_id = ? AND blocked_id = other.id) AS blocked,
+        EXISTS (SELECT 1 FROM user_blocks WHERE blocker_id = other.id AND blocked_id = ?) AS blocked_by
+      FROM conversations c
+      JOIN listings l ON l.id = c.listing_id
+      JOIN users other ON other.id = CASE WHEN c.visitor_id = ? THEN c.owner_id ELSE c.visitor_id END
+      LEFT JOIN messages m ON m.rowid = (
+        SELECT rowid FROM messages WHERE conversation_id = c.id ORDER BY created_at DESC, rowid DESC LIMIT 1
+      )
+      WHERE (c.visitor_id = ? OR c.owner_id = ?) ${condition}
+      ORDER BY c.last_message_at DESC, c.id ASC
+    `).bind(userId, userId, userId, userId, userId, ...params);
+  }
+
+  private async notifyRecipient(conversation: Conversation, senderId: string, recipientId: string, body: string): Promise<void> {
+    const users = await this.db.prepare(`
+      SELECT id, email, first_name, last_name, locale FROM users WHERE id IN (?, ?)
+    `).bind(senderId, recipientId).all();
+
+    const rows = users.results as unknown as Array<{ id: string; email: string; first_name: string | null; last_name: string | null; locale: string | null }>;
+    const sender = rows.find(row => row.id === senderId);
+    const recipient = rows.find(row => row.id === recipientId);
+    if (!sender || !recipient?.email) {
+      return;
+    }
+
+    const locale = isSupportedLocale(recipient.locale) ? recipient.locale : DEFAULT_LOCALE;
+    const result = await this.emailService.sendNewMessageEmail(
+      recipient.email,
+      recipient.first_name || translate(locale, 'email.defaultName'),
+      displayName(sender.first_name, sender.last_name) || translate(locale, 'email.defaultName'),
+      conversation.listingTitle,
+      body.length > PREVIEW_LENGTH ? `${body.substring(0, PREVIEW_LENGTH)}…` : body,
+      `${this.appUrl}/messages?conversation=${encodeURIComponent(conversation.id)}`,
+      locale
+    );
+    if (!result.success && !result.suppressed) {
+      throw new Error(result.error || 'Failed to send new message email');
+    }
+  }
+
+  private convertConversation(row: DatabaseConversation, userId: string): Conversation {
+    const isVisitor = row.visitor_id === userId;
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      listingTitle: row.listing_title,
+      visitorId: row.visitor_id,
+      ownerId: row.owner_id,
+      otherParticipant: {
+        id: isVisitor ? row.owner_id : row.visitor_id,
+        name: displayName(row.other_first_name, row.other_last_name),
+      },
+      unreadCount: isVisitor ? row.visitor_unread : row.owner_unread,
+      lastMessage: row.last_sender_id ? {
+        senderId: row.last_sender_id,
+        body: row.last_body || '',
+        createdAt: row.last_created_at || row.last_message_at,
+      } : undefined,
+      blocked: Boolean(row.blocked),
+      blockedBy: Boolean(row.blocked_by),
+      lastMessageAt: row.last_message_at,
+      createdAt: row.created_at,
+    };
+  }
+
+  private convertMessage(row: DatabaseMessage): Message {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      senderId: row.sender_id,
+      body: row.body,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,278 @@
+import { UserRole } from '../types/auth';
+import {
+  ListingStatus,
+  ModerationAction,
+  ModerationDecisionRequest,
+  ModerationQueueItem,
+  ModerationHistoryEntry
+} from '../types/listings';
+import { EmailService } from './emailService';
+import { storedDescriptionHtml } from './htmlSanitizer';
+import { DEFAULT_LOCALE, isSupportedLocale, translate } from '../i18n';
+import { isRecord } from './utils';
+
+// Owners need this many approved listings before new ones skip the review queue
+const TRUSTED_APPROVED_LISTINGS = 3;
+// A rejection this recent sends the owner's listings back through review
+const RECENT_REJECTION_DAYS = 30;
+export const MAX_MODERATION_REASON_LENGTH = 1000;
+
+const STATUS_BY_ACTION: Record<ModerationAction, ListingStatus> = {
+  approve: 'active',
+  reject: 'rejected',
+  request_changes: 'inactive',
+};
+
+/**
+ * A moderator decision from the request body, or null when it is malformed. Rejections and
+ * change requests need a reason the owner can act on; an approval publishes the listing as
+ * it is, so its reason is optional.
+ */
+export function parseModerationDecision(body: unknown): ModerationDecisionRequest | null {
+  if (!isRecord(body) || typeof body.action !== 'string' || !Object.keys(STATUS_BY_ACTION).includes(body.action)) {
+    return null;
+  }
+
+  const { reason } = body;
+  if (reason !== undefined && reason !== null &&
+      (typeof reason !== 'string' || reason.trim().length > MAX_MODERATION_REASON_LENGTH)) {
+    return null;
+  }
+
+  const action = body.action as ModerationAction;
+  const trimmed = typeof reason === 'string' ? reason.trim() : '';
+  if (action !== 'approve' && !trimmed) {
+    return null;
+  }
+  return { action, reason: trimmed || undefined };
+}
+
+export interface ModerationResult {
+  listingId: string;
+  title: string;
+  previousStatus: ListingStatus;
+  status: ListingStatus;
+  ownerId: string;
+  ownerNotified: boolean;
+}
+
+export class ModerationService {
+  private db: D1Database;
+  private emailService: EmailService;
+  private appUrl: string;
+
+  constructor(db: D1Database, emailService: EmailService, appUrl: string = 'https://kisigua.com') {
+    this.db = db;
+    this.emailService = emailService;
+    this.appUrl = appUrl;
+  }
+
+  /**
+   * Status for a newly created listing: admins and trusted owners publish
+   * directly, everyone else waits for review
+   */
+  async getInitialListingStatus(userId: string, role: UserRole): Promise<ListingStatus> {
+    if (role === 'admin') {
+      return 'active';
+    }
+
+    const user = await this.db.prepare(`
+      SELECT
+        u.email_verified,
+        (SELECT COUNT(*) FROM listings WHERE user_id = u.id AND status = 'active') as approved,
+        (SELECT COUNT(*) FROM listing_moderation_actions a
+          JOIN listings l ON l.id = a.listing_id
+          WHERE l.user_id = u.id AND a.action = 'reject'
+            AND julianday(a.created_at) >= julianday('now', ?)) as recent_rejections
+      FROM users u
+      WHERE u.id = ?
+    `).bind(`-${RECENT_REJECTION_DAYS} days`, userId).first();
+
+    if (!user || !user.email_verified || ((user.recent_rejections as number) || 0) > 0) {
+      return 'pending';
+    }
+
+    // Paying members are verified through billing
+    if (role === 'premium' || role === 'supporter') {
+      return 'active';
+    }
+
+    return ((user.approved as number) || 0) >= TRUSTED_APPROVED_LISTINGS ? 'active' : 'pending';
+  }
+
+  /**
+   * Listings awaiting review, oldest first
+   */
+  async getQueue(status: ListingStatus = 'pending', page: number = 1, limit: number = 20): Promise<{
+    listings: ModerationQueueItem[];
+    total: number;
+  }> {
+    const offset = (page - 1) * limit;
+
+    const [rows, count] = await Promise.all([
+      this.db.prepare(`
+        SELECT
+          l.id, l.title, l.description, l.description_text, l.category, l.status, l.city, l.country,
+          l.created_at, l.updated_at, l.moderation_reason,
+          u.id as owner_id, u.email, u.first_name, u.last_name, u.email_verified,
+          (SELECT COUNT(*) FROM listings WHERE user_id = u.id AND status = 'active') as approved_listings
+        FROM listings l
+        JOIN users u ON u.id = l.user_id
+        WHERE l.status = ?
+        ORDER BY l.created_at ASC
+        LIMIT ? OFFSET ?
+      `).bind(status, limit, offset).all(),
+      this.db.prepare('SELECT COUNT(*) as total FROM listings WHERE status = ?').bind(status).first()
+    ]);
+
+    const listings = (rows.results || []).map((row: Record<string, unknown>) => ({
+      id: row.id as string,
+      title: row.title as string,
+      description: storedDescriptionHtml(row.description as string, row.description_text as string | null),
+      category: (row.category as string).startsWith('cat_') ? (row.category as string).substring(4) : row.category as string,
+      status: row.status as ListingStatus,
+      city: row.city as string,
+      country: row.country as string,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+      moderationReason: (row.moderation_reason as string) || undefined,
+      owner: {
+        id: row.owner_id as string,
+        email: row.email as string,
+        firstName: row.first_name as string,
+        lastName: row.last_name as string,
+        emailVerified: Boolean(row.email_verified),
+        approvedListings: (row.approved_listings as number) || 0,
+      },
+    }));
+
+    return { listings, total: (count?.total as number) || 0 };
+  }
+
+  async getQueueCounts(): Promise<Record<'pending' | 'rejected' | 'changesRequested', number>> {
+    const row = await this.db.prepare(`
+      SELECT
+        SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected,
+        SUM(CASE WHEN status = 'inactive' AND EXISTS (
+          SELECT 1 FROM listing_moderation_actions a
+          WHERE a.listing_id = listings.id AND a.action = 'request_changes'
+            AND a.created_at = (SELECT MAX(created_at) FROM listing_moderation_actions WHERE listing_id = listings.id)
+        ) THEN 1 ELSE 0 END) as changes_requested
+      FROM listings
+    `).first();
+
+    return {
+      pending: (row?.pending as number) || 0,
+      rejected: (row?.rejected as number) || 0,
+      changesRequested: (row?.changes_requested as number) || 0,
+    };
+  }
+
+  /**
+   * Apply a moderator decision and notify the owner
+   */
+  async moderate(listingId: string, moderatorId: string, action: ModerationAction, reason?: string): Promise<ModerationResult | null> {
+    const listing = await this.db.prepare(`
+      SELECT l.id, l.title, l.status, l.user_id, u.email, u.first_name, u.locale
+      FROM listings l
+      LEFT JOIN users u ON u.id = l.user_id
+      WHERE l.id = ?
+    `).bind(listingId).first();
+
+    if (!listing) {
+      return null;
+    }
+
+    const previousStatus = listing.status as ListingStatus;
+    const status = STATUS_BY_ACTION[action];
+    const note = reason?.trim() || null;
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE listings
+        SET status = ?, moderation_reason = ?, moderated_at = CURRENT_TIMESTAMP, moderated_by = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).bind(status, note, moderatorId, listingId),
+      this.db.prepare(`
+        INSERT INTO listing_moderation_actions (id, listing_id, moderator_id, action, reason, previous_status, new_status)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(crypto.randomUUID(), listingId, moderatorId, action, note, previousStatus, status),
+    ]);
+
+    let ownerNotified = false;
+    if (listing.email) {
+      const locale = isSupportedLocale(listing.locale) ? listing.locale : DEFAULT_LOCALE;
+      const sent = await this.emailService.sendListingModerationEmail(
+        listing.email as string,
+        (listing.first_name as string) || translate(locale, 'email.defaultName'),
+        listing.title as string,
+        action,
+        note,
+        `${this.appUrl}/my-listings`,
+        locale
+      );
+      ownerNotified = sent.success;
+    }
+
+    return {
+      listingId,
+      title: listing.title as string,
+      previousStatus,
+      status,
+      ownerId: listing.user_id as string,
+      ownerNotified,
+    };
+  }
+
+  /**
+   * True when the latest moderator decision asked the owner for changes
+   * and the owner hasn't resubmitted yet
+   */
+  async isAwaitingChanges(listingId: string): Promise<boolean> {
+    const latest = await this.db.prepare(`
+      SELECT a.action, l.status
+      FROM listing_moderation_actions a
+      JOIN listings l ON l.id = a.listing_id
+      WHERE a.listing_id = ?
+      ORDER BY a.created_at DESC
+      LIMIT 1
+    `).bind(listingId).first();
+
+    return latest?.action === 'request_changes' && latest.status === 'inactive';
+  }
+
+  /**
+   * Owner edited a listing after changes were requested: back into the queue
+   */
+  async resubmit(listingId: string, ownerId: string): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE listings SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND user_id = ?
+      `).bind(listingId, ownerId),
+      this.db.prepare(`
+        INSERT INTO listing_moderation_actions (id, listing_id, moderator_id, action, reason, previous_status, new_status)
+        VALUES (?, ?, NULL, 'resubmit', NULL, 'inactive', 'pending')
+      `).bind(crypto.randomUUID(), listingId),
+    ]);
+  }
+
+  async getHistory(listingId: string): Promise<ModerationHistoryEntry[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM listing_moderation_actions
+      WHERE listing_id = ?
+      ORDER BY created_at DESC
+    `).bind(listingId).all();
+
+    return (result.results || []).map((row: Record<string, unknown>) => ({
+      id: row.id as string,
+      action: row.action as ModerationHistoryEntry['action'],
+      reason: (row.reason as string) || undefined,
+      moderatorId: (row.moderator_id as string) || undefined,
+      previousStatus: row.previous_status as ListingStatus,
+      newStatus: row.new_status as ListingStatus,
+      createdAt: row.created_at as string,
+    }));
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  EMAIL_CATEGORIES,
+  EmailCategory,
+  NotificationPreferences,
+  PUSH_CATEGORIES,
+  PushCategory,
+  UpdateNotificationPreferencesRequest
+} from '../types/notifications';
+import { isRecord } from './utils';
+
+const EMAIL_COLUMNS: Record<EmailCategory, string> = {
+  newListings: 'email_new_listings',
+  favorites: 'email_favorites',
+  messages: 'email_messages',
+  listingUpdates: 'email_listing_updates',
+  newsletter: 'email_newsletter',
+};
+
+const PUSH_COLUMNS: Record<PushCategory, string> = {
+  newListings: 'push_new_listings',
+  favorites: 'push_favorites',
+  messages: 'push_messages',
+};
+
+export interface EmailRecipient {
+  userId: string;
+  preferences: NotificationPreferences;
+}
+
+function isEmailCategory(value: string): value is EmailCategory {
+  return (EMAIL_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a settings form body: every value present must be a boolean for a
+ * known category. Unknown keys (like the fixed `security`) are ignored.
+ */
+export function parseNotificationPreferences(body: unknown): UpdateNotificationPreferencesRequest | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const { emailNotifications, pushNotifications } = body;
+  const pick = <K extends string>(value: unknown, keys: readonly K[]): Partial<Record<K, boolean>> | null => {
+    if (value === undefined) {
+      return {};
+    }
+    if (!isRecord(value)) {
+      return null;
+    }
+    const picked: Partial<Record<K, boolean>> = {};
+    for (const key of keys) {
+      const setting = value[key];
+      if (setting === undefined) {
+        continue;
+      }
+      if (typeof setting !== 'boolean') {
+        return null;
+      }
+      picked[key] = setting;
+    }
+    return picked;
+  };
+
+  const email = pick(emailNotifications, EMAIL_CATEGORIES);
+  const push = pick(pushNotifications, PUSH_CATEGORIES);
+  return email && push ? { emailNotifications: email, pushNotifications: push } : null;
+}
+
+export class NotificationPreferencesService {
+  private db: D1Database;
+  private secret: string;
+  private appUrl: string;
+
+  constructor(db: D1Database, secret: string, appUrl: string = 'https://kisigua.com') {
+    this.db = db;
+    this.secret = secret;
+    this.appUrl = appUrl;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const row = await this.db.prepare(`
+      SELECT * FROM user_preferences WHERE user_id = ?
+    `).bind(userId).first();
+
+    return this.convertPreferences(row);
+  }
+
+  async updatePreferences(userId: string, update: UpdateNotificationPreferencesRequest): Promise<NotificationPreferences> {
+    const columns: string[] = [];
+    const values: boolean[] = [];
+
+    for (const [category, enabled] of Object.entries(update.emailNotifications || {})) {
+      columns.push(EMAIL_COLUMNS[category as EmailCategory]);
+      values.push(enabled);
+    }
+    for (const [category, enabled] of Object.entries(update.pushNotifications || {})) {
+      columns.push(PUSH_COLUMNS[category as PushCategory]);
+      values.push(enabled);
+    }
+
+    if (columns.length > 0) {
+      await this.db.prepare(`
+        INSERT INTO user_preferences (user_id, ${columns.join(', ')})
+        VALUES (?, ${columns.map(() => '?').join(', ')})
+        ON CONFLICT(user_id) DO UPDATE SET
+          ${columns.map(column => `${column} = excluded.${column}`).join(', ')},
+          updated_at = CURRENT_TIMESTAMP
+      `).bind(userId, ...values).run();
+    }
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Turn one email category off from an unsubscribe link. False when the
+   * account no longer exists.
+   */
+  async unsubscribe(userId: string, category: EmailCategory): Promise<boolean> {
+    const column = EMAIL_COLUMNS[category];
+    const result = await this.db.prepare(`
+      INSERT INTO user_preferences (user_id, ${column})
+      SELECT id, false FROM users WHERE id = ?
+      ON CONFLICT(user_id) DO UPDATE SET ${column} = false, updated_at = CURRENT_TIMESTAMP
+    `).bind(userId).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * The account behind an address and its settings; null for addresses that
+   * don't belong to a user
+   */
+  async getEmailRecipient(email: string): Promise<EmailRecipient | null> {
+    const row = await this.db.prepare(`
+      SELECT u.id as account_id, p.*
+      FROM users u
+      LEFT JOIN user_preferences p ON p.user_id = u.id
+      WHERE u.email = ?
+    `).bind(email).first();
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      userId: row.account_id as string,
+      preferences: this.convertPreferences(row.user_id ? row : null),
+    };
+  }
+
+  /**
+   * Link for List-Unsubscribe headers and email footers. It is signed rather
+   * than stored, never expires and only ever turns one category off.
+   */
+  async getUnsubscribeUrl(userId: string, category: EmailCategory): Promise<string> {
+    const signature = await this.sign(userId, category);
+    const token = `${encodeURIComponent(userId)}.${category}.${signature}`;
+    return `${this.appUrl}/api/email/unsubscribe?token=${token}`;
+  }
+
+  async verifyUnsubscribeToken(token: string): Promise<{ userId: string; category: EmailCategory } | null> {
+    const parts = token.split('.');
+    if (parts.length !== 3 || !isEmailCategory(parts[1])) {
+      return null;
+    }
+
+    let userId: string;
+    try {
+      userId = decodeURIComponent(parts[0]);
+    } catch {
+      return null;
+    }
+
+    const expected = await this.sign(userId, parts[1]);
+    return this.timingSafeEqual(parts[2], expected) ? { userId, category: parts[1] } : null;
+  }
+
+  private async sign(userId: string, category: EmailCategory): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`unsubscribe:${userId}:${category}`));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+    let result = 0;
+    for (let i = 0; i < a.length; i++) {
+      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return result === 0;
+  }
+
+  private convertPreferences(row: Record<string, unknown> | null): NotificationPreferences {
+    const preferences: NotificationPreferences = {
+      emailNotifications: { ...DEFAULT_NOTIFICATION_PREFERENCES.emailNotifications },
+      pushNotifications: { ...DEFAULT_NOTIFICATION_PREFERENCES.pushNotifications },
+    };
+
+    if (row) {
+      for (const category of EMAIL_CATEGORIES) {
+        preferences.emailNotifications[category] = Boolean(row[EMAIL_COLUMNS[category]]);
+      }
+      for (const category of PUSH_CATEGORIES) {
+        preferences.pushNotifications[category] = Boolean(row[PUSH_COLUMNS[category]]);
+      }
+    }
+    return preferences;
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { OpeningHours, WEEKDAYS, WeeklyHours } from '../types/listings';
+import { getOpeningStatus, isOpenAt, parseOpeningHours } from './openingHours';
+
+function everyDay(open: string, close: string): WeeklyHours {
+  return Object.fromEntries(WEEKDAYS.map(day => [day, [{ open, close }]]));
+}
+
+// 2026-10-19 is a Monday; Berlin is on CEST (UTC+2) until 2026-10-25
+const weekdays: OpeningHours = {
+  timezone: 'Europe/Berlin',
+  weekly: {
+    monday: [{ open: '09:00', close: '12:00' }, { open: '14:00', close: '18:00' }],
+    tuesday: [{ open: '09:00', close: '18:00' }],
+    friday: [{ open: '20:00', close: '02:00' }]
+  }
+};
+
+describe('getOpeningStatus', () => {
+  it('is open inside an interval and reports when it closes', () => {
+    expect(getOpeningStatus(weekdays, new Date('2026-10-19T08:00:00Z')))
+      .toEqual({ isOpen: true, nextChange: '2026-10-19T10:00:00.000Z' });
+  });
+
+  it('is closed over a lunch break and reports when it reopens', () => {
+    expect(getOpeningStatus(weekdays, new Date('2026-10-19T10:30:00Z')))
+      .toEqual({ isOpen: false, nextChange: '2026-10-19T12:00:00.000Z' });
+  });
+
+  it('looks ahead to the next day with hours', () => {
+    expect(getOpeningStatus(weekdays, new Date('2026-10-20T17:00:00Z')))
+      .toEqual({ isOpen: false, nextChange: '2026-10-23T18:00:00.000Z' });
+  });
+
+  it('stays open past midnight for intervals that close the next day', () => {
+    // Saturday 01:00 in Berlin, still inside Friday's 20:00-02:00
+    expect(getOpeningStatus(weekdays, new Date('2026-10-23T23:00:00Z')))
+      .toEqual({ isOpen: true, nextChange: '2026-10-24T00:00:00.000Z' });
+  });
+
+  it('uses the listing timezone rather than UTC', () => {
+    const tokyo: OpeningHours = { timezone: 'Asia/Tokyo', weekly: { tuesday: [{ open: '08:00', close: '10:00' }] } };
+    // Monday 23:30 UTC is Tuesday 08:30 in Tokyo
+    expect(isOpenAt(tokyo, new Date('2026-10-19T23:30:00Z'))).toBe(true);
+    expect(isOpenAt(tokyo, new Date('2026-10-20T08:30:00Z'))).toBe(false);
+  });
+
+  it('leaves out the next change when nothing happens within a week', () => {
+    expect(getOpeningStatus({ timezone: 'Europe/Berlin', weekly: {} }, new Date('2026-10-19T08:00:00Z')))
+      .toEqual({ isOpen: false });
+  });
+
+  describe('seasons', () => {
+    const seasonal: OpeningHours = {
+      timezone: 'Europe/Berlin',
+      weekly: everyDay('09:00', '17:00'),
+      seasons: [
+        { name: 'Summer', from: '06-01', to: '08-31', weekly: everyDay('08:00', '20:00') },
+        { name: 'Winter', from: '12-01', to: '02-28', weekly: { saturday: [{ open: '10:00', close: '14:00' }] } }
+      ]
+    };
+
+    it('uses the season hours between its dates, inclusive', () => {
+      expect(isOpenAt(seasonal, new Date('2026-06-01T17:00:00Z'))).toBe(true); // 19:00 CEST
+      expect(isOpenAt(seasonal, new Date('2026-08-31T17:00:00Z'))).toBe(true);
+      expect(isOpenAt(seasonal, new Date('2026-09-01T17:00:00Z'))).toBe(false);
+    });
+
+    it('handles seasons that span the new year', () => {
+      // Wednesday 2027-01-06 and Saturday 2027-01-09 at 12:00 CET
+      expect(isOpenAt(seasonal, new Date('2027-01-06T11:00:00Z'))).toBe(false);
+      expect(isOpenAt(seasonal, new Date('2027-01-09T11:00:00Z'))).toBe(true);
+      expect(isOpenAt(seasonal, new Date('2026-11-30T11:00:00Z'))).toBe(true);
+    });
+
+    it('switches to the season hours when looking ahead into the season', () => {
+      // Sunday 2026-05-31 18:00 CEST, closed; Monday 2026-06-01 opens at 08:00 summer hours
+      expect(getOpeningStatus(seasonal, new Date('2026-05-31T16:00:00Z')))
+        .toEqual({ isOpen: false, nextChange: '2026-06-01T06:00:00.000Z' });
+    });
+  });
+
+  describe('exceptions', () => {
+    const withHoliday: OpeningHours = {
+      ...weekdays,
+      exceptions: [
+        { date: '2026-10-20', intervals: [], note: 'Closed for inventory' },
+        { date: '2026-10-21', intervals: [{ open: '10:00', close: '13:00' }] }
+      ]
+    };
+
+    it('closes all day on a day with no exception intervals', () => {
+      expect(isOpenAt(withHoliday, new Date('2026-10-20T10:00:00Z'))).toBe(false);
+    });
+
+    it('opens on an otherwise closed day with exception intervals', () => {
+      expect(getOpeningStatus(withHoliday, new Date('2026-10-20T10:00:00Z')))
+        .toEqual({ isOpen: false, nextChange: '2026-10-21T08:00:00.000Z' });
+      expect(isOpenAt(withHoliday, new Date('2026-10-21T09:00:00Z'))).toBe(true);
+    });
+
+    it('override 24/7 opening', () => {
+      const vendingMachine: OpeningHours = {
+        timezone: 'Europe/Berlin',
+        alwaysOpen: true,
+        weekly: {},
+        exceptions: [{ date: '2026-10-21', intervals: [] }]
+      };
+      expect(getOpeningStatus(vendingMachine, new Date('2026-10-19T08:00:00Z')))
+        .toEqual({ isOpen: true, nextChange: '2026-10-20T22:00:00.000Z' });
+      expect(getOpeningStatus(vendingMachine, new Date('2026-10-21T08:00:00Z')))
+        .toEqual({ isOpen: false, nextChange: '2026-10-21T22:00:00.000Z' });
+    });
+  });
+
+  it('is always open at 24/7 listings without exceptions', () => {
+    const alwaysOpen: OpeningHours = { timezone: 'Europe/Berlin', alwaysOpen: true, weekly: {} };
+    expect(getOpeningStatus(alwaysOpen, new Date('2026-10-25T01:30:00Z'))).toEqual({ isOpen: true });
+  });
+
+  describe('daylight saving time', () => {
+    const daily: OpeningHours = { timezone: 'Europe/Berlin', weekly: everyDay('09:00', '17:00') };
+
+    it('reports the next opening in UTC across the switch to winter time', () => {
+      // Saturday 18:00 CEST; Sunday 2026-10-25 09:00 is already CET (UTC+1)
+      expect(getOpeningStatus(daily, new Date('2026-10-24T16:00:00Z')))
+        .toEqual({ isOpen: false, nextChange: '2026-10-25T08:00:00.000Z' });
+    });
+
+    it('reports the next opening in UTC across the switch to summer time', () => {
+      // Saturday 18:00 CET; Sunday 2026-03-29 09:00 is already CEST (UTC+2)
+      expect(getOpeningStatus(daily, new Date('2026-03-28T17:00:00Z')))
+        .toEqual({ isOpen: false, nextChange: '2026-03-29T07:00:00.000Z' });
+    });
+
+    it('keeps local opening hours on the day of the switch', () => {
+      expect(isOpenAt(daily, new Date('2026-10-25T08:30:00Z'))).toBe(true); // 09:30 CET
+      expect(isOpenAt(daily, new Date('2026-10-25T07:30:00Z'))).toBe(false); // 08:30 CET
+      expect(isOpenAt(daily, new Date('2026-03-29T07:30:00Z'))).toBe(true); // 09:30 CEST
+    });
+  });
+});
+
+describe('parseOpeningHours', () => {
+  it('upgrades the legacy per-day format to Berlin time', () => {
+    expect(parseOpeningHours({ monday: { open: '08:00', close: '18:00' }, sunday: { open: '', close: '', closed: true } }))
+      .toEqual({ timezone: 'Europe/Berlin', weekly: { monday: [{ open: '08:00', close: '18:00' }], sunday: [] } });
+  });
+
+  it('rejects unknown timezones, weekdays and malformed times', () => {
+    expect(parseOpeningHours({ timezone: 'Mars/Olympus', weekly: {} })).toBeNull();
+    expect(parseOpeningHours({ timezone: 'Europe/Berlin', weekly: { someday: [] } })).toBeNull();
+    expect(parseOpeningHours({ timezone: 'Europe/Berlin', weekly: { monday: [{ open: '9am', close: '17:00' }] } })).toBeNull();
+    expect(parseOpeningHours({ timezone: 'Europe/Berlin', weekly: {}, exceptions: [{ date: '2026-13-01' }] })).toBeNull();
+  });
+});
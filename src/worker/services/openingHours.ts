@@ -0,0 +1,308 @@
+import {
+  OpeningException,
+  OpeningHours,
+  OpeningInterval,
+  OpeningStatus,
+  SeasonalHours,
+  WEEKDAYS,
+  Weekday,
+  WeeklyHours
+} from '../types/listings';
+import { isRecord } from './utils';
+
+// Listings saved before opening hours had a timezone are all in Germany
+const DEFAULT_TIMEZONE = 'Europe/Berlin';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// How far ahead the next opening or closing time is looked for
+const LOOKAHEAD_DAYS = 7;
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function isWeekday(value: string): value is Weekday {
+  return (WEEKDAYS as readonly string[]).includes(value);
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function parseIntervals(value: unknown): OpeningInterval[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const intervals: OpeningInterval[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) {
+      return null;
+    }
+    const { open, close } = item;
+    if (typeof open !== 'string' || typeof close !== 'string' ||
+        !TIME_PATTERN.test(open) || !TIME_PATTERN.test(close) || open === close) {
+      return null;
+    }
+    intervals.push({ open, close });
+  }
+  return intervals;
+}
+
+function parseWeekly(value: unknown): WeeklyHours | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const weekly: WeeklyHours = {};
+  for (const [day, intervals] of Object.entries(value)) {
+    const parsed = isWeekday(day) ? parseIntervals(intervals) : null;
+    if (!parsed) {
+      return null;
+    }
+    weekly[day as Weekday] = parsed;
+  }
+  return weekly;
+}
+
+function parseSeason(value: unknown): SeasonalHours | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { name, from, to } = value;
+  const weekly = parseWeekly(value.weekly);
+  if (!weekly || typeof from !== 'string' || typeof to !== 'string' ||
+      !MONTH_DAY_PATTERN.test(from) || !MONTH_DAY_PATTERN.test(to) ||
+      (name !== undefined && typeof name !== 'string')) {
+    return null;
+  }
+  return { ...(name ? { name } : {}), from, to, weekly };
+}
+
+function parseException(value: unknown): OpeningException | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { date, note } = value;
+  const intervals = value.intervals === undefined ? [] : parseIntervals(value.intervals);
+  if (!intervals || typeof date !== 'string' || !DATE_PATTERN.test(date) ||
+      (note !== undefined && typeof note !== 'string')) {
+    return null;
+  }
+  return { date, intervals, ...(note ? { note } : {}) };
+}
+
+/**
+ * The per-day format used before timezones, seasons and exceptions:
+ * { monday: { open: "08:00", close: "18:00", closed?: boolean } }
+ */
+function parseLegacyHours(value: Record<string, unknown>): OpeningHours | null {
+  const weekly: WeeklyHours = {};
+  for (const [day, hours] of Object.entries(value)) {
+    if (!isWeekday(day) || !isRecord(hours)) {
+      return null;
+    }
+    if (hours.closed) {
+      weekly[day] = [];
+      continue;
+    }
+    const intervals = parseIntervals([{ open: hours.open, close: hours.close }]);
+    if (!intervals) {
+      return null;
+    }
+    weekly[day] = intervals;
+  }
+  return { timezone: DEFAULT_TIMEZONE, weekly };
+}
+
+/**
+ * Validate opening hours from a request or the database, upgrading the legacy
+ * per-day format. Returns null when anything is malformed.
+ */
+export function parseOpeningHours(value: unknown): OpeningHours | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  if (value.timezone === undefined && value.weekly === undefined) {
+    return parseLegacyHours(value);
+  }
+
+  const { timezone, alwaysOpen } = value;
+  const weekly = parseWeekly(value.weekly ?? {});
+  if (!weekly || typeof timezone !== 'string' || !isValidTimezone(timezone) ||
+      (alwaysOpen !== undefined && typeof alwaysOpen !== 'boolean')) {
+    return null;
+  }
+
+  const hours: OpeningHours = { timezone, weekly };
+  if (alwaysOpen) {
+    hours.alwaysOpen = true;
+  }
+
+  if (value.seasons !== undefined) {
+    if (!Array.isArray(value.seasons)) {
+      return null;
+    }
+    const seasons = value.seasons.map(parseSeason);
+    if (seasons.some(season => !season)) {
+      return null;
+    }
+    hours.seasons = seasons as SeasonalHours[];
+  }
+
+  if (value.exceptions !== undefined) {
+    if (!Array.isArray(value.exceptions)) {
+      return null;
+    }
+    const exceptions = value.exceptions.map(parseException);
+    if (exceptions.some(exception => !exception)) {
+      return null;
+    }
+    hours.exceptions = exceptions as OpeningException[];
+  }
+
+  return hours;
+}
+
+export function parseStoredOpeningHours(json: string | null | undefined): OpeningHours | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return parseOpeningHours(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Local calendar date ("YYYY-MM-DD") and minutes since local midnight
+ */
+function toLocalTime(at: Date, timezone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+// Minutes the timezone is ahead of UTC at an instant
+function timezoneOffset(at: number, timezone: string): number {
+  const { date, minutes } = toLocalTime(new Date(at), timezone);
+  const [year, month, day] = date.split('-').map(Number);
+  return (Date.UTC(year, month - 1, day) + minutes * 60000 - (at - at % 60000)) / 60000;
+}
+
+/**
+ * The instant of a wall-clock time, given as minutes from local midnight of `date`.
+ * The offset is looked up twice so a DST switch in between is accounted for.
+ */
+function toInstant(date: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60000;
+  const guess = wallClock - timezoneOffset(wallClock, timezone) * 60000;
+  return new Date(wallClock - timezoneOffset(guess, timezone) * 60000);
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().substring(0, 10);
+}
+
+function weekdayOf(date: string): Weekday {
+  // getUTCDay() counts from Sunday
+  return WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+function isInSeason(monthDay: string, season: SeasonalHours): boolean {
+  return season.from <= season.to
+    ? monthDay >= season.from && monthDay <= season.to
+    : monthDay >= season.from || monthDay <= season.to;
+}
+
+function intervalsOn(hours: OpeningHours, date: string): OpeningInterval[] {
+  const exception = hours.exceptions?.find(e => e.date === date);
+  if (exception) {
+    return exception.intervals;
+  }
+  if (hours.alwaysOpen) {
+    return [{ open: '00:00', close: '24:00' }];
+  }
+
+  const season = hours.seasons?.find(s => isInSeason(date.substring(5), s));
+  return (season ? season.weekly : hours.weekly)[weekdayOf(date)] || [];
+}
+
+/**
+ * Merged open ranges in minutes from local midnight of `date`, from the day
+ * before (whose hours may run past midnight) to the end of the lookahead
+ */
+function openRanges(hours: OpeningHours, date: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const dayStart = offset * MINUTES_PER_DAY;
+    for (const interval of intervalsOn(hours, shiftDate(date, offset))) {
+      const open = toMinutes(interval.open);
+      let close = toMinutes(interval.close);
+      if (close <= open) {
+        close += MINUTES_PER_DAY;
+      }
+      ranges.push([dayStart + open, dayStart + close]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+export function getOpeningStatus(hours: OpeningHours, at: Date = new Date()): OpeningStatus {
+  const { date, minutes } = toLocalTime(at, hours.timezone);
+  const ranges = openRanges(hours, date);
+
+  const current = ranges.find(([start, end]) => start <= minutes && minutes < end);
+  const change = current ? current[1] : ranges.find(([start]) => start > minutes)?.[0];
+  if (change === undefined || change >= (LOOKAHEAD_DAYS + 1) * MINUTES_PER_DAY) {
+    return { isOpen: !!current };
+  }
+
+  return {
+    isOpen: !!current,
+    nextChange: toInstant(date, change, hours.timezone).toISOString()
+  };
+}
+
+export function isOpenAt(hours: OpeningHours, at: Date): boolean {
+  return getOpeningStatus(hours, at).isOpen;
+}
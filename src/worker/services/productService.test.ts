@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseProductCsv } from './productService';
+
+describe('parseProductCsv', () => {
+  it('reads one product per row by header name', () => {
+    const csv = 'name,price,unit,in_stock\nEggs,3.50,10 pcs,yes\nMilk,1.2,1 l,sold_out\n';
+
+    expect(parseProductCsv(csv)).toEqual([
+      { name: 'Eggs', price: 3.5, unit: '10 pcs', inStock: true },
+      { name: 'Milk', price: 1.2, unit: '1 l', inStock: false }
+    ]);
+  });
+
+  it('unquotes fields with commas, escaped quotes and line breaks', () => {
+    const csv = 'name,description\r\n"Cheese, aged","The ""Bergkäse"" from\nthe alp"\r\n';
+
+    expect(parseProductCsv(csv)).toEqual([
+      { name: 'Cheese, aged', description: 'The "Bergkäse" from\nthe alp' }
+    ]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(parseProductCsv('name\n"Eggs')).toBeNull();
+  });
+
+  it('ignores a byte order mark and normalises header names', () => {
+    expect(parseProductCsv('\uFEFFName,In Stock\nEggs,1')).toEqual([{ name: 'Eggs', inStock: true }]);
+    expect(parseProductCsv('name,in-stock\nEggs,no')).toEqual([{ name: 'Eggs', inStock: false }]);
+  });
+
+  it('accepts a decimal comma in prices and rejects other formats', () => {
+    expect(parseProductCsv('name,price\nHoney,"4,50"')).toEqual([{ name: 'Honey', price: 4.5 }]);
+    expect(parseProductCsv('name,price\nHoney,4.50 EUR')).toBeNull();
+    expect(parseProductCsv('name,price\nHoney,-1')).toBeNull();
+  });
+
+  it('rejects a header without name, with unknown or with duplicate columns', () => {
+    expect(parseProductCsv('price\n3.50')).toBeNull();
+    expect(parseProductCsv('name,colour\nEggs,brown')).toBeNull();
+    expect(parseProductCsv('name,price,Price\nEggs,1,2')).toBeNull();
+  });
+
+  it('rejects rows with more cells than columns and products named twice', () => {
+    expect(parseProductCsv('name\nEggs,extra')).toBeNull();
+    expect(parseProductCsv('name\nEggs\neggs')).toBeNull();
+  });
+
+  it('keeps the stock state for an empty in_stock cell but clears other empty cells', () => {
+    expect(parseProductCsv('name,price,unit,in_stock\nEggs,,,\n')).toEqual([
+      { name: 'Eggs', price: null, unit: null }
+    ]);
+  });
+
+  it('rejects unknown stock values', () => {
+    expect(parseProductCsv('name,in_stock\nEggs,maybe')).toBeNull();
+  });
+
+  it('skips blank lines and rejects an empty file', () => {
+    expect(parseProductCsv('name\n\nEggs\n\n')).toEqual([{ name: 'Eggs' }]);
+    expect(parseProductCsv('')).toBeNull();
+  });
+});
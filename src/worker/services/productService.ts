@@ -0,0 +1,375 @@
+import {
+  Product,
+  ProductBulkResult,
+  ProductRequest,
+  STOCK_REPORT_STATUSES,
+  StockReportStatus
+} from '../types/products';
+import { isRecord } from './utils';
+
+export const MAX_PRODUCTS_PER_LISTING = 100;
+export const MAX_PRODUCT_NAME_LENGTH = 100;
+export const MAX_PRODUCT_DESCRIPTION_LENGTH = 500;
+export const MAX_PRODUCT_UNIT_LENGTH = 20;
+export const MAX_PRODUCT_PRICE = 100000;
+// Minimum time between two stock reports by the same user on the same product
+export const STOCK_REPORT_COOLDOWN_MINUTES = 30;
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+interface DatabaseProduct {
+  id: string;
+  listing_id: string;
+  name: string;
+  description: string | null;
+  price: number | null;
+  currency: string;
+  unit: string | null;
+  in_stock: number | boolean;
+  stock_updated_at: string;
+  stock_updated_by: 'owner' | 'visitor' | null;
+  sort_order: number;
+}
+
+// Listings in the database may carry the category with or without its "cat_" prefix
+export function isVendingMachineCategory(category: string): boolean {
+  return category === 'vending_machine' || category === 'cat_vending_machine';
+}
+
+function parseOptionalText(value: unknown, maxLength: number): string | null | undefined | false {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    return false;
+  }
+  return value.trim() || null;
+}
+
+/**
+ * One product of a bulk update. Fields left out keep their stored value and null
+ * clears them; returns null when anything is malformed.
+ */
+export function parseProductRequest(value: unknown): ProductRequest | null {
+  if (!isRecord(value) || typeof value.name !== 'string') {
+    return null;
+  }
+
+  const name = value.name.trim().replace(/\s+/g, ' ');
+  if (!name || name.length > MAX_PRODUCT_NAME_LENGTH) {
+    return null;
+  }
+  const product: ProductRequest = { name };
+
+  const description = parseOptionalText(value.description, MAX_PRODUCT_DESCRIPTION_LENGTH);
+  const unit = parseOptionalText(value.unit, MAX_PRODUCT_UNIT_LENGTH);
+  if (description === false || unit === false) {
+    return null;
+  }
+  if (description !== undefined) {
+    product.description = description;
+  }
+  if (unit !== undefined) {
+    product.unit = unit;
+  }
+
+  const { price, currency, inStock } = value;
+  if (price !== undefined) {
+    if (price !== null && (typeof price !== 'number' || !isFinite(price) || price < 0 || price > MAX_PRODUCT_PRICE)) {
+      return null;
+    }
+    product.price = price === null ? null : Math.round(price * 100) / 100;
+  }
+  if (currency !== undefined) {
+    if (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency.toUpperCase())) {
+      return null;
+    }
+    product.currency = currency.toUpperCase();
+  }
+  if (inStock !== undefined) {
+    if (typeof inStock !== 'boolean') {
+      return null;
+    }
+    product.inStock = inStock;
+  }
+
+  return product;
+}
+
+/**
+ * A JSON bulk update: `{ "products": [...] }` or a bare array. Null when any product
+ * is invalid, a name appears twice or there are too many.
+ */
+export function parseProductList(body: unknown): ProductRequest[] | null {
+  const items = isRecord(body) ? body.products : body;
+  if (!Array.isArray(items) || items.length > MAX_PRODUCTS_PER_LISTING) {
+    return null;
+  }
+
+  const products = items.map(parseProductRequest);
+  if (products.some(product => !product)) {
+    return null;
+  }
+  const names = new Set(products.map(product => product!.name.toLowerCase()));
+  return names.size === products.length ? products as ProductRequest[] : null;
+}
+
+// RFC 4180 rows: comma separated, double quotes around fields with commas, quotes or newlines
+function parseCsvRows(text: string): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const CSV_BOOLEANS: Record<string, boolean> = {
+  true: true, yes: true, '1': true, in_stock: true,
+  false: false, no: false, '0': false, sold_out: false,
+};
+
+/**
+ * A CSV bulk update with a header row naming its columns: name (required), description,
+ * price, currency, unit and in_stock. Columns that are left out keep their stored values;
+ * an empty cell clears the value, except for in_stock where it keeps it.
+ */
+export function parseProductCsv(text: string): ProductRequest[] | null {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!rows || rows.length === 0) {
+    return null;
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const known = ['name', 'description', 'price', 'currency', 'unit', 'in_stock'];
+  if (!header.includes('name') || header.some(column => !known.includes(column)) || new Set(header).size !== header.length) {
+    return null;
+  }
+
+  const items: Record<string, unknown>[] = [];
+  for (const cells of rows.slice(1)) {
+    if (cells.length > header.length) {
+      return null;
+    }
+    const item: Record<string, unknown> = {};
+    for (const [index, column] of header.entries()) {
+      const cell = (cells[index] ?? '').trim();
+      if (column === 'price') {
+        const price = Number(cell.replace(',', '.'));
+        item.price = cell === '' ? null : (cell.match(/^\d+([.,]\d+)?$/) ? price : NaN);
+      } else if (column === 'in_stock') {
+        if (cell !== '') {
+          item.inStock = CSV_BOOLEANS[cell.toLowerCase()] ?? cell;
+        }
+      } else if (column === 'currency') {
+        if (cell !== '') {
+          item.currency = cell;
+        }
+      } else {
+        item[column] = cell;
+      }
+    }
+    items.push(item);
+  }
+
+  return parseProductList(items);
+}
+
+export function parseStockReport(body: unknown): StockReportStatus | null {
+  if (!isRecord(body) || typeof body.status !== 'string') {
+    return null;
+  }
+  return (STOCK_REPORT_STATUSES as readonly string[]).includes(body.status) ? body.status as StockReportStatus : null;
+}
+
+export class ProductService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async getProducts(listingId: string): Promise<Product[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM listing_products WHERE listing_id = ? ORDER BY sort_order ASC, name ASC
+    `).bind(listingId).all();
+
+    return (result.results as unknown as DatabaseProduct[]).map(row => this.convertProduct(row));
+  }
+
+  async getProduct(id: string): Promise<Product | null> {
+    const row = await this.db.prepare(`
+      SELECT * FROM listing_products WHERE id = ?
+    `).bind(id).first();
+
+    return row ? this.convertProduct(row as unknown as DatabaseProduct) : null;
+  }
+
+  /**
+   * Create or update products by name. With `replace`, the list is the whole catalogue:
+   * products not in it are removed and the list order is kept. Null when the catalogue
+   * would grow past MAX_PRODUCTS_PER_LISTING.
+   */
+  async bulkUpdate(listingId: string, updates: ProductRequest[], replace: boolean): Promise<ProductBulkResult | null> {
+    const existing = await this.db.prepare(`
+      SELECT * FROM listing_products WHERE listing_id = ?
+    `).bind(listingId).all();
+    const byName = new Map((existing.results as unknown as DatabaseProduct[]).map(row => [row.name.toLowerCase(), row]));
+
+    const toCreate = updates.filter(update => !byName.has(update.name.toLowerCase()));
+    const updateNames = new Set(updates.map(update => update.name.toLowerCase()));
+    const toRemove = replace ? [...byName.values()].filter(row => !updateNames.has(row.name.toLowerCase())) : [];
+
+    if (byName.size + toCreate.length - toRemove.length > MAX_PRODUCTS_PER_LISTING) {
+      return null;
+    }
+
+    let nextSortOrder = Math.max(-1, ...[...byName.values()].map(row => row.sort_order)) + 1;
+    const statements: D1PreparedStatement[] = toRemove.map(row =>
+      this.db.prepare(`DELETE FROM listing_products WHERE id = ?`).bind(row.id)
+    );
+
+    for (const [index, update] of updates.entries()) {
+      const current = byName.get(update.name.toLowerCase());
+      const sortOrder = replace ? index : (current ? current.sort_order : nextSortOrder++);
+
+      if (!current) {
+        statements.push(this.db.prepare(`
+          INSERT INTO listing_products (id, listing_id, name, description, price, currency, unit, in_stock, stock_updated_by, sort_order)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'owner', ?)
+        `).bind(
+          crypto.randomUUID(),
+          listingId,
+          update.name,
+          update.description ?? null,
+          update.price ?? null,
+          update.currency || 'EUR',
+          update.unit ?? null,
+          update.inStock ?? true,
+          sortOrder
+        ));
+        continue;
+      }
+
+      const stockChanged = update.inStock !== undefined;
+      statements.push(this.db.prepare(`
+        UPDATE listing_products SET
+          name = ?, description = ?, price = ?, currency = ?, unit = ?, sort_order = ?,
+          in_stock = ?,
+          stock_updated_at = CASE WHEN ? THEN CURRENT_TIMESTAMP ELSE stock_updated_at END,
+          stock_updated_by = CASE WHEN ? THEN 'owner' ELSE stock_updated_by END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).bind(
+        update.name,
+        update.description === undefined ? current.description : update.description,
+        update.price === undefined ? current.price : update.price,
+        update.currency || current.currency,
+        update.unit === undefined ? current.unit : update.unit,
+        sortOrder,
+        update.inStock ?? Boolean(current.in_stock),
+        stockChanged ? 1 : 0,
+        stockChanged ? 1 : 0,
+        current.id
+      ));
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+
+    return {
+      created: toCreate.length,
+      updated: updates.length - toCreate.length,
+      removed: toRemove.length,
+      products: await this.getProducts(listingId),
+    };
+  }
+
+  /**
+   * Whether the user reported on this product's stock within the cooldown
+   */
+  async hasRecentStockReport(productId: string, userId: string): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM product_stock_reports
+      WHERE product_id = ? AND user_id = ? AND created_at > datetime('now', ?)
+      LIMIT 1
+    `).bind(productId, userId, `-${STOCK_REPORT_COOLDOWN_MINUTES} minutes`).first();
+
+    return !!row;
+  }
+
+  /**
+   * Record a visitor's "sold out" or "restocked" report; it becomes the product's stock
+   * until the owner or another visitor says otherwise
+   */
+  async reportStock(product: Product, userId: string, status: StockReportStatus): Promise<Product | null> {
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO product_stock_reports (id, product_id, listing_id, user_id, status)
+        VALUES (?, ?, ?, ?, ?)
+      `).bind(crypto.randomUUID(), product.id, product.listingId, userId, status),
+      this.db.prepare(`
+        UPDATE listing_products
+        SET in_stock = ?, stock_updated_at = CURRENT_TIMESTAMP, stock_updated_by = 'visitor'
+        WHERE id = ?
+      `).bind(status === 'restocked', product.id),
+    ]);
+
+    return this.getProduct(product.id);
+  }
+
+  private convertProduct(row: DatabaseProduct): Product {
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      name: row.name,
+      description: row.description || undefined,
+      price: row.price ?? undefined,
+      currency: row.currency,
+      unit: row.unit || undefined,
+      inStock: Boolean(row.in_stock),
+      stockUpdatedAt: row.stock_updated_at,
+      stockUpdatedBy: row.stock_updated_by || undefined,
+    };
+  }
+}
@@ -0,0 +1,289 @@
+import { coarsenCoordinate, parseMapBounds } from './listingMapService';
+import {
+  PublicFeedFormat,
+  PublicFeedQuery,
+  PublicListingFeature,
+  PublicListingsGeoJson
+} from '../types/publicFeed';
+
+export const MAX_GEOJSON_FEATURES = 5000;
+// Listings read from D1 per chunk of the NDJSON stream
+export const NDJSON_PAGE_SIZE = 500;
+export const PUBLIC_FEED_CATEGORIES = [
+  'organic_farm',
+  'local_product',
+  'water_source',
+  'vending_machine',
+  'craft',
+  'sustainable_good'
+];
+
+// Cached bodies are keyed by ETag, so they never go stale; the TTL only frees space
+const FEED_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const FEED_CACHE_PREFIX = 'public-feed';
+const MAX_COUNTRY_LENGTH = 100;
+
+interface DatabaseFeedListing {
+  id: string;
+  title: string;
+  category: string;
+  address: string;
+  postal_code: string | null;
+  city: string;
+  region: string | null;
+  country: string;
+  latitude: number;
+  longitude: number;
+  hide_address: number | null;
+  contact_website: string | null;
+  is_organic: number | null;
+  is_verified: number | null;
+  water_potable: number | null;
+  water_status: string | null;
+  updated_at: string;
+}
+
+/**
+ * Validate the query string of the public listing feeds: a comma-separated list of
+ * categories, a country and a bbox, all optional. Returns null when malformed.
+ */
+export function parsePublicFeedQuery(category?: string, country?: string, bbox?: string): PublicFeedQuery | null {
+  const query: PublicFeedQuery = {};
+
+  if (category) {
+    const categories = [...new Set(category.split(',').map(value => value.trim()))];
+    if (!categories.every(value => PUBLIC_FEED_CATEGORIES.includes(value))) {
+      return null;
+    }
+    query.categories = categories;
+  }
+
+  if (country !== undefined) {
+    const trimmed = country.trim();
+    if (!trimmed || trimmed.length > MAX_COUNTRY_LENGTH) {
+      return null;
+    }
+    query.country = trimmed;
+  }
+
+  if (bbox !== undefined) {
+    const bounds = parseMapBounds(bbox);
+    if (!bounds) {
+      return null;
+    }
+    query.bounds = bounds;
+  }
+
+  return query;
+}
+
+/**
+ * Whether an If-None-Match header lists the given ETag. Weak validators match too,
+ * as RFC 9110 asks for GET requests.
+ */
+export function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+/**
+ * Public listing feeds for partner sites and open-data portals. Listings whose
+ * owners hide their address are published without it and with coordinates
+ * rounded to about a kilometre.
+ */
+export class PublicFeedService {
+  private db: D1Database;
+  private cache?: KVNamespace;
+
+  constructor(db: D1Database, cache?: KVNamespace) {
+    this.db = db;
+    this.cache = cache;
+  }
+
+  /**
+   * ETag for a feed: changes whenever a matching listing is added, edited,
+   * verified, has its water status reported or expired, or is removed. Expiring
+   * a status clears it without touching updated_at, hence the count of statuses.
+   */
+  async getEtag(query: PublicFeedQuery, format: PublicFeedFormat): Promise<string> {
+    const { where, params } = this.whereClause(query);
+    const version = await this.db.prepare(`
+      SELECT
+        COUNT(*) AS count,
+        MAX(updated_at) AS updated_at,
+        MAX(water_status_at) AS water_status_at,
+        SUM(water_status IS NOT NULL) AS water_statuses,
+        MAX(verified_at) AS verified_at
+      FROM listings
+      WHERE ${where}
+    `).bind(...params).first();
+
+    return `"${await this.hash(JSON.stringify([format, query, version]))}"`;
+  }
+
+  /**
+   * The GeoJSON FeatureCollection as text, from KV when this version was built before
+   */
+  async getGeoJson(query: PublicFeedQuery, etag: string): Promise<string> {
+    const cacheKey = `${FEED_CACHE_PREFIX}:${etag.replace(/"/g, '')}`;
+    const cached = await this.readCache(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.getPage(query, '', MAX_GEOJSON_FEATURES + 1);
+    const collection: PublicListingsGeoJson = {
+      type: 'FeatureCollection',
+      features: rows.slice(0, MAX_GEOJSON_FEATURES).map(row => this.toFeature(row)),
+      truncated: rows.length > MAX_GEOJSON_FEATURES
+    };
+    const body = JSON.stringify(collection);
+
+    await this.writeCache(cacheKey, body);
+    return body;
+  }
+
+  /**
+   * Every matching listing as one GeoJSON Feature per line. Pages are read from D1
+   * only as the client consumes the stream, so a full dump never sits in memory.
+   */
+  streamNdjson(query: PublicFeedQuery): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let afterId = '';
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const rows = await this.getPage(query, afterId, NDJSON_PAGE_SIZE);
+          if (rows.length > 0) {
+            controller.enqueue(encoder.encode(
+              rows.map(row => JSON.stringify(this.toFeature(row)) + '\n').join('')
+            ));
+            afterId = rows[rows.length - 1].id;
+          }
+          if (rows.length < NDJSON_PAGE_SIZE) {
+            controller.close();
+          }
+        } catch (error) {
+          console.error('Error streaming public listings:', error);
+          controller.error(error);
+        }
+      }
+    });
+  }
+
+  // Keyset pagination by id, so later pages don't get slower
+  private async getPage(query: PublicFeedQuery, afterId: string, limit: number): Promise<DatabaseFeedListing[]> {
+    const { where, params } = this.whereClause(query);
+    const result = await this.db.prepare(`
+      SELECT
+        id, title, category, address, postal_code, city, region, country,
+        latitude, longitude, hide_address, contact_website, is_organic, is_verified,
+        water_potable, water_status, updated_at
+      FROM listings
+      WHERE ${where} AND id > ?
+      ORDER BY id
+      LIMIT ?
+    `).bind(...params, afterId, limit).all();
+
+    return result.results as unknown as DatabaseFeedListing[];
+  }
+
+  private whereClause(query: PublicFeedQuery): { where: string; params: Array<string | number> } {
+    let where = "status = 'active'";
+    const params: Array<string | number> = [];
+
+    if (query.categories?.length) {
+      where += ` AND category IN (${query.categories.map(() => '?').join(', ')})`;
+      params.push(...query.categories.map(category => `cat_${category}`));
+    }
+
+    if (query.country) {
+      where += ' AND country = ? COLLATE NOCASE';
+      params.push(query.country);
+    }
+
+    if (query.bounds) {
+      const { west, south, east, north } = query.bounds;
+      where += ' AND latitude BETWEEN ? AND ?';
+      params.push(south, north);
+      // Bounds crossing the antimeridian have west > east
+      where += west <= east ? ' AND longitude BETWEEN ? AND ?' : ' AND (longitude >= ? OR longitude <= ?)';
+      params.push(west, east);
+    }
+
+    return { where, params };
+  }
+
+  private toFeature(row: DatabaseFeedListing): PublicListingFeature {
+    const hideAddress = Boolean(row.hide_address);
+    const isWaterSource = row.category === 'cat_water_source';
+
+    return {
+      type: 'Feature',
+      id: row.id,
+      geometry: {
+        type: 'Point',
+        coordinates: hideAddress
+          ? [coarsenCoordinate(row.longitude), coarsenCoordinate(row.latitude)]
+          : [row.longitude, row.latitude]
+      },
+      properties: {
+        id: row.id,
+        title: row.title,
+        category: row.category.startsWith('cat_') ? row.category.substring(4) : row.category,
+        address: hideAddress ? undefined : row.address,
+        postalCode: hideAddress ? undefined : (row.postal_code || undefined),
+        city: row.city,
+        region: row.region || undefined,
+        country: row.country,
+        approximateLocation: hideAddress,
+        website: row.contact_website || undefined,
+        isOrganic: Boolean(row.is_organic),
+        isVerified: Boolean(row.is_verified),
+        waterPotable: isWaterSource && row.water_potable !== null ? Boolean(row.water_potable) : undefined,
+        waterStatus: isWaterSource ? (row.water_status || undefined) : undefined,
+        updatedAt: row.updated_at.includes('T') ? row.updated_at : `${row.updated_at.replace(' ', 'T')}Z`
+      }
+    };
+  }
+
+  // The feed still works from D1 when KV is unavailable
+  private async readCache(key: string): Promise<string | null> {
+    if (!this.cache) {
+      return null;
+    }
+
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      console.error('Public feed cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, body: string): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+
+    try {
+      await this.cache.put(key, body, { expirationTtl: FEED_CACHE_TTL_SECONDS });
+    } catch (error) {
+      console.error('Failed to cache public feed:', error);
+    }
+  }
+
+  private async hash(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest))
+      .slice(0, 16)
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -0,0 +1,306 @@
+import {
+  FlaggedReview,
+  Review,
+  ReviewFlag,
+  ReviewPage,
+  ReviewRequest,
+  ReviewSort,
+  ReviewStatus
+} from '../types/reviews';
+import { displayName, parseText } from './utils';
+
+export const MAX_REVIEW_LENGTH = 5000;
+export const MAX_REVIEW_PHOTOS = 5;
+export const MAX_OWNER_REPLY_LENGTH = 2000;
+// Flag reasons and moderator removal notes
+export const MAX_REVIEW_REASON_LENGTH = 1000;
+export const REVIEWS_PER_PAGE = 20;
+export const MAX_REVIEWS_PER_PAGE = 50;
+
+interface DatabaseReview {
+  id: string;
+  listing_id: string;
+  user_id: string;
+  author_first_name: string | null;
+  author_last_name: string | null;
+  rating: number;
+  body: string;
+  photos: string;
+  status: ReviewStatus;
+  owner_reply: string | null;
+  owner_reply_at: string | null;
+  removal_reason: string | null;
+  helpful_count: number;
+  voted_helpful: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DatabaseFlaggedReview extends DatabaseReview {
+  listing_title: string;
+  author_email: string;
+  flag_count: number;
+}
+
+/**
+ * A create or update review request. Photos must be URLs under `photoUrlPrefix`,
+ * i.e. uploaded by the reviewer for this listing. Null when anything is invalid.
+ */
+export function parseReviewRequest(body: unknown, photoUrlPrefix: string): ReviewRequest | null {
+  const text = parseText(body, 'body', MAX_REVIEW_LENGTH);
+  if (!text) {
+    return null;
+  }
+
+  const { rating, photos = [] } = body as Record<string, unknown>;
+  if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return null;
+  }
+  if (!Array.isArray(photos) || photos.length > MAX_REVIEW_PHOTOS) {
+    return null;
+  }
+  if (!photos.every(photo => typeof photo === 'string' && photo.startsWith(photoUrlPrefix) && photo.length > photoUrlPrefix.length)) {
+    return null;
+  }
+
+  return { rating, body: text, photos: [...new Set(photos as string[])] };
+}
+
+export function parseOwnerReply(body: unknown): string | null {
+  return parseText(body, 'reply', MAX_OWNER_REPLY_LENGTH);
+}
+
+export function parseReviewReason(body: unknown): string | null {
+  return parseText(body, 'reason', MAX_REVIEW_REASON_LENGTH);
+}
+
+export class ReviewService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Published reviews of a listing, plus the viewer's own review even when it was removed
+   */
+  async getReviews(
+    listingId: string,
+    options: { sort: ReviewSort; page: number; limit: number },
+    viewerId?: string
+  ): Promise<ReviewPage> {
+    const orderBy = {
+      recent: 'r.created_at DESC',
+      helpful: 'r.helpful_count DESC, r.created_at DESC',
+      rating: 'r.rating DESC, r.created_at DESC',
+    }[options.sort];
+
+    const [countResult, result] = await this.db.batch([
+      this.db.prepare(`
+        SELECT COUNT(*) as total FROM reviews WHERE listing_id = ? AND status = 'published'
+      `).bind(listingId),
+      this.queryReviews(
+        `r.listing_id = ? AND r.status = 'published' ORDER BY ${orderBy}, r.id ASC LIMIT ? OFFSET ?`,
+        [listingId, options.limit, (options.page - 1) * options.limit],
+        viewerId
+      ),
+    ]);
+
+    const total = (countResult.results as unknown as Array<{ total: number }>)[0]?.total || 0;
+    const ownReview = viewerId ? await this.findUserReview(listingId, viewerId) : null;
+
+    return {
+      reviews: (result.results as unknown as DatabaseReview[]).map(row => this.convertReview(row, viewerId)),
+      total,
+      page: options.page,
+      limit: options.limit,
+      totalPages: Math.ceil(total / options.limit),
+      ownReview: ownReview || undefined,
+    };
+  }
+
+  /**
+   * Any review by id, removed ones included; the caller decides who may see it
+   */
+  async getReview(id: string, viewerId?: string): Promise<Review | null> {
+    const row = await this.queryReviews('r.id = ?', [id], viewerId).first();
+    return row ? this.convertReview(row as unknown as DatabaseReview, viewerId) : null;
+  }
+
+  async findUserReview(listingId: string, userId: string): Promise<Review | null> {
+    const row = await this.queryReviews('r.listing_id = ? AND r.user_id = ?', [listingId, userId], userId).first();
+    return row ? this.convertReview(row as unknown as DatabaseReview, userId) : null;
+  }
+
+  async createReview(listingId: string, userId: string, request: ReviewRequest): Promise<Review> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO reviews (id, listing_id, user_id, rating, body, photos)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(id, listingId, userId, request.rating, request.body, JSON.stringify(request.photos || [])).run();
+
+    const review = await this.getReview(id, userId);
+    if (!review) {
+      throw new Error('Failed to create review');
+    }
+    return review;
+  }
+
+  async updateReview(review: Review, request: ReviewRequest): Promise<Review | null> {
+    await this.db.prepare(`
+      UPDATE reviews SET rating = ?, body = ?, photos = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(request.rating, request.body, JSON.stringify(request.photos || []), review.id).run();
+
+    return this.getReview(review.id, review.author.id);
+  }
+
+  async deleteReview(id: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM reviews WHERE id = ?
+    `).bind(id).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Set or, with null, clear the listing owner's public reply
+   */
+  async setOwnerReply(id: string, reply: string | null): Promise<void> {
+    await this.db.prepare(`
+      UPDATE reviews SET owner_reply = ?, owner_reply_at = CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+      WHERE id = ?
+    `).bind(reply, reply, id).run();
+  }
+
+  async voteHelpful(id: string, userId: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO review_votes (review_id, user_id) VALUES (?, ?)
+    `).bind(id, userId).run();
+  }
+
+  async removeVote(id: string, userId: string): Promise<void> {
+    await this.db.prepare(`
+      DELETE FROM review_votes WHERE review_id = ? AND user_id = ?
+    `).bind(id, userId).run();
+  }
+
+  /**
+   * False when the user already flagged the review
+   */
+  async flagReview(id: string, userId: string, reason: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      INSERT OR IGNORE INTO review_flags (review_id, user_id, reason) VALUES (?, ?, ?)
+    `).bind(id, userId, reason).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Published reviews with open flags for moderators, most flagged first
+   */
+  async getFlaggedReviews(): Promise<FlaggedReview[]> {
+    const result = await this.db.prepare(`
+      SELECT r.*, l.title AS listing_title,
+        author.first_name AS author_first_name, author.last_name AS author_last_name, author.email AS author_email,
+        0 AS voted_helpful
+      FROM reviews r
+      JOIN listings l ON l.id = r.listing_id
+      JOIN users author ON author.id = r.user_id
+      WHERE r.status = 'published' AND r.flag_count > 0
+      ORDER BY r.flag_count DESC, r.created_at ASC
+      LIMIT 100
+    `).all();
+
+    const rows = result.results as unknown as DatabaseFlaggedReview[];
+    return Promise.all(rows.map(async row => ({
+      ...this.convertReview(row),
+      listingTitle: row.listing_title,
+      authorEmail: row.author_email,
+      flagCount: row.flag_count,
+      flags: await this.getFlags(row.id),
+    })));
+  }
+
+  /**
+   * Hide a published review; it stops counting towards the listing's rating
+   */
+  async removeReview(id: string, moderatorId: string, reason: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE reviews
+      SET status = 'removed', removed_by = ?, removed_at = CURRENT_TIMESTAMP, removal_reason = ?
+      WHERE id = ? AND status = 'published'
+    `).bind(moderatorId, reason, id).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Keep a flagged review, clearing its flags so it leaves the queue
+   */
+  async dismissFlags(id: string): Promise<boolean> {
+    const [updated] = await this.db.batch([
+      this.db.prepare(`UPDATE reviews SET flag_count = 0 WHERE id = ? AND status = 'published'`).bind(id),
+      this.db.prepare(`DELETE FROM review_flags WHERE review_id = ?`).bind(id),
+    ]);
+
+    return updated.meta.changes > 0;
+  }
+
+  private async getFlags(reviewId: string): Promise<ReviewFlag[]> {
+    const result = await this.db.prepare(`
+      SELECT f.user_id, u.email AS user_email, f.reason, f.created_at
+      FROM review_flags f
+      JOIN users u ON u.id = f.user_id
+      WHERE f.review_id = ?
+      ORDER BY f.created_at ASC
+    `).bind(reviewId).all();
+
+    const rows = result.results as unknown as Array<{ user_id: string; user_email: string; reason: string; created_at: string }>;
+    return rows.map(row => ({
+      userId: row.user_id,
+      userEmail: row.user_email,
+      reason: row.reason,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private queryReviews(condition: string, params: unknown[], viewerId?: string): D1PreparedStatement {
+    return this.db.prepare(`
+      SELECT r.*, author.first_name AS author_first_name, author.last_name AS author_last_name,
+        EXISTS (SELECT 1 FROM review_votes WHERE review_id = r.id AND user_id = ?) AS voted_helpful
+      FROM reviews r
+      JOIN users author ON author.id = r.user_id
+      WHERE ${condition}
+    `).bind(viewerId || null, ...params);
+  }
+
+  private convertReview(row: DatabaseReview, viewerId?: string): Review {
+    let photos: string[] = [];
+    try {
+      photos = JSON.parse(row.photos);
+    } catch {
+      // Stored by this service, so only a hand-edited row ends up here
+    }
+
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      author: {
+        id: row.user_id,
+        name: displayName(row.author_first_name, row.author_last_name),
+      },
+      rating: row.rating,
+      body: row.body,
+      photos,
+      status: row.status,
+      ownerReply: row.owner_reply || undefined,
+      ownerReplyAt: row.owner_reply_at || undefined,
+      removalReason: row.user_id === viewerId ? (row.removal_reason || undefined) : undefined,
+      helpfulCount: row.helpful_count,
+      votedHelpful: Boolean(row.voted_helpful),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
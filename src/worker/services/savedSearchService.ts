@@ -0,0 +1,411 @@
+import { Listing, SearchFilters } from '../types/listings';
+import {
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  CreateSavedSearchRequest,
+  SavedSearch,
+  SavedSearchAlertRun,
+  SavedSearchDigestEntry,
+  SavedSearchQuery,
+  UpdateSavedSearchRequest
+} from '../types/savedSearches';
+import { DatabaseService, findInvalidSearchFilter } from './databaseService';
+import { EmailService } from './emailService';
+import { DEFAULT_LOCALE, isSupportedLocale, translate } from '../i18n';
+import { isRecord } from './utils';
+
+// Saved searches a user can keep
+export const MAX_SAVED_SEARCHES = 25;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 100;
+// Saved searches checked per scheduled run, longest-unchecked first
+const ALERT_BATCH_SIZE = 50;
+// A failed digest is retried after this many minutes, doubling with each failure up to a day
+const ALERT_RETRY_BASE_MINUTES = 5;
+const ALERT_RETRY_MAX_MINUTES = 24 * 60;
+// Listings shown per search in a digest; the rest are only counted
+const DIGEST_LISTINGS_PER_SEARCH = 5;
+// New matches looked at per search and run
+const MATCHES_PER_RUN = 50;
+
+const ALERT_INTERVAL_DAYS: Record<Exclude<AlertFrequency, 'off'>, number> = {
+  instant: 0, // every scheduled run
+  daily: 1,
+  weekly: 7,
+};
+
+interface DatabaseSavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  alert_frequency: AlertFrequency;
+  last_checked_at: string;
+  alert_failures: number;
+  next_alert_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DueSavedSearch extends DatabaseSavedSearch {
+  email: string;
+  first_name: string | null;
+  locale: string | null;
+}
+
+function isAlertFrequency(value: unknown): value is AlertFrequency {
+  return typeof value === 'string' && (ALERT_FREQUENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Keep the search text and filters of a stored or submitted query. Returns null
+ * when the shape is wrong or a filter is one /api/listings/search would reject.
+ */
+function parseSavedSearchQuery(value: unknown): SavedSearchQuery | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { query, filters } = value;
+  if ((query !== undefined && typeof query !== 'string') ||
+      (filters !== undefined && !isRecord(filters))) {
+    return null;
+  }
+
+  const location = (filters as SearchFilters | undefined)?.location;
+  if (location && ![location.latitude, location.longitude, location.radius].every(n => typeof n === 'number' && isFinite(n))) {
+    return null;
+  }
+  // Filters the search would reject would make every alert run for this search fail
+  if (findInvalidSearchFilter(filters as SearchFilters | undefined)) {
+    return null;
+  }
+
+  return {
+    ...(query?.trim() ? { query: query.trim() } : {}),
+    ...(filters && Object.keys(filters).length > 0 ? { filters: filters as SearchFilters } : {}),
+  };
+}
+
+/**
+ * Validate a create (every field but alertFrequency required) or update (only
+ * the fields present) request body. Returns null when anything is invalid.
+ */
+export function parseSavedSearchRequest(body: unknown, partial: boolean): UpdateSavedSearchRequest | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const { name, query, alertFrequency } = body;
+  const request: UpdateSavedSearchRequest = {};
+
+  if (name !== undefined || !partial) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      return null;
+    }
+    request.name = trimmed;
+  }
+
+  if (query !== undefined || !partial) {
+    const parsed = parseSavedSearchQuery(query);
+    // A search with neither text nor filters would match every new listing
+    if (!parsed || Object.keys(parsed).length === 0) {
+      return null;
+    }
+    request.query = parsed;
+  }
+
+  if (alertFrequency !== undefined) {
+    if (!isAlertFrequency(alertFrequency)) {
+      return null;
+    }
+    request.alertFrequency = alertFrequency;
+  }
+
+  return request;
+}
+
+export class SavedSearchService {
+  private db: D1Database;
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private appUrl: string;
+
+  constructor(db: D1Database, databaseService: DatabaseService, emailService: EmailService, appUrl: string = 'https://kisigua.com') {
+    this.db = db;
+    this.databaseService = databaseService;
+    this.emailService = emailService;
+    this.appUrl = appUrl;
+  }
+
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM saved_searches WHERE user_id = ? ORDER BY created_at DESC, id ASC
+    `).bind(userId).all();
+
+    return (result.results as unknown as DatabaseSavedSearch[]).map(row => this.convertSavedSearch(row));
+  }
+
+  async getSavedSearch(id: string, userId: string): Promise<SavedSearch | null> {
+    const row = await this.db.prepare(`
+      SELECT * FROM saved_searches WHERE id = ? AND user_id = ?
+    `).bind(id, userId).first();
+
+    return row ? this.convertSavedSearch(row as unknown as DatabaseSavedSearch) : null;
+  }
+
+  async countSavedSearches(userId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) as total FROM saved_searches WHERE user_id = ?
+    `).bind(userId).first();
+
+    return (result?.total as number) || 0;
+  }
+
+  /**
+   * Alerts cover listings published from now on, not what the search finds today
+   */
+  async createSavedSearch(userId: string, data: CreateSavedSearchRequest): Promise<SavedSearch> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO saved_searches (id, user_id, name, query, alert_frequency)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(id, userId, data.name, JSON.stringify(data.query), data.alertFrequency || 'off').run();
+
+    const created = await this.getSavedSearch(id, userId);
+    if (!created) {
+      throw new Error('Failed to create saved search');
+    }
+    return created;
+  }
+
+  async updateSavedSearch(id: string, userId: string, data: UpdateSavedSearchRequest): Promise<SavedSearch | null> {
+    const existing = await this.getSavedSearch(id, userId);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      params.push(data.name);
+    }
+    if (data.query !== undefined) {
+      updates.push('query = ?');
+      params.push(JSON.stringify(data.query));
+    }
+    if (data.alertFrequency !== undefined) {
+      updates.push('alert_frequency = ?');
+      params.push(data.alertFrequency);
+
+      // Turning alerts back on shouldn't mail everything published while they were off
+      if (existing.alertFrequency === 'off' && data.alertFrequency !== 'off') {
+        updates.push('last_checked_at = CURRENT_TIMESTAMP');
+      }
+    }
+
+    if (updates.length > 0) {
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      await this.db.prepare(`
+        UPDATE saved_searches SET ${updates.join(', ')} WHERE id = ? AND user_id = ?
+      `).bind(...params, id, userId).run();
+    }
+
+    return this.getSavedSearch(id, userId);
+  }
+
+  async deleteSavedSearch(id: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM saved_searches WHERE id = ? AND user_id = ?
+    `).bind(id, userId).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Look for listings published since each due search was last checked and
+   * send every user one digest covering all their searches with new matches.
+   * Called from the scheduled handler.
+   */
+  async sendAlerts(): Promise<SavedSearchAlertRun> {
+    const due = await this.db.prepare(`
+      SELECT s.*, u.email, u.first_name, u.locale
+      FROM saved_searches s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.alert_frequency != 'off'
+        AND julianday('now') - julianday(s.last_checked_at) >= CASE s.alert_frequency
+          WHEN 'instant' THEN ? WHEN 'daily' THEN ? ELSE ? END
+        AND u.is_active = 1 AND u.email_verified = 1
+        AND (u.suspended_until IS NULL OR julianday(u.suspended_until) <= julianday('now'))
+        AND (s.next_alert_at IS NULL OR julianday(s.next_alert_at) <= julianday('now'))
+      ORDER BY julianday(s.last_checked_at) ASC
+      LIMIT ?
+    `).bind(ALERT_INTERVAL_DAYS.instant, ALERT_INTERVAL_DAYS.daily, ALERT_INTERVAL_DAYS.weekly, ALERT_BATCH_SIZE).all();
+
+    const searches = due.results as unknown as DueSavedSearch[];
+    const run: SavedSearchAlertRun = { searchesChecked: searches.length, emailsSent: 0, listingsNotified: 0 };
+    if (searches.length === 0) {
+      return run;
+    }
+
+    const byUser = new Map<string, DueSavedSearch[]>();
+    for (const search of searches) {
+      byUser.set(search.user_id, [...(byUser.get(search.user_id) || []), search]);
+    }
+
+    for (const userSearches of byUser.values()) {
+      try {
+        const sent = await this.sendUserDigest(userSearches);
+        if (sent !== null) {
+          run.emailsSent++;
+          run.listingsNotified += sent;
+        }
+      } catch (error) {
+        console.error('Saved search alert failed for user:', userSearches[0].user_id, error);
+        await this.deferAlerts(userSearches);
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * Returns the number of listings mailed, or null when nothing was sent.
+   * Searches are only marked checked once the email went out or was suppressed.
+   */
+  private async sendUserDigest(searches: DueSavedSearch[]): Promise<number | null> {
+    const { email, first_name } = searches[0];
+    const locale = isSupportedLocale(searches[0].locale) ? searches[0].locale : DEFAULT_LOCALE;
+    // Second precision like published_at, so a listing published in the same second as
+    // the check is looked at again next time (and skipped there if it was mailed now)
+    const checkedAt = new Date().toISOString().substring(0, 19).replace('T', ' ');
+
+    const entries: SavedSearchDigestEntry[] = [];
+    const matches: Array<{ searchId: string; listingIds: string[] }> = [];
+
+    for (const search of searches) {
+      const newListings = await this.findNewMatches(search);
+      if (newListings.length === 0) {
+        continue;
+      }
+
+      entries.push({
+        name: search.name,
+        total: newListings.length,
+        listings: newListings.slice(0, DIGEST_LISTINGS_PER_SEARCH).map(listing => ({
+          title: listing.title,
+          city: listing.location.city,
+        })),
+      });
+      matches.push({ searchId: search.id, listingIds: newListings.map(listing => listing.id) });
+    }
+
+    let sent = false;
+    if (entries.length > 0) {
+      const result = await this.emailService.sendSavedSearchDigestEmail(
+        email,
+        first_name || translate(locale, 'email.defaultName'),
+        entries,
+        `${this.appUrl}/search`,
+        locale
+      );
+      // Turning alert emails off in the notification settings still moves the searches on,
+      // so switching them back on doesn't send a backlog
+      if (!result.success && !result.suppressed) {
+        throw new Error(result.error || 'Failed to send saved search digest');
+      }
+      sent = result.success;
+    }
+
+    const statements = searches.map(search => this.db.prepare(`
+      UPDATE saved_searches SET last_checked_at = ?, alert_failures = 0, next_alert_at = NULL WHERE id = ?
+    `).bind(checkedAt, search.id));
+    for (const { searchId, listingIds } of sent ? matches : []) {
+      statements.push(this.db.prepare(`
+        INSERT OR IGNORE INTO saved_search_matches (saved_search_id, listing_id)
+        SELECT ?, value FROM json_each(?)
+      `).bind(searchId, JSON.stringify(listingIds)));
+    }
+    await this.db.batch(statements);
+
+    return sent ? matches.reduce((sum, match) => sum + match.listingIds.length, 0) : null;
+  }
+
+  /**
+   * Put failed searches back with a growing delay. They keep their last check, so the
+   * retry still covers every listing published since then.
+   */
+  private async deferAlerts(searches: DueSavedSearch[]): Promise<void> {
+    try {
+      await this.db.batch(searches.map(search => {
+        const delayMinutes = Math.min(ALERT_RETRY_BASE_MINUTES * 2 ** search.alert_failures, ALERT_RETRY_MAX_MINUTES);
+        return this.db.prepare(`
+          UPDATE saved_searches
+          SET alert_failures = alert_failures + 1, next_alert_at = datetime('now', ?)
+          WHERE id = ?
+        `).bind(`+${delayMinutes} minutes`, search.id);
+      }));
+    } catch (error) {
+      console.error('Failed to defer saved search alerts:', error);
+    }
+  }
+
+  /**
+   * Active listings matching the search that were published since it was last
+   * checked, minus ones already mailed and the user's own
+   */
+  private async findNewMatches(search: DueSavedSearch): Promise<Listing[]> {
+    const query = this.parseStoredQuery(search.query);
+    if (!query) {
+      console.error('Skipping saved search with an unreadable query:', search.id);
+      return [];
+    }
+
+    const locale = isSupportedLocale(search.locale) ? search.locale : DEFAULT_LOCALE;
+    const result = await this.databaseService.searchListings({
+      ...query,
+      locale,
+      filters: { ...query.filters, publishedSince: search.last_checked_at },
+      sortBy: 'created_at',
+      sortOrder: 'desc',
+      page: 1,
+      limit: MATCHES_PER_RUN,
+    });
+
+    const candidates = result.listings.filter(listing => listing.userId !== search.user_id);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const notified = await this.db.prepare(`
+      SELECT listing_id FROM saved_search_matches
+      WHERE saved_search_id = ? AND listing_id IN (SELECT value FROM json_each(?))
+    `).bind(search.id, JSON.stringify(candidates.map(listing => listing.id))).all();
+    const notifiedIds = new Set((notified.results as unknown as Array<{ listing_id: string }>).map(row => row.listing_id));
+
+    return candidates.filter(listing => !notifiedIds.has(listing.id));
+  }
+
+  private parseStoredQuery(json: string): SavedSearchQuery | null {
+    try {
+      return parseSavedSearchQuery(JSON.parse(json));
+    } catch {
+      return null;
+    }
+  }
+
+  private convertSavedSearch(row: DatabaseSavedSearch): SavedSearch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      query: this.parseStoredQuery(row.query) || {},
+      alertFrequency: row.alert_frequency,
+      lastCheckedAt: row.last_checked_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
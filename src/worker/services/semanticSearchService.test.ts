@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Env } from '../types/env';
+import { DatabaseService } from './databaseService';
+import { LocalHashingEmbeddingProvider } from './embeddingProviders';
+import { HybridSearchQuery, SemanticSearchResult, SemanticSearchService } from './semanticSearchService';
+
+// The two searches hybridSearch fuses, stubbed per test
+interface SearchSides {
+  semanticSearch(query: HybridSearchQuery): Promise<SemanticSearchResult[]>;
+  keywordSearch(query: HybridSearchQuery): Promise<SemanticSearchResult[]>;
+}
+
+function result(id: string, overrides: Partial<SemanticSearchResult> = {}): SemanticSearchResult {
+  return {
+    id,
+    title: `Listing ${id}`,
+    description: '',
+    category: 'organic_farm',
+    location: {},
+    tags: [],
+    images: [],
+    score: 0,
+    relevanceScore: 0,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    user_id: 'user-1',
+    is_active: true,
+    ...overrides
+  };
+}
+
+describe('SemanticSearchService.hybridSearch', () => {
+  let service: SemanticSearchService;
+  let sides: SearchSides;
+
+  const stubSearches = (keyword: SemanticSearchResult[] | Error, vector: SemanticSearchResult[] | Error) => {
+    const settle = (value: SemanticSearchResult[] | Error) =>
+      value instanceof Error ? Promise.reject(value) : Promise.resolve(value);
+    vi.spyOn(sides, 'keywordSearch').mockImplementation(() => settle(keyword));
+    vi.spyOn(sides, 'semanticSearch').mockImplementation(() => settle(vector));
+  };
+
+  const search = async (query: Partial<HybridSearchQuery> = {}) =>
+    (await service.hybridSearch({ query: 'eggs', ...query })).combinedResults;
+
+  beforeEach(() => {
+    service = new SemanticSearchService({} as Env, {} as DatabaseService);
+    sides = service as unknown as SearchSides;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds weight / (k + rank) from each list a listing appears in', async () => {
+    stubSearches([result('a'), result('b')], [result('b', { score: 0.9 }), result('c', { score: 0.8 })]);
+
+    const combined = await search();
+
+    expect(combined.map(item => item.id)).toEqual(['b', 'a', 'c']);
+    expect(combined[0].provenance).toEqual({
+      keywordRank: 2,
+      vectorRank: 1,
+      vectorScore: 0.9,
+      fusedScore: 1 / 62 + 1 / 61
+    });
+    expect(combined[1].provenance).toEqual({ keywordRank: 1, vectorRank: null, vectorScore: null, fusedScore: 1 / 61 });
+    expect(combined[2].provenance).toEqual({ keywordRank: null, vectorRank: 2, vectorScore: 0.8, fusedScore: 1 / 62 });
+    expect(combined[0].relevanceScore).toBe(combined[0].provenance.fusedScore);
+  });
+
+  it('ranks by the heavier weighted search when the top results differ', async () => {
+    stubSearches([result('a')], [result('b')]);
+
+    expect((await search({ weights: { vector: 2 } })).map(item => item.id)).toEqual(['b', 'a']);
+    expect((await search({ weights: { keyword: 2 } })).map(item => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('lets a zero weight switch one search off', async () => {
+    stubSearches([result('a'), result('b')], [result('b'), result('a')]);
+
+    const combined = await search({ weights: { keyword: 0 } });
+    expect(combined.map(item => item.id)).toEqual(['b', 'a']);
+    expect(combined[0].provenance.fusedScore).toBe(1 / 61);
+  });
+
+  it('treats negative weights as zero and reports the weights used', async () => {
+    stubSearches([result('a')], [result('b')]);
+
+    const response = await service.hybridSearch({ query: 'eggs', weights: { keyword: -1, vector: 0.5 } });
+    expect(response.weights).toEqual({ keyword: 0, vector: 0.5 });
+    expect(response.combinedResults.map(item => item.provenance.fusedScore)).toEqual([0.5 / 61, 0]);
+  });
+
+  it('uses the given k and falls back to 60 for invalid values', async () => {
+    stubSearches([result('a')], [result('a')]);
+
+    expect((await search({ rrfK: 1 }))[0].provenance.fusedScore).toBe(1 / 2 + 1 / 2);
+    expect((await search({ rrfK: -5 }))[0].provenance.fusedScore).toBe(1 / 61 + 1 / 61);
+  });
+
+  it('keeps the keyword listing fields and takes the similarity score from the vector search', async () => {
+    stubSearches([result('a', { images: ['a.jpg'], score: 0 })], [result('a', { images: [], score: 0.75 })]);
+
+    const [item] = await search();
+    expect(item.images).toEqual(['a.jpg']);
+    expect(item.score).toBe(0.75);
+  });
+
+  it('returns the other search when one of them fails', async () => {
+    stubSearches(new Error('no FTS'), [result('b'), result('c')]);
+    expect((await search()).map(item => item.id)).toEqual(['b', 'c']);
+
+    stubSearches([result('a')], new Error('no Vectorize binding'));
+    expect((await search()).map(item => item.id)).toEqual(['a']);
+  });
+
+  it('fails when both searches fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubSearches(new Error('no FTS'), new Error('no Vectorize binding'));
+
+    await expect(search()).rejects.toThrow('no Vectorize binding');
+  });
+
+  it('fetches twice the limit from each search and cuts the fused list to the limit', async () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+    stubSearches(ids.map(id => result(id)), []);
+
+    const combined = await search({ limit: 3 });
+    expect(combined.map(item => item.id)).toEqual(['a', 'b', 'c']);
+    expect(sides.keywordSearch).toHaveBeenCalledWith(expect.objectContaining({ limit: 6 }));
+    expect(sides.semanticSearch).toHaveBeenCalledWith(expect.objectContaining({ limit: 6 }));
+  });
+});
+
+describe('SemanticSearchService.semanticSearch with the local embedding provider', () => {
+  const listings = [
+    { id: 'eggs', title: 'Organic eggs', description: 'Free range organic eggs from our hens', category: 'organic_farm' },
+    { id: 'milk', title: 'Raw milk vending machine', description: 'Fresh raw milk around the clock', category: 'vending_machine' },
+    { id: 'bikes', title: 'Bicycle repair', description: 'Repair cafe for bicycles', category: 'repair' }
+  ].map(listing => ({ ...listing, description_text: null, created_at: '2026-01-01T00:00:00Z' }));
+
+  // An in-memory Vectorize index holding the listings embedded with the local provider
+  const createService = async () => {
+    const provider = new LocalHashingEmbeddingProvider();
+    const vectors = await provider.embed(listings.map(listing => `${listing.title} ${listing.description}`));
+    const index = {
+      query: async (query: number[], options: { topK: number }) => ({
+        matches: listings
+          .map((listing, i) => ({
+            id: listing.id,
+            score: vectors[i].reduce((sum, value, j) => sum + value * query[j], 0),
+            metadata: { listingId: listing.id, provider: provider.name }
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, options.topK)
+      })
+    };
+    const db = {
+      prepare: () => ({
+        bind: (...ids: string[]) => ({
+          all: async () => ({ results: listings.filter(listing => ids.includes(listing.id)) })
+        })
+      })
+    };
+
+    const env = { EMBEDDING_PROVIDER: 'local', VECTORIZE: index } as unknown as Env;
+    return new SemanticSearchService(env, { db } as unknown as DatabaseService);
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ranks listings by similarity to the query without network access', async () => {
+    const service = await createService();
+
+    const results = await service.semanticSearch({ query: 'organic eggs', limit: 3 });
+
+    expect(results.map(result => result.id)[0]).toBe('eggs');
+    expect(results[0].score).toBeGreaterThan(results[results.length - 1].score);
+  });
+
+  it('returns the same results for the same query', async () => {
+    const service = await createService();
+
+    const first = await service.semanticSearch({ query: 'fresh milk', limit: 3 });
+    const second = await service.semanticSearch({ query: 'fresh milk', limit: 3 });
+
+    expect(first[0].id).toBe('milk');
+    expect(second).toEqual(first);
+  });
+});
@@ -2,6 +2,12 @@ import { EmbeddingService } from './embeddingService';
 import { DatabaseService } from './databaseService';
 import { UserBehaviorService } from './userBehaviorService';
 import { Env } from '../types/env';
+import { Listing } from '../types/listings';
+import { Locale } from '../i18n';
+import { storedDescriptionHtml } from './htmlSanitizer';
+
+// Standard reciprocal rank fusion constant; larger values flatten the rank curve
+const DEFAULT_RRF_K = 60;
 
 export interface SemanticSearchQuery {
   query: string;
@@ -15,6 +21,7 @@ export interface SemanticSearchQuery {
   };
   tags?: string[];
   minScore?: number; // minimum similarity score (0-1)
+  locale?: Locale; // language to show titles and descriptions in
 }
 
 export interface SemanticSearchResult {
@@ -33,12 +40,35 @@ export interface SemanticSearchResult {
   is_active: boolean;
 }
 
+export interface HybridSearchWeights {
+  keyword: number;
+  vector: number;
+}
+
+export interface HybridSearchQuery extends SemanticSearchQuery {
+  weights?: Partial<HybridSearchWeights>;
+  rrfK?: number;
+}
+
+// Where a fused result came from; ranks are 1-based and null when that search missed it
+export interface HybridResultProvenance {
+  keywordRank: number | null;
+  vectorRank: number | null;
+  vectorScore: number | null;
+  fusedScore: number;
+}
+
+export interface HybridSearchResultItem extends SemanticSearchResult {
+  provenance: HybridResultProvenance;
+}
+
 export interface HybridSearchResult {
   semanticResults: SemanticSearchResult[];
-  keywordResults: any[];
-  combinedResults: SemanticSearchResult[];
+  keywordResults: SemanticSearchResult[];
+  combinedResults: HybridSearchResultItem[];
   totalResults: number;
   searchTime: number;
+  weights: HybridSearchWeights;
 }
 
 export class SemanticSearchService {
@@ -128,16 +158,20 @@ export class SemanticSearchService {
       // Get full listing details from database
       const listingIds = filteredResults.map(result => result.metadata.listingId);
       const listings = await this.getListingsByIds(listingIds);
+      const localizedTexts = searchQuery.locale
+        ? await this.databaseService.getLocalizedListingTexts(listings, searchQuery.locale)
+        : new Map();
 
       // Combine vector results with listing data
       const semanticResults: SemanticSearchResult[] = filteredResults.map(vectorResult => {
         const listing = listings.find(l => l.id === vectorResult.metadata.listingId);
         if (!listing) return null;
+        const text = localizedTexts.get(listing.id);
 
         return {
           id: listing.id,
-          title: listing.title,
-          description: listing.description,
+          title: text?.title ?? listing.title,
+          description: text?.description ?? listing.description,
           category: listing.category,
           location: listing.location,
           tags: listing.tags || [],
@@ -191,22 +225,45 @@ export class SemanticSearchService {
   }
 
   /**
-   * Perform hybrid search combining semantic and keyword search
+   * Perform hybrid search: keyword (FTS) and vector searches run in parallel and
+   * are fused with weighted reciprocal rank fusion
    */
-  async hybridSearch(searchQuery: SemanticSearchQuery, userId?: string): Promise<HybridSearchResult> {
+  async hybridSearch(searchQuery: HybridSearchQuery, userId?: string): Promise<HybridSearchResult> {
     const startTime = Date.now();
-    
+    const limit = searchQuery.limit || 20;
+    const weights: HybridSearchWeights = {
+      keyword: Math.max(0, searchQuery.weights?.keyword ?? 1),
+      vector: Math.max(0, searchQuery.weights?.vector ?? 1)
+    };
+    const rrfK = searchQuery.rrfK && searchQuery.rrfK > 0 ? searchQuery.rrfK : DEFAULT_RRF_K;
+
     try {
-      // Perform semantic search
-      const semanticResults = await this.semanticSearch(searchQuery, userId);
+      // Fetch extra candidates from each side so fusion has overlap to work with
+      const candidateQuery = { ...searchQuery, limit: limit * 2 };
+      const [semanticOutcome, keywordOutcome] = await Promise.allSettled([
+        this.semanticSearch(candidateQuery),
+        this.keywordSearch(candidateQuery)
+      ]);
+
+      // Either side may be unavailable (e.g. no Vectorize binding in local dev)
+      if (semanticOutcome.status === 'rejected' && keywordOutcome.status === 'rejected') {
+        throw semanticOutcome.reason;
+      }
+      if (semanticOutcome.status === 'rejected') {
+        console.warn('Vector search failed, using keyword results only:', semanticOutcome.reason);
+      }
+      if (keywordOutcome.status === 'rejected') {
+        console.warn('Keyword search failed, using vector results only:', keywordOutcome.reason);
+      }
 
-      // Perform traditional keyword search
-      const keywordResults = await this.keywordSearch(searchQuery);
+      const semanticResults = semanticOutcome.status === 'fulfilled' ? semanticOutcome.value : [];
+      const keywordResults = keywordOutcome.status === 'fulfilled' ? keywordOutcome.value : [];
 
       // Combine and deduplicate results
-      const combinedResults = this.combineSearchResults(semanticResults, keywordResults);
+      const combinedResults = this.combineSearchResults(semanticResults, keywordResults, weights, rrfK).slice(0, limit);
 
       const searchTime = Date.now() - startTime;
+      console.log(`✅ Hybrid search completed in ${searchTime}ms: ${keywordResults.length} keyword, ${semanticResults.length} vector, ${combinedResults.length} fused`);
 
       // Record hybrid search behavior
       if (userId) {
@@ -219,7 +276,8 @@ export class SemanticSearchService {
             category: searchQuery.category,
             minScore: searchQuery.minScore,
             location: searchQuery.location,
-            tags: searchQuery.tags
+            tags: searchQuery.tags,
+            weights
           }
         );
       }
@@ -229,7 +287,8 @@ export class SemanticSearchService {
         keywordResults,
         combinedResults,
         totalResults: combinedResults.length,
-        searchTime
+        searchTime,
+        weights
       };
     } catch (error) {
       console.error('Error in hybrid search:', error);
@@ -381,21 +440,94 @@ export class SemanticSearchService {
   }
 
   /**
-   * Perform traditional keyword search
+   * Perform traditional keyword search, BM25-ranked by the listings FTS index
+   */
+  private async keywordSearch(searchQuery: SemanticSearchQuery): Promise<SemanticSearchResult[]> {
+    const location = searchQuery.location;
+    const result = await this.databaseService.searchListings({
+      query: searchQuery.query,
+      filters: {
+        category: searchQuery.category ? [searchQuery.category] : undefined,
+        tags: searchQuery.tags,
+        city: location?.city,
+        location: location?.latitude !== undefined && location?.longitude !== undefined && location?.radius
+          ? { latitude: location.latitude, longitude: location.longitude, radius: location.radius }
+          : undefined
+      },
+      sortBy: 'relevance',
+      limit: searchQuery.limit || 20,
+      locale: searchQuery.locale
+    });
+
+    return result.listings.map(listing => this.listingToSearchResult(listing));
+  }
+
+  /**
+   * Weighted reciprocal rank fusion: each list contributes weight / (k + rank)
+   * for every listing it returned. Listings found by both searches rise to the top.
    */
-  private async keywordSearch(_searchQuery: SemanticSearchQuery): Promise<any[]> {
-    // This would use the existing search functionality
-    // For now, return empty array - will be implemented in hybrid search task
-    return [];
+  private combineSearchResults(
+    semanticResults: SemanticSearchResult[],
+    keywordResults: SemanticSearchResult[],
+    weights: HybridSearchWeights,
+    rrfK: number
+  ): HybridSearchResultItem[] {
+    const fused = new Map<string, HybridSearchResultItem>();
+
+    const getEntry = (result: SemanticSearchResult): HybridSearchResultItem => {
+      let entry = fused.get(result.id);
+      if (!entry) {
+        entry = {
+          ...result,
+          provenance: { keywordRank: null, vectorRank: null, vectorScore: null, fusedScore: 0 }
+        };
+        fused.set(result.id, entry);
+      }
+      return entry;
+    };
+
+    // Keyword results first: they carry the full API listing (images, tags, location)
+    keywordResults.forEach((result, index) => {
+      const entry = getEntry(result);
+      entry.provenance.keywordRank = index + 1;
+      entry.provenance.fusedScore += weights.keyword / (rrfK + index + 1);
+    });
+
+    semanticResults.forEach((result, index) => {
+      const entry = getEntry(result);
+      entry.score = result.score;
+      entry.provenance.vectorRank = index + 1;
+      entry.provenance.vectorScore = result.score;
+      entry.provenance.fusedScore += weights.vector / (rrfK + index + 1);
+    });
+
+    const combined = Array.from(fused.values());
+    for (const entry of combined) {
+      entry.relevanceScore = entry.provenance.fusedScore;
+    }
+
+    return combined.sort((a, b) => b.provenance.fusedScore - a.provenance.fusedScore);
   }
 
   /**
-   * Combine semantic and keyword search results
+   * Map an API listing to the search result shape
    */
-  private combineSearchResults(semanticResults: SemanticSearchResult[], _keywordResults: any[]): SemanticSearchResult[] {
-    // Simple combination for now - prioritize semantic results
-    // More sophisticated merging will be implemented in hybrid search task
-    return semanticResults;
+  private listingToSearchResult(listing: Listing): SemanticSearchResult {
+    return {
+      id: listing.id,
+      title: listing.title,
+      description: listing.description,
+      category: listing.category,
+      location: listing.location,
+      tags: listing.tags || [],
+      images: listing.images || [],
+      score: 0,
+      relevanceScore: 0,
+      created_at: listing.createdAt,
+      updated_at: listing.updatedAt,
+      user_id: listing.userId,
+      is_active: listing.status === 'active'
+    };
   }
 
   /**
@@ -405,10 +537,13 @@ export class SemanticSearchService {
     if (ids.length === 0) return [];
 
     const placeholders = ids.map(() => '?').join(',');
-    const query = `SELECT * FROM listings WHERE id IN (${placeholders}) AND is_active = true`;
+    const query = `SELECT * FROM listings WHERE id IN (${placeholders}) AND status = 'active'`;
 
     const result = await (this.databaseService as any).db.prepare(query).bind(...ids).all();
-    return result.results || [];
+    return ((result.results || []) as Array<Record<string, unknown>>).map(row => ({
+      ...row,
+      description: storedDescriptionHtml(row.description as string, row.description_text as string | null)
+    }));
   }
 
   /**
@@ -416,7 +551,7 @@ export class SemanticSearchService {
    */
   private async getListingById(id: string): Promise<any> {
     const result = await (this.databaseService as any).db
-      .prepare('SELECT * FROM listings WHERE id = ? AND is_active = true')
+      .prepare("SELECT * FROM listings WHERE id = ? AND status = 'active'")
       .bind(id)
       .first();
     return result;
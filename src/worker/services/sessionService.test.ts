@@ -0,0 +1,203 @@
+import { webcrypto } from 'node:crypto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SessionService } from './sessionService';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  family_id: string;
+  replaced_by: string | null;
+  revoked_at: string | null;
+  expires_at: string;
+}
+
+// The test setup stubs crypto.subtle; token hashes need the real SHA-256
+const mockedCrypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+
+/**
+ * Just enough of D1 for the statements SessionService runs against user_sessions
+ */
+function createFakeDb(rows: SessionRow[]): D1Database {
+  const execute = (sql: string, params: unknown[]): { row: SessionRow | null; changes: number } => {
+    const query = sql.replace(/\s+/g, ' ').trim();
+
+    if (query.startsWith('SELECT') && query.includes('WHERE token_hash = ?')) {
+      const row = rows.find(candidate => candidate.token_hash === params[0]);
+      return { row: row ? { ...row } : null, changes: 0 };
+    }
+    if (query.startsWith('SELECT 1 FROM user_sessions WHERE family_id = ?')) {
+      const row = rows.find(candidate => candidate.family_id === params[0] && candidate.revoked_at);
+      return { row: row ? { ...row } : null, changes: 0 };
+    }
+    if (query.startsWith('INSERT INTO user_sessions')) {
+      const [id, userId, tokenHash, familyId, expiresAt] = params as string[];
+      rows.push({ id, user_id: userId, token_hash: tokenHash, family_id: familyId, replaced_by: null, revoked_at: null, expires_at: expiresAt });
+      return { row: null, changes: 1 };
+    }
+    if (query.includes('SET replaced_by = ?')) {
+      const row = rows.find(candidate => candidate.id === params[1] && !candidate.replaced_by && !candidate.revoked_at);
+      if (row) {
+        row.replaced_by = params[0] as string;
+      }
+      return { row: null, changes: row ? 1 : 0 };
+    }
+    if (query.includes('SET revoked_at = CURRENT_TIMESTAMP')) {
+      const column = query.includes('WHERE family_id = ?') ? 'family_id' : 'user_id';
+      const revoked = rows.filter(candidate => candidate[column] === params[0] && !candidate.revoked_at);
+      revoked.forEach(row => { row.revoked_at = new Date().toISOString(); });
+      return { row: null, changes: revoked.length };
+    }
+    if (query.startsWith('UPDATE users SET sessions_revoked_at')) {
+      return { row: null, changes: 1 };
+    }
+    throw new Error(`Unexpected query: ${query}`);
+  };
+
+  const statement = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values),
+    first: async () => execute(sql, params).row,
+    run: async () => ({ success: true, meta: { changes: execute(sql, params).changes } })
+  });
+
+  return { prepare: (sql: string) => statement(sql) } as unknown as D1Database;
+}
+
+function createFakeCache(): KVNamespace {
+  const entries = new Map<string, string>();
+  return {
+    get: async (key: string) => entries.get(key) ?? null,
+    put: async (key: string, value: string) => { entries.set(key, value); }
+  } as unknown as KVNamespace;
+}
+
+function createService(rows: SessionRow[] = []): SessionService {
+  return new SessionService(createFakeDb(rows), createFakeCache());
+}
+
+describe('SessionService', () => {
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    if (mockedCrypto) {
+      Object.defineProperty(globalThis, 'crypto', mockedCrypto);
+    }
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('rotate', () => {
+    it('replaces the refresh token within the same session family', async () => {
+      const service = createService();
+      const session = await service.createSession('user-1');
+
+      const rotated = await service.rotate(session.refreshToken);
+      if (rotated.status !== 'rotated') throw new Error(`Expected a rotation, got ${rotated.status}`);
+      expect(rotated.userId).toBe('user-1');
+      expect(rotated.sessionId).toBe(session.sessionId);
+      expect(rotated.refreshToken).not.toBe(session.refreshToken);
+
+      const rotatedAgain = await service.rotate(rotated.refreshToken);
+      expect(rotatedAgain.status).toBe('rotated');
+    });
+
+    it('stores refresh tokens hashed', async () => {
+      const rows: SessionRow[] = [];
+      const session = await createService(rows).createSession('user-1');
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(rows[0].token_hash).not.toContain(session.refreshToken);
+    });
+
+    it('treats a replaced token as reuse and revokes the whole family', async () => {
+      const service = createService();
+      const session = await service.createSession('user-1');
+      const rotated = await service.rotate(session.refreshToken);
+      if (rotated.status !== 'rotated') throw new Error('Expected the first rotation to succeed');
+
+      const replayed = await service.rotate(session.refreshToken);
+      expect(replayed).toEqual({ status: 'reused', userId: 'user-1', sessionId: session.sessionId });
+
+      // The token the legitimate client holds now is revoked too
+      expect((await service.rotate(rotated.refreshToken)).status).toBe('invalid');
+      expect(await service.isAccessTokenDenied({ sub: 'user-1', sid: session.sessionId, iat: Math.floor(Date.now() / 1000) }))
+        .toBe(true);
+    });
+
+    it('treats two concurrent rotations of the same token as reuse and keeps no new token usable', async () => {
+      const service = createService();
+      const session = await service.createSession('user-1');
+
+      const results = await Promise.all([service.rotate(session.refreshToken), service.rotate(session.refreshToken)]);
+      expect(results.map(result => result.status)).toContain('reused');
+
+      for (const result of results) {
+        if (result.status === 'rotated') {
+          expect((await service.rotate(result.refreshToken)).status).toBe('invalid');
+        }
+      }
+    });
+
+    it('rejects unknown, revoked and expired tokens', async () => {
+      const rows: SessionRow[] = [];
+      const service = createService(rows);
+      expect((await service.rotate('not-a-token')).status).toBe('invalid');
+
+      const revoked = await service.createSession('user-1');
+      await service.revokeFamily(revoked.sessionId);
+      expect((await service.rotate(revoked.refreshToken)).status).toBe('invalid');
+
+      const expired = await service.createSession('user-2');
+      rows[rows.length - 1].expires_at = new Date(Date.now() - 1000).toISOString();
+      expect((await service.rotate(expired.refreshToken)).status).toBe('invalid');
+    });
+  });
+
+  describe('access token denylist', () => {
+    it('denies access tokens of a revoked session but not of other sessions', async () => {
+      const service = createService();
+      const first = await service.createSession('user-1');
+      const second = await service.createSession('user-1');
+      const iat = Math.floor(Date.now() / 1000);
+
+      await service.revokeByRefreshToken(first.refreshToken);
+
+      expect(await service.isAccessTokenDenied({ sub: 'user-1', sid: first.sessionId, iat })).toBe(true);
+      expect(await service.isAccessTokenDenied({ sub: 'user-1', sid: second.sessionId, iat })).toBe(false);
+    });
+
+    it('denies access tokens issued before a user-wide revocation, compared in whole seconds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T10:00:00.600Z'));
+      const service = createService();
+      const revokedAt = Math.floor(Date.now() / 1000);
+
+      await service.denyAccessTokens('user-1');
+
+      expect(await service.isAccessTokenDenied({ sub: 'user-1', iat: revokedAt - 1 })).toBe(true);
+      // A token refreshed in the same second as the revocation is still accepted
+      expect(await service.isAccessTokenDenied({ sub: 'user-1', iat: revokedAt })).toBe(false);
+      expect(await service.isAccessTokenDenied({ sub: 'user-2', iat: revokedAt - 1 })).toBe(false);
+    });
+
+    it('revokes every session of a user on sign-out everywhere', async () => {
+      const service = createService();
+      const sessions = [await service.createSession('user-1'), await service.createSession('user-1')];
+      const other = await service.createSession('user-2');
+
+      await service.revokeAllForUser('user-1');
+
+      for (const session of sessions) {
+        expect((await service.rotate(session.refreshToken)).status).toBe('invalid');
+      }
+      expect((await service.rotate(other.refreshToken)).status).toBe('rotated');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+// Access tokens are short-lived; the refresh token keeps the user signed in
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+const DENYLIST_PREFIX = 'auth:denylist';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  sessionId: string; // Token family id, carried in the access token as `sid`
+  expiresAt: string;
+}
+
+export type RefreshTokenRotation =
+  | ({ status: 'rotated'; userId: string } & IssuedRefreshToken)
+  | { status: 'reused'; userId: string; sessionId: string }
+  | { status: 'invalid' };
+
+/**
+ * Refresh tokens stored hashed in user_sessions, one row per token. Each login
+ * starts a token family; rotating marks the old row as replaced, so presenting a
+ * replaced token means it was stolen or replayed and the whole family is revoked.
+ * Revocations are mirrored to a KV denylist so outstanding access tokens stop
+ * working before they expire.
+ */
+export class SessionService {
+  private db: D1Database;
+  private cache?: KVNamespace;
+
+  constructor(db: D1Database, cache?: KVNamespace) {
+    this.db = db;
+    this.cache = cache;
+  }
+
+  async createSession(userId: string, metadata: SessionMetadata = {}): Promise<IssuedRefreshToken> {
+    return this.insertToken(userId, crypto.randomUUID(), metadata);
+  }
+
+  async rotate(refreshToken: string, metadata: SessionMetadata = {}): Promise<RefreshTokenRotation> {
+    const session = await this.db.prepare(`
+      SELECT id, user_id, family_id, replaced_by, revoked_at, expires_at
+      FROM user_sessions
+      WHERE token_hash = ?
+    `).bind(await this.hashToken(refreshToken)).first();
+
+    if (!session) {
+      return { status: 'invalid' };
+    }
+
+    const userId = session.user_id as string;
+    const familyId = session.family_id as string;
+
+    if (session.replaced_by) {
+      console.warn('Refresh token reuse detected, revoking session family:', { userId, familyId });
+      await this.revokeFamily(familyId);
+      return { status: 'reused', userId, sessionId: familyId };
+    }
+
+    if (session.revoked_at || new Date(session.expires_at as string).getTime() <= Date.now()) {
+      return { status: 'invalid' };
+    }
+
+    // Claim the token; a concurrent rotation of the same token loses and counts as reuse
+    const nextId = crypto.randomUUID();
+    const claimed = await this.db.prepare(`
+      UPDATE user_sessions SET replaced_by = ?, last_used_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND replaced_by IS NULL AND revoked_at IS NULL
+    `).bind(nextId, session.id).run();
+
+    if (!claimed.meta?.changes) {
+      await this.revokeFamily(familyId);
+      return { status: 'reused', userId, sessionId: familyId };
+    }
+
+    const issued = await this.insertToken(userId, familyId, metadata, nextId);
+
+    // The losing rotation may have revoked the family before the new token existed
+    const familyRevoked = await this.db.prepare(`
+      SELECT 1 FROM user_sessions WHERE family_id = ? AND revoked_at IS NOT NULL LIMIT 1
+    `).bind(familyId).first();
+
+    if (familyRevoked) {
+      await this.revokeFamily(familyId);
+      return { status: 'reused', userId, sessionId: familyId };
+    }
+
+    return { status: 'rotated', userId, ...issued };
+  }
+
+  /**
+   * Sign out one login (all tokens rotated from it)
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.db.prepare(`
+      UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE family_id = ? AND revoked_at IS NULL
+    `).bind(familyId).run();
+
+    await this.putDenylistEntry(`session:${familyId}`, '1');
+  }
+
+  async revokeByRefreshToken(refreshToken: string): Promise<string | null> {
+    const session = await this.db.prepare(
+      'SELECT family_id FROM user_sessions WHERE token_hash = ?'
+    ).bind(await this.hashToken(refreshToken)).first();
+
+    if (!session) {
+      return null;
+    }
+
+    await this.revokeFamily(session.family_id as string);
+    return session.family_id as string;
+  }
+
+  /**
+   * Sign a user out everywhere: revoke every refresh token and reject access
+   * tokens issued before now
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.db.prepare(`
+      UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND revoked_at IS NULL
+    `).bind(userId).run();
+
+    await this.denyAccessTokens(userId);
+  }
+
+  /**
+   * Reject the user's current access tokens but keep refresh tokens, so clients
+   * pick up changes such as a new role on their next refresh
+   */
+  async denyAccessTokens(userId: string): Promise<void> {
+    // Whole seconds like a token's iat, so a token refreshed right after this
+    // (in the same second) is still accepted
+    const revokedAt = Math.floor(Date.now() / 1000);
+
+    await this.db.prepare('UPDATE users SET sessions_revoked_at = ? WHERE id = ?')
+      .bind(new Date(revokedAt * 1000).toISOString(), userId)
+      .run();
+
+    await this.putDenylistEntry(`user:${userId}`, String(revokedAt));
+  }
+
+  /**
+   * Check the KV denylist for an access token's session and user
+   */
+  async isAccessTokenDenied(payload: { sub: string; sid?: string; iat: number }): Promise<boolean> {
+    if (!this.cache) {
+      return false;
+    }
+
+    try {
+      const [sessionEntry, userEntry] = await Promise.all([
+        payload.sid ? this.cache.get(`${DENYLIST_PREFIX}:session:${payload.sid}`) : null,
+        this.cache.get(`${DENYLIST_PREFIX}:user:${payload.sub}`)
+      ]);
+
+      if (sessionEntry) {
+        return true;
+      }
+
+      return !!userEntry && payload.iat < parseInt(userEntry);
+    } catch (error) {
+      // The D1 checks in AuthService still apply when KV is unavailable
+      console.error('Token denylist lookup failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drop expired and long-revoked tokens
+   */
+  async cleanupExpired(): Promise<number> {
+    const result = await this.db.prepare(`
+      DELETE FROM user_sessions
+      WHERE expires_at < datetime('now')
+        OR (revoked_at IS NOT NULL AND revoked_at < datetime('now', ?))
+    `).bind(`-${REFRESH_TOKEN_TTL_DAYS} days`).run();
+    return result.meta?.changes || 0;
+  }
+
+  private async insertToken(
+    userId: string,
+    familyId: string,
+    metadata: SessionMetadata,
+    id: string = crypto.randomUUID()
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken = this.generateToken();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO user_sessions (id, user_id, token_hash, family_id, expires_at, user_agent, ip_address)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id,
+      userId,
+      await this.hashToken(refreshToken),
+      familyId,
+      expiresAt,
+      metadata.userAgent?.slice(0, 255) || null,
+      metadata.ipAddress || null
+    ).run();
+
+    return { refreshToken, sessionId: familyId, expiresAt };
+  }
+
+  // Entries only need to outlive the longest-lived access token
+  private async putDenylistEntry(key: string, value: string): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+
+    try {
+      await this.cache.put(`${DENYLIST_PREFIX}:${key}`, value, { expirationTtl: ACCESS_TOKEN_TTL_SECONDS });
+    } catch (error) {
+      console.error('Failed to write token denylist entry:', error);
+    }
+  }
+
+  private generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  private async hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -189,10 +189,10 @@ export class StatsService {
         userResult,
         lastActivityResult
       ] = await Promise.all([
-        this.db.prepare('SELECT COUNT(*) as count FROM listings WHERE created_by = ?').bind(userId).first(),
+        this.db.prepare('SELECT COUNT(*) as count FROM listings WHERE user_id = ?').bind(userId).first(),
         this.db.prepare('SELECT COUNT(*) as count FROM favorites WHERE user_id = ?').bind(userId).first(),
         this.db.prepare('SELECT COUNT(*) as count FROM favorite_collections WHERE user_id = ?').bind(userId).first(),
-        this.db.prepare('SELECT SUM(views) as total FROM listings WHERE created_by = ?').bind(userId).first(),
+        this.db.prepare('SELECT SUM(views) as total FROM listings WHERE user_id = ?').bind(userId).first(),
         this.db.prepare('SELECT created_at FROM users WHERE id = ?').bind(userId).first(),
         this.db.prepare(`
           SELECT created_at FROM activity_log 
@@ -253,6 +253,48 @@ export class StorageService {
     };
   }
 
+  // Upload review photo; the key includes the reviewer so reviews can only
+  // reference their own photos
+  async uploadReviewPhoto(
+    userId: string,
+    listingId: string,
+    imageData: ArrayBuffer,
+    contentType: string,
+    originalFileName: string
+  ): Promise<UploadResult> {
+    if (!contentType.startsWith('image/') || !this.isAllowedFileType(contentType)) {
+      return { success: false, error: `File type ${contentType} is not allowed` };
+    }
+    if (imageData.byteLength > 10 * 1024 * 1024) {
+      return { success: false, error: 'File size exceeds 10MB limit' };
+    }
+
+    const fileExtension = this.getFileExtension(originalFileName);
+    const r2Key = `${this.getReviewPhotoPrefix(userId, listingId)}${Date.now()}_${Math.random().toString(36).substring(2)}${fileExtension}`;
+
+    const result = await this.uploadFile(r2Key, imageData, contentType, {
+      userId,
+      listingId,
+      type: 'review_photo',
+      originalFileName
+    });
+
+    return {
+      ...result,
+      fileId: r2Key
+    };
+  }
+
+  // Public URL prefix of a user's review photos for a listing
+  getReviewPhotoUrlPrefix(userId: string, listingId: string): string {
+    return this.getPublicUrl(this.getReviewPhotoPrefix(userId, listingId));
+  }
+
+  // Public URL prefix of files a user uploaded through a signed upload URL
+  getUploadUrlPrefix(userId: string): string {
+    return this.getPublicUrl(`uploads/${userId}/`);
+  }
+
   // Upload document
   async uploadDocument(
     userId: string,
@@ -330,6 +372,11 @@ export class StorageService {
       .toLowerCase();
   }
 
+  // R2 key prefix of a user's review photos for a listing
+  private getReviewPhotoPrefix(userId: string, listingId: string): string {
+    return `reviews/${listingId}/${userId}/`;
+  }
+
   // Get file info from R2
   async getFileInfo(r2Key: string): Promise<{
     size: number;
@@ -0,0 +1,90 @@
+import { webcrypto } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SubscriptionService } from './subscriptionService';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const PAYLOAD = JSON.stringify({ id: 'evt_1', type: 'customer.subscription.updated' });
+
+// The test setup stubs crypto.subtle; signatures need the real HMAC
+const mockedCrypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+
+async function sign(payload: string, timestamp: number, secret = WEBHOOK_SECRET): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await webcrypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const digest = await webcrypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+describe('SubscriptionService.verifyWebhookSignature', () => {
+  const service = new SubscriptionService({} as D1Database, 'sk_test', WEBHOOK_SECRET);
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    if (mockedCrypto) {
+      Object.defineProperty(globalThis, 'crypto', mockedCrypto);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('accepts a valid signature', async () => {
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp)}`;
+    expect(await service.verifyWebhookSignature(PAYLOAD, header)).toBe(true);
+  });
+
+  it('accepts a header where any v1 signature matches, as during secret rotation', async () => {
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp, 'whsec_old')},v1=${await sign(PAYLOAD, timestamp)}`;
+    expect(await service.verifyWebhookSignature(PAYLOAD, header)).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp, 'whsec_other')}`;
+    expect(await service.verifyWebhookSignature(PAYLOAD, header)).toBe(false);
+  });
+
+  it('rejects a tampered payload', async () => {
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp)}`;
+    expect(await service.verifyWebhookSignature(PAYLOAD.replace('evt_1', 'evt_2'), header)).toBe(false);
+  });
+
+  it('rejects a signature for another timestamp', async () => {
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp - 1)}`;
+    expect(await service.verifyWebhookSignature(PAYLOAD, header)).toBe(false);
+  });
+
+  it('rejects stale and future timestamps even when correctly signed', async () => {
+    const stale = nowSeconds() - 301;
+    expect(await service.verifyWebhookSignature(PAYLOAD, `t=${stale},v1=${await sign(PAYLOAD, stale)}`)).toBe(false);
+
+    const future = nowSeconds() + 301;
+    expect(await service.verifyWebhookSignature(PAYLOAD, `t=${future},v1=${await sign(PAYLOAD, future)}`)).toBe(false);
+  });
+
+  it('rejects missing and malformed headers', async () => {
+    const timestamp = nowSeconds();
+    expect(await service.verifyWebhookSignature(PAYLOAD, undefined)).toBe(false);
+    expect(await service.verifyWebhookSignature(PAYLOAD, '')).toBe(false);
+    expect(await service.verifyWebhookSignature(PAYLOAD, `t=${timestamp}`)).toBe(false);
+    expect(await service.verifyWebhookSignature(PAYLOAD, `v1=${await sign(PAYLOAD, timestamp)}`)).toBe(false);
+  });
+
+  it('rejects everything when no webhook secret is configured', async () => {
+    const unconfigured = new SubscriptionService({} as D1Database, 'sk_test');
+    const timestamp = nowSeconds();
+    const header = `t=${timestamp},v1=${await sign(PAYLOAD, timestamp)}`;
+    expect(await unconfigured.verifyWebhookSignature(PAYLOAD, header)).toBe(false);
+  });
+});
@@ -1,58 +1,51 @@
-import { 
-  UserSubscription, 
-  SubscriptionPlan, 
+import {
+  UserSubscription,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  SubscriptionWebhookEvent,
+  StripeSubscriptionObject,
+  StripeInvoiceObject,
+  WebhookResult,
+  ListingQuotaUsage,
   CreateCheckoutSessionRequest,
   CreateCheckoutSessionResponse,
   SUBSCRIPTION_PLANS,
-  getPlanById 
+  getPlanById,
+  getPlanByStripePriceId,
+  LISTING_QUOTA_PERIOD_DAYS
 } from '../types/subscription';
+import { UserRole, ROLE_PERMISSIONS } from '../types/auth';
+
+// Stripe rejects signatures older than this; we use the same tolerance
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Statuses that grant the plan's role and limits
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['active', 'trialing'];
 
 export class SubscriptionService {
-  private subscriptions: Map<string, UserSubscription> = new Map();
+  private db: D1Database;
   private stripeSecretKey: string;
+  private webhookSecret: string;
 
-  constructor(stripeSecretKey: string) {
+  constructor(db: D1Database, stripeSecretKey: string, webhookSecret: string = '') {
+    this.db = db;
     this.stripeSecretKey = stripeSecretKey;
-    this.initializeSampleData();
+    this.webhookSecret = webhookSecret;
 
     // Note: stripeSecretKey would be used for actual Stripe API calls
     // For now it's stored but not used in the demo implementation
   }
 
-  private initializeSampleData() {
-    // Create sample subscriptions for test users
-    const sampleSubscriptions: UserSubscription[] = [
-      {
-        id: 'sub-001',
-        userId: 'premium-001',
-        planId: 'premium',
-        status: 'active',
-        currentPeriodStart: new Date().toISOString(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-        cancelAtPeriodEnd: false,
-        createdAt: new Date('2024-01-15').toISOString(),
-        updatedAt: new Date('2024-01-15').toISOString(),
-      },
-      {
-        id: 'sub-002',
-        userId: 'supporter-001',
-        planId: 'supporter',
-        status: 'active',
-        currentPeriodStart: new Date().toISOString(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-        cancelAtPeriodEnd: false,
-        createdAt: new Date('2024-01-20').toISOString(),
-        updatedAt: new Date('2024-01-20').toISOString(),
-      }
-    ];
-
-    sampleSubscriptions.forEach(subscription => {
-      this.subscriptions.set(subscription.userId, subscription);
-    });
-  }
-
   async getUserSubscription(userId: string): Promise<UserSubscription | null> {
-    return this.subscriptions.get(userId) || null;
+    // Prefer a subscription that currently grants access over older canceled ones
+    const row = await this.db.prepare(`
+      SELECT * FROM subscriptions
+      WHERE user_id = ?
+      ORDER BY CASE WHEN status IN ('active', 'trialing') THEN 0 ELSE 1 END, updated_at DESC
+      LIMIT 1
+    `).bind(userId).first();
+
+    return row ? this.mapRow(row) : null;
   }
 
   async getAllPlans(): Promise<SubscriptionPlan[]> {
@@ -78,7 +71,8 @@ export class SubscriptionService {
 
     // In a real implementation, you would use this.stripeSecretKey to:
     // 1. Create a Stripe customer if one doesn't exist
-    // 2. Create a checkout session with Stripe
+    // 2. Create a checkout session with Stripe, passing
+    //    subscription_data.metadata = { userId, planId } so webhooks can find the user
     // 3. Return the actual session ID and URL
     console.log(`Using Stripe secret key: ${this.stripeSecretKey.substring(0, 7)}...`);
 
@@ -98,7 +92,27 @@ export class SubscriptionService {
     const now = new Date().toISOString();
     const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(); // 30 days from now
 
-    const subscription: UserSubscription = {
+    await this.db.prepare(`
+      INSERT INTO subscriptions (
+        id, user_id, plan_id, stripe_subscription_id, stripe_customer_id,
+        status, current_period_start, current_period_end, cancel_at_period_end,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, 'active', ?, ?, false, ?, ?)
+    `).bind(
+      subscriptionId,
+      userId,
+      planId,
+      stripeSubscriptionId || null,
+      stripeCustomerId || null,
+      now,
+      periodEnd,
+      now,
+      now
+    ).run();
+
+    await this.syncUserRole(userId);
+
+    return {
       id: subscriptionId,
       userId,
       planId,
@@ -111,82 +125,158 @@ export class SubscriptionService {
       createdAt: now,
       updatedAt: now,
     };
-
-    this.subscriptions.set(userId, subscription);
-    return subscription;
   }
 
   async updateSubscription(userId: string, updates: Partial<UserSubscription>): Promise<UserSubscription | null> {
-    const subscription = this.subscriptions.get(userId);
+    const subscription = await this.getUserSubscription(userId);
     if (!subscription) {
       return null;
     }
 
-    const updatedSubscription: UserSubscription = {
-      ...subscription,
-      ...updates,
-      updatedAt: new Date().toISOString(),
+    const columns: Partial<Record<keyof UserSubscription, string>> = {
+      planId: 'plan_id',
+      stripeSubscriptionId: 'stripe_subscription_id',
+      stripeCustomerId: 'stripe_customer_id',
+      status: 'status',
+      currentPeriodStart: 'current_period_start',
+      currentPeriodEnd: 'current_period_end',
+      cancelAtPeriodEnd: 'cancel_at_period_end',
     };
 
-    this.subscriptions.set(userId, updatedSubscription);
-    return updatedSubscription;
+    const fields: string[] = [];
+    const values: unknown[] = [];
+    for (const [key, column] of Object.entries(columns)) {
+      const value = updates[key as keyof UserSubscription];
+      if (value !== undefined) {
+        fields.push(`${column} = ?`);
+        values.push(value);
+      }
+    }
+
+    if (fields.length > 0) {
+      await this.db.prepare(`
+        UPDATE subscriptions SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).bind(...values, subscription.id).run();
+      await this.syncUserRole(userId);
+    }
+
+    return this.getSubscriptionById(subscription.id);
   }
 
   async cancelSubscription(userId: string, cancelAtPeriodEnd: boolean = true): Promise<UserSubscription | null> {
-    const subscription = this.subscriptions.get(userId);
+    const subscription = await this.getUserSubscription(userId);
     if (!subscription) {
       return null;
     }
 
-    // In a real implementation, you would cancel the Stripe subscription
-    const updatedSubscription: UserSubscription = {
-      ...subscription,
+    // In a real implementation, you would cancel the Stripe subscription and
+    // let the resulting customer.subscription.* webhook confirm the change
+    return this.updateSubscription(userId, {
       cancelAtPeriodEnd,
       status: cancelAtPeriodEnd ? subscription.status : 'canceled',
-      updatedAt: new Date().toISOString(),
-    };
-
-    this.subscriptions.set(userId, updatedSubscription);
-    return updatedSubscription;
+    });
   }
 
   async reactivateSubscription(userId: string): Promise<UserSubscription | null> {
-    const subscription = this.subscriptions.get(userId);
+    const subscription = await this.getUserSubscription(userId);
     if (!subscription) {
       return null;
     }
 
     // In a real implementation, you would reactivate the Stripe subscription
-    const updatedSubscription: UserSubscription = {
-      ...subscription,
+    return this.updateSubscription(userId, {
       cancelAtPeriodEnd: false,
       status: 'active',
-      updatedAt: new Date().toISOString(),
-    };
+    });
+  }
 
-    this.subscriptions.set(userId, updatedSubscription);
-    return updatedSubscription;
-  }
-
-  async handleWebhook(event: any): Promise<void> {
-    // In a real implementation, this would handle Stripe webhook events
-    // such as subscription updates, payment failures, etc.
-    
-    switch (event.type) {
-      case 'customer.subscription.updated':
-        // Handle subscription updates
-        break;
-      case 'customer.subscription.deleted':
-        // Handle subscription cancellations
-        break;
-      case 'invoice.payment_succeeded':
-        // Handle successful payments
-        break;
-      case 'invoice.payment_failed':
-        // Handle failed payments
-        break;
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+  /**
+   * Verify a Stripe-Signature header ("t=...,v1=...") against the raw request body
+   */
+  async verifyWebhookSignature(payload: string, signatureHeader: string | undefined): Promise<boolean> {
+    if (!this.webhookSecret) {
+      console.error('Stripe webhook secret is not configured');
+      return false;
+    }
+
+    if (!signatureHeader) {
+      return false;
+    }
+
+    let timestamp = '';
+    const signatures: string[] = [];
+    for (const part of signatureHeader.split(',')) {
+      const [key, value] = part.split('=', 2);
+      if (key === 't') {
+        timestamp = value;
+      } else if (key === 'v1' && value) {
+        signatures.push(value);
+      }
+    }
+
+    const timestampSeconds = parseInt(timestamp);
+    if (!timestampSeconds || signatures.length === 0) {
+      return false;
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestampSeconds) > WEBHOOK_TOLERANCE_SECONDS) {
+      console.warn('Stripe webhook timestamp outside tolerance:', timestampSeconds);
+      return false;
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.webhookSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+    const expected = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+    return signatures.some(signature => this.timingSafeEqual(signature, expected));
+  }
+
+  /**
+   * Apply a verified Stripe event. Each event id is recorded so redeliveries are no-ops.
+   */
+  async handleWebhook(event: SubscriptionWebhookEvent): Promise<WebhookResult> {
+    const recorded = await this.db.prepare(`
+      INSERT OR IGNORE INTO stripe_webhook_events (id, event_type, stripe_created_at)
+      VALUES (?, ?, ?)
+    `).bind(event.id, event.type, event.created).run();
+
+    if ((recorded.meta?.changes || 0) === 0) {
+      console.log(`Skipping already processed Stripe event ${event.id}`);
+      return { processed: false, duplicate: true };
+    }
+
+    try {
+      let userId: string | null = null;
+
+      switch (event.type) {
+        case 'customer.subscription.created':
+        case 'customer.subscription.updated':
+        case 'customer.subscription.deleted':
+          userId = await this.applySubscriptionObject(event.data.object as StripeSubscriptionObject, event.created);
+          break;
+        case 'invoice.payment_succeeded':
+          userId = await this.applyInvoice(event.data.object as StripeInvoiceObject, 'active', event.created);
+          break;
+        case 'invoice.payment_failed':
+          userId = await this.applyInvoice(event.data.object as StripeInvoiceObject, 'past_due', event.created);
+          break;
+        default:
+          console.log(`Unhandled event type: ${event.type}`);
+      }
+
+      return { processed: true, userId: userId || undefined };
+    } catch (error) {
+      // Forget the event so Stripe's retry can process it again
+      await this.db.prepare('DELETE FROM stripe_webhook_events WHERE id = ?').bind(event.id).run();
+      throw error;
     }
   }
 
@@ -197,40 +287,301 @@ export class SubscriptionService {
     supporterSubscriptions: number;
     monthlyRevenue: number;
   }> {
-    const allSubscriptions = Array.from(this.subscriptions.values());
-    const activeSubscriptions = allSubscriptions.filter(sub => sub.status === 'active');
-    
-    const premiumSubscriptions = activeSubscriptions.filter(sub => sub.planId === 'premium').length;
-    const supporterSubscriptions = activeSubscriptions.filter(sub => sub.planId === 'supporter').length;
-    
+    const result = await this.db.prepare(`
+      SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN status = 'active' AND plan_id = 'premium' THEN 1 ELSE 0 END) as premium,
+        SUM(CASE WHEN status = 'active' AND plan_id = 'supporter' THEN 1 ELSE 0 END) as supporter
+      FROM subscriptions
+    `).first();
+
+    const premiumSubscriptions = (result?.premium as number) || 0;
+    const supporterSubscriptions = (result?.supporter as number) || 0;
+
     // Calculate monthly revenue (simplified)
     const premiumPlan = getPlanById('premium');
     const supporterPlan = getPlanById('supporter');
-    
-    const monthlyRevenue = 
+
+    const monthlyRevenue =
       (premiumSubscriptions * (premiumPlan?.price || 0)) +
       (supporterSubscriptions * (supporterPlan?.price || 0));
 
     return {
-      totalSubscriptions: allSubscriptions.length,
-      activeSubscriptions: activeSubscriptions.length,
+      totalSubscriptions: (result?.total as number) || 0,
+      activeSubscriptions: (result?.active as number) || 0,
       premiumSubscriptions,
       supporterSubscriptions,
       monthlyRevenue,
     };
   }
 
-  getUserPlan(userId: string): SubscriptionPlan {
-    const subscription = this.subscriptions.get(userId);
-    if (!subscription || subscription.status !== 'active') {
+  async getUserPlan(userId: string): Promise<SubscriptionPlan> {
+    const subscription = await this.getUserSubscription(userId);
+    if (!subscription || !ENTITLED_STATUSES.includes(subscription.status)) {
       return getPlanById('free')!;
     }
-    
+
     return getPlanById(subscription.planId) || getPlanById('free')!;
   }
 
-  canUserCreateListings(userId: string, currentListingsCount: number): boolean {
-    const plan = this.getUserPlan(userId);
+  async canUserCreateListings(userId: string, currentListingsCount: number): Promise<boolean> {
+    const plan = await this.getUserPlan(userId);
     return plan.maxListings === -1 || currentListingsCount < plan.maxListings;
   }
+
+  /**
+   * Listings created in the rolling quota window against the user's allowance.
+   * The allowance is the more generous of the role limit and the plan limit, so
+   * manually promoted users keep their role's quota.
+   */
+  async getListingUsage(userId: string, role: UserRole): Promise<ListingQuotaUsage> {
+    const plan = await this.getUserPlan(userId);
+    const roleLimit = ROLE_PERMISSIONS[role]?.maxListingsPerMonth ?? ROLE_PERMISSIONS.user.maxListingsPerMonth;
+    const limit = roleLimit === -1 || plan.maxListings === -1 ? -1 : Math.max(roleLimit, plan.maxListings);
+
+    // Counted from the creation ledger, so deleting a listing doesn't give its slot back
+    const row = await this.db.prepare(`
+      SELECT COUNT(*) as used, MIN(created_at) as oldest
+      FROM listing_creations
+      WHERE user_id = ? AND julianday(created_at) >= julianday('now', ?)
+    `).bind(userId, `-${LISTING_QUOTA_PERIOD_DAYS} days`).first();
+
+    const used = (row?.used as number) || 0;
+    const oldest = row?.oldest as string | null;
+
+    // A slot frees up once the oldest listing in the window ages out
+    let resetsAt: string | null = null;
+    if (limit !== -1 && used >= limit && oldest) {
+      const oldestDate = new Date(oldest.includes('T') ? oldest : `${oldest.replace(' ', 'T')}Z`);
+      oldestDate.setUTCDate(oldestDate.getUTCDate() + LISTING_QUOTA_PERIOD_DAYS);
+      resetsAt = oldestDate.toISOString();
+    }
+
+    const upgradePlan = limit === -1
+      ? undefined
+      : SUBSCRIPTION_PLANS.find(candidate => candidate.maxListings === -1 || candidate.maxListings > limit);
+
+    return {
+      used,
+      limit,
+      remaining: limit === -1 ? -1 : Math.max(limit - used, 0),
+      periodDays: LISTING_QUOTA_PERIOD_DAYS,
+      resetsAt,
+      planId: plan.id,
+      upgradePlanId: upgradePlan?.id || null
+    };
+  }
+
+  /**
+   * Count a new listing against the user's quota (limit from getListingUsage). The
+   * check and the insert are one statement, so parallel requests can't both take
+   * the last slot. Returns false when the quota is used up.
+   */
+  async reserveListingSlot(userId: string, listingId: string, limit: number): Promise<boolean> {
+    const result = await this.db.prepare(`
+      INSERT INTO listing_creations (listing_id, user_id)
+      SELECT ?, ?
+      WHERE ? = -1 OR (
+        SELECT COUNT(*) FROM listing_creations
+        WHERE user_id = ? AND julianday(created_at) >= julianday('now', ?)
+      ) < ?
+    `).bind(listingId, userId, limit, userId, `-${LISTING_QUOTA_PERIOD_DAYS} days`, limit).run();
+
+    return result.meta.changes > 0;
+  }
+
+  // Give the slot back when the listing couldn't be saved after all
+  async releaseListingSlot(listingId: string): Promise<void> {
+    await this.db.prepare('DELETE FROM listing_creations WHERE listing_id = ?').bind(listingId).run();
+  }
+
+  /**
+   * Upsert the local row from a Stripe Subscription snapshot
+   */
+  private async applySubscriptionObject(stripeSubscription: StripeSubscriptionObject, eventCreated: number): Promise<string | null> {
+    const existing = await this.db.prepare(
+      'SELECT * FROM subscriptions WHERE stripe_subscription_id = ?'
+    ).bind(stripeSubscription.id).first();
+
+    if (existing && ((existing.last_stripe_event_at as number) || 0) > eventCreated) {
+      console.log(`Ignoring stale event for subscription ${stripeSubscription.id}`);
+      return existing.user_id as string;
+    }
+
+    const userId = (existing?.user_id as string)
+      || stripeSubscription.metadata?.userId
+      || await this.findUserIdByCustomer(stripeSubscription.customer);
+
+    if (!userId) {
+      console.warn(`No user found for Stripe subscription ${stripeSubscription.id} (customer ${stripeSubscription.customer})`);
+      return null;
+    }
+
+    const priceId = stripeSubscription.items?.data[0]?.price?.id;
+    const planId = (stripeSubscription.metadata?.planId && getPlanById(stripeSubscription.metadata.planId)?.id)
+      || (priceId && getPlanByStripePriceId(priceId)?.id)
+      || (existing?.plan_id as string | undefined);
+
+    if (!planId) {
+      console.warn(`Unknown plan for Stripe subscription ${stripeSubscription.id} (price ${priceId})`);
+      return null;
+    }
+
+    const status = this.mapStripeStatus(stripeSubscription.status);
+    const periodStart = new Date(stripeSubscription.current_period_start * 1000).toISOString();
+    const periodEnd = new Date(stripeSubscription.current_period_end * 1000).toISOString();
+
+    if (existing) {
+      await this.db.prepare(`
+        UPDATE subscriptions
+        SET plan_id = ?, stripe_customer_id = ?, status = ?, current_period_start = ?,
+            current_period_end = ?, cancel_at_period_end = ?, last_stripe_event_at = ?,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).bind(
+        planId,
+        stripeSubscription.customer,
+        status,
+        periodStart,
+        periodEnd,
+        stripeSubscription.cancel_at_period_end,
+        eventCreated,
+        existing.id
+      ).run();
+    } else {
+      await this.db.prepare(`
+        INSERT INTO subscriptions (
+          id, user_id, plan_id, stripe_subscription_id, stripe_customer_id,
+          status, current_period_start, current_period_end, cancel_at_period_end, last_stripe_event_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        `sub-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        userId,
+        planId,
+        stripeSubscription.id,
+        stripeSubscription.customer,
+        status,
+        periodStart,
+        periodEnd,
+        stripeSubscription.cancel_at_period_end,
+        eventCreated
+      ).run();
+    }
+
+    await this.syncUserRole(userId);
+    return userId;
+  }
+
+  /**
+   * Update payment status (and the paid period) from an invoice event
+   */
+  private async applyInvoice(invoice: StripeInvoiceObject, status: SubscriptionStatus, eventCreated: number): Promise<string | null> {
+    if (!invoice.subscription) {
+      // One-off invoices are not tied to a plan
+      return null;
+    }
+
+    const existing = await this.db.prepare(
+      'SELECT * FROM subscriptions WHERE stripe_subscription_id = ?'
+    ).bind(invoice.subscription).first();
+
+    if (!existing) {
+      console.warn(`Invoice ${invoice.id} references unknown subscription ${invoice.subscription}`);
+      return null;
+    }
+
+    const userId = existing.user_id as string;
+    if (((existing.last_stripe_event_at as number) || 0) > eventCreated) {
+      console.log(`Ignoring stale invoice event for subscription ${invoice.subscription}`);
+      return userId;
+    }
+
+    const period = invoice.lines?.data[0]?.period;
+    const fields = ['status = ?', 'last_stripe_event_at = ?'];
+    const values: unknown[] = [status, eventCreated];
+
+    if (status === 'active' && period) {
+      fields.push('current_period_start = ?', 'current_period_end = ?');
+      values.push(new Date(period.start * 1000).toISOString(), new Date(period.end * 1000).toISOString());
+    }
+
+    await this.db.prepare(`
+      UPDATE subscriptions SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(...values, existing.id).run();
+
+    await this.syncUserRole(userId);
+    return userId;
+  }
+
+  /**
+   * Keep users.role in line with the user's entitled plan. Admins are never downgraded.
+   */
+  private async syncUserRole(userId: string): Promise<void> {
+    const plan = await this.getUserPlan(userId);
+    const role = plan.tier === 'free' ? 'user' : plan.tier;
+
+    await this.db.prepare(`
+      UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND role != 'admin' AND role != ?
+    `).bind(role, userId, role).run();
+  }
+
+  private async findUserIdByCustomer(customerId: string): Promise<string | null> {
+    const row = await this.db.prepare(
+      'SELECT user_id FROM subscriptions WHERE stripe_customer_id = ? ORDER BY created_at DESC LIMIT 1'
+    ).bind(customerId).first();
+    return (row?.user_id as string) || null;
+  }
+
+  private async getSubscriptionById(subscriptionId: string): Promise<UserSubscription | null> {
+    const row = await this.db.prepare('SELECT * FROM subscriptions WHERE id = ?').bind(subscriptionId).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Stripe has more statuses than our CHECK constraint allows
+  private mapStripeStatus(stripeStatus: string): SubscriptionStatus {
+    switch (stripeStatus) {
+      case 'active':
+      case 'trialing':
+      case 'past_due':
+      case 'incomplete':
+      case 'canceled':
+        return stripeStatus;
+      case 'unpaid':
+        return 'past_due';
+      case 'incomplete_expired':
+      case 'paused':
+      default:
+        return 'canceled';
+    }
+  }
+
+  private mapRow(row: Record<string, unknown>): UserSubscription {
+    return {
+      id: row.id as string,
+      userId: row.user_id as string,
+      planId: row.plan_id as string,
+      stripeSubscriptionId: (row.stripe_subscription_id as string) || undefined,
+      stripeCustomerId: (row.stripe_customer_id as string) || undefined,
+      status: row.status as SubscriptionStatus,
+      currentPeriodStart: row.current_period_start as string,
+      currentPeriodEnd: row.current_period_end as string,
+      cancelAtPeriodEnd: Boolean(row.cancel_at_period_end),
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+    let mismatch = 0;
+    for (let i = 0; i < a.length; i++) {
+      mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return mismatch === 0;
+  }
 }
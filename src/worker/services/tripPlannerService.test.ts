@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { TripPoint } from '../types/trips';
+import { haversineKm, orderStops, tripDirections } from './tripPlannerService';
+
+interface Stop extends TripPoint {
+  id: string;
+}
+
+const start: TripPoint = { latitude: 0, longitude: 0 };
+
+function stop(id: string, latitude: number, longitude: number): Stop {
+  return { id, latitude, longitude };
+}
+
+function routeKm(stops: TripPoint[], roundTrip: boolean): number {
+  const points = [start, ...stops, ...(roundTrip ? [start] : [])];
+  return points.slice(1).reduce((sum, point, index) => sum + haversineKm(points[index], point), 0);
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+}
+
+function ids(stops: Stop[]): string[] {
+  return stops.map(s => s.id);
+}
+
+describe('orderStops', () => {
+  it('visits stops along a line in order of distance', () => {
+    const stops = [stop('c', 0, 3), stop('a', 0, 1), stop('b', 0, 2)];
+    expect(ids(orderStops(start, stops, false))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns every stop exactly once, as the same objects', () => {
+    const stops = [stop('a', 1, 0.1), stop('b', 0.1, 1), stop('c', -1, 0), stop('d', 0, -1), stop('e', 1, 1), stop('f', -1, -1)];
+    const ordered = orderStops(start, stops, true);
+
+    expect(ordered).toHaveLength(stops.length);
+    expect(new Set(ordered)).toEqual(new Set(stops));
+  });
+
+  it('handles no stops and a single stop', () => {
+    expect(orderStops(start, [], false)).toEqual([]);
+    const only = stop('a', 1, 1);
+    expect(orderStops(start, [only], true)).toEqual([only]);
+  });
+
+  it('untangles the nearest-neighbour route of a round trip with 2-opt', () => {
+    // Nearest neighbour goes a, b, d, c and crosses itself on the way back
+    const stops = [stop('a', 0, 1), stop('b', 1, 1), stop('c', 0, 2), stop('d', 1, 2)];
+    const ordered = orderStops(start, stops, true);
+
+    expect(ids(ordered)).toEqual(['a', 'c', 'd', 'b']);
+    const shortest = Math.min(...permutations(stops).map(route => routeKm(route, true)));
+    expect(routeKm(ordered, true)).toBeCloseTo(shortest, 6);
+  });
+
+  it('finds the shortest one-way route for small scattered trips', () => {
+    const stops = [stop('a', 0, 1), stop('b', 0, -1.2), stop('c', 0, 2), stop('d', 0, -2.5)];
+    const shortest = Math.min(...permutations(stops).map(route => routeKm(route, false)));
+    expect(routeKm(orderStops(start, stops, false), false)).toBeCloseTo(shortest, 6);
+  });
+});
+
+describe('tripDirections', () => {
+  const berlin: TripPoint = { latitude: 52.52, longitude: 13.405 };
+  const stops: TripPoint[] = [
+    { latitude: 52.4, longitude: 13.0666666 },
+    { latitude: 52.0, longitude: 13.5 }
+  ];
+
+  it('builds one Google Maps link with the stops as waypoints', () => {
+    const { google } = tripDirections(berlin, stops, false);
+
+    expect(google).toHaveLength(1);
+    const params = new URL(google[0]).searchParams;
+    expect(params.get('api')).toBe('1');
+    expect(params.get('origin')).toBe('52.520000,13.405000');
+    expect(params.get('waypoints')).toBe('52.400000,13.066667');
+    expect(params.get('destination')).toBe('52.000000,13.500000');
+    expect(params.get('travelmode')).toBe('driving');
+  });
+
+  it('ends round trips back at the start', () => {
+    const { google, osm } = tripDirections(berlin, stops, true);
+
+    const params = new URL(google[0]).searchParams;
+    expect(params.get('waypoints')).toBe('52.400000,13.066667|52.000000,13.500000');
+    expect(params.get('destination')).toBe('52.520000,13.405000');
+    expect(osm.endsWith('loc=52.520000,13.405000')).toBe(true);
+  });
+
+  it('leaves out waypoints for a single stop', () => {
+    const [link] = tripDirections(berlin, stops.slice(0, 1), false).google;
+    expect(new URL(link).searchParams.has('waypoints')).toBe(false);
+  });
+
+  it('splits long trips into Google Maps links that continue where the previous one ended', () => {
+    const manyStops = Array.from({ length: 12 }, (_, i) => ({ latitude: 50 + i / 10, longitude: 10 }));
+    const { google } = tripDirections(berlin, manyStops, false);
+
+    expect(google).toHaveLength(2);
+    const [first, second] = google.map(link => new URL(link).searchParams);
+    expect(first.get('waypoints')?.split('|')).toHaveLength(9);
+    expect(first.get('destination')).toBe('50.900000,10.000000');
+    expect(second.get('origin')).toBe(first.get('destination'));
+    expect(second.get('waypoints')?.split('|')).toHaveLength(1);
+    expect(second.get('destination')).toBe('51.100000,10.000000');
+  });
+
+  it('puts every point into one OSRM map link', () => {
+    const { osm } = tripDirections(berlin, stops, false);
+    expect(osm).toBe('https://map.project-osrm.org/?srv=0&loc=52.520000,13.405000&loc=52.400000,13.066667&loc=52.000000,13.500000');
+  });
+});
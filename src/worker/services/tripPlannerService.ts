@@ -0,0 +1,341 @@
+import { OpeningHours } from '../types/listings';
+import { TripDirections, TripPlan, TripPoint, TripRequest, TripStop, TripWarning } from '../types/trips';
+import { getOpeningStatus, parseStoredOpeningHours } from './openingHours';
+import { escapeXml } from './favoritesService';
+import { isRecord } from './utils';
+
+export const MAX_TRIP_STOPS = 25;
+
+const DEFAULT_SPEED_KMH = 50;
+const MIN_SPEED_KMH = 5;
+const MAX_SPEED_KMH = 130;
+const DEFAULT_STOP_MINUTES = 15;
+const MAX_STOP_MINUTES = 240;
+
+// Roads are longer than the straight line between two stops; only used for arrival times
+const ROAD_DETOUR_FACTOR = 1.3;
+
+// Waypoints Google Maps accepts in one directions link, besides origin and destination
+const GOOGLE_MAX_WAYPOINTS = 9;
+
+// 2-opt stops after this many passes even if it could still improve the route
+const MAX_TWO_OPT_PASSES = 50;
+
+const EARTH_RADIUS_KM = 6371;
+
+interface DatabaseTripListing {
+  id: string;
+  title: string;
+  address: string;
+  city: string;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  hide_address: number;
+  operating_hours: string | null;
+}
+
+interface RoutableListing extends TripPoint {
+  id: string;
+  title: string;
+  address: string;
+  hours: OpeningHours | null;
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && isFinite(value) && Math.abs(value) <= limit;
+}
+
+function roundKm(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+export function haversineKm(a: TripPoint, b: TripPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Validate a trip request. The departure defaults to `now`; returns null when
+ * anything is malformed or neither listings nor a collection are given.
+ */
+export function parseTripRequest(body: unknown, now: Date = new Date()): TripRequest | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const { start, listingIds, collectionId, departAt, roundTrip, speedKmh, stopMinutes } = body;
+  const { latitude, longitude } = isRecord(start) ? start : {};
+  if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+    return null;
+  }
+
+  const request: TripRequest = {
+    start: { latitude, longitude },
+    departAt: now.toISOString(),
+    roundTrip: false,
+    speedKmh: DEFAULT_SPEED_KMH,
+    stopMinutes: DEFAULT_STOP_MINUTES,
+  };
+
+  if (listingIds !== undefined) {
+    if (collectionId !== undefined || !Array.isArray(listingIds) || listingIds.length === 0 ||
+        listingIds.length > MAX_TRIP_STOPS || !listingIds.every(id => typeof id === 'string' && id) ||
+        new Set(listingIds).size !== listingIds.length) {
+      return null;
+    }
+    request.listingIds = listingIds as string[];
+  } else if (typeof collectionId === 'string' && collectionId) {
+    request.collectionId = collectionId;
+  } else {
+    return null;
+  }
+
+  if (departAt !== undefined) {
+    const parsed = typeof departAt === 'string' ? new Date(departAt) : null;
+    if (!parsed || isNaN(parsed.getTime())) {
+      return null;
+    }
+    request.departAt = parsed.toISOString();
+  }
+
+  if (roundTrip !== undefined) {
+    if (typeof roundTrip !== 'boolean') {
+      return null;
+    }
+    request.roundTrip = roundTrip;
+  }
+
+  if (speedKmh !== undefined) {
+    if (typeof speedKmh !== 'number' || !(speedKmh >= MIN_SPEED_KMH && speedKmh <= MAX_SPEED_KMH)) {
+      return null;
+    }
+    request.speedKmh = speedKmh;
+  }
+
+  if (stopMinutes !== undefined) {
+    if (typeof stopMinutes !== 'number' || !Number.isInteger(stopMinutes) || stopMinutes < 0 || stopMinutes > MAX_STOP_MINUTES) {
+      return null;
+    }
+    request.stopMinutes = stopMinutes;
+  }
+
+  return request;
+}
+
+/**
+ * Visit order for the stops that keeps the total distance short: nearest neighbour
+ * from the start, then 2-opt until no reversed segment makes the route shorter.
+ * Round trips count the way back to the start.
+ */
+export function orderStops<T extends TripPoint>(start: TripPoint, stops: T[], roundTrip: boolean): T[] {
+  const remaining = [...stops];
+  const route: T[] = [];
+  let current: TripPoint = start;
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (haversineKm(current, remaining[i]) < haversineKm(current, remaining[nearest])) {
+        nearest = i;
+      }
+    }
+    current = remaining.splice(nearest, 1)[0];
+    route.push(current as T);
+  }
+
+  // points[0] is the start and never moves
+  const points: TripPoint[] = [start, ...route];
+  const last = points.length - 1;
+  const next = (k: number): TripPoint | undefined => k < last ? points[k + 1] : (roundTrip ? start : undefined);
+
+  for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = 1; i < last; i++) {
+      for (let k = i + 1; k <= last; k++) {
+        const after = next(k);
+        const before = haversineKm(points[i - 1], points[i]) + (after ? haversineKm(points[k], after) : 0);
+        const reversed = haversineKm(points[i - 1], points[k]) + (after ? haversineKm(points[i], after) : 0);
+        if (reversed < before - 1e-9) {
+          const segment = points.slice(i, k + 1).reverse();
+          points.splice(i, segment.length, ...segment);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return points.slice(1) as T[];
+}
+
+function formatPoint(point: TripPoint): string {
+  return `${point.latitude.toFixed(6)},${point.longitude.toFixed(6)}`;
+}
+
+/**
+ * Links that open the route in Google Maps and on OpenStreetMap. The OSM link uses
+ * the OSRM map, since openstreetmap.org/directions only routes between two points.
+ */
+export function tripDirections(start: TripPoint, stops: TripPoint[], roundTrip: boolean): TripDirections {
+  const points = [start, ...stops, ...(roundTrip ? [start] : [])];
+
+  // Each link ends where the next one starts
+  const google: string[] = [];
+  for (let from = 0; from < points.length - 1; from += GOOGLE_MAX_WAYPOINTS + 1) {
+    const to = Math.min(from + GOOGLE_MAX_WAYPOINTS + 1, points.length - 1);
+    const waypoints = points.slice(from + 1, to);
+    const params = new URLSearchParams({
+      api: '1',
+      origin: formatPoint(points[from]),
+      destination: formatPoint(points[to]),
+      travelmode: 'driving',
+    });
+    if (waypoints.length > 0) {
+      params.set('waypoints', waypoints.map(formatPoint).join('|'));
+    }
+    google.push(`https://www.google.com/maps/dir/?${params.toString()}`);
+  }
+
+  const osm = `https://map.project-osrm.org/?srv=0&${points.map(point => `loc=${formatPoint(point)}`).join('&')}`;
+
+  return { google, osm };
+}
+
+/**
+ * Warn when a stop is closed on arrival or closes before the planned visit is over
+ */
+function stopWarning(hours: OpeningHours | null, arrival: Date, departure: Date): Pick<TripStop, 'openingStatus' | 'warning'> {
+  if (!hours) {
+    return {};
+  }
+
+  const openingStatus = getOpeningStatus(hours, arrival);
+  let warning: TripWarning | undefined;
+  if (!openingStatus.isOpen) {
+    warning = { type: 'closed', ...(openingStatus.nextChange ? { at: openingStatus.nextChange } : {}) };
+  } else if (openingStatus.nextChange && new Date(openingStatus.nextChange) < departure) {
+    warning = { type: 'closesDuringVisit', at: openingStatus.nextChange };
+  }
+
+  return { openingStatus, ...(warning ? { warning } : {}) };
+}
+
+/**
+ * A trip as a GPX 1.1 route from the start through every stop, with estimated arrival times
+ */
+export function tripToGpx(plan: TripPlan, name: string): string {
+  const routePoint = (point: TripPoint, pointName: string, time: string, comment?: string) => [
+    `    <rtept lat="${point.latitude}" lon="${point.longitude}">`,
+    `      <time>${time}</time>`,
+    `      <name>${escapeXml(pointName)}</name>`,
+    comment ? `      <cmt>${escapeXml(comment)}</cmt>` : null,
+    '    </rtept>'
+  ].filter(line => line !== null).join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Kisigua" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    routePoint(plan.start, 'Start', plan.departAt),
+    ...plan.stops.map((stop, index) => routePoint(stop, `${index + 1}. ${stop.title}`, stop.arrivalAt, stop.address)),
+    plan.roundTrip ? routePoint(plan.start, 'Start', plan.finishAt) : null,
+    '  </rte>',
+    '</gpx>',
+    ''
+  ].filter(line => line !== null).join('\n');
+}
+
+export class TripPlannerService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Order the listings into a route from the request's start and estimate when each
+   * stop is reached. Listings that can't be routed are reported as skipped.
+   */
+  async planTrip(request: TripRequest, listingIds: string[]): Promise<TripPlan> {
+    const listings = await this.getRoutableListings(listingIds);
+    const ordered = orderStops(request.start, listings, request.roundTrip);
+
+    const departAt = new Date(request.departAt);
+    let time = departAt.getTime();
+    let previous: TripPoint = request.start;
+    let totalDistanceKm = 0;
+    const travelMs = (km: number) => km * ROAD_DETOUR_FACTOR / request.speedKmh * 3600000;
+
+    const stops: TripStop[] = ordered.map(listing => {
+      const distanceKm = haversineKm(previous, listing);
+      const arrival = new Date(time + travelMs(distanceKm));
+      const departure = new Date(arrival.getTime() + request.stopMinutes * 60000);
+      totalDistanceKm += distanceKm;
+      time = departure.getTime();
+      previous = listing;
+
+      return {
+        listingId: listing.id,
+        title: listing.title,
+        address: listing.address,
+        latitude: listing.latitude,
+        longitude: listing.longitude,
+        distanceKm: roundKm(distanceKm),
+        arrivalAt: arrival.toISOString(),
+        departureAt: departure.toISOString(),
+        ...stopWarning(listing.hours, arrival, departure),
+      };
+    });
+
+    let returnDistanceKm: number | undefined;
+    if (request.roundTrip && stops.length > 0) {
+      returnDistanceKm = haversineKm(previous, request.start);
+      totalDistanceKm += returnDistanceKm;
+      time += travelMs(returnDistanceKm);
+    }
+
+    const routed = new Set(listings.map(listing => listing.id));
+    return {
+      start: request.start,
+      stops,
+      roundTrip: request.roundTrip,
+      ...(returnDistanceKm !== undefined ? { returnDistanceKm: roundKm(returnDistanceKm) } : {}),
+      totalDistanceKm: roundKm(totalDistanceKm),
+      departAt: departAt.toISOString(),
+      finishAt: new Date(time).toISOString(),
+      directions: tripDirections(request.start, stops, request.roundTrip),
+      skippedListingIds: listingIds.filter(id => !routed.has(id)),
+    };
+  }
+
+  // Active listings with coordinates; hidden addresses show only city and country
+  private async getRoutableListings(listingIds: string[]): Promise<RoutableListing[]> {
+    if (listingIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.prepare(`
+      SELECT id, title, address, city, country, latitude, longitude, hide_address, operating_hours
+      FROM listings
+      WHERE id IN (${listingIds.map(() => '?').join(', ')}) AND status = 'active'
+        AND latitude IS NOT NULL AND longitude IS NOT NULL
+    `).bind(...listingIds).all();
+
+    return (result.results as unknown as DatabaseTripListing[]).map(row => ({
+      id: row.id,
+      title: row.title,
+      address: row.hide_address ? `${row.city}, ${row.country}` : row.address,
+      latitude: row.latitude as number,
+      longitude: row.longitude as number,
+      hours: parseStoredOpeningHours(row.operating_hours),
+    }));
+  }
+}
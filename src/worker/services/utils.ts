@@ -0,0 +1,24 @@
+/**
+ * Small helpers shared by the services
+ */
+
+// Plain JSON object, as opposed to null, an array or a primitive
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Users are shown to each other as "Anna M.", never with their full name or email
+export function displayName(firstName: string | null, lastName: string | null): string {
+  const initial = lastName?.trim().charAt(0);
+  return [firstName?.trim(), initial ? `${initial}.` : ''].filter(Boolean).join(' ');
+}
+
+// Trimmed string field of a request body; null when missing, blank or longer than maxLength
+export function parseText(body: unknown, field: string, maxLength: number): string | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+  const value = body[field];
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  return trimmed && trimmed.length <= maxLength ? trimmed : null;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { WaterStatus } from '../types/listings';
+import { getWaterStatusConsensus } from './waterSourceService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function report(userId: string, status: WaterStatus, daysAgo: number) {
+  return { userId, status, createdAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString() };
+}
+
+describe('getWaterStatusConsensus', () => {
+  it('has no status without reports', () => {
+    expect(getWaterStatusConsensus([], now)).toEqual({ status: null, reportCount: 0 });
+  });
+
+  it('ignores reports older than the 30-day window', () => {
+    expect(getWaterStatusConsensus([report('user-1', 'dry', 31)], now)).toEqual({ status: null, reportCount: 0 });
+    expect(getWaterStatusConsensus([report('user-1', 'dry', 29)], now).status).toBe('dry');
+  });
+
+  it('counts only the latest report of each user', () => {
+    const summary = getWaterStatusConsensus([
+      report('user-1', 'dry', 1),
+      report('user-1', 'working', 0),
+      report('user-1', 'dry', 2)
+    ], now);
+
+    expect(summary).toEqual({ status: 'working', reportedAt: now.toISOString(), reportCount: 1 });
+  });
+
+  it('lets a fresh report outweigh a few stale ones', () => {
+    // Eight days old, each "working" report weighs 0.5^(8/7) ≈ 0.45 against the fresh 1.0
+    const stale = [report('user-1', 'working', 8), report('user-2', 'working', 8)];
+    expect(getWaterStatusConsensus([...stale, report('user-3', 'dry', 0)], now).status).toBe('dry');
+
+    const moreStale = [...stale, report('user-4', 'working', 8)];
+    expect(getWaterStatusConsensus([...moreStale, report('user-3', 'dry', 0)], now).status).toBe('working');
+  });
+
+  it('breaks ties in favour of the more severe status', () => {
+    expect(getWaterStatusConsensus([report('user-1', 'working', 1), report('user-2', 'broken', 1)], now).status)
+      .toBe('broken');
+    expect(getWaterStatusConsensus([report('user-1', 'not_potable', 1), report('user-2', 'dry', 1)], now).status)
+      .toBe('not_potable');
+  });
+
+  it('reports when the newest report was made and reads D1 timestamps as UTC', () => {
+    const summary = getWaterStatusConsensus([
+      { userId: 'user-1', status: 'working', createdAt: '2026-10-18 08:30:00' },
+      { userId: 'user-2', status: 'working', createdAt: '2026-10-15 08:30:00' }
+    ], now);
+
+    expect(summary).toEqual({ status: 'working', reportedAt: '2026-10-18T08:30:00.000Z', reportCount: 2 });
+  });
+
+  it('skips reports with unreadable timestamps', () => {
+    const summary = getWaterStatusConsensus([
+      { userId: 'user-1', status: 'dry', createdAt: 'yesterday' },
+      report('user-2', 'working', 1)
+    ], now);
+
+    expect(summary.status).toBe('working');
+    expect(summary.reportCount).toBe(1);
+  });
+});
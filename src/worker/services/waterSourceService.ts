@@ -0,0 +1,255 @@
+import {
+  WATER_STATUSES,
+  WaterSourceDetails,
+  WaterStatus,
+  WaterStatusReport,
+  WaterStatusSummary
+} from '../types/listings';
+import { displayName, isRecord } from './utils';
+
+export const MAX_WATER_REPORT_NOTE_LENGTH = 500;
+// Reports older than this no longer count towards a source's status
+export const WATER_STATUS_WINDOW_DAYS = 30;
+// A report loses half its weight every week
+const WATER_STATUS_HALF_LIFE_DAYS = 7;
+// Minimum time between two reports by the same user on the same source
+export const WATER_REPORT_COOLDOWN_MINUTES = 60;
+export const WATER_REPORT_HISTORY_LIMIT = 50;
+
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface DatabaseWaterStatusReport {
+  id: string;
+  user_id: string;
+  reporter_first_name: string | null;
+  reporter_last_name: string | null;
+  status: WaterStatus;
+  note: string | null;
+  created_at: string;
+}
+
+// Listings in the database may carry the category with or without its "cat_" prefix
+export function isWaterSourceCategory(category: string): boolean {
+  return category === 'water_source' || category === 'cat_water_source';
+}
+
+export function isWaterStatus(value: unknown): value is WaterStatus {
+  return typeof value === 'string' && (WATER_STATUSES as readonly string[]).includes(value);
+}
+
+// D1 returns CURRENT_TIMESTAMP values as "YYYY-MM-DD HH:MM:SS" in UTC
+function parseTimestamp(value: string): number {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Water source details from a create or update request. The lab certificate must be
+ * a file uploaded through our storage, i.e. a URL under `fileUrlPrefix`. Returns null
+ * when anything is malformed.
+ */
+export function parseWaterSourceDetails(value: unknown, fileUrlPrefix: string): WaterSourceDetails | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { potable, season, lastTestedAt, certificateUrl } = value;
+  const details: WaterSourceDetails = {};
+
+  if (potable !== undefined && potable !== null) {
+    if (typeof potable !== 'boolean') {
+      return null;
+    }
+    details.potable = potable;
+  }
+
+  if (season !== undefined && season !== null) {
+    if (!isRecord(season) || typeof season.from !== 'string' || typeof season.to !== 'string' ||
+        !MONTH_DAY_PATTERN.test(season.from) || !MONTH_DAY_PATTERN.test(season.to)) {
+      return null;
+    }
+    details.season = { from: season.from, to: season.to };
+  }
+
+  if (lastTestedAt !== undefined && lastTestedAt !== null && lastTestedAt !== '') {
+    if (typeof lastTestedAt !== 'string' || !DATE_PATTERN.test(lastTestedAt) ||
+        Number.isNaN(Date.parse(lastTestedAt)) || lastTestedAt > new Date().toISOString().slice(0, 10)) {
+      return null;
+    }
+    details.lastTestedAt = lastTestedAt;
+  }
+
+  if (certificateUrl !== undefined && certificateUrl !== null && certificateUrl !== '') {
+    if (typeof certificateUrl !== 'string' || !certificateUrl.startsWith(fileUrlPrefix) ||
+        certificateUrl.length <= fileUrlPrefix.length) {
+      return null;
+    }
+    details.certificateUrl = certificateUrl;
+  }
+
+  return details;
+}
+
+export function parseWaterStatusReport(body: unknown): { status: WaterStatus; note?: string } | null {
+  if (!isRecord(body) || !isWaterStatus(body.status)) {
+    return null;
+  }
+
+  const { note } = body;
+  if (note === undefined || note === null) {
+    return { status: body.status };
+  }
+  if (typeof note !== 'string' || note.trim().length > MAX_WATER_REPORT_NOTE_LENGTH) {
+    return null;
+  }
+  return { status: body.status, note: note.trim() || undefined };
+}
+
+/**
+ * Consensus of a source's recent reports. Only each user's latest report counts, weighted
+ * by how recent it is, so one fresh "dry" outweighs a few stale "working" reports.
+ */
+export function getWaterStatusConsensus(
+  reports: Array<{ userId: string; status: WaterStatus; createdAt: string }>,
+  now: Date = new Date()
+): WaterStatusSummary {
+  const windowStart = now.getTime() - WATER_STATUS_WINDOW_DAYS * MS_PER_DAY;
+
+  const latestByUser = new Map<string, { status: WaterStatus; at: number }>();
+  for (const report of reports) {
+    const at = parseTimestamp(report.createdAt);
+    if (Number.isNaN(at) || at < windowStart) {
+      continue;
+    }
+    const latest = latestByUser.get(report.userId);
+    if (!latest || at > latest.at) {
+      latestByUser.set(report.userId, { status: report.status, at });
+    }
+  }
+
+  if (latestByUser.size === 0) {
+    return { status: null, reportCount: 0 };
+  }
+
+  const weights = new Map<WaterStatus, number>();
+  let latestAt = 0;
+  for (const { status, at } of latestByUser.values()) {
+    const ageDays = Math.max(now.getTime() - at, 0) / MS_PER_DAY;
+    weights.set(status, (weights.get(status) || 0) + Math.pow(0.5, ageDays / WATER_STATUS_HALF_LIFE_DAYS));
+    latestAt = Math.max(latestAt, at);
+  }
+
+  // Ties go to the status listed later in WATER_STATUSES, i.e. the more severe one
+  let consensus: WaterStatus = 'working';
+  let best = -1;
+  for (const status of WATER_STATUSES) {
+    const weight = weights.get(status) || 0;
+    if (weight > 0 && weight >= best) {
+      consensus = status;
+      best = weight;
+    }
+  }
+
+  return {
+    status: consensus,
+    reportedAt: new Date(latestAt).toISOString(),
+    reportCount: latestByUser.size,
+  };
+}
+
+export class WaterSourceService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Latest reports on a source, newest first
+   */
+  async getReports(listingId: string, limit: number = WATER_REPORT_HISTORY_LIMIT): Promise<WaterStatusReport[]> {
+    const result = await this.db.prepare(`
+      SELECT r.id, r.user_id, r.status, r.note, r.created_at,
+        u.first_name AS reporter_first_name, u.last_name AS reporter_last_name
+      FROM water_status_reports r
+      JOIN users u ON u.id = r.user_id
+      WHERE r.listing_id = ?
+      ORDER BY r.created_at DESC, r.id ASC
+      LIMIT ?
+    `).bind(listingId, limit).all();
+
+    return (result.results as unknown as DatabaseWaterStatusReport[]).map(row => ({
+      id: row.id,
+      status: row.status,
+      note: row.note || undefined,
+      reporter: {
+        id: row.user_id,
+        name: displayName(row.reporter_first_name, row.reporter_last_name),
+      },
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Whether the user reported on this source within the cooldown
+   */
+  async hasRecentReport(listingId: string, userId: string): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM water_status_reports
+      WHERE listing_id = ? AND user_id = ? AND created_at > datetime('now', ?)
+      LIMIT 1
+    `).bind(listingId, userId, `-${WATER_REPORT_COOLDOWN_MINUTES} minutes`).first();
+
+    return !!row;
+  }
+
+  /**
+   * Record a report and return the source's updated status
+   */
+  async addReport(listingId: string, userId: string, status: WaterStatus, note?: string): Promise<WaterStatusSummary> {
+    await this.db.prepare(`
+      INSERT INTO water_status_reports (id, listing_id, user_id, status, note)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(crypto.randomUUID(), listingId, userId, status, note || null).run();
+
+    return this.refreshStatus(listingId);
+  }
+
+  /**
+   * Clear the status of sources whose latest report left the window, so one reported
+   * broken months ago shows as unknown again and comes back into searches. Run from the cron.
+   */
+  async expireStaleStatuses(): Promise<number> {
+    const result = await this.db.prepare(`
+      UPDATE listings SET water_status = NULL, water_status_at = NULL, water_status_reports = 0
+      WHERE water_status IS NOT NULL AND water_status_at <= datetime('now', ?)
+    `).bind(`-${WATER_STATUS_WINDOW_DAYS} days`).run();
+
+    return result.meta.changes;
+  }
+
+  private async refreshStatus(listingId: string): Promise<WaterStatusSummary> {
+    const result = await this.db.prepare(`
+      SELECT user_id, status, created_at FROM water_status_reports
+      WHERE listing_id = ? AND created_at > datetime('now', ?)
+    `).bind(listingId, `-${WATER_STATUS_WINDOW_DAYS} days`).all();
+
+    const rows = result.results as unknown as Array<{ user_id: string; status: WaterStatus; created_at: string }>;
+    const summary = getWaterStatusConsensus(rows.map(row => ({
+      userId: row.user_id,
+      status: row.status,
+      createdAt: row.created_at,
+    })));
+    // Stored like CURRENT_TIMESTAMP so it compares with the other timestamps
+    const reportedAt = summary.reportedAt?.replace('T', ' ').slice(0, 19);
+
+    await this.db.prepare(`
+      UPDATE listings SET water_status = ?, water_status_at = ?, water_status_reports = ?
+      WHERE id = ?
+    `).bind(summary.status, reportedAt || null, summary.reportCount, listingId).run();
+
+    return { ...summary, reportedAt };
+  }
+}
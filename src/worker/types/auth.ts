@@ -1,3 +1,5 @@
+import { Locale } from '../i18n';
+
 export type UserRole = 'admin' | 'user' | 'premium' | 'supporter';
 
 export interface User {
@@ -16,6 +18,10 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string;
+  suspendedUntil?: string; // Blocked from signing in until this time
+  suspensionReason?: string;
+  sessionsRevokedAt?: string; // Tokens issued before this are rejected
+  locale?: Locale; // Preferred language for emails and API messages
 }
 
 export interface UserProfile {
@@ -29,12 +35,16 @@ export interface UserProfile {
   createdAt: string;
   lastLoginAt?: string;
   profileImageUrl?: string;
+  suspendedUntil?: string;
+  suspensionReason?: string;
+  locale?: Locale;
 }
 
 export interface JWTPayload {
   sub: string; // user id
   email: string;
   role: UserRole;
+  sid?: string; // Refresh token family the access token was issued from
   iat: number;
   exp: number;
   [key: string]: any; // Index signature for Hono compatibility
@@ -55,6 +65,8 @@ export interface RegisterRequest {
 export interface AuthResponse {
   success: boolean;
   token?: string;
+  refreshToken?: string;
+  expiresIn?: number; // Access token lifetime in seconds
   user?: UserProfile;
   message?: string;
   requiresEmailVerification?: boolean;
@@ -111,6 +123,28 @@ export interface ResendVerificationRequest {
   email: string;
 }
 
+export interface UpdateUserStatusRequest {
+  isActive?: boolean;
+  suspendedUntil?: string | null; // ISO date; null lifts a suspension
+  reason?: string;
+}
+
+export type BulkUserAction = 'activate' | 'deactivate' | 'suspend' | 'unsuspend' | 'set_role' | 'delete';
+
+export interface BulkUserActionRequest {
+  userIds: string[];
+  action: BulkUserAction;
+  role?: UserRole; // For set_role
+  suspendedUntil?: string; // For suspend
+  reason?: string;
+}
+
+export interface BulkUserActionResult {
+  userId: string;
+  success: boolean;
+  error?: string;
+}
+
 export interface RolePermissions {
   canCreateListings: boolean;
   canEditOwnListings: boolean;
@@ -0,0 +1,51 @@
+export const CLAIM_METHODS = ['email', 'website', 'document'] as const;
+export type ClaimMethod = typeof CLAIM_METHODS[number];
+
+export const CLAIM_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'] as const;
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+export interface ClaimRequest {
+  method: ClaimMethod;
+  documentUrl?: string; // Required for the document method, a file the claimant uploaded
+  message?: string;
+}
+
+export interface ListingClaim {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  userId: string; // Claimant
+  method: ClaimMethod;
+  status: ClaimStatus;
+  message?: string;
+  contactEmail?: string; // Email method: the contact address the code went to, masked
+  websiteUrl?: string; // Website method: where the code has to appear
+  websiteCode?: string; // Website method: the code to publish
+  documentUrl?: string;
+  codeExpiresAt?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminListingClaim extends ListingClaim {
+  claimant: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    emailVerified: boolean;
+  };
+  owner: {
+    id: string;
+    email: string;
+  } | null; // Current owner, null when their account is gone
+}
+
+export type ClaimDecision = 'approve' | 'reject';
+
+export interface ClaimDecisionRequest {
+  action: ClaimDecision;
+  note?: string; // Required when rejecting, sent to the claimant
+}
@@ -6,8 +6,12 @@ export interface Env {
   VECTORIZE: VectorizeIndex;
   JWT_SECRET: string;
   STRIPE_SECRET_KEY: string;
+  STRIPE_WEBHOOK_SECRET: string;
   RESEND_API_KEY: string;
   OPENAI_API_KEY: string;
+  AI?: Ai;
+  EMBEDDING_PROVIDER?: string; // 'openai' | 'workers-ai' | 'local'; chosen from available credentials when unset
+  EMBEDDING_DIMENSIONS?: string; // Vector size for the local provider
   ENVIRONMENT: string;
   APP_URL: string;
   R2_BUCKET_NAME: string;
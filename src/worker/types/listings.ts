@@ -1,7 +1,76 @@
+import { Locale } from '../i18n';
+
 export type ListingCategory = string; // Accept any category ID from the database
 
 export type ListingStatus = 'active' | 'inactive' | 'pending' | 'rejected';
 
+export interface ListingTranslation {
+  title: string;
+  description: string;
+}
+
+export type ListingTranslations = Partial<Record<Locale, ListingTranslation>>;
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface OpeningInterval {
+  open: string; // "HH:MM" local time
+  close: string; // "HH:MM"; "24:00" for midnight, earlier than open when it runs past midnight
+}
+
+export type WeeklyHours = Partial<Record<Weekday, OpeningInterval[]>>; // A missing or empty day is closed
+
+export interface SeasonalHours {
+  name?: string;
+  from: string; // "MM-DD", inclusive
+  to: string; // "MM-DD", inclusive; before from when the season spans the new year
+  weekly: WeeklyHours;
+}
+
+export interface OpeningException {
+  date: string; // "YYYY-MM-DD" in the listing's timezone
+  intervals: OpeningInterval[]; // Empty when closed all day
+  note?: string;
+}
+
+export interface OpeningHours {
+  timezone: string; // IANA zone, e.g. "Europe/Berlin"
+  alwaysOpen?: boolean; // 24/7, e.g. vending machines; exceptions still apply
+  weekly: WeeklyHours;
+  seasons?: SeasonalHours[]; // Replace the weekly hours between their dates
+  exceptions?: OpeningException[]; // Holidays and one-off changes; replace everything else on their date
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  nextChange?: string; // When it next opens or closes; unset if not within a week
+}
+
+export const WATER_STATUSES = ['working', 'broken', 'dry', 'not_potable'] as const;
+export type WaterStatus = typeof WATER_STATUSES[number];
+
+export interface WaterSourceDetails {
+  potable?: boolean; // Unset when unknown
+  season?: { from: string; to: string }; // "MM-DD", inclusive; unset when available all year
+  lastTestedAt?: string; // "YYYY-MM-DD"
+  certificateUrl?: string; // Lab certificate uploaded by the owner
+}
+
+export interface WaterStatusSummary {
+  status: WaterStatus | null; // Consensus of recent reports; null when there are none
+  reportedAt?: string; // Latest report counted
+  reportCount: number; // Reports counted towards the consensus
+}
+
+export interface WaterStatusReport {
+  id: string;
+  status: WaterStatus;
+  note?: string;
+  reporter: { id: string; name: string };
+  createdAt: string;
+}
+
 export interface Location {
   latitude: number;
   longitude: number;
@@ -31,16 +100,64 @@ export interface Listing {
   isOrganic: boolean;
   isCertified: boolean;
   certificationDetails?: string;
-  operatingHours?: {
-    [key: string]: { open: string; close: string; closed?: boolean };
-  };
+  operatingHours?: OpeningHours;
+  openingStatus?: OpeningStatus; // Computed at request time from operatingHours
+  waterSource?: WaterSourceDetails; // Only for water sources
+  waterStatus?: WaterStatusSummary; // Only for water sources
   priceRange?: 'free' | 'low' | 'medium' | 'high';
   hideAddress: boolean; // Privacy setting to hide address from public
+  hideContactInfo: boolean; // Email and phone only shown to the owner and admins; visitors use messages
   userId: string; // Owner of the listing
+  isVerified: boolean; // The owner proved they run the place through an approved ownership claim
   createdAt: string;
   updatedAt: string;
   views: number;
   favorites: number;
+  averageRating?: number; // Mean of published reviews, one decimal; unset until the first review
+  reviewCount: number; // Published reviews
+  distanceKm?: number; // Set by searches with a location filter
+  moderationReason?: string; // Latest moderator note, visible to the owner and admins
+  primaryLocale?: Locale; // Language of the stored title and description; unset for older listings
+  locale?: Locale; // Language title and description were returned in, when localized
+  translations?: ListingTranslations; // Every language the listing is written in, primary included
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'request_changes';
+
+export interface ModerationDecisionRequest {
+  action: ModerationAction;
+  reason?: string; // Required for reject and request_changes
+}
+
+export interface ModerationQueueItem {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  status: ListingStatus;
+  city: string;
+  country: string;
+  createdAt: string;
+  updatedAt: string;
+  moderationReason?: string;
+  owner: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    emailVerified: boolean;
+    approvedListings: number;
+  };
+}
+
+export interface ModerationHistoryEntry {
+  id: string;
+  action: ModerationAction | 'resubmit';
+  reason?: string;
+  moderatorId?: string;
+  previousStatus: ListingStatus;
+  newStatus: ListingStatus;
+  createdAt: string;
 }
 
 export interface SearchFilters {
@@ -57,17 +174,31 @@ export interface SearchFilters {
   city?: string;
   region?: string;
   country?: string;
+  openNow?: boolean;
+  openAt?: string; // ISO timestamp; listings without opening hours never match
+  publishedSince?: string; // ISO timestamp; listings that first went live at or after it
+  minRating?: number; // 1-5; listings without reviews never match
+  workingOnly?: boolean; // Leave out water sources reported broken, dry or not potable
+  potable?: boolean; // Only water sources marked potable
+  product?: string; // Only listings with a product of this name (or part of it) in stock
 }
 
 export interface SearchQuery {
   query?: string; // Full-text search
+  locale?: Locale; // Language to return listing text in; the endpoint defaults it to the request's
   filters?: SearchFilters;
-  sortBy?: 'relevance' | 'distance' | 'created_at' | 'views' | 'favorites';
+  sortBy?: 'relevance' | 'distance' | 'created_at' | 'views' | 'favorites' | 'rating';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+export interface SearchHighlight {
+  // Both are HTML: the text is escaped and only the <mark> tags around matched terms are markup
+  title: string;
+  snippet: string; // Description excerpt around the matches
+}
+
 export interface SearchResult {
   listings: Listing[];
   total: number;
@@ -75,6 +206,7 @@ export interface SearchResult {
   limit: number;
   totalPages: number;
   filters: SearchFilters;
+  highlights?: Record<string, SearchHighlight>; // Keyed by listing id, for keyword searches
 }
 
 export interface CreateListingRequest {
@@ -92,11 +224,13 @@ export interface CreateListingRequest {
   isOrganic?: boolean;
   isCertified?: boolean;
   certificationDetails?: string;
-  operatingHours?: {
-    [key: string]: { open: string; close: string; closed?: boolean };
-  };
+  operatingHours?: OpeningHours | null; // null clears them on update
+  waterSource?: WaterSourceDetails | null; // Water sources only; null clears it on update
   priceRange?: 'free' | 'low' | 'medium' | 'high';
   hideAddress?: boolean; // Privacy setting to hide address from public
+  hideContactInfo?: boolean; // Email and phone only shown to the owner and admins; visitors use messages
+  primaryLocale?: Locale; // Language of title and description; defaults to the request's language
+  translations?: ListingTranslations; // Other languages; an entry for primaryLocale replaces title and description
 }
 
 export interface UpdateListingRequest extends Partial<CreateListingRequest> {
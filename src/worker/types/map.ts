@@ -0,0 +1,39 @@
+// Visible area of the map in degrees. west > east when it crosses the antimeridian.
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface MapListingsQuery {
+  bounds: MapBounds;
+  zoom: number;
+  category?: string;
+}
+
+// Listings in one grid cell, shown as a single marker with a count
+export interface MapCluster {
+  latitude: number; // Mean position of the listings in the cell
+  longitude: number;
+  count: number;
+  categoryCounts: Record<string, number>;
+  bounds: MapBounds; // Extent of the listings, for zooming in on the cluster
+}
+
+export interface MapPoint {
+  id: string;
+  title: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  isVerified: boolean;
+}
+
+export interface MapListings {
+  zoom: number;
+  clusters: MapCluster[];
+  // Listings on their own: every listing from MAP_POINTS_MIN_ZOOM on, single-listing cells below it
+  points: MapPoint[];
+  truncated: boolean; // More listings in view than MAX_MAP_POINTS
+}
@@ -0,0 +1,47 @@
+export const MESSAGE_REPORT_STATUSES = ['open', 'resolved'] as const;
+export type MessageReportStatus = typeof MESSAGE_REPORT_STATUSES[number];
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface ConversationParticipant {
+  id: string;
+  name: string; // First name, or "First L." when a last name is known
+}
+
+export interface Conversation {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  visitorId: string;
+  ownerId: string;
+  otherParticipant: ConversationParticipant; // Seen from the requesting user
+  unreadCount: number; // Messages the requesting user hasn't opened
+  lastMessage?: Pick<Message, 'senderId' | 'body' | 'createdAt'>;
+  blocked: boolean; // The requesting user blocked the other participant
+  blockedBy: boolean; // The other participant blocked the requesting user
+  lastMessageAt: string;
+  createdAt: string;
+}
+
+export interface MessageReport {
+  id: string;
+  conversationId: string;
+  listingId: string;
+  listingTitle: string;
+  reporterId: string;
+  reporterEmail: string;
+  reportedUserId: string; // The other participant of the conversation
+  reportedUserEmail: string;
+  reason: string;
+  status: MessageReportStatus;
+  messages: Message[]; // Latest messages of the conversation when the report was read
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
@@ -0,0 +1,36 @@
+// Email a user can turn off. Security mail (email verification, password resets and the
+// welcome sent on verification) has no category: it is always sent and can't be unsubscribed.
+export const EMAIL_CATEGORIES = ['newListings', 'favorites', 'messages', 'listingUpdates', 'newsletter'] as const;
+export type EmailCategory = typeof EMAIL_CATEGORIES[number];
+
+export const PUSH_CATEGORIES = ['newListings', 'favorites', 'messages'] as const;
+export type PushCategory = typeof PUSH_CATEGORIES[number];
+
+export interface NotificationPreferences {
+  emailNotifications: Record<EmailCategory, boolean> & {
+    security: true; // Shown in settings, not configurable
+  };
+  pushNotifications: Record<PushCategory, boolean>;
+}
+
+export interface UpdateNotificationPreferencesRequest {
+  emailNotifications?: Partial<Record<EmailCategory, boolean>>;
+  pushNotifications?: Partial<Record<PushCategory, boolean>>;
+}
+
+// Matches the column defaults in user_preferences, for users who never saved settings
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailNotifications: {
+    newListings: true,
+    favorites: true,
+    messages: true,
+    listingUpdates: true,
+    newsletter: false,
+    security: true
+  },
+  pushNotifications: {
+    newListings: false,
+    favorites: true,
+    messages: true
+  }
+};
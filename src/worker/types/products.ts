@@ -0,0 +1,32 @@
+export const STOCK_REPORT_STATUSES = ['sold_out', 'restocked'] as const;
+export type StockReportStatus = typeof STOCK_REPORT_STATUSES[number];
+
+// In bulk updates, fields left out keep their stored value and null clears them
+export interface ProductRequest {
+  name: string; // Unique per listing, case-insensitive; bulk updates match on it
+  description?: string | null;
+  price?: number | null;
+  currency?: string; // ISO 4217, defaults to EUR
+  unit?: string | null; // e.g. "10 pcs", "1 l", "kg"
+  inStock?: boolean; // New products start in stock
+}
+
+export interface Product {
+  id: string;
+  listingId: string;
+  name: string;
+  description?: string;
+  price?: number;
+  currency: string;
+  unit?: string;
+  inStock: boolean;
+  stockUpdatedAt: string;
+  stockUpdatedBy?: 'owner' | 'visitor';
+}
+
+export interface ProductBulkResult {
+  created: number;
+  updated: number;
+  removed: number; // Only when replacing the whole catalogue
+  products: Product[];
+}
@@ -0,0 +1,45 @@
+import { MapBounds } from './map';
+
+export type PublicFeedFormat = 'geojson' | 'ndjson';
+
+export interface PublicFeedQuery {
+  categories?: string[];
+  country?: string; // Matched case-insensitively against the listing's country
+  bounds?: MapBounds;
+}
+
+export interface PublicListingProperties {
+  id: string;
+  title: string;
+  category: string;
+  // Unset, with coarsened coordinates, when the owner hides their address
+  address?: string;
+  postalCode?: string;
+  city: string;
+  region?: string;
+  country: string;
+  approximateLocation: boolean;
+  website?: string;
+  isOrganic: boolean;
+  isVerified: boolean;
+  waterPotable?: boolean;
+  waterStatus?: string;
+  updatedAt: string;
+}
+
+export interface PublicListingFeature {
+  type: 'Feature';
+  id: string;
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number]; // [longitude, latitude] as GeoJSON requires
+  };
+  properties: PublicListingProperties;
+}
+
+export interface PublicListingsGeoJson {
+  type: 'FeatureCollection';
+  features: PublicListingFeature[];
+  // More listings matched than MAX_GEOJSON_FEATURES; the NDJSON feed has all of them
+  truncated: boolean;
+}
@@ -0,0 +1,54 @@
+export const REVIEW_STATUSES = ['published', 'removed'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const REVIEW_SORTS = ['recent', 'helpful', 'rating'] as const;
+export type ReviewSort = typeof REVIEW_SORTS[number];
+
+export interface ReviewRequest {
+  rating: number; // Whole stars, 1-5
+  body: string;
+  photos?: string[]; // URLs returned by the review photo upload
+}
+
+export interface Review {
+  id: string;
+  listingId: string;
+  author: {
+    id: string;
+    name: string; // First name, or "First L." when a last name is known
+  };
+  rating: number;
+  body: string;
+  photos: string[];
+  status: ReviewStatus;
+  ownerReply?: string;
+  ownerReplyAt?: string;
+  removalReason?: string; // Moderator note, only returned to the author and admins
+  helpfulCount: number;
+  votedHelpful: boolean; // The requesting user marked it helpful
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewPage {
+  reviews: Review[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  ownReview?: Review; // The requesting user's review, wherever it falls in the order
+}
+
+export interface ReviewFlag {
+  userId: string;
+  userEmail: string;
+  reason: string;
+  createdAt: string;
+}
+
+export interface FlaggedReview extends Review {
+  listingTitle: string;
+  authorEmail: string;
+  flagCount: number;
+  flags: ReviewFlag[];
+}
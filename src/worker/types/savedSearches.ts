@@ -0,0 +1,39 @@
+import { SearchQuery } from './listings';
+
+export const ALERT_FREQUENCIES = ['off', 'instant', 'daily', 'weekly'] as const;
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number];
+
+// The stored part of a search; paging, sorting and language are chosen when it is run
+export type SavedSearchQuery = Pick<SearchQuery, 'query' | 'filters'>;
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: SavedSearchQuery;
+  alertFrequency: AlertFrequency;
+  lastCheckedAt: string; // New matches are listings published after this
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedSearchRequest {
+  name: string;
+  query: SavedSearchQuery;
+  alertFrequency?: AlertFrequency;
+}
+
+export type UpdateSavedSearchRequest = Partial<CreateSavedSearchRequest>;
+
+// One saved search in a new-matches email
+export interface SavedSearchDigestEntry {
+  name: string;
+  total: number; // New matches, including ones not listed
+  listings: Array<{ title: string; city: string }>;
+}
+
+export interface SavedSearchAlertRun {
+  searchesChecked: number;
+  emailsSent: number;
+  listingsNotified: number;
+}
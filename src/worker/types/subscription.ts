@@ -38,13 +38,60 @@ export interface CreateCheckoutSessionResponse {
   url: string;
 }
 
+export type SubscriptionStatus = UserSubscription['status'];
+
 export interface SubscriptionWebhookEvent {
+  id: string;
   type: string;
+  created: number; // unix seconds
   data: {
     object: any;
   };
 }
 
+// Subset of the Stripe Subscription object used by the webhook handler
+export interface StripeSubscriptionObject {
+  id: string;
+  customer: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  metadata?: { userId?: string; planId?: string };
+  items?: {
+    data: Array<{ price?: { id: string } }>;
+  };
+}
+
+// Subset of the Stripe Invoice object used by the webhook handler
+export interface StripeInvoiceObject {
+  id: string;
+  customer: string;
+  subscription: string | null;
+  lines?: {
+    data: Array<{ period?: { start: number; end: number } }>;
+  };
+}
+
+export interface WebhookResult {
+  processed: boolean;
+  duplicate?: boolean;
+  userId?: string;
+}
+
+// Listings created in the rolling window versus the user's allowance (-1 = unlimited)
+export interface ListingQuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  periodDays: number;
+  resetsAt: string | null;
+  planId: string;
+  upgradePlanId: string | null;
+}
+
+export const LISTING_QUOTA_PERIOD_DAYS = 30;
+
 export const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
   {
     id: 'free',
@@ -112,6 +159,10 @@ export const getPlanById = (planId: string): SubscriptionPlan | undefined => {
   return SUBSCRIPTION_PLANS.find(plan => plan.id === planId);
 };
 
+export const getPlanByStripePriceId = (priceId: string): SubscriptionPlan | undefined => {
+  return SUBSCRIPTION_PLANS.find(plan => plan.stripePriceId === priceId);
+};
+
 export const formatPrice = (price: number, currency: string = 'eur'): string => {
   return new Intl.NumberFormat('en-EU', {
     style: 'currency',
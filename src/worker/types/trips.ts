@@ -0,0 +1,55 @@
+import { OpeningStatus } from './listings';
+
+export interface TripPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TripRequest {
+  start: TripPoint;
+  // Either listings picked from the user's favorites or one of their collections
+  listingIds?: string[];
+  collectionId?: string;
+  departAt: string;
+  roundTrip: boolean; // Come back to the start after the last stop
+  speedKmh: number; // Average travel speed for the arrival estimates
+  stopMinutes: number; // Time spent at each stop
+}
+
+export type TripWarningType = 'closed' | 'closesDuringVisit';
+
+export interface TripWarning {
+  type: TripWarningType;
+  // When the stop opens ('closed') or closes ('closesDuringVisit'); unset if not within a week
+  at?: string;
+}
+
+export interface TripStop extends TripPoint {
+  listingId: string;
+  title: string;
+  address: string;
+  distanceKm: number; // Straight-line distance from the previous stop or the start
+  arrivalAt: string;
+  departureAt: string;
+  openingStatus?: OpeningStatus; // At arrival; unset when the listing has no opening hours
+  warning?: TripWarning;
+}
+
+export interface TripDirections {
+  // Google Maps takes a limited number of waypoints, so long trips are split into several links
+  google: string[];
+  osm: string;
+}
+
+export interface TripPlan {
+  start: TripPoint;
+  stops: TripStop[];
+  roundTrip: boolean;
+  returnDistanceKm?: number; // Last stop back to the start, for round trips
+  totalDistanceKm: number;
+  departAt: string;
+  finishAt: string; // Leaving the last stop, or back at the start for round trips
+  directions: TripDirections;
+  // Requested listings left out: not found, not active or without coordinates
+  skippedListingIds: string[];
+}